@@ -0,0 +1,405 @@
+/**
+ * refrepo baseline - Inspect, compare and restore saved index baselines
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { safeLoadManifest, getRepoStore, getReposByStore } from '../../core/manifest.js';
+import {
+  compareToBaseline,
+  filterBaseline,
+  listBaselineHistory,
+  loadBaseline,
+  loadBaselineSnapshot,
+  pruneBaselineHistory,
+  restoreBaseline,
+  type Baseline,
+  type BaselineDiff,
+  type BaselineHistoryEntry,
+} from '../../core/baseline.js';
+import { formatBytes } from '../../core/plan.js';
+import { StoreNameSchema } from '../../core/schema.js';
+import { DEFAULT_BASELINE_HISTORY_LIMIT } from '../../core/constants.js';
+import { createLogger, printJson } from '../output.js';
+import type { CommandResult, Manifest } from '../../core/types.js';
+
+interface BaselineOptions {
+  json?: boolean;
+  store?: string;
+  repo?: string;
+  files?: boolean;
+  keep?: string;
+  dryRun?: boolean;
+}
+
+interface StoreHistory {
+  store: string;
+  /** Snapshot id of the current baseline, if it is in history */
+  current?: string;
+  snapshots: BaselineHistoryEntry[];
+}
+
+interface BaselineShowResult {
+  id: string;
+  store: string;
+  timestamp: string;
+  fileCount: number;
+  /** Total bytes (hashed baselines only) */
+  totalBytes?: number;
+  repos: Array<{ localDir: string; fileCount: number; commit?: string }>;
+  files?: string[];
+}
+
+interface BaselineDiffResult extends BaselineDiff {
+  store: string;
+  from: { id: string; timestamp: string; fileCount: number };
+  to: { id: string; timestamp: string; fileCount: number };
+  commits: Array<{ repoId: string; from?: string; to?: string }>;
+}
+
+interface BaselineRestoreResult {
+  store: string;
+  restored: BaselineHistoryEntry;
+}
+
+interface BaselinePruneResult {
+  store: string;
+  keep: number;
+  dryRun: boolean;
+  pruned: BaselineHistoryEntry[];
+}
+
+type Scope = { manifest: Manifest; store: string; storeKey?: string; repo?: Manifest['repos'][number] };
+
+export function createBaselineCommand(): Command {
+  const cmd = new Command('baseline')
+    .description('Inspect, compare and restore index baselines');
+
+  cmd.command('list')
+    .description('List saved baselines per store (newest first)')
+    .option('--json', 'Output as JSON')
+    .option('--store <name>', 'Only this mgrep store')
+    .action((options: BaselineOptions) => {
+      handleResult(runBaselineList(options), options, printBaselineList);
+    });
+
+  cmd.command('show <ref>')
+    .description('Show a saved baseline (id, id prefix, latest or ~N)')
+    .option('--json', 'Output as JSON')
+    .option('--store <name>', 'mgrep store (default: manifest defaultStore)')
+    .option('--repo <id>', 'Only files from this repo')
+    .option('--files', 'List every file')
+    .action((ref: string, options: BaselineOptions) => {
+      handleResult(runBaselineShow(ref, options), options, printBaselineShow);
+    });
+
+  cmd.command('diff <a> <b>')
+    .description('Compare two saved baselines')
+    .option('--json', 'Output as JSON')
+    .option('--store <name>', 'mgrep store (default: manifest defaultStore)')
+    .option('--repo <id>', 'Only files from this repo')
+    .action((a: string, b: string, options: BaselineOptions) => {
+      handleResult(runBaselineDiff(a, b, options), options, printBaselineDiff);
+    });
+
+  cmd.command('restore <ref>')
+    .description('Make a saved baseline the current one for plan comparisons')
+    .option('--json', 'Output as JSON')
+    .option('--store <name>', 'mgrep store (default: manifest defaultStore)')
+    .action((ref: string, options: BaselineOptions) => {
+      handleResult(runBaselineRestore(ref, options), options, (data) => {
+        console.log(
+          chalk.green('✓ Restored baseline ') + chalk.cyan(data.restored.id) + chalk.dim(` (store: ${data.store})`)
+        );
+        console.log(chalk.dim(`  ${data.restored.fileCount.toLocaleString()} files, indexed ${formatDate(data.restored.timestamp)}`));
+        console.log(chalk.dim('  Run `refrepo plan` to compare against it'));
+      });
+    });
+
+  cmd.command('prune')
+    .description('Delete all but the newest saved baselines of a store')
+    .option('--json', 'Output as JSON')
+    .option('--store <name>', 'mgrep store (default: manifest defaultStore)')
+    .option('--keep <n>', 'Snapshots to keep', String(DEFAULT_BASELINE_HISTORY_LIMIT))
+    .option('--dry-run', 'Show what would be deleted')
+    .action((options: BaselineOptions) => {
+      handleResult(runBaselinePrune(options), options, (data) => {
+        const verb = data.dryRun ? 'Would delete' : 'Deleted';
+        console.log(
+          chalk.green(`✓ ${verb} ${data.pruned.length} baseline(s)`) + chalk.dim(` (store: ${data.store}, keeping ${data.keep})`)
+        );
+        for (const entry of data.pruned) {
+          console.log(chalk.dim(`  ${entry.id}`));
+        }
+      });
+    });
+
+  return cmd;
+}
+
+function handleResult<T>(result: CommandResult<T>, options: BaselineOptions, print: (data: T) => void): void {
+  const jsonMode = options.json === true;
+  const logger = createLogger({ jsonMode });
+
+  if (jsonMode) {
+    printJson(result);
+    if (!result.success) {
+      process.exitCode = 1;
+    }
+  } else if (result.success && result.data) {
+    print(result.data);
+  } else {
+    logger.error('Error: ' + result.error);
+    process.exitCode = 1;
+  }
+}
+
+function formatDate(timestamp: string): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+/**
+ * Resolve manifest, store and optional repo filter from options
+ * --repo implies that repo's store unless --store is given
+ */
+function resolveScope(options: BaselineOptions): CommandResult<Scope> {
+  const manifestResult = safeLoadManifest();
+  if (!manifestResult.success || !manifestResult.data) {
+    return {
+      success: false,
+      error: manifestResult.error || 'Failed to load manifest',
+    };
+  }
+
+  const manifest = manifestResult.data;
+  if (options.store && !StoreNameSchema.safeParse(options.store).success) {
+    return { success: false, error: `Invalid store name: ${options.store}` };
+  }
+
+  const repo = options.repo ? manifest.repos.find((r) => r.id === options.repo) : undefined;
+  if (options.repo && !repo) {
+    return { success: false, error: `Unknown repo: ${options.repo}` };
+  }
+
+  const store = options.store || (repo ? getRepoStore(manifest, repo) : manifest.defaultStore);
+  return {
+    success: true,
+    data: { manifest, store, storeKey: store === manifest.defaultStore ? undefined : store, repo },
+  };
+}
+
+function runBaselineList(options: BaselineOptions): CommandResult<StoreHistory[]> {
+  const scope = resolveScope(options);
+  if (!scope.success || !scope.data) {
+    return { success: false, error: scope.error };
+  }
+
+  const { manifest } = scope.data;
+  const stores = options.store ? [options.store] : [...new Set([...getReposByStore(manifest).keys(), manifest.defaultStore])];
+
+  return {
+    success: true,
+    data: stores.map((store) => {
+      const storeKey = store === manifest.defaultStore ? undefined : store;
+      const snapshots = listBaselineHistory(storeKey);
+      const current = loadBaseline(storeKey);
+      return {
+        store,
+        current: snapshots.find((s) => current && s.timestamp === current.timestamp)?.id,
+        snapshots,
+      };
+    }),
+  };
+}
+
+function printBaselineList(data: StoreHistory[]): void {
+  console.log(chalk.bold('Baseline History'));
+
+  for (const { store, current, snapshots } of data) {
+    console.log('');
+    console.log(chalk.bold(store));
+
+    if (snapshots.length === 0) {
+      console.log(chalk.dim('  No saved baselines - run `refrepo index` to create one'));
+      continue;
+    }
+
+    for (const snapshot of snapshots) {
+      const marker = snapshot.id === current ? chalk.green('*') : ' ';
+      console.log(
+        `  ${marker} ${snapshot.id.padEnd(28)} ` +
+        chalk.dim(`${snapshot.fileCount.toLocaleString().padStart(8)} files  ${formatDate(snapshot.timestamp)}`)
+      );
+    }
+  }
+
+  console.log('');
+  console.log(chalk.dim('  * current baseline used by `refrepo plan`'));
+}
+
+function applyRepoFilter(baseline: Baseline, scope: Scope): Baseline {
+  return scope.repo ? filterBaseline(baseline, scope.repo) : baseline;
+}
+
+function runBaselineShow(ref: string, options: BaselineOptions): CommandResult<BaselineShowResult> {
+  const scope = resolveScope(options);
+  if (!scope.success || !scope.data) {
+    return { success: false, error: scope.error };
+  }
+
+  try {
+    const snapshot = loadBaselineSnapshot(ref, scope.data.storeKey);
+    const baseline = applyRepoFilter(snapshot, scope.data);
+
+    // Group files by repo directory (first path component)
+    const counts = new Map<string, number>();
+    for (const file of baseline.files) {
+      const localDir = file.split('/')[0];
+      counts.set(localDir, (counts.get(localDir) ?? 0) + 1);
+    }
+
+    const repos = [...counts.entries()].map(([localDir, fileCount]) => {
+      const repo = scope.data!.manifest.repos.find((r) => r.localDir === localDir);
+      return { localDir, fileCount, commit: repo ? baseline.commits?.[repo.id] : undefined };
+    });
+
+    return {
+      success: true,
+      data: {
+        id: snapshot.id,
+        store: scope.data.store,
+        timestamp: baseline.timestamp,
+        fileCount: baseline.fileCount,
+        totalBytes: baseline.entries
+          ? Object.values(baseline.entries).reduce((sum, e) => sum + e.size, 0)
+          : undefined,
+        repos,
+        ...(options.files ? { files: baseline.files } : {}),
+      },
+    };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function printBaselineShow(data: BaselineShowResult): void {
+  console.log(chalk.bold('Baseline ') + chalk.cyan(data.id));
+  console.log(chalk.dim(`  Store: ${data.store}`));
+  console.log(chalk.dim(`  Indexed: ${formatDate(data.timestamp)}`));
+  console.log('');
+  console.log(`  Files:       ${data.fileCount.toLocaleString()}`);
+  if (data.totalBytes !== undefined) {
+    console.log(`  Total Size:  ${formatBytes(data.totalBytes)}`);
+  }
+
+  console.log('');
+  for (const repo of data.repos) {
+    const commit = repo.commit ? chalk.dim(` @ ${repo.commit.slice(0, 12)}`) : '';
+    console.log(`  ${repo.localDir.padEnd(35)} ${repo.fileCount.toLocaleString().padStart(8)} files${commit}`);
+  }
+
+  if (data.files) {
+    console.log('');
+    for (const file of data.files) {
+      console.log(chalk.dim(`    ${file}`));
+    }
+  }
+}
+
+function runBaselineDiff(a: string, b: string, options: BaselineOptions): CommandResult<BaselineDiffResult> {
+  const scope = resolveScope(options);
+  if (!scope.success || !scope.data) {
+    return { success: false, error: scope.error };
+  }
+
+  try {
+    const fromSnapshot = loadBaselineSnapshot(a, scope.data.storeKey);
+    const toSnapshot = loadBaselineSnapshot(b, scope.data.storeKey);
+    const from = applyRepoFilter(fromSnapshot, scope.data);
+    const to = applyRepoFilter(toSnapshot, scope.data);
+
+    const diff = compareToBaseline(to.files, from, to.entries);
+
+    const repoIds = [...new Set([...Object.keys(from.commits ?? {}), ...Object.keys(to.commits ?? {})])].sort();
+    const commits = repoIds
+      .map((repoId) => ({ repoId, from: from.commits?.[repoId], to: to.commits?.[repoId] }))
+      .filter((c) => c.from !== c.to);
+
+    return {
+      success: true,
+      data: {
+        store: scope.data.store,
+        from: { id: fromSnapshot.id, timestamp: from.timestamp, fileCount: from.fileCount },
+        to: { id: toSnapshot.id, timestamp: to.timestamp, fileCount: to.fileCount },
+        ...diff,
+        commits,
+      },
+    };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function printBaselineDiff(data: BaselineDiffResult): void {
+  console.log(chalk.bold('Baseline Diff') + chalk.dim(` (store: ${data.store})`));
+  console.log(chalk.dim(`  ${data.from.id} (${data.from.fileCount.toLocaleString()} files)`));
+  console.log(chalk.dim(`  → ${data.to.id} (${data.to.fileCount.toLocaleString()} files)`));
+
+  if (data.commits.length > 0) {
+    console.log('');
+    console.log(chalk.bold('  Commits'));
+    for (const c of data.commits) {
+      console.log(`    ${c.repoId.padEnd(35)} ${(c.from ?? '-').slice(0, 12)} → ${(c.to ?? '-').slice(0, 12)}`);
+    }
+  }
+
+  const sections = [
+    { icon: '+', label: 'new', files: data.newFiles, color: chalk.green },
+    { icon: '-', label: 'removed', files: data.removedFiles, color: chalk.red },
+    { icon: '~', label: 'modified', files: data.modifiedFiles, color: chalk.yellow },
+    { icon: '→', label: 'renamed', files: data.renamedFiles.map((r) => `${r.from} → ${r.to}`), color: chalk.cyan },
+  ].filter((section) => section.files.length > 0);
+
+  if (sections.length === 0) {
+    console.log('');
+    console.log(chalk.dim('  No file changes'));
+    return;
+  }
+
+  for (const { icon, label, files, color } of sections) {
+    console.log('');
+    console.log(color(`  ${icon} ${files.length} ${label} file${files.length === 1 ? '' : 's'}:`));
+    for (const file of files) {
+      console.log(color(`    ${file}`));
+    }
+  }
+}
+
+function runBaselineRestore(ref: string, options: BaselineOptions): CommandResult<BaselineRestoreResult> {
+  const scope = resolveScope(options);
+  if (!scope.success || !scope.data) {
+    return { success: false, error: scope.error };
+  }
+
+  try {
+    const restored = restoreBaseline(ref, scope.data.storeKey);
+    return { success: true, data: { store: scope.data.store, restored } };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function runBaselinePrune(options: BaselineOptions): CommandResult<BaselinePruneResult> {
+  const scope = resolveScope(options);
+  if (!scope.success || !scope.data) {
+    return { success: false, error: scope.error };
+  }
+
+  const keep = parseInt(options.keep || String(DEFAULT_BASELINE_HISTORY_LIMIT), 10);
+  if (!Number.isInteger(keep) || keep < 1) {
+    return { success: false, error: `Invalid --keep: ${options.keep}` };
+  }
+
+  const pruned = pruneBaselineHistory(keep, scope.data.storeKey, { dryRun: options.dryRun });
+  return { success: true, data: { store: scope.data.store, keep, dryRun: options.dryRun === true, pruned } };
+}
@@ -0,0 +1,111 @@
+/**
+ * refrepo explain - Show which rule includes or excludes a path
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { safeLoadManifest } from '../../core/manifest.js';
+import { explainPath, resolveExplainPath, type ExplainResult, type RuleMatch, type RuleOrigin } from '../../core/explain.js';
+import { formatBytes } from '../../core/plan.js';
+import { createLogger, printJson } from '../output.js';
+import type { CommandResult } from '../../core/types.js';
+
+interface ExplainOptions {
+  json?: boolean;
+  generated?: boolean;
+}
+
+const ORIGIN_LABELS: Record<RuleOrigin, string> = {
+  global: 'global rule',
+  repo: 'repo rule',
+  manifest: 'manifest ignore config',
+  custom: 'custom ignore',
+  store: 'store scope',
+  gitignore: '.gitignore',
+  mgrepignore: '.mgrepignore',
+  hidden: 'hidden path',
+  size: 'size limit',
+  none: 'no rule',
+};
+
+export function createExplainCommand(): Command {
+  return new Command('explain')
+    .description('Show which rule includes or excludes a path (root-relative or absolute)')
+    .argument('<path>', 'File or directory to explain')
+    .option('--json', 'Output as JSON')
+    .option('--generated', 'Evaluate the .mgrepignore `refrepo index` would generate instead of the file on disk')
+    .action((target: string, options: ExplainOptions) => {
+      const jsonMode = options.json === true;
+      const logger = createLogger({ jsonMode });
+      const result = runExplain(target, options);
+
+      if (jsonMode) {
+        printJson(result);
+        if (!result.success) {
+          process.exitCode = 1;
+        }
+      } else if (result.success && result.data) {
+        printExplainResult(result.data);
+      } else {
+        logger.error('Error: ' + result.error);
+        process.exitCode = 1;
+      }
+    });
+}
+
+function runExplain(target: string, options: ExplainOptions): CommandResult<ExplainResult> {
+  const manifestResult = safeLoadManifest();
+  if (!manifestResult.success || !manifestResult.data) {
+    return {
+      success: false,
+      error: manifestResult.error || 'Failed to load manifest',
+    };
+  }
+
+  const manifest = manifestResult.data;
+
+  try {
+    const relativePath = resolveExplainPath(target, manifest.defaultRoot);
+    const data = explainPath(manifest, relativePath, {
+      ignoreSource: options.generated ? 'generated' : 'disk',
+    });
+    return { success: true, data };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function formatRule(rule: RuleMatch): string {
+  return `${chalk.cyan(rule.pattern)}  ${chalk.dim(`${rule.file}:${rule.line}`)}`;
+}
+
+function printExplainResult(data: ExplainResult): void {
+  console.log(chalk.bold(data.path) + (data.exists ? '' : chalk.yellow(' (does not exist)')));
+
+  const verdict = data.included ? chalk.green('✓ Included') : chalk.red('✗ Excluded');
+  const reason = data.included && !data.rule ? chalk.dim('(no rule matched)') : `by ${ORIGIN_LABELS[data.origin]}`;
+  console.log(`  ${verdict} ${reason}`);
+  console.log('');
+
+  if (data.excludedDirectory) {
+    console.log(`  Directory: ${data.excludedDirectory}/ ${chalk.dim('(the walk never descends into it)')}`);
+  }
+  if (data.origin === 'hidden') {
+    console.log(`  Hidden:    ${data.hiddenSegment} ${chalk.dim('(mgrep skips names starting with ".")')}`);
+  }
+  if (data.origin === 'size') {
+    console.log(`  Size:      ${formatBytes(data.bytes!)} > ${formatBytes(data.maxFileSizeBytes)} max`);
+  }
+  if (data.rule) {
+    console.log(`  Rule:      ${formatRule(data.rule)}`);
+    if (data.rule.section) {
+      console.log(chalk.dim(`  Section:   ${data.rule.section}`));
+    }
+  }
+  if (data.overriddenRule) {
+    console.log(`  Overrides: ${formatRule(data.overriddenRule)} ${chalk.dim(`(${ORIGIN_LABELS[data.overriddenRule.origin]})`)}`);
+  }
+}
@@ -1,18 +1,68 @@
 /**
- * refrepo ignore - Build .mgrepignore files
+ * refrepo ignore - Build .mgrepignore files and manage ignore rules
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { safeLoadManifest } from '../../core/manifest.js';
+import {
+  getCustomIgnorePattern,
+  removeCustomIgnores,
+  safeLoadManifest,
+  undoLastCustomIgnores,
+} from '../../core/manifest.js';
 import { writeIgnoreFiles, type IgnoreBuildSummary } from '../../core/ignore.js';
+import { exportBuiltInRules, formatRuleFile, getRulesDir } from '../../core/repo-rules.js';
+import { lintIgnoreRules, type IgnoreLintSummary, type LintIssue } from '../../core/ignore-lint.js';
+import { diffIgnoreFiles, type FileDelta, type IgnoreDiffSummary } from '../../core/ignore-diff.js';
+import { formatBytes } from '../../core/plan.js';
 import { createLogger, printJson } from '../output.js';
-import type { CommandResult } from '../../core/types.js';
+import type { CommandResult, CustomIgnoreEntry } from '../../core/types.js';
 
 interface IgnoreBuildOptions {
   json?: boolean;
   dryRun?: boolean;
   global?: boolean;
+  store?: string;
+}
+
+interface IgnoreExportOptions {
+  json?: boolean;
+  dryRun?: boolean;
+  force?: boolean;
+  repo?: string;
+  out?: string;
+}
+
+interface IgnoreLintOptions {
+  json?: boolean;
+  repo?: string;
+  verbose?: boolean;
+}
+
+interface IgnoreDiffOptions {
+  json?: boolean;
+  global?: boolean;
+  store?: string;
+  limit?: string;
+}
+
+interface IgnoreCustomOptions {
+  json?: boolean;
+  dryRun?: boolean;
+}
+
+interface IgnoreCustomResult {
+  /** Entries removed (or listed) */
+  entries: Array<string | CustomIgnoreEntry>;
+  dryRun: boolean;
+  regenerated: boolean;
+}
+
+interface IgnoreExportResult {
+  rulesDir: string;
+  files: Array<{ repoId: string; path: string; action: 'written' | 'skipped' | 'would write' }>;
 }
 
 export function createIgnoreCommand(): Command {
@@ -24,6 +74,7 @@ export function createIgnoreCommand(): Command {
     .option('--json', 'Output as JSON')
     .option('--dry-run', 'Preview without writing files')
     .option('--global', 'Use global mode (single file at root)')
+    .option('--store <name>', 'Global mode: scope the file to repos in this mgrep store')
     .action(async (options: IgnoreBuildOptions) => {
       const jsonMode = options.json === true;
       const logger = createLogger({ jsonMode });
@@ -42,9 +93,378 @@ export function createIgnoreCommand(): Command {
       }
     });
 
+  cmd.command('export')
+    .description('Export built-in repo-specific rules to rules/<repo-id>.yaml files')
+    .option('--json', 'Output as JSON')
+    .option('--dry-run', 'Preview without writing files')
+    .option('--force', 'Overwrite existing rule files')
+    .option('--repo <id>', 'Export a single repo')
+    .option('--out <dir>', 'Output directory (default: rules/ next to manifest)')
+    .action(async (options: IgnoreExportOptions) => {
+      const jsonMode = options.json === true;
+      const logger = createLogger({ jsonMode });
+      const result = runIgnoreExport(options);
+
+      if (jsonMode) {
+        printJson(result);
+        if (!result.success) {
+          process.exitCode = 1;
+        }
+      } else if (result.success && result.data) {
+        printIgnoreExportResult(result.data);
+      } else {
+        logger.error('Error: ' + result.error);
+        process.exitCode = 1;
+      }
+    });
+
+  cmd.command('diff')
+    .description('Preview ignore build: diff against the files on disk and the change in indexed files')
+    .option('--json', 'Output as JSON')
+    .option('--global', 'Compare the global file (single file at root)')
+    .option('--store <name>', 'Global mode: scope the file to repos in this mgrep store')
+    .option('--limit <n>', 'Max files to list per direction', '50')
+    .action(async (options: IgnoreDiffOptions) => {
+      const jsonMode = options.json === true;
+      const logger = createLogger({ jsonMode });
+      const result = await runIgnoreDiff(options);
+
+      if (jsonMode) {
+        printJson(result);
+        if (!result.success) {
+          process.exitCode = 1;
+        }
+      } else if (result.success && result.data) {
+        printIgnoreDiffResult(result.data, parseInt(options.limit || '50', 10));
+      } else {
+        logger.error('Error: ' + result.error);
+        process.exitCode = 1;
+      }
+    });
+
+  cmd.command('lint')
+    .description('Report dead, shadowed, duplicate and malformed ignore rules')
+    .option('--json', 'Output as JSON')
+    .option('--repo <id>', 'Lint a single repo')
+    .option('--verbose', 'Also list informational issues (duplicates, unused global rules)')
+    .action(async (options: IgnoreLintOptions) => {
+      const jsonMode = options.json === true;
+      const logger = createLogger({ jsonMode });
+      const result = await runIgnoreLint(options);
+      const hasErrors = result.data?.issues.some((i) => i.severity === 'error') ?? false;
+
+      if (jsonMode) {
+        printJson(result);
+        if (!result.success || hasErrors) {
+          process.exitCode = 1;
+        }
+      } else if (result.success && result.data) {
+        printIgnoreLintResult(result.data, options);
+        if (hasErrors) {
+          process.exitCode = 1;
+        }
+      } else {
+        logger.error('Error: ' + result.error);
+        process.exitCode = 1;
+      }
+    });
+
+  const custom = cmd.command('custom')
+    .description('List, remove and undo customIgnores patterns');
+
+  custom.command('list')
+    .description('List customIgnores with where each pattern came from')
+    .option('--json', 'Output as JSON')
+    .action((options: IgnoreCustomOptions) => {
+      runCustomAction(options, runCustomList, (data) => printCustomEntries(data.entries));
+    });
+
+  custom.command('remove <patterns...>')
+    .description('Remove patterns from customIgnores and regenerate .mgrepignore')
+    .option('--json', 'Output as JSON')
+    .option('--dry-run', 'Show what would be removed')
+    .action((patterns: string[], options: IgnoreCustomOptions) => {
+      runCustomAction(options, () => runCustomRemove(patterns, options), printCustomRemoved);
+    });
+
+  custom.command('undo-last')
+    .description('Remove the customIgnores added by the most recent suggest or tune write')
+    .option('--json', 'Output as JSON')
+    .option('--dry-run', 'Show what would be removed')
+    .action((options: IgnoreCustomOptions) => {
+      runCustomAction(options, () => runCustomUndo(options), printCustomRemoved);
+    });
+
   return cmd;
 }
 
+function runCustomAction(
+  options: IgnoreCustomOptions,
+  run: () => CommandResult<IgnoreCustomResult>,
+  print: (data: IgnoreCustomResult) => void
+): void {
+  const jsonMode = options.json === true;
+  const logger = createLogger({ jsonMode });
+  const result = run();
+
+  if (jsonMode) {
+    printJson(result);
+    if (!result.success) {
+      process.exitCode = 1;
+    }
+  } else if (result.success && result.data) {
+    print(result.data);
+  } else {
+    logger.error('Error: ' + result.error);
+    process.exitCode = 1;
+  }
+}
+
+function runCustomList(): CommandResult<IgnoreCustomResult> {
+  const manifestResult = safeLoadManifest();
+  if (!manifestResult.success || !manifestResult.data) {
+    return {
+      success: false,
+      error: manifestResult.error || 'Failed to load manifest',
+    };
+  }
+
+  return {
+    success: true,
+    data: { entries: manifestResult.data.customIgnores ?? [], dryRun: false, regenerated: false },
+  };
+}
+
+function runCustomRemove(patterns: string[], options: IgnoreCustomOptions): CommandResult<IgnoreCustomResult> {
+  if (options.dryRun) {
+    const list = runCustomList();
+    if (!list.success || !list.data) {
+      return list;
+    }
+    const existing = list.data.entries.map(getCustomIgnorePattern);
+    const missing = patterns.filter((p) => !existing.includes(p));
+    if (missing.length > 0) {
+      return { success: false, error: `Not in customIgnores: ${missing.join(', ')}` };
+    }
+    return {
+      success: true,
+      data: { entries: list.data.entries.filter((e) => patterns.includes(getCustomIgnorePattern(e))), dryRun: true, regenerated: false },
+    };
+  }
+
+  const result = removeCustomIgnores(patterns);
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+  return { success: true, data: { entries: result.removed, dryRun: false, regenerated: regenerateIgnoreFiles() } };
+}
+
+function runCustomUndo(options: IgnoreCustomOptions): CommandResult<IgnoreCustomResult> {
+  const result = undoLastCustomIgnores(undefined, { dryRun: options.dryRun });
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+  const dryRun = options.dryRun === true;
+  return { success: true, data: { entries: result.removed, dryRun, regenerated: !dryRun && regenerateIgnoreFiles() } };
+}
+
+/**
+ * Rewrite the global .mgrepignore after customIgnores changed (as suggest does)
+ */
+function regenerateIgnoreFiles(): boolean {
+  const updated = safeLoadManifest();
+  if (!updated.success || !updated.data) {
+    return false;
+  }
+  writeIgnoreFiles(updated.data, { global: true });
+  return true;
+}
+
+function printCustomEntries(entries: Array<string | CustomIgnoreEntry>): void {
+  if (entries.length === 0) {
+    console.log(chalk.dim('No customIgnores.'));
+    return;
+  }
+
+  for (const entry of entries) {
+    if (typeof entry === 'string') {
+      console.log(`  ${chalk.yellow(entry)} ${chalk.dim('(no provenance)')}`);
+      continue;
+    }
+
+    const origin = [
+      entry.source,
+      entry.addedBy,
+      entry.addedAt ? new Date(entry.addedAt).toLocaleString() : undefined,
+      entry.fileCount !== undefined ? `${entry.fileCount} file(s)` : undefined,
+    ].filter(Boolean);
+    console.log(`  ${chalk.yellow(entry.pattern)} ${chalk.dim(`(${origin.join(', ')})`)}`);
+    if (entry.reason) {
+      console.log(chalk.dim(`    ${entry.reason}`));
+    }
+  }
+}
+
+function printCustomRemoved(data: IgnoreCustomResult): void {
+  console.log(chalk.bold(data.dryRun ? 'Would remove:' : 'Removed:'));
+  printCustomEntries(data.entries);
+  if (data.regenerated) {
+    console.log(chalk.green('✓ Regenerated .mgrepignore'));
+  }
+}
+
+async function runIgnoreDiff(options: IgnoreDiffOptions): Promise<CommandResult<IgnoreDiffSummary>> {
+  const manifestResult = safeLoadManifest();
+  if (!manifestResult.success || !manifestResult.data) {
+    return {
+      success: false,
+      error: manifestResult.error || 'Failed to load manifest',
+    };
+  }
+
+  try {
+    return {
+      success: true,
+      data: await diffIgnoreFiles(manifestResult.data, { global: options.global, store: options.store }),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function printDiffText(diff: string): void {
+  for (const line of diff.replace(/\n$/, '').split('\n')) {
+    if (line.startsWith('+++') || line.startsWith('---')) {
+      console.log(chalk.bold(line));
+    } else if (line.startsWith('@@')) {
+      console.log(chalk.cyan(line));
+    } else if (line.startsWith('+')) {
+      console.log(chalk.green(line));
+    } else if (line.startsWith('-')) {
+      console.log(chalk.red(line));
+    } else {
+      console.log(chalk.dim(line));
+    }
+  }
+}
+
+function printFileDelta(label: string, files: FileDelta[], bytes: number, color: typeof chalk, limit: number): void {
+  if (files.length === 0) return;
+
+  console.log('');
+  console.log(color(`${label}: ${files.length.toLocaleString()} files (${formatBytes(bytes)})`));
+  for (const file of files.slice(0, limit)) {
+    console.log(`  ${file.path} ${chalk.dim(formatBytes(file.bytes))}`);
+  }
+  if (files.length > limit) {
+    console.log(chalk.dim(`  ... and ${files.length - limit} more (use --limit or --json)`));
+  }
+}
+
+function printIgnoreDiffResult(data: IgnoreDiffSummary, limit: number): void {
+  console.log(chalk.bold('Ignore Diff') + chalk.dim(` (${data.mode === 'global' ? 'global file' : 'per-repo files'})`));
+  console.log('');
+
+  const changed = data.files.filter((f) => f.status !== 'unchanged');
+  for (const file of changed) {
+    printDiffText(file.diff);
+    console.log('');
+  }
+
+  const unchanged = data.files.length - changed.length;
+  console.log(`  ${changed.length} file(s) would change, ${unchanged} unchanged`);
+
+  if (data.included.length === 0 && data.excluded.length === 0) {
+    console.log(chalk.dim('  No change in indexed files'));
+    return;
+  }
+
+  printFileDelta('Newly included', data.included, data.includedBytes, chalk.green, limit);
+  printFileDelta('Newly excluded', data.excluded, data.excludedBytes, chalk.red, limit);
+  console.log('');
+  console.log(chalk.dim('Run `refrepo ignore build' + (data.mode === 'global' ? ' --global' : '') + '` to write the files'));
+}
+
+async function runIgnoreLint(options: IgnoreLintOptions): Promise<CommandResult<IgnoreLintSummary>> {
+  const manifestResult = safeLoadManifest();
+  if (!manifestResult.success || !manifestResult.data) {
+    return {
+      success: false,
+      error: manifestResult.error || 'Failed to load manifest',
+    };
+  }
+
+  try {
+    return {
+      success: true,
+      data: await lintIgnoreRules(manifestResult.data, { repoId: options.repo }),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function printLintIssue(issue: LintIssue): void {
+  const icon =
+    issue.severity === 'error' ? chalk.red('✗') : issue.severity === 'warning' ? chalk.yellow('⚠') : chalk.dim('○');
+  console.log(`  ${icon} ${chalk.cyan(issue.pattern)} ${chalk.dim(`[${issue.tier}]`)}`);
+  console.log(chalk.dim(`      ${issue.message}`));
+}
+
+function printIgnoreLintResult(data: IgnoreLintSummary, options: IgnoreLintOptions): void {
+  console.log(chalk.bold('Ignore Rule Lint'));
+  console.log('');
+
+  const shown = data.issues.filter((i) => options.verbose || i.severity !== 'info');
+
+  // Manifest-wide issues first, then per repo
+  const general = shown.filter((i) => !i.repoId);
+  if (general.length > 0) {
+    console.log(chalk.bold('All repos'));
+    general.forEach(printLintIssue);
+    console.log('');
+  }
+
+  for (const repo of data.repos) {
+    const repoIssues = shown.filter((i) => i.repoId === repo.repoId);
+    if (repo.unreadable) {
+      console.log(chalk.yellow(`${repo.repoId}: could not read ${repo.unreadable.length} directories, e.g. ${repo.unreadable[0] || './'}`));
+    }
+    if (repo.skipped) {
+      console.log(`${chalk.bold(repo.repoId)} ${chalk.dim(`- skipped: ${repo.skipped}`)}`);
+      repoIssues.forEach(printLintIssue);
+      continue;
+    }
+    if (repoIssues.length === 0) {
+      console.log(`${chalk.bold(repo.repoId)} ${chalk.green('✓')} ${chalk.dim(`${repo.ruleCount} rules, ${repo.pathCount.toLocaleString()} paths`)}`);
+      continue;
+    }
+    console.log(`${chalk.bold(repo.repoId)} ${chalk.dim(`${repo.ruleCount} rules, ${repo.pathCount.toLocaleString()} paths`)}`);
+    repoIssues.forEach(printLintIssue);
+    console.log('');
+  }
+
+  const count = (kind: LintIssue['kind']) => shown.filter((i) => i.kind === kind).length;
+  console.log('');
+  console.log(chalk.bold('Summary'));
+  console.log(`  Invalid syntax:   ${count('invalid')}`);
+  console.log(`  Missing prefix:   ${count('missing-prefix')}`);
+  console.log(`  Dead rules:       ${count('dead')}`);
+  console.log(`  Shadowed rules:   ${count('shadowed')}`);
+  console.log(`  Duplicates:       ${count('duplicate')}`);
+
+  const hidden = data.issues.length - shown.length;
+  if (hidden > 0) {
+    console.log(chalk.dim(`  (${hidden} informational issue(s) hidden - use --verbose)`));
+  }
+}
+
 function printIgnoreBuildResult(data: IgnoreBuildSummary, options: IgnoreBuildOptions): void {
   const { mode, results, totalRules, filesWritten } = data;
 
@@ -100,6 +520,7 @@ async function runIgnoreBuild(
     const summary = writeIgnoreFiles(manifestResult.data, {
       dryRun: options.dryRun,
       global: options.global,
+      store: options.store,
     });
 
     return {
@@ -113,3 +534,63 @@ async function runIgnoreBuild(
     };
   }
 }
+
+function printIgnoreExportResult(data: IgnoreExportResult): void {
+  console.log(chalk.bold('Ignore Rules Export'));
+  console.log(chalk.dim('Rules dir: ' + data.rulesDir));
+  console.log('');
+
+  for (const file of data.files) {
+    const status =
+      file.action === 'written'
+        ? chalk.green('written')
+        : file.action === 'would write'
+          ? chalk.yellow('would write')
+          : chalk.dim('skipped (exists, use --force)');
+    console.log(`  ${file.repoId.padEnd(35)} ${status}`);
+  }
+
+  console.log('');
+  console.log(chalk.dim('Exported files use `merge: replace` and take precedence over built-in rules'));
+}
+
+function runIgnoreExport(options: IgnoreExportOptions): CommandResult<IgnoreExportResult> {
+  try {
+    const rules = exportBuiltInRules(options.repo);
+    if (options.repo && rules.length === 0) {
+      return {
+        success: false,
+        error: `No built-in rules for repo: ${options.repo}`,
+      };
+    }
+
+    const rulesDir = options.out ? path.resolve(options.out) : getRulesDir();
+    if (!options.dryRun && !fs.existsSync(rulesDir)) {
+      fs.mkdirSync(rulesDir, { recursive: true });
+    }
+
+    const files: IgnoreExportResult['files'] = [];
+    for (const rule of rules) {
+      const filePath = path.join(rulesDir, `${rule.id}.yaml`);
+
+      if (fs.existsSync(filePath) && !options.force) {
+        files.push({ repoId: rule.id, path: filePath, action: 'skipped' });
+      } else if (options.dryRun) {
+        files.push({ repoId: rule.id, path: filePath, action: 'would write' });
+      } else {
+        fs.writeFileSync(filePath, formatRuleFile(rule), 'utf-8');
+        files.push({ repoId: rule.id, path: filePath, action: 'written' });
+      }
+    }
+
+    return {
+      success: true,
+      data: { rulesDir, files },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
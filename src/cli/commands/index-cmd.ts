@@ -4,12 +4,14 @@
  */
 
 import { Command } from 'commander';
-import { spawn } from 'child_process';
 import chalk from 'chalk';
-import { safeLoadManifest } from '../../core/manifest.js';
-import { computePlan, formatBytes } from '../../core/plan.js';
-import { saveBaseline } from '../../core/baseline.js';
+import { safeLoadManifest, getReposByStore } from '../../core/manifest.js';
+import { computePlan, formatBytes, type PlanSummary } from '../../core/plan.js';
+import { loadBaseline, saveIndexedBaseline } from '../../core/baseline.js';
 import { writeIgnoreFiles } from '../../core/ignore.js';
+import { updateLockfile } from '../../core/lockfile.js';
+import { createMgrepClient, type MgrepEvent, type MgrepSyncResult } from '../../core/mgrep.js';
+import { checkMaxDeletes, diffIndexUpload, formatDiffCounts, type IndexDiff } from '../../core/index-diff.js';
 import { createLogger, printJson, type Logger } from '../output.js';
 import type { CommandResult } from '../../core/types.js';
 
@@ -19,6 +21,21 @@ interface IndexOptions {
   dryRun?: boolean;
   force?: boolean;
   timeoutSeconds?: number;
+  store?: string;
+  maxDeletes?: string;
+  limit?: string;
+}
+
+interface StoreIndexResult {
+  store: string;
+  filesFound: number;
+  filesUploaded: number;
+  filesDeleted: number;
+  dryRun: boolean;
+  repoCount: number;
+  duration: number;
+  /** Exact paths to upload and delete (dry run) */
+  diff?: IndexDiff;
 }
 
 interface IndexResult {
@@ -26,8 +43,12 @@ interface IndexResult {
   filesUploaded: number;
   filesDeleted: number;
   dryRun: boolean;
+  /** Indexed store names (comma-separated) */
   store: string;
   duration: number;
+  stores: StoreIndexResult[];
+  /** Lockfile updated with the indexed commits */
+  lockfile?: string;
 }
 
 export function createIndexCommand(): Command {
@@ -38,6 +59,9 @@ export function createIndexCommand(): Command {
     .option('--dry-run', 'Preview without indexing')
     .option('--force', 'Skip plan check')
     .option('--timeout-seconds <n>', 'Kill mgrep after N seconds', '300')
+    .option('--store <name>', 'Index only repos in this mgrep store')
+    .option('--max-deletes <n>', 'Block indexing if mgrep would delete more than N files from a store')
+    .option('--limit <n>', 'Max paths to list per direction in a dry run', '20')
     .action(async (options: IndexOptions) => {
       const jsonMode = options.json === true;
       const logger = createLogger({ jsonMode });
@@ -73,15 +97,36 @@ async function runIndex(
 
   const manifest = manifestResult.data;
   const root = options.root || manifest.defaultRoot;
-  const store = manifest.defaultStore;
+  const maxDeletes = options.maxDeletes !== undefined ? parseInt(options.maxDeletes, 10) : undefined;
+  if (maxDeletes !== undefined && (!Number.isInteger(maxDeletes) || maxDeletes < 0)) {
+    return { success: false, error: `Invalid --max-deletes: ${options.maxDeletes}` };
+  }
+  const limit = parseInt(options.limit || '20', 10);
+  if (!Number.isInteger(limit) || limit < 0) {
+    return { success: false, error: `Invalid --limit: ${options.limit}` };
+  }
+
+  // Group repos by effective store (default store last)
+  const storeGroups = getReposByStore(manifest);
+  if (options.store) {
+    if (!storeGroups.has(options.store)) {
+      return {
+        success: false,
+        error: `No enabled repos in store: ${options.store}`,
+      };
+    }
+    for (const store of [...storeGroups.keys()]) {
+      if (store !== options.store) storeGroups.delete(store);
+    }
+  }
 
   // Step 1: Compute plan (always needed for baseline)
   logger.dim('Checking index plan...');
-  let planFiles: string[] | undefined;
+  let plan: PlanSummary | undefined;
 
   try {
-    const plan = computePlan(manifest, {});
-    planFiles = plan.allFiles;
+    // Index regenerates .mgrepignore, so check the rules it is about to write
+    plan = await computePlan(manifest, { store: options.store, ignoreSource: 'generated' });
 
     // Only check thresholds if not forced
     if (!options.force) {
@@ -117,241 +162,205 @@ async function runIndex(
     logger.log('');
   }
 
-  // Step 2: Regenerate .mgrepignore to ensure it's up-to-date
-  logger.dim('Regenerating .mgrepignore...');
-  writeIgnoreFiles(manifest, { global: true });
-
-  // Step 3: Run mgrep watch
   const startTime = Date.now();
   const timeoutMs = (options.timeoutSeconds || 300) * 1000;
-
-  logger.dim(`Indexing with mgrep (store: ${store})...`);
-  if (options.dryRun) {
-    logger.dim('(dry-run mode - no files will be uploaded)');
-  }
-  logger.log('');
+  const stores: StoreIndexResult[] = [];
+  let lockfilePath: string | undefined;
+  const mgrep = createMgrepClient({ root });
+  // In JSON mode, stream to stderr to keep stdout clean
+  const out = jsonMode ? process.stderr : process.stdout;
+  const printEvent = (event: MgrepEvent) => {
+    // Spinner redraws carry no information once the summary arrives;
+    // dry-run paths are listed grouped by cause afterwards
+    if (event.type !== 'progress' && !(options.dryRun && event.type === 'file')) {
+      out.write(chalk.dim(event.line) + '\n');
+    }
+  };
+  const diffStore = (store: string, result: MgrepSyncResult): IndexDiff | undefined =>
+    plan
+      ? diffIndexUpload(store, result, {
+        root,
+        planFiles: plan.repos.filter((r) => r.store === store).flatMap((r) => r.files ?? []),
+        baseline: loadBaseline(store === manifest.defaultStore ? undefined : store),
+      })
+      : undefined;
 
   try {
-    const result = await runMgrepWatch({
-      root,
-      store,
-      dryRun: options.dryRun || false,
-      timeoutMs,
-      jsonMode,
-    });
+    // Step 2: --max-deletes checks every store with a dry run before anything is uploaded
+    if (maxDeletes !== undefined && !options.dryRun) {
+      for (const store of storeGroups.keys()) {
+        logger.dim(`Checking deletions with mgrep --dry-run (store: ${store})...`);
+        writeIgnoreFiles(manifest, { global: true, store });
+        const preview = await mgrep.sync(store, { dryRun: true, timeoutMs });
+        const diff = diffStore(store, preview);
+        const error = checkMaxDeletes(store, preview.filesDeleted, maxDeletes, diff);
+        if (error) {
+          if (diff && !jsonMode) {
+            logger.log('');
+            printIndexDiff(diff, limit);
+          }
+          return { success: false, error };
+        }
+      }
+      logger.success(`✓ Deletions within --max-deletes ${maxDeletes}`);
+      logger.log('');
+    }
 
-    const duration = (Date.now() - startTime) / 1000;
+    // One mgrep sync per store, each with its own .mgrepignore scope
+    for (const [store, repos] of storeGroups) {
+      const storeStart = Date.now();
 
-    if (!jsonMode) {
-      logger.log('');
-      logger.log('────────────────────────────────────────────────────────────');
+      // Step 3: Regenerate .mgrepignore scoped to this store
+      logger.dim(`Regenerating .mgrepignore (store: ${store})...`);
+      writeIgnoreFiles(manifest, { global: true, store });
+
+      // Step 4: Run mgrep watch
+      logger.dim(`Indexing with mgrep (store: ${store})...`);
       if (options.dryRun) {
-        logger.success('✓ Dry run complete');
-        logger.log('');
-        logger.log(`  Files found:      ${result.filesFound.toLocaleString()}`);
-        logger.log(`  Would upload:     ${result.filesUploaded.toLocaleString()} (new or changed)`);
-        logger.log(`  Would delete:     ${result.filesDeleted.toLocaleString()} (removed from index)`);
-        logger.log(`  Duration:         ${duration.toFixed(1)}s`);
-        logger.log('');
-        logger.dim('  To proceed with indexing, run: refrepo index');
-      } else {
-        logger.success('✓ Indexing complete');
-        logger.log('');
-        logger.log(`  Files found:      ${result.filesFound.toLocaleString()}`);
-        logger.log(`  Files uploaded:   ${result.filesUploaded.toLocaleString()}`);
-        logger.log(`  Files deleted:    ${result.filesDeleted.toLocaleString()}`);
-        logger.log(`  Duration:         ${duration.toFixed(1)}s`);
-
-        // Save baseline for future plan comparisons
-        if (planFiles && planFiles.length > 0) {
-          saveBaseline(planFiles);
-          logger.log('');
-          logger.dim('  Baseline saved for future comparisons');
-        }
+        logger.dim('(dry-run mode - no files will be uploaded)');
       }
-    }
+      logger.log('');
 
-    return {
-      success: true,
-      data: {
-        ...result,
+      const result = await mgrep.sync(store, {
+        dryRun: options.dryRun || false,
+        timeoutMs,
+        onEvent: printEvent,
+      });
+
+      stores.push({
         store,
-        duration,
-      },
-    };
+        filesFound: result.filesFound,
+        filesUploaded: result.filesUploaded,
+        filesDeleted: result.filesDeleted,
+        dryRun: result.dryRun,
+        repoCount: repos.length,
+        duration: (Date.now() - storeStart) / 1000,
+        ...(options.dryRun ? { diff: diffStore(store, result) } : {}),
+      });
+
+      // Save baseline per store for future plan comparisons
+      const storeFiles = plan?.repos
+        .filter((r) => r.store === store)
+        .flatMap((r) => r.files ?? []);
+      if (!options.dryRun && storeFiles && storeFiles.length > 0) {
+        await saveIndexedBaseline(manifest, root, store, repos, storeFiles);
+      }
+    }
+    // Step 5: Record the indexed commits so `sync --locked` can reproduce them
+    if (!options.dryRun) {
+      const indexedRepos = [...storeGroups.values()].flat();
+      lockfilePath = (await updateLockfile(manifest, indexedRepos, root)).path;
+    }
   } catch (error) {
     return {
       success: false,
       error: error instanceof Error ? error.message : String(error),
     };
   }
-}
 
-interface MgrepWatchOptions {
-  root: string;
-  store: string;
-  dryRun: boolean;
-  timeoutMs: number;
-  jsonMode: boolean;
-}
-
-interface MgrepWatchResult {
-  filesFound: number;
-  filesUploaded: number;
-  filesDeleted: number;
-  dryRun: boolean;
-}
+  const duration = (Date.now() - startTime) / 1000;
+  const totals = {
+    filesFound: stores.reduce((sum, s) => sum + s.filesFound, 0),
+    filesUploaded: stores.reduce((sum, s) => sum + s.filesUploaded, 0),
+    filesDeleted: stores.reduce((sum, s) => sum + s.filesDeleted, 0),
+  };
 
-function runMgrepWatch(options: MgrepWatchOptions): Promise<MgrepWatchResult> {
-  return new Promise((resolve, reject) => {
-    const args = ['--store', options.store, 'watch'];
+  if (!jsonMode) {
+    logger.log('');
+    logger.log('────────────────────────────────────────────────────────────');
     if (options.dryRun) {
-      args.push('--dry-run');
+      logger.success('✓ Dry run complete');
+      logger.log('');
+      logger.log(`  Files found:      ${totals.filesFound.toLocaleString()}`);
+      logger.log(`  Would upload:     ${totals.filesUploaded.toLocaleString()} (new or changed)`);
+      logger.log(`  Would delete:     ${totals.filesDeleted.toLocaleString()} (removed from index)`);
+      logger.log(`  Duration:         ${duration.toFixed(1)}s`);
+    } else {
+      logger.success('✓ Indexing complete');
+      logger.log('');
+      logger.log(`  Files found:      ${totals.filesFound.toLocaleString()}`);
+      logger.log(`  Files uploaded:   ${totals.filesUploaded.toLocaleString()}`);
+      logger.log(`  Files deleted:    ${totals.filesDeleted.toLocaleString()}`);
+      logger.log(`  Duration:         ${duration.toFixed(1)}s`);
     }
 
-    const child = spawn('mgrep', args, {
-      cwd: options.root,
-      stdio: ['ignore', 'pipe', 'pipe'],
-    });
-
-    let stdout = '';
-    let stderr = '';
-    let syncComplete = false;
-
-    child.stdout.on('data', (data) => {
-      const text = data.toString();
-      stdout += text;
-      // In JSON mode, stream to stderr to keep stdout clean
-      // In normal mode, stream to stdout
-      if (options.jsonMode) {
-        process.stderr.write(chalk.dim(text));
-      } else {
-        process.stdout.write(chalk.dim(text));
+    if (stores.length > 1) {
+      logger.log('');
+      for (const s of stores) {
+        logger.log(
+          `  ${s.store.padEnd(30)} ` +
+          chalk.dim(`found ${s.filesFound}, ${options.dryRun ? 'would upload' : 'uploaded'} ${s.filesUploaded}, ${options.dryRun ? 'would delete' : 'deleted'} ${s.filesDeleted}`)
+        );
       }
+    }
 
-      // Detect when initial sync is complete and exit
-      // mgrep outputs "✔ Initial sync complete" when done with first pass
-      // Check both the current chunk and accumulated output in case message is split
-      if (!syncComplete && (text.includes('Initial sync complete') || stdout.includes('Initial sync complete'))) {
-        syncComplete = true;
-        // Give it a moment to flush any remaining output, then terminate
-        setTimeout(() => {
-          child.kill('SIGTERM');
-        }, 500);
+    for (const s of stores) {
+      if (s.diff) {
+        logger.log('');
+        printIndexDiff(s.diff, limit);
       }
-    });
+    }
 
-    child.stderr.on('data', (data) => {
-      const text = data.toString();
-      stderr += text;
-      // mgrep uses ora spinner which outputs to stderr
-      // Show as dim instead of red for normal progress messages
-      if (text.includes('Indexing') || text.includes('sync complete')) {
-        process.stderr.write(chalk.dim(text));
-      } else {
-        process.stderr.write(chalk.red(text));
+    logger.log('');
+    if (options.dryRun) {
+      logger.dim('  To proceed with indexing, run: refrepo index');
+    } else {
+      if (plan) {
+        logger.dim('  Baseline saved for future comparisons');
       }
-
-      // Also check stderr for sync complete (mgrep uses ora spinner on stderr)
-      if (!syncComplete && (text.includes('Initial sync complete') || stderr.includes('Initial sync complete'))) {
-        syncComplete = true;
-        setTimeout(() => {
-          child.kill('SIGTERM');
-        }, 500);
-      }
-    });
-
-    // Set timeout
-    const timeout = setTimeout(() => {
-      child.kill('SIGTERM');
-      reject(new Error(`mgrep timed out after ${options.timeoutMs / 1000} seconds`));
-    }, options.timeoutMs);
-
-    child.on('close', (code) => {
-      clearTimeout(timeout);
-
-      // Combine stdout and stderr for parsing (mgrep uses both)
-      const combinedOutput = stdout + '\n' + stderr;
-
-      // If we terminated after sync complete, treat as success
-      if (syncComplete) {
-        const result = parseMgrepOutput(combinedOutput, options.dryRun);
-        resolve(result);
-        return;
+      if (lockfilePath) {
+        logger.dim(`  Indexed commits recorded in ${lockfilePath}`);
       }
+    }
+  }
 
-      if (code !== 0) {
-        // Check if it's a "completed" exit (mgrep watch exits after initial sync in non-watch mode)
-        // Parse output to check if it completed successfully
-        if (combinedOutput.includes('found') && combinedOutput.includes('files')) {
-          // Likely completed successfully, parse the result
-          const result = parseMgrepOutput(combinedOutput, options.dryRun);
-          resolve(result);
-          return;
-        }
+  const data: IndexResult = {
+    ...totals,
+    dryRun: options.dryRun || false,
+    store: stores.map((s) => s.store).join(', '),
+    duration,
+    stores,
+    lockfile: lockfilePath,
+  };
 
-        reject(new Error(`mgrep exited with code ${code}: ${stderr || stdout}`));
-        return;
+  // A dry run reports what --max-deletes would block
+  if (options.dryRun && maxDeletes !== undefined) {
+    for (const s of stores) {
+      const error = checkMaxDeletes(s.store, s.filesDeleted, maxDeletes, s.diff);
+      if (error) {
+        return { success: false, data, error };
       }
+    }
+  }
 
-      const result = parseMgrepOutput(combinedOutput, options.dryRun);
-      resolve(result);
-    });
-
-    child.on('error', (error) => {
-      clearTimeout(timeout);
-      reject(new Error(`Failed to start mgrep: ${error.message}`));
-    });
-  });
+  return { success: true, data };
 }
 
-function parseMgrepOutput(output: string, dryRun: boolean): MgrepWatchResult {
-  // Parse output formats:
-  // Dry run: "found 3186 files in total, would have uploaded 943 changed or new files, would have deleted 854 files"
-  // Actual:  "Initial sync complete (2328/2328) • uploaded 0"
-  //          or "Initial sync complete (2328/2328) • uploaded 5 • deleted 3"
-
-  let filesFound = 0;
-  let filesUploaded = 0;
-  let filesDeleted = 0;
+function printIndexDiff(diff: IndexDiff, limit: number): void {
+  console.log(chalk.bold(`Store ${diff.store}`) + chalk.dim(diff.baselineDate ? ` (baseline from ${new Date(diff.baselineDate).toLocaleString()})` : ' (no baseline)'));
 
-  // Try dry-run format first
-  const foundMatch = output.match(/found\s+(\d+)\s+files?\s+in\s+total/i);
-  if (foundMatch) {
-    filesFound = parseInt(foundMatch[1], 10);
-  }
+  const sections = [
+    { label: 'Would upload', sign: chalk.green('+'), entries: diff.uploads.map((u) => ({ path: u.path, why: u.reason })), counts: diff.uploadCounts },
+    { label: 'Would delete', sign: chalk.red('-'), entries: diff.deletes.map((d) => ({ path: d.path, why: d.cause })), counts: diff.deleteCounts },
+  ];
 
-  // Try actual run format: "Initial sync complete (X/Y)"
-  if (filesFound === 0) {
-    const syncMatch = output.match(/Initial sync complete\s*\((\d+)\/(\d+)\)/i);
-    if (syncMatch) {
-      filesFound = parseInt(syncMatch[2], 10); // Use the total (second number)
+  for (const section of sections) {
+    if (section.entries.length === 0) {
+      console.log(chalk.dim(`  ${section.label}: nothing`));
+      continue;
     }
-  }
 
-  // Parse uploaded count - handles both "would have uploaded X" and "• uploaded X"
-  const uploadMatch = output.match(/(?:would have uploaded|•\s*uploaded)\s+(\d+)/i);
-  if (uploadMatch) {
-    filesUploaded = parseInt(uploadMatch[1], 10);
-  }
-
-  // Parse deleted count - handles both "would have deleted X" and "• deleted X"
-  const deleteMatch = output.match(/(?:would have deleted|•\s*deleted)\s+(\d+)/i);
-  if (deleteMatch) {
-    filesDeleted = parseInt(deleteMatch[1], 10);
+    console.log(`  ${section.label} ${section.entries.length} file(s): ${formatDiffCounts(section.counts)}`);
+    for (const entry of section.entries.slice(0, limit)) {
+      console.log(`    ${section.sign} ${entry.path} ${chalk.dim(entry.why)}`);
+    }
+    if (section.entries.length > limit) {
+      console.log(chalk.dim(`    ... and ${section.entries.length - limit} more (use --limit or --json)`));
+    }
   }
 
-  // If no summary, count individual lines
-  if (filesFound === 0 && filesUploaded === 0) {
-    const uploadLines = (output.match(/would have uploaded|Uploaded/gi) || []).length;
-    filesUploaded = uploadLines;
-    filesFound = uploadLines; // Approximate
+  if (diff.deleteCounts.ignored + diff.deleteCounts.untracked + diff.deleteCounts.unexpected > 0) {
+    console.log(chalk.dim('  ignored: still on disk, excluded by ignore rules · removed: gone from disk (upstream)'));
+    console.log(chalk.dim('  untracked: not in the last baseline · unexpected: the plan includes it'));
   }
-
-  return {
-    filesFound,
-    filesUploaded,
-    filesDeleted,
-    dryRun,
-  };
 }
@@ -11,6 +11,7 @@ import {
   resolveManifestPath,
 } from '../../core/manifest.js';
 import { resolveRoot } from '../../core/config.js';
+import { BUILTIN_PROFILES, DEFAULT_PROFILE_NAME } from '../../core/profiles.js';
 import { createLogger, printJson } from '../output.js';
 import type { CommandResult, Manifest } from '../../core/types.js';
 
@@ -18,6 +19,7 @@ interface InitOptions {
   json?: boolean;
   force?: boolean;
   root?: string;
+  profile?: string;
 }
 
 interface InitResult {
@@ -25,6 +27,7 @@ interface InitResult {
   root: string;
   repoCount: number;
   enabledCount: number;
+  profile: string;
 }
 
 export function createInitCommand(): Command {
@@ -33,6 +36,11 @@ export function createInitCommand(): Command {
     .option('--json', 'Output as JSON')
     .option('--force', 'Overwrite existing manifest')
     .option('--root <path>', 'Override default root path')
+    .option(
+      '--profile <name>',
+      `Tech-stack profile (${Object.keys(BUILTIN_PROFILES).join(', ')})`,
+      DEFAULT_PROFILE_NAME
+    )
     .action(async (options: InitOptions) => {
       const jsonMode = options.json === true;
       const logger = createLogger({ jsonMode });
@@ -50,6 +58,7 @@ export function createInitCommand(): Command {
         logger.log('  Root path:    ' + chalk.dim(d.root));
         logger.log('  Total repos:  ' + d.repoCount);
         logger.log('  Enabled:      ' + d.enabledCount);
+        logger.log('  Profile:      ' + d.profile + chalk.dim(` (${BUILTIN_PROFILES[d.profile].name})`));
         logger.log('');
         logger.log('Next steps:');
         logger.log('  ' + chalk.cyan('refrepo status') + '  - Check which repos exist');
@@ -72,8 +81,17 @@ async function runInit(options: InitOptions): Promise<CommandResult<InitResult>>
     };
   }
 
+  const profile = options.profile ?? DEFAULT_PROFILE_NAME;
+  if (!(profile in BUILTIN_PROFILES)) {
+    return {
+      success: false,
+      error: `Unknown profile: ${profile} (built-in: ${Object.keys(BUILTIN_PROFILES).join(', ')})`,
+    };
+  }
+
   // Create default manifest
   const manifest = getDefaultManifest();
+  manifest.profile = { extends: profile };
 
   // Override root if specified
   if (options.root) {
@@ -92,6 +110,7 @@ async function runInit(options: InitOptions): Promise<CommandResult<InitResult>>
         root: manifest.defaultRoot,
         repoCount: manifest.repos.length,
         enabledCount,
+        profile,
       },
     };
   } catch (error) {
@@ -0,0 +1,108 @@
+/**
+ * refrepo lock - Record the exact commits of cloned repos
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { safeLoadManifest, getEnabledRepos } from '../../core/manifest.js';
+import { resolveRoot } from '../../core/config.js';
+import { updateLockfile, type LockUpdateResult } from '../../core/lockfile.js';
+import { createLogger, printJson } from '../output.js';
+import type { CommandResult } from '../../core/types.js';
+
+interface LockUpdateOptions {
+  json?: boolean;
+  root?: string;
+}
+
+interface LockResult {
+  lockfile: string;
+  repos: LockUpdateResult[];
+}
+
+export function createLockCommand(): Command {
+  const cmd = new Command('lock')
+    .description('Manage refrepo.lock.yaml (exact commits per repo)');
+
+  cmd.command('update [repo]')
+    .description('Record the checked-out commit of each repo (or one repo)')
+    .option('--json', 'Output as JSON')
+    .option('--root <path>', 'Override root path')
+    .action(async (repoId: string | undefined, options: LockUpdateOptions) => {
+      const jsonMode = options.json === true;
+      const logger = createLogger({ jsonMode });
+      const result = await runLockUpdate(repoId, options);
+
+      if (jsonMode) {
+        printJson(result);
+        if (!result.success) {
+          process.exitCode = 1;
+        }
+      } else if (result.success && result.data) {
+        printLockResult(result.data);
+      } else {
+        logger.error('Error: ' + result.error);
+        process.exitCode = 1;
+      }
+    });
+
+  return cmd;
+}
+
+async function runLockUpdate(
+  repoId: string | undefined,
+  options: LockUpdateOptions
+): Promise<CommandResult<LockResult>> {
+  const manifestResult = safeLoadManifest();
+  if (!manifestResult.success || !manifestResult.data) {
+    return {
+      success: false,
+      error: manifestResult.error || 'Failed to load manifest',
+    };
+  }
+
+  const manifest = manifestResult.data;
+  const root = options.root ? resolveRoot(options.root) : manifest.defaultRoot;
+
+  let repos = getEnabledRepos(manifest);
+  if (repoId) {
+    repos = repos.filter((r) => r.id === repoId);
+    if (repos.length === 0) {
+      return { success: false, error: `Unknown or disabled repo: ${repoId}` };
+    }
+  }
+
+  try {
+    const { path: lockfile, results } = await updateLockfile(manifest, repos, root);
+    return { success: true, data: { lockfile, repos: results } };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function printLockResult(data: LockResult): void {
+  console.log(chalk.bold('Lockfile Updated'));
+  console.log(chalk.dim(data.lockfile));
+  console.log('');
+
+  for (const repo of data.repos) {
+    if (repo.action === 'skipped') {
+      console.log(`  ${chalk.dim('○')} ${repo.repoId.padEnd(35)} ${chalk.dim('skipped')}`);
+      if (repo.reason) {
+        console.log(chalk.dim(`      ${repo.reason}`));
+      }
+      continue;
+    }
+
+    const commit = repo.commit!.slice(0, 12);
+    if (repo.action === 'unchanged') {
+      console.log(`  ${chalk.dim('=')} ${repo.repoId.padEnd(35)} ${chalk.dim(commit)}`);
+    } else {
+      const from = repo.previous ? chalk.dim(`${repo.previous.slice(0, 12)} → `) : '';
+      console.log(`  ${chalk.green('✓')} ${repo.repoId.padEnd(35)} ${from}${chalk.green(commit)}`);
+    }
+  }
+}
@@ -6,16 +6,25 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { safeLoadManifest, resolveManifestPath } from '../../core/manifest.js';
+import { safeLoadManifest, resolveManifestPath, getRepoStore } from '../../core/manifest.js';
+import { writeIgnoreFiles } from '../../core/ignore.js';
+import { comparePlanToMgrep, type PlanVerification } from '../../core/verify.js';
+import { createMgrepClient } from '../../core/mgrep.js';
 import { computePlan, formatBytes, type PlanSummary, type RepoPlanResult } from '../../core/plan.js';
-import { loadBaseline, compareToBaseline } from '../../core/baseline.js';
-import { CHANGES_FILENAME } from '../../core/constants.js';
+import { loadMergedBaseline, compareToBaseline, snapshotFiles } from '../../core/baseline.js';
+import { CHANGES_FILENAME, DEFAULT_ROLLUP_DEPTH, PLAN_THRESHOLDS } from '../../core/constants.js';
 import { createLogger, printJson } from '../output.js';
 import type { CommandResult, WarningLevel } from '../../core/types.js';
 
 interface PlanOptions {
   json?: boolean;
   repo?: string;
+  store?: string;
+  verify?: boolean;
+  timeoutSeconds?: string;
+  cache?: boolean;
+  concurrency?: string;
+  depth?: string;
 }
 
 interface PlanSummaryWithChanges extends PlanSummary {
@@ -23,7 +32,11 @@ interface PlanSummaryWithChanges extends PlanSummary {
     baselineDate: string;
     newFiles: string[];
     removedFiles: string[];
+    modifiedFiles: string[];
+    renamedFiles: Array<{ from: string; to: string }>;
   };
+  /** Present with --verify */
+  verification?: PlanVerification[];
 }
 
 export function createPlanCommand(): Command {
@@ -31,19 +44,29 @@ export function createPlanCommand(): Command {
     .description('Compute index plan (file counts, sizes, warnings)')
     .option('--json', 'Output as JSON')
     .option('--repo <id>', 'Plan single repo')
+    .option('--store <name>', 'Plan only repos in this mgrep store')
+    .option('--verify', 'Cross-check against `mgrep watch --dry-run` (regenerates .mgrepignore)')
+    .option('--timeout-seconds <n>', 'Kill each mgrep dry run after N seconds', '300')
+    .option('--no-cache', 'Re-read every directory instead of reusing unchanged listings')
+    .option('--concurrency <n>', 'Max concurrent file system operations')
+    .option('--depth <n>', 'Directory depth for the per-directory rollup', String(DEFAULT_ROLLUP_DEPTH))
     .action(async (options: PlanOptions) => {
       const jsonMode = options.json === true;
       const logger = createLogger({ jsonMode });
 
       const result = await runPlan(options, logger);
+      const disagrees = result.data?.verification?.some((v) => !v.agrees) ?? false;
 
       if (jsonMode) {
         printJson(result);
-        if (!result.success) {
+        if (!result.success || disagrees) {
           process.exitCode = 1;
         }
       } else if (result.success && result.data) {
         printPlanResult(result.data);
+        if (disagrees) {
+          process.exitCode = 1;
+        }
       } else {
         logger.error('Error: ' + result.error);
         process.exitCode = 1;
@@ -83,6 +106,19 @@ function printRepoPlan(repo: RepoPlanResult): void {
     chalk.dim(`Size: ${formatBytes(repo.includedTotalBytes).padStart(10)}`)
   );
 
+  // Show custom thresholds (per-repo/category overrides)
+  const t = repo.thresholds;
+  const customThresholds = (Object.keys(PLAN_THRESHOLDS) as Array<keyof typeof PLAN_THRESHOLDS>)
+    .some((key) => t[key] !== PLAN_THRESHOLDS[key]);
+  if (customThresholds) {
+    console.log(
+      chalk.dim(
+        `      Limits: warn ${t.maxFileCountWarning.toLocaleString()} files / ${formatBytes(t.maxTotalBytesWarning)}, ` +
+        `error ${t.maxFileCountError.toLocaleString()} files / ${formatBytes(t.maxTotalBytesError)}`
+      )
+    );
+  }
+
   // Show top extensions
   if (repo.extensionHistogram.length > 0) {
     const topExts = repo.extensionHistogram
@@ -92,13 +128,54 @@ function printRepoPlan(repo: RepoPlanResult): void {
     console.log(chalk.dim(`      Top: ${topExts}`));
   }
 
+  // Show the heaviest directories
+  const topDirs = repo.directoryRollup.slice(0, 5);
+  if (topDirs.length > 0) {
+    console.log(chalk.dim('      Dirs:'));
+    for (const dir of topDirs) {
+      console.log(
+        chalk.dim(`        ${formatBytes(dir.bytes).padStart(10)} ${dir.fileCount.toLocaleString().padStart(7)} files  ${dir.path}`)
+      );
+    }
+  }
+
+  // Show ignore files found inside the repo (root-level files apply to every repo)
+  const nested = (repo.ignoreSources ?? []).filter((s) => s.startsWith(`${repo.localDir}/`));
+  if (nested.length > 0) {
+    console.log(chalk.dim(`      Ignore files: ${nested.join(', ')}`));
+  }
+
   // Show warnings
   for (const warning of repo.warnings) {
     console.log(chalk.yellow(`      ⚠ ${warning}`));
   }
 }
 
-function printPlanResult(data: PlanSummary): void {
+function printVerification(verification: PlanVerification[]): void {
+  console.log('');
+  console.log(chalk.bold('Verification (mgrep watch --dry-run)'));
+
+  for (const v of verification) {
+    const icon = v.agrees ? chalk.green('✓') : chalk.red('✗');
+    const counts = `plan ${v.planFileCount.toLocaleString()} / mgrep ${v.mgrepFileCount.toLocaleString()} files`;
+    console.log(`  ${icon} ${v.store.padEnd(30)} ${v.agrees ? chalk.dim(counts) : chalk.red(counts)}`);
+
+    if (v.mgrepOnly.length > 0) {
+      console.log(chalk.red(`      ${v.mgrepOnly.length} file(s) mgrep would upload but the plan excludes:`));
+      for (const file of v.mgrepOnly) {
+        console.log(chalk.red(`        ${file}`));
+      }
+    }
+    if (v.planOnly.length > 0) {
+      console.log(chalk.red(`      ${v.planOnly.length} planned file(s) mgrep would delete:`));
+      for (const file of v.planOnly) {
+        console.log(chalk.red(`        ${file}`));
+      }
+    }
+  }
+}
+
+function printPlanResult(data: PlanSummaryWithChanges): void {
   console.log(chalk.bold('Index Plan'));
   console.log('');
 
@@ -114,17 +191,45 @@ function printPlanResult(data: PlanSummary): void {
   console.log(`  Repos:       ${data.totals.repoCount}`);
   console.log(`  Files:       ${data.totals.includedFileCount.toLocaleString()}`);
   console.log(`  Total Size:  ${formatBytes(data.totals.includedTotalBytes)}`);
+  if (data.walk.directoriesCached > 0) {
+    console.log(chalk.dim(`  Walk:        ${data.walk.directoriesCached.toLocaleString()} of ${(data.walk.directoriesCached + data.walk.directoriesRead).toLocaleString()} directories unchanged since last plan`));
+  }
 
-  // Check for baseline and show diff
-  const baseline = loadBaseline();
-  if (baseline && data.allFiles) {
-    const diff = compareToBaseline(data.allFiles, baseline);
-    const hasChanges = diff.newFiles.length > 0 || diff.removedFiles.length > 0;
+  if (data.stores.length > 1) {
+    console.log('');
+    console.log(chalk.bold('Stores'));
+    for (const store of data.stores) {
+      console.log(
+        `  ${store.store.padEnd(30)} ` +
+        chalk.dim(`${store.repoCount} repos, ${store.includedFileCount.toLocaleString()} files, ${formatBytes(store.includedTotalBytes)}`)
+      );
+    }
+  }
+
+  if (data.ignoreWarnings.length > 0) {
+    console.log('');
+    for (const warning of data.ignoreWarnings) {
+      console.log(chalk.yellow(`  ⚠ ${warning}`));
+    }
+  }
+
+  if (data.verification) {
+    printVerification(data.verification);
+  }
+
+  // Show diff against baseline
+  const diff = data.baselineComparison;
+  if (diff) {
+    const hasChanges =
+      diff.newFiles.length > 0 ||
+      diff.removedFiles.length > 0 ||
+      diff.modifiedFiles.length > 0 ||
+      diff.renamedFiles.length > 0;
 
     if (hasChanges) {
       console.log('');
       console.log(chalk.bold('Changes since last index'));
-      console.log(chalk.dim(`  (baseline from ${new Date(baseline.timestamp).toLocaleDateString()})`));
+      console.log(chalk.dim(`  (baseline from ${new Date(diff.baselineDate).toLocaleDateString()})`));
 
       if (diff.newFiles.length > 0) {
         console.log('');
@@ -143,11 +248,27 @@ function printPlanResult(data: PlanSummary): void {
           console.log(chalk.red(`    ${file}`));
         }
       }
+
+      if (diff.modifiedFiles.length > 0) {
+        console.log('');
+        console.log(chalk.yellow(`  ~ ${diff.modifiedFiles.length} modified file${diff.modifiedFiles.length === 1 ? '' : 's'}:`));
+        for (const file of diff.modifiedFiles) {
+          console.log(chalk.yellow(`    ${file}`));
+        }
+      }
+
+      if (diff.renamedFiles.length > 0) {
+        console.log('');
+        console.log(chalk.cyan(`  → ${diff.renamedFiles.length} renamed file${diff.renamedFiles.length === 1 ? '' : 's'}:`));
+        for (const { from, to } of diff.renamedFiles) {
+          console.log(chalk.cyan(`    ${from} → ${to}`));
+        }
+      }
     } else {
       console.log('');
       console.log(chalk.dim('  No changes since last index'));
     }
-  } else if (!baseline) {
+  } else {
     console.log('');
     console.log(chalk.dim('  No baseline yet - run `refrepo index` to create one'));
   }
@@ -178,7 +299,7 @@ function printPlanResult(data: PlanSummary): void {
 async function runPlan(
   options: PlanOptions,
   logger: ReturnType<typeof createLogger>
-): Promise<CommandResult<PlanSummary>> {
+): Promise<CommandResult<PlanSummaryWithChanges>> {
   // Load manifest
   const manifestResult = safeLoadManifest();
   if (!manifestResult.success || !manifestResult.data) {
@@ -188,24 +309,68 @@ async function runPlan(
     };
   }
 
+  const manifest = manifestResult.data;
+  const rollupDepth = parseInt(options.depth || String(DEFAULT_ROLLUP_DEPTH), 10);
+  if (!Number.isInteger(rollupDepth) || rollupDepth <= 0) {
+    return { success: false, error: `Invalid --depth: ${options.depth}` };
+  }
+  const concurrency = options.concurrency !== undefined ? parseInt(options.concurrency, 10) : undefined;
+  if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency <= 0)) {
+    return { success: false, error: `Invalid --concurrency: ${options.concurrency}` };
+  }
+
+  // mgrep's dry run always covers a whole store, so a single-repo plan cannot be compared
+  if (options.verify && options.repo) {
+    const repo = manifest.repos.find((r) => r.id === options.repo);
+    const hint = repo ? ` - verify its store with --verify --store ${getRepoStore(manifest, repo)}` : '';
+    return { success: false, error: `--verify checks whole stores and cannot be combined with --repo${hint}` };
+  }
+
   try {
     logger.dim('Computing index plan...');
     logger.log('');
 
-    const summary = computePlan(manifestResult.data, {
+    // --verify regenerates .mgrepignore like index does, so plan against the generated rules
+    const summary: PlanSummaryWithChanges = await computePlan(manifest, {
       repoId: options.repo,
+      store: options.store,
+      ignoreSource: options.verify ? 'generated' : 'disk',
+      cache: options.cache,
+      concurrency,
+      rollupDepth,
     });
 
-    // Add baseline comparison to the summary for JSON output
-    const baseline = loadBaseline();
+    if (options.verify) {
+      const timeoutMs = parseInt(options.timeoutSeconds || '300', 10) * 1000;
+      summary.verification = [];
+      const mgrep = createMgrepClient({ root: manifest.defaultRoot });
+
+      for (const { store } of summary.stores) {
+        logger.dim(`Verifying store ${store} with mgrep --dry-run...`);
+        writeIgnoreFiles(manifest, { global: true, store });
+
+        const dryRun = await mgrep.sync(store, { dryRun: true, timeoutMs });
+        const planFiles = summary.repos.filter((r) => r.store === store).flatMap((r) => r.files ?? []);
+        summary.verification.push(comparePlanToMgrep(store, planFiles, dryRun));
+      }
+      logger.log('');
+    }
+
+    // Add baseline comparison to the summary (one baseline per planned store)
+    const baseline = loadMergedBaseline(
+      summary.stores.map((s) => (s.store === manifest.defaultStore ? undefined : s.store))
+    );
     if (baseline && summary.allFiles) {
-      const diff = compareToBaseline(summary.allFiles, baseline);
+      // Hash current files only when the baseline has hashes to compare against
+      const currentEntries = baseline.entries
+        ? snapshotFiles(manifest.defaultRoot, summary.allFiles, baseline)
+        : undefined;
+      const diff = compareToBaseline(summary.allFiles, baseline, currentEntries);
       const comparison = {
         baselineDate: baseline.timestamp,
-        newFiles: diff.newFiles,
-        removedFiles: diff.removedFiles,
+        ...diff,
       };
-      (summary as PlanSummaryWithChanges).baselineComparison = comparison;
+      summary.baselineComparison = comparison;
 
       // Always save changes to file for easy access
       const changesFile = {
@@ -214,7 +379,13 @@ async function runPlan(
         totalFiles: summary.totals.includedFileCount,
         newFiles: diff.newFiles,
         removedFiles: diff.removedFiles,
-        hasChanges: diff.newFiles.length > 0 || diff.removedFiles.length > 0,
+        modifiedFiles: diff.modifiedFiles,
+        renamedFiles: diff.renamedFiles,
+        hasChanges:
+          diff.newFiles.length > 0 ||
+          diff.removedFiles.length > 0 ||
+          diff.modifiedFiles.length > 0 ||
+          diff.renamedFiles.length > 0,
       };
       const manifestDir = path.dirname(resolveManifestPath());
       fs.writeFileSync(
@@ -230,6 +401,8 @@ async function runPlan(
         totalFiles: summary.totals.includedFileCount,
         newFiles: summary.allFiles,
         removedFiles: [],
+        modifiedFiles: [],
+        renamedFiles: [],
         hasChanges: summary.allFiles.length > 0,
       };
       const manifestDir = path.dirname(resolveManifestPath());
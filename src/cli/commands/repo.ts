@@ -0,0 +1,329 @@
+/**
+ * refrepo repo - Add, remove, enable and disable manifest repos
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import {
+  safeLoadManifest,
+  inferRepoFromUrl,
+  addRepo,
+  removeRepo,
+  setRepoEnabled,
+  getRepoPath,
+} from '../../core/manifest.js';
+import { cloneRepo, getRemoteDefaultBranch } from '../../core/git.js';
+import { computePlan, formatBytes } from '../../core/plan.js';
+import { RepoConfigSchema } from '../../core/schema.js';
+import { createLogger, printJson, type Logger } from '../output.js';
+import type { CommandResult, RepoConfig, WarningLevel } from '../../core/types.js';
+
+interface RepoAddOptions {
+  json?: boolean;
+  id?: string;
+  name?: string;
+  branch?: string;
+  category?: string;
+  localDir?: string;
+  store?: string;
+  disabled?: boolean;
+  dryRun?: boolean;
+  sync?: boolean;
+}
+
+interface RepoAddResult {
+  repo: RepoConfig;
+  manifestPath: string;
+  dryRun: boolean;
+  /** Present when --sync was used */
+  sync?: { action: 'cloned' | 'failed'; error?: string };
+  plan?: { includedFileCount: number; includedTotalBytes: number; warningLevel: WarningLevel };
+}
+
+interface RepoChangeResult {
+  repoId: string;
+  action: 'removed' | 'enabled' | 'disabled' | 'unchanged';
+  manifestPath: string;
+  /** Clone left on disk after removal */
+  localPath?: string;
+}
+
+export function createRepoCommand(): Command {
+  const cmd = new Command('repo')
+    .description('Add, remove, enable or disable repos in the manifest');
+
+  cmd.command('add <url>')
+    .description('Add a repo (id, name, localDir and default branch inferred from the URL)')
+    .option('--json', 'Output as JSON')
+    .option('--id <id>', 'Repo id (default: inferred from URL)')
+    .option('--name <name>', 'Display name (default: inferred from URL)')
+    .option('--branch <branch>', 'Branch to track (default: remote default branch)')
+    .option('--category <category>', 'Category: source | glue | example', 'source')
+    .option('--local-dir <dir>', 'Folder name under defaultRoot (default: repo id)')
+    .option('--store <name>', 'mgrep store for this repo (default: manifest defaultStore)')
+    .option('--disabled', 'Add the repo disabled')
+    .option('--dry-run', 'Preview the entry without writing the manifest')
+    .option('--sync', 'Clone the repo and compute its plan immediately')
+    .action(async (url: string, options: RepoAddOptions) => {
+      const jsonMode = options.json === true;
+      const logger = createLogger({ jsonMode });
+      const result = await runRepoAdd(url, options, logger);
+
+      if (jsonMode) {
+        printJson(result);
+        if (!result.success) {
+          process.exitCode = 1;
+        }
+      } else if (result.success && result.data) {
+        printRepoAddResult(result.data);
+        if (result.data.sync?.action === 'failed') {
+          process.exitCode = 1;
+        }
+      } else {
+        logger.error('Error: ' + result.error);
+        process.exitCode = 1;
+      }
+    });
+
+  cmd.command('remove <id>')
+    .description('Remove a repo from the manifest (the local clone is kept)')
+    .option('--json', 'Output as JSON')
+    .action((repoId: string, options: { json?: boolean }) => {
+      handleChangeResult(runRepoRemove(repoId), options.json === true);
+    });
+
+  cmd.command('enable <id>')
+    .description('Enable a repo')
+    .option('--json', 'Output as JSON')
+    .action((repoId: string, options: { json?: boolean }) => {
+      handleChangeResult(runRepoSetEnabled(repoId, true), options.json === true);
+    });
+
+  cmd.command('disable <id>')
+    .description('Disable a repo (skipped by sync, plan and index)')
+    .option('--json', 'Output as JSON')
+    .action((repoId: string, options: { json?: boolean }) => {
+      handleChangeResult(runRepoSetEnabled(repoId, false), options.json === true);
+    });
+
+  return cmd;
+}
+
+function handleChangeResult(result: CommandResult<RepoChangeResult>, jsonMode: boolean): void {
+  const logger = createLogger({ jsonMode });
+
+  if (jsonMode) {
+    printJson(result);
+    if (!result.success) {
+      process.exitCode = 1;
+    }
+  } else if (result.success && result.data) {
+    const d = result.data;
+    if (d.action === 'unchanged') {
+      logger.dim(`${d.repoId} is already in that state`);
+      return;
+    }
+
+    logger.success(`✓ ${d.action.charAt(0).toUpperCase() + d.action.slice(1)} ${chalk.cyan(d.repoId)}`);
+    logger.dim(`  ${d.manifestPath}`);
+    if (d.localPath) {
+      logger.dim(`  Local clone kept at ${d.localPath}`);
+    }
+  } else {
+    logger.error('Error: ' + result.error);
+    process.exitCode = 1;
+  }
+}
+
+async function runRepoAdd(
+  url: string,
+  options: RepoAddOptions,
+  logger: Logger
+): Promise<CommandResult<RepoAddResult>> {
+  if (options.disabled && options.sync) {
+    return { success: false, error: 'Cannot combine --disabled with --sync (disabled repos are not cloned or planned)' };
+  }
+
+  const manifestResult = safeLoadManifest();
+  if (!manifestResult.success || !manifestResult.data) {
+    return {
+      success: false,
+      error: manifestResult.error || 'Failed to load manifest',
+    };
+  }
+
+  const manifest = manifestResult.data;
+  const manifestPath = manifestResult.path!;
+
+  let inferred: ReturnType<typeof inferRepoFromUrl>;
+  try {
+    inferred = inferRepoFromUrl(url, new Set(manifest.repos.map((r) => r.id)));
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  let branch = options.branch;
+  if (!branch) {
+    logger.dim('Looking up default branch...');
+    branch = await getRemoteDefaultBranch(url);
+    if (!branch) {
+      return {
+        success: false,
+        error: `Could not determine default branch of ${url} (check the URL or pass --branch)`,
+      };
+    }
+  }
+
+  const id = options.id || inferred.id;
+  const parsed = RepoConfigSchema.safeParse({
+    id,
+    name: options.name || inferred.name,
+    url,
+    branch,
+    category: options.category,
+    localDir: options.localDir || (options.id ? id : inferred.localDir),
+    enabled: !options.disabled,
+    ...(options.store ? { mgrep: { store: options.store } } : {}),
+  });
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ');
+    return { success: false, error: `Invalid repo: ${issues}` };
+  }
+
+  const repo: RepoConfig = parsed.data;
+
+  if (options.dryRun) {
+    return { success: true, data: { repo, manifestPath, dryRun: true } };
+  }
+
+  const added = addRepo(repo, manifestPath);
+  if (!added.success || !added.manifest) {
+    return { success: false, error: added.error };
+  }
+
+  const data: RepoAddResult = { repo, manifestPath, dryRun: false };
+
+  if (options.sync) {
+    logger.dim(`Cloning ${repo.name}...`);
+    const repoPath = getRepoPath(added.manifest.defaultRoot, repo.localDir);
+    const clone = await cloneRepo(repo.url, repoPath, { branch: repo.branch, depth: 1 });
+
+    if (!clone.success) {
+      data.sync = { action: 'failed', error: clone.error };
+      return { success: true, data };
+    }
+    data.sync = { action: 'cloned' };
+
+    logger.dim('Computing plan...');
+    let planned;
+    try {
+      planned = (await computePlan(added.manifest, { repoId: repo.id })).repos[0];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, error: `Added and cloned ${repo.id}, but planning failed: ${message}` };
+    }
+    if (planned) {
+      data.plan = {
+        includedFileCount: planned.includedFileCount,
+        includedTotalBytes: planned.includedTotalBytes,
+        warningLevel: planned.warningLevel,
+      };
+    }
+  }
+
+  return { success: true, data };
+}
+
+function printRepoAddResult(data: RepoAddResult): void {
+  const { repo } = data;
+
+  if (data.dryRun) {
+    console.log(chalk.bold('Would add repo') + chalk.dim(' (dry run)'));
+  } else {
+    console.log(chalk.green('✓ Added ') + chalk.cyan(repo.id) + chalk.dim(` to ${data.manifestPath}`));
+  }
+  console.log('');
+  console.log(`  Name:      ${repo.name}`);
+  console.log(`  URL:       ${repo.url}`);
+  console.log(`  Branch:    ${repo.branch}`);
+  console.log(`  Category:  ${repo.category}`);
+  console.log(`  Local dir: ${repo.localDir}`);
+  if (repo.mgrep?.store) console.log(`  Store:     ${repo.mgrep.store}`);
+  if (!repo.enabled) console.log(`  Enabled:   ${chalk.yellow('no')}`);
+
+  if (data.sync) {
+    console.log('');
+    if (data.sync.action === 'failed') {
+      console.log(chalk.red('✗ Clone failed'));
+      console.log(chalk.dim(`  ${data.sync.error}`));
+    } else if (data.plan) {
+      const level = data.plan.warningLevel;
+      const color = level === 'red' ? chalk.red : level === 'yellow' ? chalk.yellow : chalk.green;
+      console.log(
+        chalk.green('✓ Cloned') +
+          `  ${data.plan.includedFileCount.toLocaleString()} files, ${formatBytes(data.plan.includedTotalBytes)} ` +
+          color(`(${level.toUpperCase()})`)
+      );
+    }
+  }
+
+  if (!data.dryRun) {
+    console.log('');
+    console.log('Next steps:');
+    if (!data.sync) {
+      console.log('  ' + chalk.cyan('refrepo sync') + '    - Clone the new repo');
+      console.log('  ' + chalk.cyan('refrepo plan') + '    - Check file counts');
+    } else {
+      console.log('  ' + chalk.cyan(`refrepo plan --repo ${repo.id}`) + '  - Review the largest files');
+    }
+  }
+}
+
+function runRepoRemove(repoId: string): CommandResult<RepoChangeResult> {
+  const manifestResult = safeLoadManifest();
+  if (!manifestResult.success || !manifestResult.data) {
+    return {
+      success: false,
+      error: manifestResult.error || 'Failed to load manifest',
+    };
+  }
+
+  const result = removeRepo(repoId, manifestResult.path);
+  if (!result.success || !result.removed) {
+    return { success: false, error: result.error };
+  }
+
+  return {
+    success: true,
+    data: {
+      repoId,
+      action: 'removed',
+      manifestPath: manifestResult.path!,
+      localPath: getRepoPath(manifestResult.data.defaultRoot, result.removed.localDir),
+    },
+  };
+}
+
+function runRepoSetEnabled(repoId: string, enabled: boolean): CommandResult<RepoChangeResult> {
+  const manifestResult = safeLoadManifest();
+  if (!manifestResult.success) {
+    return {
+      success: false,
+      error: manifestResult.error || 'Failed to load manifest',
+    };
+  }
+
+  const result = setRepoEnabled(repoId, enabled, manifestResult.path);
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  return {
+    success: true,
+    data: {
+      repoId,
+      action: !result.changed ? 'unchanged' : enabled ? 'enabled' : 'disabled',
+      manifestPath: manifestResult.path!,
+    },
+  };
+}
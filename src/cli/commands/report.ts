@@ -9,7 +9,7 @@ import { exec } from 'child_process';
 import chalk from 'chalk';
 import { safeLoadManifest } from '../../core/manifest.js';
 import { computePlan, formatBytes, type PlanSummary, type RepoPlanResult } from '../../core/plan.js';
-import { DEFAULT_REPORTS_DIR, DEFAULT_REPORT_NAME } from '../../core/constants.js';
+import { DEFAULT_REPORTS_DIR, DEFAULT_REPORT_NAME, DEFAULT_ROLLUP_DEPTH } from '../../core/constants.js';
 import { createLogger, printJson, type Logger } from '../output.js';
 import type { CommandResult, WarningLevel } from '../../core/types.js';
 
@@ -18,6 +18,7 @@ interface ReportOptions {
   root?: string;
   open?: boolean;
   output?: string;
+  depth?: string;
 }
 
 interface ReportResult {
@@ -32,6 +33,7 @@ export function createReportCommand(): Command {
     .option('--root <path>', 'Override root path')
     .option('--open', 'Open report in browser after generation')
     .option('--output <path>', 'Custom output path')
+    .option('--depth <n>', 'Directory depth for the per-directory rollup', String(DEFAULT_ROLLUP_DEPTH))
     .action(async (options: ReportOptions) => {
       const jsonMode = options.json === true;
       const logger = createLogger({ jsonMode });
@@ -68,11 +70,15 @@ async function runReport(options: ReportOptions, logger: Logger): Promise<Comman
   }
 
   const manifest = manifestResult.data;
+  const rollupDepth = parseInt(options.depth || String(DEFAULT_ROLLUP_DEPTH), 10);
+  if (!Number.isInteger(rollupDepth) || rollupDepth <= 0) {
+    return { success: false, error: `Invalid --depth: ${options.depth}` };
+  }
 
   logger.dim('Computing plan data...');
 
   try {
-    const summary = computePlan(manifest);
+    const summary = await computePlan(manifest, { rollupDepth });
 
     // Determine output path (write to project dir, not reference repos)
     const outputPath = options.output || path.join(
@@ -139,6 +145,10 @@ function getStatusLabel(level: WarningLevel): string {
   }
 }
 
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
 function generateRepoCard(repo: RepoPlanResult): string {
   const statusColor = getStatusColor(repo.warningLevel);
   const statusLabel = getStatusLabel(repo.warningLevel);
@@ -148,6 +158,13 @@ function generateRepoCard(repo: RepoPlanResult): string {
     .map(e => `<span class="ext-badge">${e.ext} (${e.count})</span>`)
     .join(' ');
 
+  const topDirs = repo.directoryRollup.length > 0
+    ? `<table class="dirs">${repo.directoryRollup
+      .slice(0, 5)
+      .map(d => `<tr><td>${escapeHtml(d.path)}</td><td>${d.fileCount.toLocaleString()}</td><td>${formatBytes(d.bytes)}</td></tr>`)
+      .join('')}</table>`
+    : '';
+
   const warnings = repo.warnings.length > 0
     ? `<div class="warnings">${repo.warnings.map(w => `<div class="warning">⚠ ${w}</div>`).join('')}</div>`
     : '';
@@ -169,6 +186,7 @@ function generateRepoCard(repo: RepoPlanResult): string {
         </div>
       </div>
       <div class="extensions">${topExtensions}</div>
+      ${topDirs}
       ${warnings}
     </div>
   `;
@@ -338,6 +356,24 @@ function generateHtmlReport(summary: PlanSummary, store: string): string {
       color: #cbd5e1;
     }
 
+    .dirs {
+      width: 100%;
+      margin-top: 1rem;
+      font-size: 0.75rem;
+      color: #cbd5e1;
+      border-collapse: collapse;
+    }
+
+    .dirs td {
+      padding: 0.125rem 0;
+      font-family: monospace;
+    }
+
+    .dirs td:not(:first-child) {
+      text-align: right;
+      color: #94a3b8;
+    }
+
     .warnings {
       margin-top: 1rem;
       padding-top: 1rem;
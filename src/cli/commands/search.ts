@@ -3,14 +3,16 @@
  */
 
 import { Command } from 'commander';
-import { execa } from 'execa';
-import { safeLoadManifest } from '../../core/manifest.js';
+import { safeLoadManifest, getRepoStore, getRepoPath } from '../../core/manifest.js';
+import { createMgrepClient } from '../../core/mgrep.js';
 import { createLogger, printJson } from '../output.js';
 import type { CommandResult } from '../../core/types.js';
 
 interface SearchOptions {
   json?: boolean;
   limit?: string;
+  store?: string;
+  repo?: string;
 }
 
 export function createSearchCommand(): Command {
@@ -19,6 +21,8 @@ export function createSearchCommand(): Command {
     .argument('<query>', 'Search query')
     .option('--json', 'Output as JSON')
     .option('--limit <n>', 'Maximum number of results', '10')
+    .option('--store <name>', 'Search this mgrep store (default: manifest defaultStore)')
+    .option('--repo <id>', "Search only this repo (in the repo's store)")
     .action(async (query: string, options: SearchOptions) => {
       const jsonMode = options.json === true;
       const logger = createLogger({ jsonMode });
@@ -51,52 +55,43 @@ async function runSearch(
     };
   }
 
-  const store = manifestResult.data.defaultStore;
-  const limit = options.limit || '10';
+  const manifest = manifestResult.data;
+  let store = options.store || manifest.defaultStore;
+  let repoPath: string | undefined;
 
-  try {
-    // Build mgrep search args
-    const args = ['--store', store, 'search', query, '--limit', limit];
-
-    if (jsonMode) {
-      args.push('--json');
+  // --repo targets the repo's effective store and limits results to its directory
+  if (options.repo) {
+    const repo = manifest.repos.find((r) => r.id === options.repo);
+    if (!repo) {
+      return { success: false, error: `Repo not found: ${options.repo}` };
     }
 
-    // Run mgrep and stream output directly
-    const result = await execa('mgrep', args, {
-      stdio: jsonMode ? 'pipe' : 'inherit',
-      reject: false,
-    });
-
-    if (result.exitCode !== 0) {
+    const repoStore = getRepoStore(manifest, repo);
+    if (options.store && options.store !== repoStore) {
       return {
         success: false,
-        error: result.stderr || `mgrep exited with code ${result.exitCode}`,
+        error: `Repo ${repo.id} is indexed in store '${repoStore}', not '${options.store}'`,
       };
     }
 
-    if (jsonMode && result.stdout) {
-      // Parse and return JSON result
-      try {
-        const data = JSON.parse(result.stdout);
-        return { success: true, data };
-      } catch {
-        return { success: true, data: { raw: result.stdout } };
-      }
-    }
-
-    return { success: true };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
+    store = repoStore;
+    repoPath = getRepoPath(manifest.defaultRoot, repo.localDir);
+  }
 
-    // Check for common errors
-    if (message.includes('ENOENT') || message.includes('not found')) {
-      return {
-        success: false,
-        error: 'mgrep not found. Install it from https://github.com/mixedbread-ai/mgrep',
-      };
-    }
+  const limit = parseInt(options.limit || '10', 10);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    return { success: false, error: `Invalid --limit: ${options.limit}` };
+  }
 
-    return { success: false, error: message };
+  try {
+    // JSON mode parses mgrep's --json output; otherwise mgrep prints its own results
+    const data = await createMgrepClient({ root: manifest.defaultRoot }).search(store, query, {
+      path: repoPath,
+      limit,
+      stream: !jsonMode,
+    });
+    return jsonMode ? { success: true, data } : { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
   }
 }
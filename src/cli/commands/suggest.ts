@@ -1,22 +1,56 @@
 /**
- * refrepo suggest - Use Claude to analyze new files and suggest ignore rules
+ * refrepo suggest - Use a model (or framework heuristics) to suggest ignore rules for new files
+ *
+ * Suggestions are queued with their reason and the planned files they would
+ * remove; `refrepo suggest review` accepts, edits or rejects them.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { spawn, execSync } from 'child_process';
+import * as readline from 'readline';
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { addCustomIgnores, resolveManifestPath } from '../../core/manifest.js';
+import {
+  addCustomIgnores,
+  createCustomIgnoreEntry,
+  getCurrentUser,
+  getCustomIgnorePatterns,
+  resolveManifestPath,
+} from '../../core/manifest.js';
 import { writeIgnoreFiles } from '../../core/ignore.js';
 import { safeLoadManifest } from '../../core/manifest.js';
+import { computePlan, formatBytes, type PlanSummary } from '../../core/plan.js';
+import { checkPatterns, type PatternCheck } from '../../core/pattern-safety.js';
+import { resolveProfile } from '../../core/profiles.js';
+import { buildSuggestBatches, mergeSuggestions } from '../../core/suggest-batch.js';
+import { createSuggestProvider } from '../../core/suggest-providers.js';
+import {
+  loadSuggestionQueue,
+  matchPatternFiles,
+  parseSuggestions,
+  queueSuggestions,
+  rejectSuggestion,
+  removePendingSuggestion,
+  saveSuggestionQueue,
+  type ParsedSuggestion,
+  type PendingSuggestion,
+  type SuggestionQueue,
+} from '../../core/suggest-queue.js';
+import { SuggestProviderSchema } from '../../core/schema.js';
 import { CHANGES_FILENAME } from '../../core/constants.js';
 import { createLogger, printJson } from '../output.js';
-import type { CommandResult } from '../../core/types.js';
+import { createAsk, type Ask } from '../prompt.js';
+import type { CommandResult, CustomIgnoreEntry, SuggestProviderName } from '../../core/types.js';
 
 interface SuggestOptions {
   json?: boolean;
   apply?: boolean;
+  provider?: string;
+}
+
+interface ReviewOptions {
+  json?: boolean;
+  list?: boolean;
 }
 
 interface ChangesFile {
@@ -25,46 +59,57 @@ interface ChangesFile {
   totalFiles: number;
   newFiles: string[];
   removedFiles: string[];
+  /** Absent in changes files written before content-hash baselines */
+  modifiedFiles?: string[];
+  renamedFiles?: Array<{ from: string; to: string }>;
   hasChanges: boolean;
 }
 
 interface SuggestResult {
+  provider?: SuggestProviderName;
   suggestions: string;
   patterns?: string[];
+  /** Model calls the files were split into */
+  batches?: number;
+  queued?: PendingSuggestion[];
+  /** Blast radius and safety of each queued pattern */
+  checks?: PatternCheck[];
+  /** Unsafe patterns --apply did not write */
+  refused?: PatternCheck[];
+  /** Patterns dropped because they were rejected in an earlier review */
+  skippedRejected?: string[];
   applied?: boolean;
   patternsAdded?: number;
 }
 
-const TECH_STACK_CONTEXT = `
-Our tech stack:
-- TanStack Start (React meta-framework)
-- TanStack Router, Query, Table, Form
-- Convex (backend/database)
-- Better Auth (authentication)
-- shadcn/ui (React components)
-- Tailwind CSS
-- TypeScript
-
-We want to index code that's relevant to this stack. We should IGNORE:
-- Non-React framework code (Vue, Solid, Angular, Svelte)
-- Non-TanStack-Start examples (Next.js, Remix)
-- Test files and fixtures
-- Build artifacts and generated code
-- Documentation that's not about our stack
-- Binary files and media assets
-`;
+interface ReviewResult {
+  accepted: string[];
+  rejected: string[];
+  /** Suggestions still pending after the review */
+  pending: number;
+}
+
+/** Pattern to write, with its safety check */
+interface AcceptCandidate {
+  check: PatternCheck;
+  entry: CustomIgnoreEntry;
+}
+
+/** Matched files shown per suggestion */
+const FILE_PREVIEW_LIMIT = 5;
 
 export function createSuggestCommand(): Command {
   return new Command('suggest')
-    .description('Use Claude to analyze new files and suggest ignore rules')
+    .description('Analyze new files and queue suggested ignore rules (Claude by default)')
     .option('--json', 'Output as JSON')
-    .option('--apply', 'Apply suggested patterns to manifest and regenerate .mgrepignore')
+    .option('--apply', 'Accept the suggestions without review and regenerate .mgrepignore')
+    .option('--provider <name>', 'Override the manifest suggest provider (claude, openai, command, heuristic)')
     .action(async (options: SuggestOptions) => {
       const jsonMode = options.json === true;
       const applyMode = options.apply === true;
       const logger = createLogger({ jsonMode });
 
-      const result = await runSuggest(logger, applyMode);
+      const result = await runSuggest(logger, applyMode, options.provider);
 
       if (jsonMode) {
         printJson(result);
@@ -75,12 +120,60 @@ export function createSuggestCommand(): Command {
         logger.error('Error: ' + result.error);
         process.exitCode = 1;
       }
+    })
+    .addCommand(createSuggestReviewCommand());
+}
+
+function createSuggestReviewCommand(): Command {
+  return new Command('review')
+    .description('Accept, edit or reject queued suggestions')
+    .option('--list', 'List the queue instead of reviewing it')
+    .option('--json', 'Output the queue as JSON (implies --list)')
+    .action(async (_options: ReviewOptions, command: Command) => {
+      // `--json` after `review` is parsed by the parent suggest command
+      const options = command.optsWithGlobals<ReviewOptions>();
+      const jsonMode = options.json === true;
+      const logger = createLogger({ jsonMode });
+
+      if (jsonMode || options.list) {
+        let queue: SuggestionQueue;
+        try {
+          queue = loadSuggestionQueue();
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (jsonMode) {
+            printJson({ success: false, error: message });
+          } else {
+            logger.error('Error: ' + message);
+          }
+          process.exitCode = 1;
+          return;
+        }
+        if (jsonMode) {
+          printJson({ success: true, data: queue });
+        } else {
+          printQueue(queue, logger);
+        }
+        return;
+      }
+
+      const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+      try {
+        const result = await runSuggestReview(createAsk(rl), logger);
+        if (!result.success) {
+          logger.error('Error: ' + result.error);
+          process.exitCode = 1;
+        }
+      } finally {
+        rl.close();
+      }
     });
 }
 
 async function runSuggest(
   logger: ReturnType<typeof createLogger>,
-  applyMode: boolean
+  applyMode: boolean,
+  providerOverride?: string
 ): Promise<CommandResult<SuggestResult>> {
   // Load changes file from manifest directory
   const manifestDir = path.dirname(resolveManifestPath());
@@ -95,7 +188,12 @@ async function runSuggest(
 
   const changes: ChangesFile = JSON.parse(fs.readFileSync(changesPath, 'utf-8'));
 
-  if (!changes.hasChanges || changes.newFiles.length === 0) {
+  // Renamed files land at new paths, so they need the same review as new ones
+  const renamedTo = (changes.renamedFiles ?? []).map((r) => r.to);
+  const modifiedFiles = changes.modifiedFiles ?? [];
+  const filesToAnalyze = [...new Set([...changes.newFiles, ...renamedTo, ...modifiedFiles])].sort();
+
+  if (!changes.hasChanges || filesToAnalyze.length === 0) {
     logger.log(chalk.dim('No new files to analyze.'));
     return {
       success: true,
@@ -103,90 +201,139 @@ async function runSuggest(
     };
   }
 
-  // Check if Claude CLI is available
-  if (!isClaudeAvailable()) {
+  // The manifest profile is the stack the prompt judges relevance against
+  const manifestResult = safeLoadManifest();
+  if (!manifestResult.success || !manifestResult.data) {
     return {
       success: false,
-      error: 'Claude Code CLI not found. Install it from https://github.com/anthropics/claude-code',
+      error: manifestResult.error || 'Failed to load manifest',
     };
   }
+  const manifest = manifestResult.data;
+  const profile = resolveProfile(manifest.profile);
 
-  logger.log(chalk.bold('Analyzing new files with Claude...'));
-  logger.log(chalk.dim(`Found ${changes.newFiles.length} new files`));
-  logger.log('');
-
-  const prompt = applyMode ? buildApplyPrompt(changes.newFiles) : buildPrompt(changes.newFiles);
-
-  try {
-    const response = await callClaude(prompt);
-
-    if (applyMode) {
-      // Parse patterns from Claude's response
-      const patterns = parsePatterns(response);
+  const providerName = providerOverride ? SuggestProviderSchema.safeParse(providerOverride) : undefined;
+  if (providerName && !providerName.success) {
+    return {
+      success: false,
+      error: `Unknown provider: ${providerOverride} (expected claude, openai, command or heuristic)`,
+    };
+  }
+  const provider = createSuggestProvider({ ...manifest.suggest, provider: providerName?.data ?? manifest.suggest?.provider });
 
-      if (patterns.length === 0) {
-        logger.log(chalk.green('✓ Claude found no files to ignore'));
-        logger.log('');
-        logger.log(response);
-        return {
-          success: true,
-          data: { suggestions: response, patterns: [], applied: true, patternsAdded: 0 },
-        };
-      }
+  const unavailable = await provider.checkAvailable();
+  if (unavailable) {
+    return { success: false, error: unavailable };
+  }
 
-      logger.log(chalk.bold('Patterns to ignore:'));
-      for (const pattern of patterns) {
-        logger.log(chalk.yellow(`  ${pattern}`));
-      }
-      logger.log('');
-
-      // Add patterns to manifest
-      const addResult = addCustomIgnores(patterns);
-      if (!addResult.success) {
-        return {
-          success: false,
-          error: `Failed to add patterns to manifest: ${addResult.error}`,
-        };
-      }
+  logger.log(chalk.bold(`Analyzing new files with ${provider.label}...`));
+  logger.log(
+    chalk.dim(
+      `Found ${changes.newFiles.length + renamedTo.length} new and ${modifiedFiles.length} modified files`
+    )
+  );
+  logger.log('');
 
-      if (addResult.added.length === 0) {
-        logger.log(chalk.dim('All patterns already exist in manifest'));
-      } else {
-        logger.log(chalk.green(`✓ Added ${addResult.added.length} pattern(s) to manifest`));
-      }
+  try {
+    const batches = buildSuggestBatches(filesToAnalyze, {
+      root: manifest.defaultRoot,
+      profile,
+      maxPromptTokens: manifest.suggest?.maxPromptTokens,
+      excerptLines: manifest.suggest?.excerptLines,
+    });
 
-      // Regenerate .mgrepignore
-      const manifestResult = safeLoadManifest();
-      if (manifestResult.success && manifestResult.data) {
-        writeIgnoreFiles(manifestResult.data, { global: true });
-        logger.log(chalk.green('✓ Regenerated .mgrepignore'));
+    const responses: string[] = [];
+    const batchSuggestions: ParsedSuggestion[] = [];
+    for (const [index, batch] of batches.entries()) {
+      if (batches.length > 1) {
+        logger.log(
+          chalk.dim(`Batch ${index + 1}/${batches.length}: ${batch.files.length} files, ~${batch.tokens.toLocaleString()} tokens`)
+        );
       }
+      const response = await provider.complete({
+        prompt: batch.prompt,
+        files: batch.files,
+        profile,
+        root: manifest.defaultRoot,
+      });
+      responses.push(response);
+      batchSuggestions.push(...parseSuggestions(response));
+    }
+    const response = responses.join('\n');
 
-      logger.log('');
-      logger.log(chalk.dim('Run `refrepo plan` to see updated file counts'));
-
+    if (batchSuggestions.length === 0) {
+      logger.log(chalk.green(`✓ ${provider.label} found no files to ignore`));
       return {
         success: true,
         data: {
+          provider: provider.name,
           suggestions: response,
-          patterns,
-          applied: true,
-          patternsAdded: addResult.added.length,
+          patterns: [],
+          batches: batches.length,
+          queued: [],
+          skippedRejected: [],
         },
       };
-    } else {
-      // Just show suggestions
-      logger.log(chalk.bold('Suggestions:'));
-      logger.log('');
-      logger.log(response);
-      logger.log('');
-      logger.log(chalk.dim('Run `refrepo suggest --apply` to apply these patterns'));
+    }
 
-      return {
-        success: true,
-        data: { suggestions: response },
-      };
+    // Match each pattern against what would be indexed today
+    logger.log(chalk.dim('Matching patterns against planned files...'));
+    const plan = await computePlan(manifest);
+    const plannedFiles = plan.allFiles ?? [];
+    const suggestions = mergeSuggestions(batchSuggestions, plannedFiles);
+
+    const queue = loadSuggestionQueue();
+    const queued = queueSuggestions(queue, suggestions, {
+      provider: provider.name,
+      plannedFiles,
+      customIgnores: getCustomIgnorePatterns(manifest),
+    });
+    saveSuggestionQueue(queue);
+
+    const checks = checkPatterns(queued.queued.map((s) => s.pattern), plan, manifest);
+    printSuggestions(queued.queued, checks, logger);
+    if (queued.skippedRejected.length > 0) {
+      logger.log(chalk.dim(`Skipped ${queued.skippedRejected.length} previously rejected pattern(s)`));
+    }
+    if (queued.skippedExisting.length > 0) {
+      logger.log(chalk.dim(`Skipped ${queued.skippedExisting.length} pattern(s) already in customIgnores`));
+    }
+
+    const result: SuggestResult = {
+      provider: provider.name,
+      suggestions: response,
+      patterns: queued.queued.map((s) => s.pattern),
+      batches: batches.length,
+      queued: queued.queued,
+      checks,
+      skippedRejected: queued.skippedRejected,
+    };
+
+    if (!applyMode) {
+      if (queued.queued.length > 0) {
+        logger.log('');
+        logger.log(chalk.dim('Run `refrepo suggest review` to accept or reject them'));
+      }
+      return { success: true, data: result };
     }
+
+    const candidates = queued.queued.map((suggestion, index) => ({
+      check: checks[index],
+      entry: createCustomIgnoreEntry(suggestion.pattern, {
+        source: 'model',
+        addedBy: suggestion.provider,
+        reason: suggestion.reason,
+        files: suggestion.files,
+      }),
+    }));
+    const accepted = acceptPatterns(queue, candidates, logger);
+    if (!accepted.success || !accepted.data) {
+      return { success: false, error: accepted.error };
+    }
+    return {
+      success: true,
+      data: { ...result, applied: true, patternsAdded: accepted.data.added.length, refused: accepted.data.refused },
+    };
   } catch (error) {
     return {
       success: false,
@@ -195,121 +342,251 @@ async function runSuggest(
   }
 }
 
-function buildPrompt(newFiles: string[]): string {
-  const fileList = newFiles.map((f) => `  - ${f}`).join('\n');
-
-  return `${TECH_STACK_CONTEXT}
+async function runSuggestReview(
+  ask: Ask,
+  logger: ReturnType<typeof createLogger>
+): Promise<CommandResult<ReviewResult>> {
+  let queue: SuggestionQueue;
+  try {
+    queue = loadSuggestionQueue();
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  if (queue.pending.length === 0) {
+    logger.log(chalk.dim('No pending suggestions. Run `refrepo suggest` first.'));
+    return { success: true, data: { accepted: [], rejected: [], pending: 0 } };
+  }
 
-The following NEW files have been added to our reference repos and will be indexed for semantic search:
+  const manifestResult = safeLoadManifest();
+  if (!manifestResult.success || !manifestResult.data) {
+    return {
+      success: false,
+      error: manifestResult.error || 'Failed to load manifest',
+    };
+  }
+  const manifest = manifestResult.data;
 
-${fileList}
+  // Files and blast radius are re-checked against today's plan
+  logger.log(chalk.dim('Planning...'));
+  let plan: PlanSummary;
+  try {
+    plan = await computePlan(manifest);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
 
-Analyze these files and tell me:
-1. Which files should be IGNORED (not relevant to our stack)?
-2. Which files should be KEPT (relevant to our stack)?
+  const plannedFiles = plan.allFiles ?? [];
+  const accepted: AcceptCandidate[] = [];
+  const rejected: string[] = [];
+  const total = queue.pending.length;
+
+  review: for (const [index, suggestion] of [...queue.pending].entries()) {
+    const [check] = checkPatterns([suggestion.pattern], plan, manifest);
+    logger.log('');
+    logger.log(chalk.bold(`[${index + 1}/${total}] `) + chalk.yellow(suggestion.pattern));
+    printSuggestionDetails(suggestion, check, logger);
+
+    for (;;) {
+      const answer = await ask(chalk.bold('[a]ccept [r]eject [e]dit [s]kip [q]uit? '));
+      if (answer === undefined || answer === 'q') {
+        break review;
+      } else if (answer === 'a') {
+        if (!check.safe) {
+          logger.log(chalk.red('  Refused - edit or reject the pattern'));
+          continue;
+        }
+        accepted.push({
+          check,
+          entry: createCustomIgnoreEntry(suggestion.pattern, {
+            source: 'model',
+            addedBy: suggestion.provider,
+            reason: suggestion.reason,
+            files: matchPatternFiles(suggestion.pattern, plannedFiles),
+          }),
+        });
+      } else if (answer === 'r') {
+        rejectSuggestion(queue, suggestion.pattern);
+        rejected.push(suggestion.pattern);
+      } else if (answer === 'e') {
+        const edited = await ask('Pattern: ');
+        if (!edited) continue;
+
+        const [editedCheck] = checkPatterns([edited], plan, manifest);
+        printCheck(editedCheck, logger);
+        if (!editedCheck.safe) continue;
+        if ((await ask('Accept edited pattern? [y/N] ')) !== 'y') continue;
+
+        // The original is replaced, so it should not come back either
+        rejectSuggestion(queue, suggestion.pattern);
+        accepted.push({
+          check: editedCheck,
+          entry: createCustomIgnoreEntry(edited, {
+            source: 'human',
+            addedBy: getCurrentUser(),
+            reason: suggestion.reason,
+            files: matchPatternFiles(edited, plannedFiles),
+          }),
+        });
+      } else if (answer !== 's') {
+        continue;
+      }
+      break;
+    }
+  }
 
-For files to ignore, provide the exact path patterns I should add to my ignore rules.
+  if (accepted.length > 0) {
+    const result = acceptPatterns(queue, accepted, logger);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+  } else {
+    saveSuggestionQueue(queue);
+  }
 
-Be concise. Focus only on files that are clearly irrelevant to our stack.
-If all files look relevant, just say "All files look relevant to your stack."`;
+  logger.log('');
+  logger.log(
+    chalk.dim(`Accepted ${accepted.length}, rejected ${rejected.length}, ${queue.pending.length} still pending`)
+  );
+  return {
+    success: true,
+    data: { accepted: accepted.map((c) => c.entry.pattern), rejected, pending: queue.pending.length },
+  };
 }
 
-function buildApplyPrompt(newFiles: string[]): string {
-  const fileList = newFiles.map((f) => `  - ${f}`).join('\n');
-
-  return `${TECH_STACK_CONTEXT}
-
-The following NEW files have been added to our reference repos:
-
-${fileList}
-
-Analyze these files and return ONLY the ignore patterns for files that should NOT be indexed.
-
-CRITICAL: Patterns MUST include the repository folder prefix (the first path component like "tanstack-router/", "better-auth-main/", etc.)
-
-Return patterns in this exact format - one pattern per line, starting with "IGNORE:":
-IGNORE: tanstack-router/examples/vue/
-IGNORE: better-auth-main/docs/content/docs/examples/nuxt.mdx
-
-Rules for patterns:
-- ALWAYS include the repository prefix (first folder in the path)
-- Use the exact file path for specific files
-- Use trailing / for directories to ignore all contents
-- Use * for wildcards when a whole directory should be ignored
-
-If ALL files are relevant and should be kept, respond with exactly:
-NONE
+/**
+ * Add checked patterns to customIgnores, drop them from the queue and regenerate .mgrepignore
+ * Unsafe patterns are refused and stay queued. The queue is only saved once
+ * the manifest was updated.
+ */
+function acceptPatterns(
+  queue: SuggestionQueue,
+  candidates: AcceptCandidate[],
+  logger: ReturnType<typeof createLogger>
+): CommandResult<{ added: string[]; refused: PatternCheck[] }> {
+  const safe = candidates.filter((c) => c.check.safe).map((c) => c.entry);
+  const refused = candidates.filter((c) => !c.check.safe).map((c) => c.check);
+
+  if (refused.length > 0) {
+    logger.log('');
+    logger.log(chalk.red(`Refused ${refused.length} unsafe pattern(s):`));
+    for (const check of refused) {
+      logger.log(chalk.yellow(`  ${check.pattern}`));
+      printCheck(check, logger);
+    }
+  }
 
-Be conservative - only ignore files that are clearly not relevant to our React/TanStack/Convex stack.`;
-}
+  if (safe.length === 0) {
+    saveSuggestionQueue(queue);
+    return { success: true, data: { added: [], refused } };
+  }
 
-function parsePatterns(response: string): string[] {
-  const patterns: string[] = [];
+  const addResult = addCustomIgnores(safe);
+  if (!addResult.success) {
+    return {
+      success: false,
+      error: `Failed to add patterns to manifest: ${addResult.error}`,
+    };
+  }
+  for (const entry of safe) {
+    removePendingSuggestion(queue, entry.pattern);
+  }
+  saveSuggestionQueue(queue);
 
-  // Check if Claude said none
-  if (response.trim().toUpperCase() === 'NONE') {
-    return [];
+  logger.log('');
+  if (addResult.added.length === 0) {
+    logger.log(chalk.dim('All patterns already exist in manifest'));
+  } else {
+    logger.log(chalk.green(`✓ Added ${addResult.added.length} pattern(s) to manifest`));
   }
 
-  // Parse IGNORE: lines
-  const lines = response.split('\n');
-  for (const line of lines) {
-    const match = line.match(/^IGNORE:\s*(.+)$/i);
-    if (match) {
-      const pattern = match[1].trim();
-      if (pattern) {
-        patterns.push(pattern);
-      }
-    }
+  // Regenerate .mgrepignore
+  const updated = safeLoadManifest();
+  if (updated.success && updated.data) {
+    writeIgnoreFiles(updated.data, { global: true });
+    logger.log(chalk.green('✓ Regenerated .mgrepignore'));
   }
 
-  return patterns;
+  logger.log(chalk.dim('Run `refrepo plan` to see updated file counts'));
+  return { success: true, data: { added: addResult.added, refused } };
 }
 
 /**
- * Check if Claude CLI is available
+ * Blast radius and safety problems of a pattern
  */
-function isClaudeAvailable(): boolean {
-  try {
-    execSync('claude --version', { stdio: 'pipe' });
-    return true;
-  } catch {
-    return false;
+function printCheck(check: PatternCheck, logger: ReturnType<typeof createLogger>): void {
+  const repos = check.repos.map((r) => `${r.repoId} ${Math.round(r.fraction * 100)}%`).join(', ');
+  logger.log(
+    chalk.dim(`  Removes ${check.fileCount} planned file(s), ${formatBytes(check.bytes)}${repos ? ` (${repos})` : ''}`)
+  );
+  for (const problem of check.problems) {
+    logger.log(chalk.red(`  ✗ ${problem}`));
   }
 }
 
-function callClaude(prompt: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    // Use stdin for prompt to avoid E2BIG (argument list too long) errors
-    const child = spawn('claude', ['-p', '-'], {
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
-
-    let stdout = '';
-    let stderr = '';
-
-    child.stdout.on('data', (data) => {
-      stdout += data.toString();
-    });
-
-    child.stderr.on('data', (data) => {
-      stderr += data.toString();
-    });
-
-    child.on('close', (code) => {
-      if (code !== 0) {
-        reject(new Error(`Claude exited with code ${code}: ${stderr}`));
-        return;
-      }
-      resolve(stdout.trim());
-    });
+function printSuggestionDetails(
+  suggestion: PendingSuggestion,
+  check: PatternCheck | undefined,
+  logger: ReturnType<typeof createLogger>
+): void {
+  if (suggestion.reason) {
+    logger.log(`  ${suggestion.reason}`);
+  }
+  if (check) {
+    printCheck(check, logger);
+  } else {
+    logger.log(chalk.dim(`  Removes ${suggestion.files.length} planned file(s)`));
+  }
+  logger.log(chalk.dim(`  Suggested by ${suggestion.provider}`));
+  for (const file of suggestion.files.slice(0, FILE_PREVIEW_LIMIT)) {
+    logger.log(chalk.dim(`    ${file}`));
+  }
+  if (suggestion.files.length > FILE_PREVIEW_LIMIT) {
+    logger.log(chalk.dim(`    … and ${suggestion.files.length - FILE_PREVIEW_LIMIT} more`));
+  }
+}
 
-    child.on('error', (error) => {
-      reject(new Error(`Failed to run Claude: ${error.message}. Is Claude Code installed?`));
-    });
+function printSuggestions(
+  suggestions: PendingSuggestion[],
+  checks: PatternCheck[],
+  logger: ReturnType<typeof createLogger>
+): void {
+  if (suggestions.length === 0) {
+    return;
+  }
+  logger.log('');
+  logger.log(chalk.bold(`Queued ${suggestions.length} suggestion(s):`));
+  for (const [index, suggestion] of suggestions.entries()) {
+    const check = checks[index];
+    logger.log(
+      chalk.yellow(`  ${suggestion.pattern}`) +
+      chalk.dim(`  (${check.fileCount} file(s), ${formatBytes(check.bytes)})`) +
+      (check.safe ? '' : chalk.red('  unsafe'))
+    );
+    if (suggestion.reason) {
+      logger.log(chalk.dim(`    ${suggestion.reason}`));
+    }
+    for (const problem of check.problems) {
+      logger.log(chalk.red(`    ✗ ${problem}`));
+    }
+  }
+}
 
-    // Write prompt to stdin and close
-    child.stdin.write(prompt);
-    child.stdin.end();
-  });
+function printQueue(queue: SuggestionQueue, logger: ReturnType<typeof createLogger>): void {
+  if (queue.pending.length === 0) {
+    logger.log(chalk.dim('No pending suggestions.'));
+  }
+  for (const suggestion of queue.pending) {
+    logger.log(chalk.yellow(suggestion.pattern));
+    printSuggestionDetails(suggestion, undefined, logger);
+  }
+  if (queue.rejected.length > 0) {
+    logger.log('');
+    logger.log(chalk.dim(`${queue.rejected.length} rejected pattern(s) will not be suggested again`));
+  }
 }
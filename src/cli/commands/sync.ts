@@ -10,8 +10,22 @@ import {
   getRepoPath,
   getEnabledRepos,
 } from '../../core/manifest.js';
-import { cloneRepo, pullRepo, isGitRepo } from '../../core/git.js';
+import {
+  cloneRepo,
+  pullRepo,
+  checkoutRef,
+  checkoutBranch,
+  isGitRepo,
+  getSparseCheckout,
+  setSparseCheckout,
+  disableSparseCheckout,
+  type CloneOptions,
+  type SparseSpec,
+} from '../../core/git.js';
 import { resolveRoot } from '../../core/config.js';
+import { resolveRepoIgnoreRules } from '../../core/repo-rules.js';
+import { resolveSparseSpec, sparseStateMatches } from '../../core/sparse.js';
+import { loadLockfile, getLockedCommit } from '../../core/lockfile.js';
 import { createLogger, printJson, type Logger } from '../output.js';
 import type { CommandResult, RepoConfig } from '../../core/types.js';
 
@@ -20,13 +34,18 @@ interface SyncOptions {
   root?: string;
   concurrency?: string;
   depth?: string;
+  locked?: boolean;
 }
 
 interface RepoSyncResult {
   id: string;
   name: string;
-  action: 'cloned' | 'pulled' | 'skipped' | 'failed';
+  action: 'cloned' | 'pulled' | 'pinned' | 'skipped' | 'failed';
   updated?: boolean;
+  /** Checked-out commit for pinned repos */
+  commit?: string;
+  /** Sparse-checkout set was changed to match the manifest */
+  sparseUpdated?: boolean;
   error?: string;
 }
 
@@ -36,9 +55,11 @@ interface SyncResult {
   summary: {
     cloned: number;
     pulled: number;
+    pinned: number;
     updated: number;
     skipped: number;
     failed: number;
+    sparseUpdated: number;
   };
 }
 
@@ -49,6 +70,7 @@ export function createSyncCommand(): Command {
     .option('--root <path>', 'Override root path')
     .option('--concurrency <n>', 'Number of concurrent operations', '4')
     .option('--depth <n>', 'Clone depth (use 1 for shallow)', '1')
+    .option('--locked', 'Check out the exact commits recorded in refrepo.lock.yaml')
     .action(async (options: SyncOptions) => {
       const jsonMode = options.json === true;
       const logger = createLogger({ jsonMode });
@@ -78,7 +100,7 @@ function printSyncResult(data: SyncResult): void {
     const icon =
       repo.action === 'cloned'
         ? chalk.green('+')
-        : repo.action === 'pulled'
+        : repo.action === 'pulled' || repo.action === 'pinned'
           ? repo.updated
             ? chalk.blue('↓')
             : chalk.dim('=')
@@ -89,15 +111,17 @@ function printSyncResult(data: SyncResult): void {
     const actionText =
       repo.action === 'cloned'
         ? chalk.green('cloned')
-        : repo.action === 'pulled'
+        : repo.action === 'pulled' || repo.action === 'pinned'
           ? repo.updated
             ? chalk.blue('updated')
-            : chalk.dim('up-to-date')
+            : chalk.dim(repo.action === 'pinned' ? 'pinned' : 'up-to-date')
           : repo.action === 'failed'
             ? chalk.red('failed')
             : chalk.dim('skipped');
 
-    console.log(`  ${icon} ${repo.name.padEnd(35)} ${actionText}`);
+    const commitText = repo.commit ? chalk.dim(` @ ${repo.commit.slice(0, 12)}`) : '';
+    const sparseText = repo.sparseUpdated ? chalk.cyan(' (sparse set updated)') : '';
+    console.log(`  ${icon} ${repo.name.padEnd(35)} ${actionText}${commitText}${sparseText}`);
 
     if (repo.error) {
       console.log(chalk.dim(`      ${repo.error}`));
@@ -110,16 +134,37 @@ function printSyncResult(data: SyncResult): void {
   const { summary } = data;
   if (summary.cloned > 0) console.log(`  Cloned:   ${chalk.green(summary.cloned)}`);
   if (summary.updated > 0) console.log(`  Updated:  ${chalk.blue(summary.updated)}`);
-  if (summary.pulled - summary.updated > 0) {
-    console.log(`  Up-to-date: ${summary.pulled - summary.updated}`);
+  if (summary.pulled + summary.pinned - summary.updated > 0) {
+    console.log(`  Up-to-date: ${summary.pulled + summary.pinned - summary.updated}`);
   }
+  if (summary.sparseUpdated > 0) console.log(`  Sparse:   ${chalk.cyan(summary.sparseUpdated)} updated`);
   if (summary.failed > 0) console.log(`  Failed:   ${chalk.red(summary.failed)}`);
 }
 
+/**
+ * Bring an existing clone's sparse-checkout set in line with the manifest
+ * Returns true if the working tree was changed
+ */
+async function reconcileSparseCheckout(repoPath: string, spec: SparseSpec | null): Promise<boolean> {
+  const state = await getSparseCheckout(repoPath);
+  if (sparseStateMatches(state, spec)) {
+    return false;
+  }
+
+  if (spec) {
+    await setSparseCheckout(repoPath, spec);
+  } else {
+    await disableSparseCheckout(repoPath);
+  }
+  return true;
+}
+
 async function syncRepo(
   repoConfig: RepoConfig,
   root: string,
   depth: number,
+  sparseSpec: SparseSpec | null,
+  pinnedRef: string | undefined,
   logger: Logger
 ): Promise<RepoSyncResult> {
   const repoPath = getRepoPath(root, repoConfig.localDir);
@@ -129,7 +174,7 @@ async function syncRepo(
     // Clone the repo
     logger.dim(`  Cloning ${repoConfig.name}...`);
 
-    const cloneOptions: { depth?: number; branch?: string } = {
+    const cloneOptions: CloneOptions = {
       branch: repoConfig.branch,
     };
 
@@ -137,8 +182,20 @@ async function syncRepo(
       cloneOptions.depth = depth;
     }
 
+    if (sparseSpec) {
+      cloneOptions.sparse = sparseSpec;
+    }
+
     const result = await cloneRepo(repoConfig.url, repoPath, cloneOptions);
 
+    if (result.success && pinnedRef) {
+      const pinResult = await checkoutRef(repoPath, pinnedRef, { depth });
+      if (!pinResult.success) {
+        return { id: repoConfig.id, name: repoConfig.name, action: 'failed', error: pinResult.error };
+      }
+      return { id: repoConfig.id, name: repoConfig.name, action: 'cloned', commit: pinResult.commit };
+    }
+
     if (result.success) {
       return { id: repoConfig.id, name: repoConfig.name, action: 'cloned' };
     } else {
@@ -161,6 +218,43 @@ async function syncRepo(
     };
   }
 
+  // Reconcile sparse-checkout set before pulling so dropped paths aren't updated
+  let sparseUpdated = false;
+  try {
+    sparseUpdated = await reconcileSparseCheckout(repoPath, sparseSpec);
+  } catch (error) {
+    return {
+      id: repoConfig.id,
+      name: repoConfig.name,
+      action: 'failed',
+      error: `Sparse checkout update failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  // Pinned repos: move to the exact ref instead of pulling
+  if (pinnedRef) {
+    logger.dim(`  Checking out ${repoConfig.name} @ ${pinnedRef}...`);
+    const pinResult = await checkoutRef(repoPath, pinnedRef, { depth });
+
+    if (pinResult.success) {
+      return {
+        id: repoConfig.id,
+        name: repoConfig.name,
+        action: 'pinned',
+        updated: pinResult.updated,
+        commit: pinResult.commit,
+        sparseUpdated,
+      };
+    }
+    return { id: repoConfig.id, name: repoConfig.name, action: 'failed', error: pinResult.error };
+  }
+
+  // A previously pinned repo is on a detached HEAD - return to its branch
+  const branchResult = await checkoutBranch(repoPath, repoConfig.branch);
+  if (!branchResult.success) {
+    return { id: repoConfig.id, name: repoConfig.name, action: 'failed', error: branchResult.error };
+  }
+
   // Pull updates
   logger.dim(`  Pulling ${repoConfig.name}...`);
   const result = await pullRepo(repoPath, { ffOnly: true });
@@ -171,6 +265,7 @@ async function syncRepo(
       name: repoConfig.name,
       action: 'pulled',
       updated: result.updated,
+      sparseUpdated,
     };
   } else {
     return {
@@ -196,6 +291,9 @@ async function runSync(options: SyncOptions, logger: Logger): Promise<CommandRes
   const root = options.root ? resolveRoot(options.root) : manifest.defaultRoot;
   const depth = parseInt(options.depth || '1', 10);
   const concurrency = parseInt(options.concurrency || '4', 10);
+  if (!Number.isInteger(concurrency) || concurrency <= 0) {
+    return { success: false, error: `Invalid --concurrency: ${options.concurrency}` };
+  }
 
   // Ensure root directory exists
   if (!fs.existsSync(root)) {
@@ -208,6 +306,22 @@ async function runSync(options: SyncOptions, logger: Logger): Promise<CommandRes
 
   // Get enabled repos
   const enabledRepos = getEnabledRepos(manifest);
+  let repoRules: ReturnType<typeof resolveRepoIgnoreRules>;
+  let lockfile: ReturnType<typeof loadLockfile> = null;
+  try {
+    repoRules = resolveRepoIgnoreRules(manifest);
+    if (options.locked) {
+      lockfile = loadLockfile();
+      if (!lockfile) {
+        return { success: false, error: 'No lockfile found - run `refrepo lock update` first' };
+      }
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
 
   // Process repos with concurrency limit
   const results: RepoSyncResult[] = [];
@@ -219,7 +333,18 @@ async function runSync(options: SyncOptions, logger: Logger): Promise<CommandRes
 
   for (const chunk of chunks) {
     const chunkResults = await Promise.all(
-      chunk.map((repo) => syncRepo(repo, root, depth, logger))
+      chunk.map(async (repo): Promise<RepoSyncResult> => {
+        // --locked pins every repo to its lock commit; otherwise follow manifest ref
+        let pinnedRef = repo.ref;
+        if (lockfile) {
+          const locked = getLockedCommit(lockfile, repo);
+          if (locked.error) {
+            return { id: repo.id, name: repo.name, action: 'failed', error: locked.error };
+          }
+          pinnedRef = locked.commit;
+        }
+        return syncRepo(repo, root, depth, resolveSparseSpec(repo, repoRules.get(repo.id)), pinnedRef, logger);
+      })
     );
     results.push(...chunkResults);
   }
@@ -228,9 +353,11 @@ async function runSync(options: SyncOptions, logger: Logger): Promise<CommandRes
   const summary = {
     cloned: results.filter((r) => r.action === 'cloned').length,
     pulled: results.filter((r) => r.action === 'pulled').length,
-    updated: results.filter((r) => r.action === 'pulled' && r.updated).length,
+    pinned: results.filter((r) => r.action === 'pinned').length,
+    updated: results.filter((r) => (r.action === 'pulled' || r.action === 'pinned') && r.updated).length,
     skipped: results.filter((r) => r.action === 'skipped').length,
     failed: results.filter((r) => r.action === 'failed').length,
+    sparseUpdated: results.filter((r) => r.sparseUpdated).length,
   };
 
   return {
@@ -0,0 +1,274 @@
+/**
+ * refrepo tune - Interactively drop directories and extensions from a repo's plan
+ */
+
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { Command } from 'commander';
+import chalk from 'chalk';
+import {
+  addCustomIgnores,
+  addRepoIgnoreDrops,
+  createCustomIgnoreEntry,
+  getCurrentUser,
+  getEnabledRepos,
+  safeLoadManifest,
+} from '../../core/manifest.js';
+import { computePlan, formatBytes, type PlanSummary } from '../../core/plan.js';
+import { resolveThresholds } from '../../core/thresholds.js';
+import { checkPatterns } from '../../core/pattern-safety.js';
+import { matchPatternFiles } from '../../core/suggest-queue.js';
+import {
+  createTuneState,
+  listDirectory,
+  listExtensions,
+  summarizeTune,
+  toggleDirectory,
+  toggleExtension,
+  tuneToPatterns,
+  type TuneState,
+} from '../../core/tune.js';
+import { createLogger } from '../output.js';
+import { createAsk, type Ask } from '../prompt.js';
+import type { CommandResult, Manifest, PlanThresholds, RepoConfig, WarningLevel } from '../../core/types.js';
+
+interface TuneOptions {
+  repo?: string;
+  target?: string;
+  dryRun?: boolean;
+}
+
+type TuneTarget = 'custom' | 'repo';
+
+interface TuneResult {
+  repoId: string;
+  target?: TuneTarget;
+  patterns: string[];
+  added: string[];
+  written: boolean;
+}
+
+/** Extensions listed below the directory tree */
+const EXTENSION_LIMIT = 10;
+
+export function createTuneCommand(): Command {
+  return new Command('tune')
+    .description('Interactively drop directories and extensions from what a repo indexes')
+    .option('--repo <id>', 'Repo to tune (prompts when omitted)')
+    .option('--target <target>', 'Write choices to `custom` (customIgnores) or `repo` (per-repo ignore config)')
+    .option('--dry-run', 'Print the patterns instead of writing them')
+    .action(async (options: TuneOptions) => {
+      const logger = createLogger({ jsonMode: false });
+      const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+
+      try {
+        const result = await runTune(createAsk(rl), options, logger);
+        if (!result.success) {
+          logger.error('Error: ' + result.error);
+          process.exitCode = 1;
+        }
+      } finally {
+        rl.close();
+      }
+    });
+}
+
+async function runTune(
+  ask: Ask,
+  options: TuneOptions,
+  logger: ReturnType<typeof createLogger>
+): Promise<CommandResult<TuneResult>> {
+  if (options.target && options.target !== 'custom' && options.target !== 'repo') {
+    return { success: false, error: `Invalid --target: ${options.target} (expected custom or repo)` };
+  }
+
+  const manifestResult = safeLoadManifest();
+  if (!manifestResult.success || !manifestResult.data) {
+    return {
+      success: false,
+      error: manifestResult.error || 'Failed to load manifest',
+    };
+  }
+
+  const manifest = manifestResult.data;
+  const repo = options.repo
+    ? manifest.repos.find((r) => r.id === options.repo)
+    : await promptRepo(ask, getEnabledRepos(manifest));
+  if (!repo) {
+    return { success: false, error: options.repo ? `Unknown repo: ${options.repo}` : 'No repo selected' };
+  }
+
+  logger.log(chalk.dim(`Planning ${repo.name}...`));
+  let plan: PlanSummary;
+  try {
+    plan = await computePlan(manifest, { repoId: repo.id });
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  const repoPlan = plan.repos[0];
+  if (!fs.existsSync(repoPlan.repoPath)) {
+    return { success: false, error: `${repo.localDir} is not cloned - run \`refrepo sync\` first` };
+  }
+
+  const state = createTuneState(repoPlan);
+  const thresholds = resolveThresholds(manifest, repo);
+  let dir = '';
+
+  for (;;) {
+    printTuneView(state, dir, thresholds);
+    const answer = await ask(chalk.bold('tune> '));
+    if (answer === undefined || answer === 'q') {
+      logger.log(chalk.dim('Nothing written.'));
+      return { success: true, data: { repoId: repo.id, patterns: [], added: [], written: false } };
+    }
+
+    const entries = listDirectory(state, dir);
+    const extensions = listExtensions(state).slice(0, EXTENSION_LIMIT);
+    const dirIndex = /^\d+$/.test(answer) ? Number(answer) - 1 : -1;
+    const extMatch = answer.match(/^e(\d+)$/);
+    const cdMatch = answer.match(/^cd\s+(\d+)$/);
+
+    if (answer === 'w') {
+      return writeChoices(ask, state, repo, options, logger, { manifest, plan });
+    } else if (answer === '..') {
+      dir = dir.replace(/[^/]+\/$/, '');
+    } else if (cdMatch && entries[Number(cdMatch[1]) - 1]?.hasSubdirectories) {
+      dir = entries[Number(cdMatch[1]) - 1].path;
+    } else if (entries[dirIndex]) {
+      toggleDirectory(state, entries[dirIndex].path);
+    } else if (extMatch && extensions[Number(extMatch[1]) - 1]) {
+      toggleExtension(state, extensions[Number(extMatch[1]) - 1].ext);
+    } else if (answer) {
+      logger.log(chalk.yellow(`Unknown command: ${answer}`));
+    }
+  }
+}
+
+async function promptRepo(ask: Ask, repos: RepoConfig[]): Promise<RepoConfig | undefined> {
+  repos.forEach((repo, index) => {
+    console.log(`  ${String(index + 1).padStart(3)}  ${repo.name} ${chalk.dim(`(${repo.id})`)}`);
+  });
+  const answer = await ask(chalk.bold('Repo number: '));
+  return answer ? repos[Number(answer) - 1] : undefined;
+}
+
+function getWarningText(level: WarningLevel): string {
+  switch (level) {
+    case 'green':
+      return chalk.green('OK');
+    case 'yellow':
+      return chalk.yellow('WARN');
+    case 'red':
+      return chalk.red('HIGH');
+  }
+}
+
+function printTuneView(state: TuneState, dir: string, thresholds: PlanThresholds): void {
+  const totals = summarizeTune(state, thresholds);
+
+  console.log('');
+  console.log(
+    `${getWarningText(totals.warningLevel)}  ` +
+    `${totals.fileCount.toLocaleString()} files, ${formatBytes(totals.bytes)}` +
+    chalk.dim(`  (dropping ${totals.droppedFileCount.toLocaleString()} files, ${formatBytes(totals.droppedBytes)})`)
+  );
+  console.log(chalk.bold(`/${dir}`));
+
+  listDirectory(state, dir).forEach((entry, index) => {
+    const mark = entry.dropped ? chalk.red('✗') : chalk.green('✓');
+    const name = entry.dropped ? chalk.strikethrough(entry.name + '/') : entry.name + '/';
+    console.log(
+      `  ${String(index + 1).padStart(3)} ${mark} ${formatBytes(entry.bytes).padStart(10)} ` +
+      `${entry.fileCount.toLocaleString().padStart(7)}  ${name}${entry.hasSubdirectories ? chalk.dim(' …') : ''}`
+    );
+  });
+
+  const extensions = listExtensions(state).slice(0, EXTENSION_LIMIT);
+  if (extensions.length > 0) {
+    console.log(
+      '  ' +
+      extensions
+        .map((e, index) => {
+          const label = `e${index + 1} ${e.ext} ${formatBytes(e.bytes)}`;
+          return e.dropped ? chalk.red(`✗ ${label}`) : label;
+        })
+        .join(chalk.dim(' | '))
+    );
+  }
+
+  console.log(chalk.dim('  <n> toggle dir · e<n> toggle extension · cd <n> · .. · w write · q quit'));
+}
+
+async function writeChoices(
+  ask: Ask,
+  state: TuneState,
+  repo: RepoConfig,
+  options: TuneOptions,
+  logger: ReturnType<typeof createLogger>,
+  context: { manifest: Manifest; plan: PlanSummary }
+): Promise<CommandResult<TuneResult>> {
+  let target = options.target as TuneTarget | undefined;
+  while (!target) {
+    const answer = await ask('Write to (c)ustomIgnores or (r)epo ignore config? ');
+    if (answer === undefined) {
+      return { success: false, error: 'Input ended before a write target was chosen' };
+    }
+    target = answer === 'c' ? 'custom' : answer === 'r' ? 'repo' : undefined;
+  }
+
+  // customIgnores are root-relative; the repo ignore config is relative to the repo
+  const choices = tuneToPatterns(state, target === 'custom' ? `${repo.localDir}/` : '');
+  const result: TuneResult = { repoId: repo.id, target, patterns: choices.patterns, added: [], written: false };
+
+  if (choices.patterns.length === 0) {
+    logger.log(chalk.dim('Nothing dropped - nothing to write.'));
+    return { success: true, data: result };
+  }
+
+  logger.log(chalk.bold(target === 'custom' ? 'customIgnores:' : `${repo.id} ignore config:`));
+  for (const pattern of choices.patterns) {
+    logger.log(chalk.yellow(`  ${pattern}`));
+  }
+
+  // customIgnores go through the same safety checks as suggest
+  if (target === 'custom') {
+    const refused = checkPatterns(choices.patterns, context.plan, context.manifest).filter((c) => !c.safe);
+    if (refused.length > 0) {
+      return {
+        success: false,
+        error:
+          `Refused unsafe pattern(s): ${refused.map((c) => `${c.pattern} (${c.problems.join('; ')})`).join(', ')}. ` +
+          'Use --target repo, or adjust patternSafety in the manifest',
+      };
+    }
+  }
+
+  if (options.dryRun) {
+    logger.log(chalk.dim('Dry run - nothing written.'));
+    return { success: true, data: result };
+  }
+
+  const write =
+    target === 'custom'
+      ? addCustomIgnores(
+          choices.patterns.map((pattern) =>
+            createCustomIgnoreEntry(pattern, {
+              source: 'human',
+              addedBy: getCurrentUser(),
+              reason: 'Dropped with refrepo tune',
+              files: matchPatternFiles(pattern, context.plan.allFiles ?? []),
+            })
+          )
+        )
+      : addRepoIgnoreDrops(repo.id, { dropPaths: choices.dropPaths, dropExtensions: choices.dropExtensions });
+  if (!write.success) {
+    return { success: false, error: `Failed to update manifest: ${write.error}` };
+  }
+
+  logger.log(chalk.green(`✓ Added ${write.added.length} pattern(s) to manifest`));
+  logger.log(chalk.dim('Run `refrepo ignore build` to regenerate .mgrepignore'));
+  return { success: true, data: { ...result, added: write.added, written: true } };
+}
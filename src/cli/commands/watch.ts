@@ -0,0 +1,364 @@
+/**
+ * refrepo watch - Keep the mgrep store fresh in the background
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { safeLoadManifest, getReposByStore, resolveManifestPath } from '../../core/manifest.js';
+import { formatBytes, type PlanSummary } from '../../core/plan.js';
+import { saveIndexedBaseline } from '../../core/baseline.js';
+import { updateLockfile } from '../../core/lockfile.js';
+import { createMgrepClient, type MgrepError, type MgrepWatchHandle } from '../../core/mgrep.js';
+import {
+  appendWatchLog,
+  getWatchLogPath,
+  getWatchStatusPath,
+  isWatchRunning,
+  loadWatchStatus,
+  runWatchCycle,
+  saveWatchStatus,
+  type WatchCycleResult,
+  type WatchMgrep,
+  type WatchStatus,
+} from '../../core/watch.js';
+import { DEFAULT_INDEX_TIMEOUT_SECONDS, DEFAULT_WATCH_INTERVAL_SECONDS } from '../../core/constants.js';
+import { createLogger, printJson, type Logger } from '../output.js';
+import type { CommandResult, Manifest } from '../../core/types.js';
+
+interface WatchOptions {
+  json?: boolean;
+  store?: string;
+  interval?: string;
+  once?: boolean;
+  timeoutSeconds?: string;
+}
+
+interface WatchStatusOptions {
+  json?: boolean;
+}
+
+interface WatchStatusResult {
+  running: boolean;
+  statusPath: string;
+  logPath: string;
+  status: WatchStatus | null;
+}
+
+export function createWatchCommand(): Command {
+  const cmd = new Command('watch')
+    .description('Periodically pull repos, re-check the plan and keep mgrep watching')
+    .option('--json', 'Output the cycle result as JSON (with --once)')
+    .option('--store <name>', 'mgrep store to keep fresh (required with several stores)')
+    .option('--interval <seconds>', 'Seconds between cycles', String(DEFAULT_WATCH_INTERVAL_SECONDS))
+    .option('--once', 'Run one cycle, wait for mgrep to sync, then exit')
+    .option('--timeout-seconds <n>', 'With --once, stop mgrep after N seconds', String(DEFAULT_INDEX_TIMEOUT_SECONDS))
+    .action(async (options: WatchOptions) => {
+      const jsonMode = options.json === true;
+      const logger = createLogger({ jsonMode });
+
+      const result = await runWatch(options, logger);
+
+      if (jsonMode) {
+        printJson(result);
+        if (!result.success) {
+          process.exitCode = 1;
+        }
+      } else if (!result.success) {
+        logger.error('Error: ' + result.error);
+        process.exitCode = 1;
+      }
+    });
+
+  cmd.command('status')
+    .description('Show the state of the running (or last) watch')
+    .option('--json', 'Output as JSON')
+    .action((_options: WatchStatusOptions, command: Command) => {
+      // `--json` after `status` is parsed by the parent watch command
+      const options = command.optsWithGlobals<WatchStatusOptions>();
+      const statusPath = getWatchStatusPath();
+      const status = loadWatchStatus(statusPath);
+      const data: WatchStatusResult = {
+        running: isWatchRunning(status),
+        statusPath,
+        logPath: getWatchLogPath(),
+        status,
+      };
+
+      if (options.json) {
+        printJson({ success: true, data });
+      } else {
+        printWatchStatus(data);
+      }
+    });
+
+  return cmd;
+}
+
+/**
+ * Long-running `mgrep watch` for one store
+ * Unlike `refrepo index`, the child is left running after its initial sync.
+ */
+function createMgrepWatcher(
+  root: string,
+  store: string,
+  events: { log: (message: string) => void; onSynced: () => void; onExit: (error: MgrepError) => void }
+): WatchMgrep {
+  const client = createMgrepClient({ root });
+  let handle: MgrepWatchHandle | undefined;
+
+  return {
+    isRunning() {
+      return handle?.isRunning() ?? false;
+    },
+
+    start() {
+      handle = client.watch(store, {
+        onEvent: (event) => {
+          if (event.type === 'synced') {
+            events.log(`mgrep: ${event.line}`);
+            events.onSynced();
+          }
+        },
+        onExit: (error) => {
+          events.log(`mgrep exited unexpectedly (${error.kind}): ${error.message}`);
+          events.onExit(error);
+        },
+      });
+    },
+
+    async stop() {
+      await handle?.stop();
+      handle = undefined;
+    },
+  };
+}
+
+async function runWatch(options: WatchOptions, logger: Logger): Promise<CommandResult<WatchCycleResult>> {
+  const manifestResult = safeLoadManifest();
+  if (!manifestResult.success || !manifestResult.data) {
+    return {
+      success: false,
+      error: manifestResult.error || 'Failed to load manifest',
+    };
+  }
+
+  // One .mgrepignore at the root means one watched store at a time
+  const stores = [...getReposByStore(manifestResult.data).keys()];
+  const store = options.store ?? (stores.length === 1 ? stores[0] : undefined);
+  if (!store) {
+    return { success: false, error: `Several stores configured (${stores.join(', ')}) - pick one with --store` };
+  }
+  if (!stores.includes(store)) {
+    return { success: false, error: `No enabled repos in store: ${store}` };
+  }
+
+  const intervalSeconds = parseInt(options.interval || String(DEFAULT_WATCH_INTERVAL_SECONDS), 10);
+  if (!Number.isFinite(intervalSeconds) || intervalSeconds <= 0) {
+    return { success: false, error: `Invalid --interval: ${options.interval}` };
+  }
+
+  const timeoutSeconds = parseInt(options.timeoutSeconds || String(DEFAULT_INDEX_TIMEOUT_SECONDS), 10);
+  if (!Number.isFinite(timeoutSeconds) || timeoutSeconds <= 0) {
+    return { success: false, error: `Invalid --timeout-seconds: ${options.timeoutSeconds}` };
+  }
+
+  const manifestPath = resolveManifestPath();
+  const statusPath = getWatchStatusPath(manifestPath);
+  const logPath = getWatchLogPath(manifestPath);
+  const previous = loadWatchStatus(statusPath);
+  if (isWatchRunning(previous) && previous!.pid !== process.pid) {
+    return { success: false, error: `refrepo watch is already running (pid ${previous!.pid}, store ${previous!.store})` };
+  }
+
+  const log = (message: string) => {
+    appendWatchLog(message, logPath);
+    logger.dim(`[${new Date().toLocaleTimeString()}] ${message}`);
+  };
+
+  const now = new Date().toISOString();
+  const status: WatchStatus = {
+    pid: process.pid,
+    store,
+    intervalSeconds,
+    startedAt: now,
+    updatedAt: now,
+    state: 'cycling',
+    cycles: 0,
+  };
+  const save = () => {
+    status.updatedAt = new Date().toISOString();
+    saveWatchStatus(status, statusPath);
+  };
+
+  // Baseline and lockfile follow what mgrep actually synced
+  let manifest: Manifest = manifestResult.data;
+  let syncedPlan: PlanSummary | undefined;
+  let onceSynced: (() => void) | undefined;
+  let onceExited: ((error: MgrepError) => void) | undefined;
+  const mgrep = createMgrepWatcher(manifest.defaultRoot, store, {
+    log,
+    onSynced: () => {
+      status.lastSyncAt = new Date().toISOString();
+      save();
+      onceSynced?.();
+      const files = syncedPlan?.allFiles;
+      const repos = getReposByStore(manifest).get(store) ?? [];
+      if (files && files.length > 0) {
+        saveIndexedBaseline(manifest, manifest.defaultRoot, store, repos, files)
+          .then(() => updateLockfile(manifest, repos, manifest.defaultRoot))
+          .catch((error) => log(`Could not save baseline: ${error instanceof Error ? error.message : String(error)}`));
+      }
+    },
+    // A crashed mgrep is restarted by the next cycle; only --once gives up early
+    onExit: (error) => {
+      onceExited?.(error);
+    },
+  });
+
+  let stopping = false;
+  let wake: (() => void) | undefined;
+  const shutdown = (signal: string) => {
+    if (stopping) return;
+    stopping = true;
+    log(`Received ${signal}, stopping`);
+    wake?.();
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  logger.info(chalk.bold(`Watching store ${store}`) + chalk.dim(` (every ${intervalSeconds}s)`));
+  logger.dim(`Status: ${statusPath}`);
+  logger.dim(`Log:    ${logPath}`);
+  logger.log('');
+  log(`Watch started (pid ${process.pid}, store ${store}, interval ${intervalSeconds}s)`);
+  save();
+
+  let lastResult: WatchCycleResult | undefined;
+  while (!stopping) {
+    status.state = 'cycling';
+    status.nextCycleAt = undefined;
+    save();
+
+    // Pick up manifest edits (customIgnores, thresholds) on every cycle
+    const reloaded = safeLoadManifest(manifestPath);
+    if (reloaded.success && reloaded.data) {
+      manifest = reloaded.data;
+    } else {
+      log(`Could not reload manifest, using the previous one: ${reloaded.error}`);
+    }
+
+    try {
+      const { result, plan } = await runWatchCycle(manifest, { store, mgrep, log });
+      if (plan) syncedPlan = plan;
+      lastResult = result;
+      status.lastCycle = result;
+      status.lastError = undefined;
+      status.state = result.gate === 'blocked' ? 'blocked' : 'watching';
+      log(`Cycle done: ${formatCycle(result)}`);
+    } catch (error) {
+      status.lastError = error instanceof Error ? error.message : String(error);
+      log(`Cycle failed: ${status.lastError}`);
+    }
+    status.cycles++;
+
+    if (options.once) {
+      if (lastResult?.mgrep === 'started' || lastResult?.mgrep === 'restarted') {
+        const outcome = await new Promise<'synced' | 'timeout' | 'stopped' | MgrepError>((resolve) => {
+          const timer = setTimeout(() => resolve('timeout'), timeoutSeconds * 1000);
+          const settle = (value: 'synced' | 'stopped' | MgrepError) => {
+            clearTimeout(timer);
+            resolve(value);
+          };
+          onceSynced = () => settle('synced');
+          onceExited = (error) => settle(error);
+          wake = () => settle('stopped');
+        });
+        if (outcome === 'timeout') {
+          log(`mgrep did not finish its initial sync within ${timeoutSeconds}s`);
+          status.lastError = `mgrep sync timed out after ${timeoutSeconds}s`;
+        } else if (typeof outcome !== 'string') {
+          status.lastError = `mgrep exited before its initial sync (${outcome.kind}): ${outcome.message}`;
+        }
+      }
+      break;
+    }
+
+    status.nextCycleAt = new Date(Date.now() + intervalSeconds * 1000).toISOString();
+    save();
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, intervalSeconds * 1000);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  await mgrep.stop();
+  status.state = 'stopped';
+  status.nextCycleAt = undefined;
+  save();
+  log('Watch stopped');
+
+  if (!lastResult) {
+    return { success: false, error: status.lastError ?? 'No watch cycle completed' };
+  }
+  if (options.once && lastResult.gate === 'blocked') {
+    return { success: false, error: 'Plan exceeds error thresholds - mgrep was not started' };
+  }
+  if (options.once && status.lastError) {
+    return { success: false, error: status.lastError };
+  }
+  return { success: true, data: lastResult };
+}
+
+function formatCycle(result: WatchCycleResult): string {
+  const failed = result.repos.filter((r) => r.action === 'failed').map((r) => r.repoId);
+  const locked = result.repos.filter((r) => r.action === 'locked').map((r) => r.repoId);
+  const parts = [
+    `gate ${result.gate}`,
+    result.pulled.length > 0 ? `pulled ${result.pulled.join(', ')}` : 'no upstream changes',
+    ...(result.ignoreChanged ? ['ignore rules changed'] : []),
+    ...(failed.length > 0 ? [`failed ${failed.join(', ')}`] : []),
+    ...(locked.length > 0 ? [`detached ${locked.join(', ')} (run refrepo sync)`] : []),
+    ...(result.fileCount !== undefined ? [`${result.fileCount} files, ${formatBytes(result.totalBytes ?? 0)}`] : []),
+    `mgrep ${result.mgrep}`,
+  ];
+  return parts.join('; ');
+}
+
+function printWatchStatus(data: WatchStatusResult): void {
+  const { status } = data;
+  if (!status) {
+    console.log(chalk.dim('No watch has run yet.'));
+    console.log(chalk.dim('Start one with: refrepo watch'));
+    return;
+  }
+
+  const state = data.running
+    ? status.state === 'blocked'
+      ? chalk.red('blocked')
+      : chalk.green(status.state)
+    : chalk.dim(status.state === 'stopped' ? 'stopped' : `not running (last state: ${status.state})`);
+
+  console.log(chalk.bold('Watch Status'));
+  console.log(`  State:      ${state}`);
+  console.log(`  Store:      ${status.store}`);
+  console.log(`  PID:        ${status.pid}`);
+  console.log(`  Started:    ${new Date(status.startedAt).toLocaleString()}`);
+  console.log(`  Cycles:     ${status.cycles} (every ${status.intervalSeconds}s)`);
+  if (status.nextCycleAt && data.running) {
+    console.log(`  Next cycle: ${new Date(status.nextCycleAt).toLocaleString()}`);
+  }
+  if (status.lastSyncAt) {
+    console.log(`  Last sync:  ${new Date(status.lastSyncAt).toLocaleString()}`);
+  }
+  if (status.lastCycle) {
+    console.log(`  Last cycle: ${chalk.dim(formatCycle(status.lastCycle))}`);
+  }
+  if (status.lastError) {
+    console.log(`  Error:      ${chalk.red(status.lastError)}`);
+  }
+  console.log('');
+  console.log(chalk.dim(`Log: ${data.logPath}`));
+}
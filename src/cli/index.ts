@@ -16,6 +16,12 @@ import { createReportCommand } from './commands/report.js';
 import { createDoctorCommand } from './commands/doctor.js';
 import { createSearchCommand } from './commands/search.js';
 import { createSuggestCommand } from './commands/suggest.js';
+import { createLockCommand } from './commands/lock.js';
+import { createRepoCommand } from './commands/repo.js';
+import { createBaselineCommand } from './commands/baseline.js';
+import { createExplainCommand } from './commands/explain.js';
+import { createTuneCommand } from './commands/tune.js';
+import { createWatchCommand } from './commands/watch.js';
 
 const program = new Command();
 
@@ -27,14 +33,20 @@ program
 // Register all commands
 program.addCommand(createInitCommand());
 program.addCommand(createStatusCommand());
+program.addCommand(createRepoCommand());
 program.addCommand(createSyncCommand());
 program.addCommand(createPlanCommand());
+program.addCommand(createExplainCommand());
+program.addCommand(createTuneCommand());
 program.addCommand(createIgnoreCommand());
 program.addCommand(createIndexCommand());
+program.addCommand(createWatchCommand());
+program.addCommand(createBaselineCommand());
 program.addCommand(createReportCommand());
 program.addCommand(createDoctorCommand());
 program.addCommand(createSearchCommand());
 program.addCommand(createSuggestCommand());
+program.addCommand(createLockCommand());
 
 // Parse and execute
 program.parse();
@@ -0,0 +1,22 @@
+/**
+ * Line-by-line prompts for interactive commands
+ */
+
+import * as readline from 'readline';
+
+/** Ask a question; resolves to undefined once input ends */
+export type Ask = (question: string) => Promise<string | undefined>;
+
+/**
+ * Line-by-line prompt over a readline interface
+ * Lines are buffered from creation, so piped input typed ahead of the
+ * prompts (or while a plan is computed) is not lost.
+ */
+export function createAsk(rl: readline.Interface): Ask {
+  const lines = rl[Symbol.asyncIterator]();
+  return async (question) => {
+    process.stdout.write(question);
+    const next = await lines.next();
+    return next.done ? undefined : String(next.value).trim();
+  };
+}
@@ -1,34 +1,115 @@
 /**
  * Baseline file tracking for plan comparisons
- * Saves/loads list of indexed files to detect changes between runs
+ * Saves/loads indexed files (with size, mtime and content hash) to detect
+ * added, removed, modified and renamed files between runs
  */
 
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
-import { resolveManifestPath } from './manifest.js';
+import { getHeadCommit } from './git.js';
+import { getRepoPath, resolveManifestPath } from './manifest.js';
+import { StoreNameSchema } from './schema.js';
+import { BASELINE_HISTORY_DIRNAME, DEFAULT_BASELINE_HISTORY_LIMIT } from './constants.js';
+import type { Manifest, RepoConfig } from './types.js';
 
 const BASELINE_FILENAME = '.refrepo-baseline.json';
+// Not a valid store name, so it cannot collide with a store's history
+const DEFAULT_HISTORY_KEY = '@default';
+
+export interface BaselineFileEntry {
+  size: number;
+  mtimeMs: number;
+  /** sha256 of file contents */
+  hash: string;
+}
 
 export interface Baseline {
   timestamp: string;
+  /** mgrep store this baseline was indexed into (absent for the default store) */
+  store?: string;
   fileCount: number;
   files: string[];  // Relative paths from repo root
+  /** Per-file stats keyed by path (absent in path-only baselines) */
+  entries?: Record<string, BaselineFileEntry>;
+  /** HEAD commit per repo id at index time */
+  commits?: Record<string, string>;
+}
+
+export interface BaselineHistoryEntry {
+  /** Snapshot id (filesystem-safe timestamp) */
+  id: string;
+  timestamp: string;
+  fileCount: number;
+  path: string;
+}
+
+export interface BaselineDiff {
+  newFiles: string[];
+  removedFiles: string[];
+  /** Same path, different content (requires hashed baseline) */
+  modifiedFiles: string[];
+  /** Removed + new path with identical content (requires hashed baseline) */
+  renamedFiles: Array<{ from: string; to: string }>;
+}
+
+/**
+ * Hash a file's contents
+ */
+export function hashFile(filePath: string): string {
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+/**
+ * Stat and hash files relative to root
+ * Files whose size and mtime match the previous baseline reuse its hash
+ * instead of being re-read; unreadable files are skipped
+ */
+export function snapshotFiles(
+  root: string,
+  files: string[],
+  previous?: Baseline | null
+): Record<string, BaselineFileEntry> {
+  const entries: Record<string, BaselineFileEntry> = {};
+
+  for (const file of files) {
+    const fullPath = path.join(root, file);
+    try {
+      const stat = fs.statSync(fullPath);
+      const prev = previous?.entries?.[file];
+      const unchanged = prev && prev.size === stat.size && prev.mtimeMs === stat.mtimeMs;
+
+      entries[file] = {
+        size: stat.size,
+        mtimeMs: stat.mtimeMs,
+        hash: unchanged ? prev.hash : hashFile(fullPath),
+      };
+    } catch {
+      // Skip files we can't read
+    }
+  }
+
+  return entries;
 }
 
 /**
  * Get baseline file path (stored alongside manifest)
+ * @param store - Non-default mgrep store; omit for the manifest's default store
  */
-function getBaselinePath(): string {
+function getBaselinePath(store?: string): string {
+  assertStoreName(store);
   const manifestPath = resolveManifestPath();
   const manifestDir = path.dirname(manifestPath);
-  return path.join(manifestDir, BASELINE_FILENAME);
+  const filename = store ? BASELINE_FILENAME.replace(/\.json$/, `.${store}.json`) : BASELINE_FILENAME;
+  return path.join(manifestDir, filename);
 }
 
 /**
  * Load existing baseline, if any
+ * @param store - Non-default mgrep store; omit for the manifest's default store
  */
-export function loadBaseline(): Baseline | null {
-  const baselinePath = getBaselinePath();
+export function loadBaseline(store?: string): Baseline | null {
+  const baselinePath = getBaselinePath(store);
 
   if (!fs.existsSync(baselinePath)) {
     return null;
@@ -44,25 +125,224 @@ export function loadBaseline(): Baseline | null {
 
 /**
  * Save baseline after successful index
+ * @param store - Non-default mgrep store; omit for the manifest's default store
  */
-export function saveBaseline(files: string[]): void {
+export function saveBaseline(
+  files: string[],
+  store?: string,
+  details: Pick<Baseline, 'entries' | 'commits'> = {}
+): void {
   const baseline: Baseline = {
     timestamp: new Date().toISOString(),
+    ...(store ? { store } : {}),
     fileCount: files.length,
     files: files.sort(),
+    ...(details.commits ? { commits: details.commits } : {}),
+    ...(details.entries ? { entries: details.entries } : {}),
   };
 
-  const baselinePath = getBaselinePath();
-  fs.writeFileSync(baselinePath, JSON.stringify(baseline, null, 2), 'utf-8');
+  const content = JSON.stringify(baseline, null, 2);
+  fs.writeFileSync(getBaselinePath(store), content, 'utf-8');
+
+  // Keep recent index runs so earlier snapshots can be compared or restored
+  const historyDir = getHistoryDir(store);
+  fs.mkdirSync(historyDir, { recursive: true });
+  fs.writeFileSync(path.join(historyDir, `${toSnapshotId(baseline.timestamp)}.json`), content, 'utf-8');
+  pruneBaselineHistory(DEFAULT_BASELINE_HISTORY_LIMIT, store);
+}
+
+/**
+ * Save the baseline for a store after mgrep indexed it
+ * Records the indexed files with their stats and the HEAD commit of each repo.
+ */
+export async function saveIndexedBaseline(
+  manifest: Manifest,
+  root: string,
+  store: string,
+  repos: RepoConfig[],
+  files: string[]
+): Promise<void> {
+  const baselineStore = store === manifest.defaultStore ? undefined : store;
+  const commits: Record<string, string> = {};
+  for (const repo of repos) {
+    const commit = await getHeadCommit(getRepoPath(root, repo.localDir));
+    if (commit) commits[repo.id] = commit;
+  }
+  saveBaseline(files, baselineStore, {
+    entries: snapshotFiles(root, files, loadBaseline(baselineStore)),
+    commits,
+  });
+}
+
+/**
+ * Get the history directory for a store (stored alongside manifest)
+ * @param store - Non-default mgrep store; omit for the manifest's default store
+ */
+function getHistoryDir(store?: string): string {
+  assertStoreName(store);
+  return path.join(path.dirname(resolveManifestPath()), BASELINE_HISTORY_DIRNAME, store || DEFAULT_HISTORY_KEY);
+}
+
+/**
+ * Reject store names that would escape the baseline directory
+ */
+function assertStoreName(store?: string): void {
+  if (store !== undefined && !StoreNameSchema.safeParse(store).success) {
+    throw new Error(`Invalid store name: ${store}`);
+  }
+}
+
+/**
+ * Convert an ISO timestamp to a filesystem-safe snapshot id
+ */
+function toSnapshotId(timestamp: string): string {
+  return timestamp.replace(/[:.]/g, '-');
+}
+
+/**
+ * List saved baselines for a store, newest first
+ * @param store - Non-default mgrep store; omit for the manifest's default store
+ */
+export function listBaselineHistory(store?: string): BaselineHistoryEntry[] {
+  const historyDir = getHistoryDir(store);
+  if (!fs.existsSync(historyDir)) {
+    return [];
+  }
+
+  const entries: BaselineHistoryEntry[] = [];
+  for (const name of fs.readdirSync(historyDir)) {
+    if (!name.endsWith('.json')) continue;
+
+    const filePath = path.join(historyDir, name);
+    try {
+      const baseline = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Baseline;
+      entries.push({
+        id: name.replace(/\.json$/, ''),
+        timestamp: baseline.timestamp,
+        fileCount: baseline.fileCount,
+        path: filePath,
+      });
+    } catch {
+      // Skip unreadable snapshots
+    }
+  }
+
+  return entries.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+/**
+ * Resolve a snapshot reference to a history entry
+ * Accepts a full id, a unique id prefix, `latest`, or `~N` (N runs before latest)
+ * @param store - Non-default mgrep store; omit for the manifest's default store
+ */
+export function resolveBaselineSnapshot(ref: string, store?: string): BaselineHistoryEntry {
+  const history = listBaselineHistory(store);
+  const storeLabel = store || 'default';
+
+  if (history.length === 0) {
+    throw new Error(`No baseline history for store: ${storeLabel}`);
+  }
+
+  const offset = ref === 'latest' ? 0 : ref.match(/^~(\d+)$/) ? parseInt(ref.slice(1), 10) : undefined;
+  if (offset !== undefined) {
+    const entry = history[offset];
+    if (!entry) {
+      throw new Error(`Only ${history.length} baseline(s) in history for store: ${storeLabel}`);
+    }
+    return entry;
+  }
+
+  const normalized = toSnapshotId(ref);
+  const exact = history.find((e) => e.id === normalized);
+  if (exact) {
+    return exact;
+  }
+
+  const matches = history.filter((e) => e.id.startsWith(normalized));
+  if (matches.length === 1) {
+    return matches[0];
+  }
+  if (matches.length > 1) {
+    throw new Error(`Ambiguous baseline "${ref}" matches ${matches.length} snapshots`);
+  }
+  throw new Error(`Baseline not found: ${ref} (store: ${storeLabel})`);
+}
+
+/**
+ * Load a saved baseline from history
+ * @param store - Non-default mgrep store; omit for the manifest's default store
+ */
+export function loadBaselineSnapshot(ref: string, store?: string): Baseline & { id: string } {
+  const entry = resolveBaselineSnapshot(ref, store);
+  const baseline = JSON.parse(fs.readFileSync(entry.path, 'utf-8')) as Baseline;
+  return { ...baseline, id: entry.id };
+}
+
+/**
+ * Make a saved baseline the current one used by plan comparisons
+ * @param store - Non-default mgrep store; omit for the manifest's default store
+ */
+export function restoreBaseline(ref: string, store?: string): BaselineHistoryEntry {
+  const entry = resolveBaselineSnapshot(ref, store);
+  fs.copyFileSync(entry.path, getBaselinePath(store));
+  return entry;
+}
+
+/**
+ * Delete all but the newest snapshots of a store
+ * The snapshot of the current baseline is always kept (e.g. after a restore).
+ * @param store - Non-default mgrep store; omit for the manifest's default store
+ * @returns The deleted snapshots (or the ones that would be, with dryRun)
+ */
+export function pruneBaselineHistory(
+  keep: number,
+  store?: string,
+  options: { dryRun?: boolean } = {}
+): BaselineHistoryEntry[] {
+  const current = loadBaseline(store);
+  const pruned = listBaselineHistory(store)
+    .slice(keep)
+    .filter((entry) => !current || entry.timestamp !== current.timestamp);
+
+  if (!options.dryRun) {
+    for (const entry of pruned) {
+      fs.rmSync(entry.path, { force: true });
+    }
+  }
+  return pruned;
+}
+
+/**
+ * Restrict a baseline to one repo's files and commit
+ */
+export function filterBaseline(baseline: Baseline, repo: Pick<RepoConfig, 'id' | 'localDir'>): Baseline {
+  const prefix = `${repo.localDir}/`;
+  const files = baseline.files.filter((f) => f.startsWith(prefix));
+  const entries = baseline.entries
+    ? Object.fromEntries(Object.entries(baseline.entries).filter(([f]) => f.startsWith(prefix)))
+    : undefined;
+
+  const commit = baseline.commits?.[repo.id];
+
+  return {
+    ...baseline,
+    fileCount: files.length,
+    files,
+    commits: commit ? { [repo.id]: commit } : undefined,
+    ...(entries ? { entries } : {}),
+  };
 }
 
 /**
  * Compare current files to baseline
+ * Modified and renamed files are only detected when both the baseline and
+ * the current snapshot carry content hashes
  */
 export function compareToBaseline(
   currentFiles: string[],
-  baseline: Baseline
-): { newFiles: string[]; removedFiles: string[] } {
+  baseline: Baseline,
+  currentEntries?: Record<string, BaselineFileEntry>
+): BaselineDiff {
   const currentSet = new Set(currentFiles);
   const baselineSet = new Set(baseline.files);
 
@@ -83,8 +363,76 @@ export function compareToBaseline(
     }
   }
 
+  const modifiedFiles: string[] = [];
+  const renamedFiles: Array<{ from: string; to: string }> = [];
+  const baselineEntries = baseline.entries;
+
+  if (baselineEntries && currentEntries) {
+    for (const file of currentSet) {
+      const before = baselineEntries[file];
+      const after = currentEntries[file];
+      if (before && after && before.hash !== after.hash) {
+        modifiedFiles.push(file);
+      }
+    }
+
+    // Pair removed and new files with identical content (empty files are ambiguous)
+    const removedByHash = new Map<string, string[]>();
+    for (const file of removedFiles.sort()) {
+      const entry = baselineEntries[file];
+      if (entry && entry.size > 0) {
+        removedByHash.set(entry.hash, [...(removedByHash.get(entry.hash) ?? []), file]);
+      }
+    }
+
+    for (const file of newFiles.sort()) {
+      const entry = currentEntries[file];
+      const from = entry && entry.size > 0 ? removedByHash.get(entry.hash)?.shift() : undefined;
+      if (from) {
+        renamedFiles.push({ from, to: file });
+      }
+    }
+  }
+
+  const renamedFrom = new Set(renamedFiles.map((r) => r.from));
+  const renamedTo = new Set(renamedFiles.map((r) => r.to));
+
   return {
-    newFiles: newFiles.sort(),
-    removedFiles: removedFiles.sort(),
+    newFiles: newFiles.filter((f) => !renamedTo.has(f)).sort(),
+    removedFiles: removedFiles.filter((f) => !renamedFrom.has(f)).sort(),
+    modifiedFiles: modifiedFiles.sort(),
+    renamedFiles,
+  };
+}
+
+/**
+ * Load and merge baselines for several stores
+ * Returns null if none of the stores has a baseline; timestamp is the oldest one
+ * @param stores - Store names, with undefined for the manifest's default store
+ */
+export function loadMergedBaseline(stores: Array<string | undefined>): Baseline | null {
+  const baselines = stores
+    .map((store) => loadBaseline(store))
+    .filter((b): b is Baseline => b !== null);
+
+  if (baselines.length === 0) {
+    return null;
+  }
+
+  const files = baselines.flatMap((b) => b.files).sort();
+  const timestamp = baselines.map((b) => b.timestamp).sort()[0];
+
+  // Entries are only usable if every store's baseline has them
+  const entries = baselines.every((b) => b.entries)
+    ? Object.assign({}, ...baselines.map((b) => b.entries)) as Record<string, BaselineFileEntry>
+    : undefined;
+  const commits = Object.assign({}, ...baselines.map((b) => b.commits ?? {})) as Record<string, string>;
+
+  return {
+    timestamp,
+    fileCount: files.length,
+    files,
+    ...(Object.keys(commits).length > 0 ? { commits } : {}),
+    ...(entries ? { entries } : {}),
   };
 }
@@ -8,10 +8,17 @@ import * as os from 'os';
 // Default paths
 export const DEFAULT_ROOT = path.join(os.homedir(), 'code', 'Reference Repos');
 export const DEFAULT_MANIFEST_NAME = 'refrepo.manifest.yaml';
+export const LOCKFILE_NAME = 'refrepo.lock.yaml';
 export const DEFAULT_STORE = 'wok-ops-platform';
 export const DEFAULT_REPORTS_DIR = 'reports';
 export const DEFAULT_REPORT_NAME = 'refrepo-report.html';
 export const CHANGES_FILENAME = '.refrepo-changes.json';
+export const SUGGESTIONS_FILENAME = '.refrepo-suggestions.json';
+export const WATCH_STATUS_FILENAME = '.refrepo-watch.json';
+export const WATCH_LOG_FILENAME = '.refrepo-watch.log';
+export const BASELINE_HISTORY_DIRNAME = '.refrepo-baselines';
+export const WALK_CACHE_NAME = '.refrepo-walk-cache.json';
+export const RULES_DIRNAME = 'rules';
 
 // Git defaults
 export const DEFAULT_BRANCH = 'main';
@@ -21,6 +28,23 @@ export const DEFAULT_CLONE_DEPTH = 1;
 // mgrep defaults
 export const DEFAULT_MAX_FILE_SIZE_BYTES = 1 * 1024 * 1024; // 1MB
 export const DEFAULT_INDEX_TIMEOUT_SECONDS = 300; // 5 minutes
+export const DEFAULT_WATCH_INTERVAL_SECONDS = 900; // 15 minutes between watch cycles
+export const DEFAULT_BASELINE_HISTORY_LIMIT = 30; // Snapshots kept per store
+
+// suggest defaults
+export const DEFAULT_SUGGEST_TIMEOUT_SECONDS = 300;
+export const DEFAULT_SUGGEST_MAX_PROMPT_TOKENS = 12000; // Estimated tokens per model call
+export const DEFAULT_SUGGEST_EXCERPT_LINES = 12; // Leading lines per file excerpt
+export const DEFAULT_OPENAI_ENDPOINT = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_API_KEY_ENV = 'OPENAI_API_KEY';
+
+// customIgnores safety
+export const DEFAULT_MAX_PATTERN_REPO_FRACTION = 0.25; // Largest share of a repo one pattern may remove
+export const CUSTOM_IGNORE_FILES_LIMIT = 20; // Matched files recorded per customIgnores entry
+
+// Plan walk
+export const DEFAULT_WALK_CONCURRENCY = 32; // Concurrent fs operations across all repos
+export const DEFAULT_ROLLUP_DEPTH = 2; // Directory levels in the per-directory rollup
 
 // Plan thresholds
 export const PLAN_THRESHOLDS = {
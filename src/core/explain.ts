@@ -0,0 +1,334 @@
+/**
+ * Explain why a path is included in or excluded from the plan
+ *
+ * Replays the plan walk for a single path: hidden names, then each ancestor
+ * directory (an excluded directory is never descended into), then the file's
+ * own rules and the size limit.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore from 'ignore';
+import { IGNORE_FILENAMES, createLayer, matchLayers, type IgnoreLayer } from './ignore-layers.js';
+import { buildFallbackLayer, buildRootLayers } from './plan.js';
+import { getGlobalIgnorePatterns } from './ignore-rules.js';
+import { resolveProfile } from './profiles.js';
+import { resolveRepoIgnoreRules } from './repo-rules.js';
+import { getCustomIgnorePatterns, getEnabledRepos, getRepoPath } from './manifest.js';
+import { toPosixPath } from './path.js';
+import { DEFAULT_MAX_FILE_SIZE_BYTES } from './constants.js';
+import type { Manifest, RepoConfig } from './types.js';
+
+/** What kind of rule decided a path */
+export type RuleOrigin =
+  | 'global'      // GLOBAL_IGNORE_PATTERNS and stack profile patterns
+  | 'repo'        // Repo-specific drop paths (built-in, sidecar or manifest)
+  | 'manifest'    // Manifest ignore config allowlist / keep overrides
+  | 'custom'      // manifest customIgnores
+  | 'store'       // Repo belongs to another mgrep store
+  | 'gitignore'   // A .gitignore on disk
+  | 'mgrepignore' // A hand-written .mgrepignore on disk
+  | 'hidden'      // Hidden file or directory (skipped by mgrep)
+  | 'size'        // Over the max file size
+  | 'none';       // No rule matched - included by default
+
+export interface RuleMatch {
+  /** Rule as written, including a leading `!` for negations */
+  pattern: string;
+  negative: boolean;
+  /** Ignore file (relative to the index root) or `(generated)` */
+  file: string;
+  /** 1-based line number in that file */
+  line: number;
+  /** Nearest section header in a generated file */
+  section?: string;
+  origin: RuleOrigin;
+}
+
+export interface ExplainResult {
+  /** Path relative to the index root */
+  path: string;
+  repoId: string;
+  exists: boolean;
+  included: boolean;
+  origin: RuleOrigin;
+  /** Rule that decided the result */
+  rule?: RuleMatch;
+  /** Rule a negation overrode to re-include the path */
+  overriddenRule?: RuleMatch;
+  /** Ancestor directory that was excluded (the walk never descends into it) */
+  excludedDirectory?: string;
+  /** Hidden path segment that excluded the path */
+  hiddenSegment?: string;
+  bytes?: number;
+  maxFileSizeBytes: number;
+}
+
+export interface ExplainOptions {
+  /** Evaluate the root rules `refrepo index` would generate instead of the files on disk */
+  ignoreSource?: 'disk' | 'generated';
+}
+
+/**
+ * Resolve a user-supplied path to a POSIX path relative to the index root
+ * Absolute paths and paths relative to the working directory that fall
+ * inside the root are accepted; anything else is taken as root-relative.
+ */
+export function resolveExplainPath(input: string, root: string, cwd = process.cwd()): string {
+  const candidates = path.isAbsolute(input) ? [input] : [path.resolve(cwd, input)];
+
+  for (const candidate of candidates) {
+    const relative = path.relative(root, candidate);
+    if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+      if (path.isAbsolute(input) || fs.existsSync(candidate)) {
+        return toPosixPath(relative);
+      }
+    }
+  }
+
+  return toPosixPath(input).replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+/**
+ * Find the enabled repo containing a root-relative path
+ */
+function findRepo(manifest: Manifest, relativePath: string): RepoConfig | undefined {
+  return getEnabledRepos(manifest)
+    .filter((r) => relativePath === r.localDir || relativePath.startsWith(`${r.localDir}/`))
+    .sort((a, b) => b.localDir.length - a.localDir.length)[0];
+}
+
+function isHiddenName(name: string): boolean {
+  return name.startsWith('.') && name !== '.' && name !== '..';
+}
+
+function isRuleLine(line: string): boolean {
+  return line.trim().length > 0 && !line.startsWith('#');
+}
+
+/**
+ * Classify a generated rule by the section header above it
+ */
+function classifySection(section: string | undefined): RuleOrigin {
+  if (!section) return 'global';
+  if (/^(GLOBAL EXCLUSIONS|Global ignore rules|Non-essential files)/.test(section)) return 'global';
+  if (/^CUSTOM IGNORES|^Custom ignores/.test(section)) return 'custom';
+  if (/^STORE SCOPE/.test(section)) return 'store';
+  if (/allowlist|keep overrides|^Manifest ignore config/i.test(section)) return 'manifest';
+  return 'repo';
+}
+
+/**
+ * Describe line `index` (0-based) of a layer
+ */
+function describeRule(layer: IgnoreLayer, index: number): RuleMatch {
+  const lines = layer.content.split('\n');
+  const pattern = lines[index].trim();
+  const generated = layer.source === '(generated)' || layer.content.includes('AUTO-GENERATED');
+
+  let section: string | undefined;
+  if (generated) {
+    for (let i = index - 1; i >= 0; i--) {
+      const header = lines[i].replace(/^#\s*/, '').trim();
+      if (lines[i].startsWith('#') && header && !/^[-=]+$/.test(header)) {
+        section = header;
+        break;
+      }
+    }
+  }
+
+  const origin: RuleOrigin = generated
+    ? classifySection(section)
+    : layer.source.endsWith('.gitignore')
+      ? 'gitignore'
+      : 'mgrepignore';
+
+  return {
+    pattern,
+    negative: pattern.startsWith('!'),
+    file: layer.source,
+    line: index + 1,
+    section,
+    origin,
+  };
+}
+
+/**
+ * Find the last rule in a layer matching a path (last match wins)
+ * @param before - Only consider lines before this index
+ */
+function findRule(
+  layer: IgnoreLayer,
+  relativePath: string,
+  isDirectory: boolean,
+  options: { before?: number; negative?: boolean } = {}
+): number | undefined {
+  const local = layer.base ? relativePath.slice(layer.base.length + 1) : relativePath;
+  const tested = isDirectory ? local + '/' : local;
+  const lines = layer.content.split('\n');
+
+  for (let i = Math.min(options.before ?? lines.length, lines.length) - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    if (!isRuleLine(line)) continue;
+
+    const negative = line.startsWith('!');
+    if (options.negative !== undefined && negative !== options.negative) continue;
+
+    if (ignore().add(negative ? line.slice(1) : line).ignores(tested)) {
+      return i;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Evaluate a path against the layers and describe the decisive (and overridden) rule
+ */
+function explainMatch(
+  relativePath: string,
+  isDirectory: boolean,
+  layers: IgnoreLayer[]
+): { ignored: boolean; rule?: RuleMatch; overriddenRule?: RuleMatch } {
+  const match = matchLayers(relativePath, isDirectory, layers);
+  if (!match.layer) {
+    return { ignored: false };
+  }
+
+  const index = findRule(match.layer, relativePath, isDirectory);
+  const rule = index !== undefined ? describeRule(match.layer, index) : undefined;
+  if (match.ignored || index === undefined) {
+    return { ignored: match.ignored, rule };
+  }
+
+  // A negation decided: find what it re-included, in its own file first, then shallower layers
+  let overriddenRule: RuleMatch | undefined;
+  const earlier = findRule(match.layer, relativePath, isDirectory, { before: index, negative: false });
+  if (earlier !== undefined) {
+    overriddenRule = describeRule(match.layer, earlier);
+  } else {
+    const shallower = layers.slice(0, layers.indexOf(match.layer));
+    const parent = explainMatch(relativePath, isDirectory, shallower);
+    if (parent.ignored) {
+      overriddenRule = parent.rule;
+    }
+  }
+
+  return { ignored: false, rule, overriddenRule };
+}
+
+/**
+ * Read the ignore files in a directory as one layer per file
+ * (equivalent to the walker's combined layer, but keeps line numbers per file)
+ */
+function readDirectoryLayers(dirPath: string, base: string): IgnoreLayer[] {
+  const layers: IgnoreLayer[] = [];
+  for (const name of IGNORE_FILENAMES) {
+    const filePath = path.join(dirPath, name);
+    try {
+      if (fs.statSync(filePath).isFile()) {
+        layers.push(createLayer(base, base ? `${base}/${name}` : name, fs.readFileSync(filePath, 'utf-8')));
+      }
+    } catch {
+      // Missing or unreadable
+    }
+  }
+  return layers;
+}
+
+/**
+ * Explain why a root-relative path is included or excluded
+ */
+export function explainPath(manifest: Manifest, relativePath: string, options: ExplainOptions = {}): ExplainResult {
+  const repo = findRepo(manifest, relativePath);
+  if (!repo) {
+    throw new Error(`${relativePath} is not inside an enabled repo`);
+  }
+  if (relativePath === repo.localDir) {
+    throw new Error(`${relativePath} is a repo root - pass a file or directory inside it`);
+  }
+
+  const root = manifest.defaultRoot;
+  const repoPath = getRepoPath(root, repo.localDir);
+  const fullPath = path.join(root, relativePath);
+  const maxFileSizeBytes = repo.mgrep?.maxFileSizeBytes ?? DEFAULT_MAX_FILE_SIZE_BYTES;
+
+  let stats: fs.Stats | undefined;
+  try {
+    stats = fs.statSync(fullPath);
+  } catch {
+    // Explain patterns for paths that don't exist yet
+  }
+
+  const base: Omit<ExplainResult, 'included' | 'origin'> = {
+    path: relativePath,
+    repoId: repo.id,
+    exists: stats !== undefined,
+    bytes: stats?.isFile() ? stats.size : undefined,
+    maxFileSizeBytes,
+  };
+
+  const repoRules = resolveRepoIgnoreRules(manifest);
+  const rootLayers = buildRootLayers(manifest, repoRules, options.ignoreSource ?? 'disk', []);
+  const layers = [...rootLayers];
+  const fallback = buildFallbackLayer(repo.id, repo.localDir, repoPath, {
+    customIgnores: getCustomIgnorePatterns(manifest),
+    ignoreConfig: repo.ignore,
+    repoRules: repoRules.get(repo.id),
+    globalPatterns: getGlobalIgnorePatterns(resolveProfile(manifest.profile)),
+    rootLayers,
+  });
+  if (fallback) {
+    layers.push(fallback);
+  }
+
+  // Walk down from the repo root, as the plan walker does
+  const segments = relativePath.slice(repo.localDir.length + 1).split('/');
+  let current = repo.localDir;
+  layers.push(...readDirectoryLayers(repoPath, repo.localDir));
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const isLast = i === segments.length - 1;
+    const isDirectory = !isLast || stats?.isDirectory() === true;
+    current = `${current}/${segment}`;
+
+    if (isHiddenName(segment)) {
+      return {
+        ...base,
+        included: false,
+        origin: 'hidden',
+        hiddenSegment: segment,
+        excludedDirectory: isLast ? undefined : current,
+      };
+    }
+
+    const match = explainMatch(current, isDirectory, layers);
+    if (match.ignored) {
+      return {
+        ...base,
+        included: false,
+        origin: match.rule?.origin ?? 'none',
+        rule: match.rule,
+        excludedDirectory: isLast ? undefined : current,
+      };
+    }
+
+    if (isLast) {
+      if (base.bytes !== undefined && base.bytes > maxFileSizeBytes) {
+        return { ...base, included: false, origin: 'size' };
+      }
+      return {
+        ...base,
+        included: true,
+        origin: match.rule?.origin ?? 'none',
+        rule: match.rule,
+        overriddenRule: match.overriddenRule,
+      };
+    }
+
+    layers.push(...readDirectoryLayers(path.join(root, current), current));
+  }
+
+  // Unreachable: the loop always returns on the last segment
+  return { ...base, included: true, origin: 'none' };
+}
@@ -9,10 +9,23 @@ import * as path from 'path';
 export interface CloneOptions {
   depth?: number;
   branch?: string;
-  sparse?: {
-    enabled: boolean;
-    include: string[];
-  };
+  sparse?: SparseSpec;
+}
+
+/**
+ * Sparse-checkout patterns for a repo
+ * cone: directories (root files always included)
+ * no-cone: gitignore-style patterns
+ */
+export interface SparseSpec {
+  cone: boolean;
+  patterns: string[];
+}
+
+export interface SparseState {
+  enabled: boolean;
+  cone: boolean;
+  patterns: string[];
 }
 
 export interface PullOptions {
@@ -130,7 +143,8 @@ export async function cloneRepo(
     args.push('--branch', options.branch);
   }
 
-  if (options.sparse?.enabled) {
+  if (options.sparse) {
+    // Excluded paths are never written to the working tree
     args.push('--sparse');
   }
 
@@ -140,9 +154,8 @@ export async function cloneRepo(
     await execa('git', args);
 
     // Set up sparse checkout if enabled
-    if (options.sparse?.enabled && options.sparse.include.length > 0) {
-      await execa('git', ['sparse-checkout', 'init', '--cone'], { cwd: destPath });
-      await execa('git', ['sparse-checkout', 'set', ...options.sparse.include], { cwd: destPath });
+    if (options.sparse) {
+      await setSparseCheckout(destPath, options.sparse);
     }
 
     return { success: true };
@@ -195,3 +208,167 @@ export async function fetchRepo(repoPath: string): Promise<{ success: boolean; e
     return { success: false, error: message };
   }
 }
+
+/**
+ * Fetch and count the upstream commits the current branch is missing
+ */
+export async function getUpstreamBehind(repoPath: string): Promise<{ success: boolean; behind?: number; error?: string }> {
+  const fetched = await fetchRepo(repoPath);
+  if (!fetched.success) {
+    return fetched;
+  }
+
+  try {
+    const result = await execa('git', ['rev-list', '--count', 'HEAD..@{u}'], { cwd: repoPath });
+    return { success: true, behind: parseInt(String(result.stdout).trim(), 10) || 0 };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Whether HEAD is detached (e.g. after `sync --locked` or checking out a ref)
+ */
+export async function isDetachedHead(repoPath: string): Promise<boolean> {
+  const result = await execa('git', ['symbolic-ref', '-q', 'HEAD'], { cwd: repoPath, reject: false });
+  return result.exitCode !== 0;
+}
+
+/**
+ * Look up a remote's default branch (the branch its HEAD points to)
+ */
+export async function getRemoteDefaultBranch(url: string): Promise<string | undefined> {
+  const result = await execa('git', ['ls-remote', '--symref', url, 'HEAD'], {
+    reject: false,
+    timeout: 30_000,
+    // Fail instead of prompting for credentials on private/missing repos
+    env: { GIT_TERMINAL_PROMPT: '0' },
+  });
+
+  const match = String(result.stdout || '').match(/^ref: refs\/heads\/(\S+)\s+HEAD$/m);
+  return match?.[1];
+}
+
+/**
+ * Get the full commit SHA of HEAD
+ */
+export async function getHeadCommit(repoPath: string): Promise<string | undefined> {
+  if (!isGitRepo(repoPath)) {
+    return undefined;
+  }
+
+  const result = await execa('git', ['rev-parse', 'HEAD'], { cwd: repoPath, reject: false });
+  const commit = String(result.stdout || '').trim();
+  return result.exitCode === 0 && commit ? commit : undefined;
+}
+
+/**
+ * Check out a tag or commit SHA as a detached HEAD
+ * Fetches the ref first so shallow clones can reach it
+ */
+export async function checkoutRef(
+  repoPath: string,
+  ref: string,
+  options: { depth?: number } = {}
+): Promise<{ success: boolean; error?: string; updated?: boolean; commit?: string }> {
+  if (!isGitRepo(repoPath)) {
+    return { success: false, error: 'Not a git repository' };
+  }
+
+  const execOpts = { cwd: repoPath };
+
+  try {
+    const before = await getHeadCommit(repoPath);
+
+    // Already have the commit (full or short SHA, or a fetched tag) - nothing to fetch
+    const local = await execa('git', ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], { ...execOpts, reject: false });
+    const localCommit = String(local.stdout || '').trim();
+    if (local.exitCode === 0 && localCommit) {
+      if (localCommit !== before) {
+        await execa('git', ['checkout', '--detach', localCommit], execOpts);
+      }
+      return { success: true, updated: localCommit !== before, commit: localCommit };
+    }
+
+    // Servers only serve full SHAs, so a short one has to be in the clone already
+    if (/^[0-9a-f]{7,39}$/i.test(ref)) {
+      return { success: false, error: `Short SHA ${ref} is not in the local clone - pin the full 40-character SHA` };
+    }
+
+    const fetchArgs = ['fetch', 'origin', ref];
+    if (options.depth && options.depth > 0) {
+      fetchArgs.push('--depth', String(options.depth));
+    }
+    await execa('git', fetchArgs, execOpts);
+    await execa('git', ['checkout', '--detach', 'FETCH_HEAD'], execOpts);
+
+    const after = await getHeadCommit(repoPath);
+    return { success: true, updated: before !== after, commit: after };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Switch a (possibly detached) repository back to a branch
+ */
+export async function checkoutBranch(
+  repoPath: string,
+  branch: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const current = await execa('git', ['branch', '--show-current'], { cwd: repoPath });
+    if (String(current.stdout || '').trim() === branch) {
+      return { success: true };
+    }
+
+    // Shallow single-branch clones may not have the branch locally yet
+    await execa('git', ['fetch', 'origin', `+refs/heads/${branch}:refs/remotes/origin/${branch}`], { cwd: repoPath });
+    await execa('git', ['checkout', '-B', branch, '--track', `origin/${branch}`], { cwd: repoPath });
+    return { success: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Read the current sparse-checkout state of a repository
+ */
+export async function getSparseCheckout(repoPath: string): Promise<SparseState> {
+  const execOpts = { cwd: repoPath, reject: false };
+
+  const sparseResult = await execa('git', ['config', '--bool', 'core.sparseCheckout'], execOpts);
+  if (String(sparseResult.stdout || '').trim() !== 'true') {
+    return { enabled: false, cone: false, patterns: [] };
+  }
+
+  const coneResult = await execa('git', ['config', '--bool', 'core.sparseCheckoutCone'], execOpts);
+  const cone = String(coneResult.stdout || '').trim() === 'true';
+
+  const listResult = await execa('git', ['sparse-checkout', 'list'], execOpts);
+  const patterns = String(listResult.stdout || '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  return { enabled: true, cone, patterns };
+}
+
+/**
+ * Set the sparse-checkout patterns of a repository (enables sparse checkout)
+ */
+export async function setSparseCheckout(repoPath: string, spec: SparseSpec): Promise<void> {
+  const args = ['sparse-checkout', 'set', spec.cone ? '--cone' : '--no-cone'];
+  // `--` keeps negated no-cone patterns from being parsed as options
+  await execa('git', [...args, '--', ...spec.patterns], { cwd: repoPath });
+}
+
+/**
+ * Disable sparse checkout, restoring the full working tree
+ */
+export async function disableSparseCheckout(repoPath: string): Promise<void> {
+  await execa('git', ['sparse-checkout', 'disable'], { cwd: repoPath });
+}
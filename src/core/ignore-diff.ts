@@ -0,0 +1,189 @@
+/**
+ * Preview `refrepo ignore build` before it writes anything
+ *
+ * Shows a unified diff of each generated .mgrepignore against the file on
+ * disk, and the change in the indexed file set: the plan is computed once
+ * with the files on disk and once with the generated content overlaid.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeIgnoreFiles, type IgnoreBuildOptions } from './ignore.js';
+import { computePlan } from './plan.js';
+import type { IgnoreOverrides } from './ignore-layers.js';
+import type { Manifest } from './types.js';
+
+export interface IgnoreFileDiff {
+  repoId: string;
+  repoName: string;
+  path: string;
+  status: 'new' | 'changed' | 'unchanged';
+  /** Unified diff of on-disk vs generated content ('' when unchanged) */
+  diff: string;
+}
+
+export interface FileDelta {
+  path: string;
+  bytes: number;
+}
+
+export interface IgnoreDiffSummary {
+  mode: 'perRepo' | 'global';
+  files: IgnoreFileDiff[];
+  /** Files that would be indexed after the generated files are written, but are not now */
+  included: FileDelta[];
+  /** Files indexed now that the generated files would exclude */
+  excluded: FileDelta[];
+  includedBytes: number;
+  excludedBytes: number;
+}
+
+/**
+ * Longest-common-subsequence line diff
+ * Ignore files are a few hundred lines, so the O(n*m) table is fine.
+ */
+function diffLines(a: string[], b: string[]): Array<{ op: ' ' | '-' | '+'; line: string }> {
+  const n = a.length;
+  const m = b.length;
+  const lcs = Array.from({ length: n + 1 }, () => new Int32Array(m + 1));
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Array<{ op: ' ' | '-' | '+'; line: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ op: ' ', line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ op: '-', line: a[i++] });
+    } else {
+      ops.push({ op: '+', line: b[j++] });
+    }
+  }
+  while (i < n) ops.push({ op: '-', line: a[i++] });
+  while (j < m) ops.push({ op: '+', line: b[j++] });
+
+  return ops;
+}
+
+/**
+ * Unified diff between two texts ('' when they are equal)
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  labels: { old: string; new: string },
+  context = 3
+): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const split = (text: string) => (text === '' ? [] : text.replace(/\n$/, '').split('\n'));
+  const ops = diffLines(split(oldText), split(newText));
+
+  // Group changes (with surrounding context) into hunks
+  const hunks: Array<[number, number]> = [];
+  ops.forEach((entry, index) => {
+    if (entry.op === ' ') return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  });
+
+  const lines = [`--- ${labels.old}`, `+++ ${labels.new}`];
+  for (const [start, end] of hunks) {
+    // Line numbers at the start of the hunk
+    let oldLine = 1;
+    let newLine = 1;
+    for (const entry of ops.slice(0, start)) {
+      if (entry.op !== '+') oldLine++;
+      if (entry.op !== '-') newLine++;
+    }
+
+    const body = ops.slice(start, end);
+    const oldCount = body.filter((e) => e.op !== '+').length;
+    const newCount = body.filter((e) => e.op !== '-').length;
+    lines.push(`@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`);
+    for (const entry of body) {
+      lines.push(`${entry.op}${entry.line}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Compare what `ignore build` would write against the files on disk
+ * Targets whose repo is not cloned are skipped (build would not write them).
+ */
+export async function diffIgnoreFiles(
+  manifest: Manifest,
+  options: Pick<IgnoreBuildOptions, 'global' | 'store'> = {}
+): Promise<IgnoreDiffSummary> {
+  const build = writeIgnoreFiles(manifest, { ...options, dryRun: true });
+  const files: IgnoreFileDiff[] = [];
+  const overrides: IgnoreOverrides = new Map();
+
+  for (const result of build.results) {
+    if (!fs.existsSync(path.dirname(result.path))) {
+      continue;
+    }
+
+    const existing = fs.existsSync(result.path) ? fs.readFileSync(result.path, 'utf-8') : null;
+    const relative = path.relative(manifest.defaultRoot, result.path);
+    files.push({
+      repoId: result.repoId,
+      repoName: result.repoName,
+      path: result.path,
+      status: existing === null ? 'new' : existing === result.content ? 'unchanged' : 'changed',
+      diff: unifiedDiff(existing ?? '', result.content, {
+        old: existing === null ? '/dev/null' : `a/${relative}`,
+        new: `b/${relative}`,
+      }),
+    });
+    overrides.set(result.path, result.content);
+  }
+
+  // Same plan scope as `ignore build`: every enabled repo, or one store in global mode
+  const planOptions = { store: options.global ? options.store : undefined };
+  const before = await computePlan(manifest, planOptions);
+  const after = await computePlan(manifest, { ...planOptions, ignoreOverrides: overrides });
+
+  const beforeFiles = new Set(before.allFiles ?? []);
+  const afterFiles = new Set(after.allFiles ?? []);
+  const withBytes = (files: string[]): FileDelta[] =>
+    files.sort().map((file) => {
+      let bytes = 0;
+      try {
+        bytes = fs.statSync(path.join(manifest.defaultRoot, file)).size;
+      } catch {
+        // Removed since the walk
+      }
+      return { path: file, bytes };
+    });
+
+  const included = withBytes([...afterFiles].filter((f) => !beforeFiles.has(f)));
+  const excluded = withBytes([...beforeFiles].filter((f) => !afterFiles.has(f)));
+
+  return {
+    mode: build.mode,
+    files,
+    included,
+    excluded,
+    includedBytes: included.reduce((sum, f) => sum + f.bytes, 0),
+    excludedBytes: excluded.reduce((sum, f) => sum + f.bytes, 0),
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Layered ignore evaluation matching how mgrep reads ignore files
+ *
+ * Each directory may contain a .gitignore and a .mgrepignore; their patterns
+ * are relative to that directory. The deepest layer with a matching rule
+ * decides (a negation there re-includes a path a parent layer ignored), and
+ * within a directory .mgrepignore rules are applied after .gitignore rules.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore, { type Ignore } from 'ignore';
+
+/** Ignore files read in every directory, in precedence order (last wins) */
+export const IGNORE_FILENAMES = ['.gitignore', '.mgrepignore'] as const;
+
+export interface IgnoreLayer {
+  /** Directory the patterns are relative to (POSIX, relative to the index root; '' = root) */
+  base: string;
+  /** Where the rules came from (file path relative to the index root, or a label) */
+  source: string;
+  content: string;
+  ig: Ignore;
+}
+
+/**
+ * Ignore file contents that replace (or add to) what is on disk, keyed by absolute path
+ * Used to evaluate rules before they are written
+ */
+export type IgnoreOverrides = Map<string, string>;
+
+export interface LayerMatch {
+  ignored: boolean;
+  /** Layer whose rules decided the result (undefined = no rule matched) */
+  layer?: IgnoreLayer;
+}
+
+/**
+ * Create a layer from ignore file content
+ */
+export function createLayer(base: string, source: string, content: string): IgnoreLayer {
+  return { base, source, content, ig: ignore().add(content) };
+}
+
+/**
+ * Read an ignore file, preferring an override
+ * @returns The content, or null when the file is missing or unreadable
+ */
+export function readIgnoreFile(filePath: string, overrides?: IgnoreOverrides): string | null {
+  const override = overrides?.get(filePath);
+  if (override !== undefined) {
+    return override;
+  }
+
+  try {
+    return fs.statSync(filePath).isFile() ? fs.readFileSync(filePath, 'utf-8') : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether overrides add an ignore file to a directory
+ */
+export function hasOverriddenIgnoreFile(dirPath: string, overrides?: IgnoreOverrides): boolean {
+  return overrides !== undefined && IGNORE_FILENAMES.some((name) => overrides.has(path.join(dirPath, name)));
+}
+
+/**
+ * Read the ignore files in a directory into a single layer
+ * @param base - Directory path relative to the index root
+ */
+export function readDirectoryLayer(dirPath: string, base: string, overrides?: IgnoreOverrides): IgnoreLayer | null {
+  const parts: string[] = [];
+  const sources: string[] = [];
+
+  for (const name of IGNORE_FILENAMES) {
+    const content = readIgnoreFile(path.join(dirPath, name), overrides);
+    if (content !== null) {
+      parts.push(content);
+      sources.push(base ? `${base}/${name}` : name);
+    }
+  }
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  return createLayer(base, sources.join(' + '), parts.join('\n'));
+}
+
+/**
+ * Evaluate a path against layers (ordered shallowest first)
+ * @param relativePath - POSIX path relative to the index root
+ * @param isDirectory - Directories are tested with a trailing slash so `dir/` rules apply
+ */
+export function matchLayers(relativePath: string, isDirectory: boolean, layers: IgnoreLayer[]): LayerMatch {
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const layer = layers[i];
+    if (layer.base && !relativePath.startsWith(layer.base + '/')) {
+      continue;
+    }
+
+    const local = layer.base ? relativePath.slice(layer.base.length + 1) : relativePath;
+    const result = layer.ig.test(isDirectory ? local + '/' : local);
+    if (result.ignored) {
+      return { ignored: true, layer };
+    }
+    if (result.unignored) {
+      return { ignored: false, layer };
+    }
+  }
+
+  return { ignored: false };
+}
+
+/**
+ * Remove the STORE SCOPE section from a generated global ignore file
+ * Store scoping is applied by grouping repos per store, not by path rules
+ */
+export function stripStoreScope(content: string): string {
+  const lines = content.split('\n');
+  const start = lines.findIndex((line) => line.startsWith('# STORE SCOPE:'));
+  if (start === -1) {
+    return content;
+  }
+
+  // Section is: separator, header, separator, repo lines..., blank line
+  const sectionStart = start > 0 && lines[start - 1].startsWith('# ---') ? start - 1 : start;
+  let end = start + 1;
+  while (end < lines.length && lines[end].trim() !== '') {
+    end++;
+  }
+
+  return [...lines.slice(0, sectionStart), ...lines.slice(end + 1)].join('\n');
+}
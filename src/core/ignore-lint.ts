@@ -0,0 +1,504 @@
+/**
+ * Ignore rule lint: dead, shadowed, duplicate and malformed rules
+ *
+ * Each repo is walked once (hidden names skipped, as mgrep does; git-ignored
+ * directories listed but not entered) and every rule that applies to it is
+ * matched against that path index. Literal rules
+ * are set lookups and single-segment globs are tested against unique file
+ * names, so only anchored globs scan every path.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore from 'ignore';
+import { getGlobalIgnorePatterns, type RepoIgnoreConfig } from './ignore-rules.js';
+import { resolveProfile } from './profiles.js';
+import { resolveRepoIgnoreRules } from './repo-rules.js';
+import { getCustomIgnorePatterns, getEnabledRepos, getRepoPath } from './manifest.js';
+import { createLayer, matchLayers, readIgnoreFile, type IgnoreLayer } from './ignore-layers.js';
+import { createLimiter, type Limiter } from './walk.js';
+import { DEFAULT_WALK_CONCURRENCY } from './constants.js';
+import type { Manifest, RepoConfig } from './types.js';
+
+/** Where a rule is defined */
+export type RuleTier = 'global' | 'repo' | 'manifest' | 'custom';
+
+export type LintIssueKind = 'dead' | 'shadowed' | 'duplicate' | 'invalid' | 'missing-prefix';
+
+export interface LintRule {
+  tier: RuleTier;
+  /** Pattern as it appears in its source (custom ignores keep their localDir/ prefix) */
+  pattern: string;
+  /** Pattern relative to the repo root, as matched */
+  repoPattern: string;
+}
+
+export interface LintIssue {
+  kind: LintIssueKind;
+  /** error: the rule cannot work as written; warning: the rule is likely stale; info: harmless */
+  severity: 'error' | 'warning' | 'info';
+  tier: RuleTier;
+  pattern: string;
+  /** Repo the issue was found in (absent for global or manifest-wide issues) */
+  repoId?: string;
+  message: string;
+  /** Broader rule (shadowed) or earlier copy (duplicate) */
+  related?: { tier: RuleTier; pattern: string };
+}
+
+export interface RepoLintStats {
+  repoId: string;
+  ruleCount: number;
+  pathCount: number;
+  /** Directories that could not be read (their contents were not linted) */
+  unreadable?: string[];
+  /** Set when the repo was not linted */
+  skipped?: string;
+}
+
+export interface IgnoreLintSummary {
+  repos: RepoLintStats[];
+  issues: LintIssue[];
+  counts: Record<LintIssueKind, number>;
+}
+
+export interface IgnoreLintOptions {
+  repoId?: string;
+}
+
+/**
+ * Paths in a repo, for rule matching
+ * Directories carry a trailing slash so they can be told apart from files.
+ */
+export interface PathIndex {
+  /** Every file and directory (directories end with '/') */
+  all: string[];
+  entries: Set<string>;
+  /** Entries by base name */
+  byName: Map<string, string[]>;
+  /** Directories that could not be read (directories end with '/') */
+  unreadable: string[];
+}
+
+/**
+ * Index every non-hidden file and directory under a repo
+ * Git-ignored directories (node_modules/, dist/, ...) are indexed but not
+ * entered, since mgrep never reads them. A directory that cannot be read is
+ * recorded and skipped instead of failing the lint.
+ */
+export async function indexRepoPaths(
+  repoPath: string,
+  limit: Limiter = createLimiter(DEFAULT_WALK_CONCURRENCY)
+): Promise<PathIndex> {
+  const all: string[] = [];
+  const unreadable: string[] = [];
+
+  const walk = async (dir: string, prefix: string, layers: IgnoreLayer[]): Promise<void> => {
+    let entries: fs.Dirent[];
+    try {
+      entries = await limit(() => fs.promises.readdir(dir, { withFileTypes: true }));
+    } catch {
+      unreadable.push(prefix);
+      return;
+    }
+
+    // Only .gitignore: the .mgrepignore rules are what is being linted
+    const gitignore = readIgnoreFile(path.join(dir, '.gitignore'));
+    if (gitignore !== null) {
+      layers = [...layers, createLayer(prefix.replace(/\/$/, ''), `${prefix}.gitignore`, gitignore)];
+    }
+
+    const subdirs: string[] = [];
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const relative = prefix + entry.name;
+      if (entry.isDirectory()) {
+        all.push(relative + '/');
+        if (!matchLayers(relative, true, layers).ignored) {
+          subdirs.push(relative);
+        }
+      } else if (entry.isFile()) {
+        all.push(relative);
+      }
+    }
+
+    await Promise.all(subdirs.map((relative) => walk(path.join(repoPath, relative), relative + '/', layers)));
+  };
+
+  await walk(repoPath, '', []);
+
+  // Sorted so results don't depend on timing
+  all.sort();
+  const index: PathIndex = { all, entries: new Set(all), byName: new Map(), unreadable: unreadable.sort() };
+  for (const entry of all) {
+    const name = entry.replace(/\/$/, '').split('/').pop()!;
+    const named = index.byName.get(name);
+    if (named) {
+      named.push(entry);
+    } else {
+      index.byName.set(name, [entry]);
+    }
+  }
+  return index;
+}
+
+/**
+ * Ancestor directories of an entry, shallowest first ('a/b/c' -> ['a/', 'a/b/'])
+ */
+function ancestors(entry: string): string[] {
+  const parts = entry.replace(/\/$/, '').split('/');
+  const result: string[] = [];
+  for (let i = 1; i < parts.length; i++) {
+    result.push(parts.slice(0, i).join('/') + '/');
+  }
+  return result;
+}
+
+/**
+ * Keep only matches that are not inside another match
+ */
+function topLevel(matches: string[]): string[] {
+  const set = new Set(matches);
+  return matches.filter((m) => !ancestors(m).some((a) => set.has(a)));
+}
+
+/**
+ * Find the top-level paths a rule matches (directories end with '/')
+ * Negations are matched by the paths they would re-include.
+ */
+export function matchRule(pattern: string, index: PathIndex): string[] {
+  const body = pattern.startsWith('!') ? pattern.slice(1) : pattern;
+  const dirOnly = body.endsWith('/');
+  let core = body.replace(/\/+$/, '');
+  const leadingGlobstar = core.startsWith('**/');
+  if (leadingGlobstar) {
+    core = core.slice(3);
+  }
+
+  const anchored = core.startsWith('/') || (!leadingGlobstar && core.includes('/'));
+  const hasGlob = /[*?[\\]/.test(core);
+
+  // Literal path relative to the repo root
+  if (anchored && !hasGlob) {
+    const target = core.replace(/^\//, '');
+    const matches: string[] = [];
+    if (index.entries.has(target + '/')) matches.push(target + '/');
+    if (!dirOnly && index.entries.has(target)) matches.push(target);
+    return matches;
+  }
+
+  // A single name (or name glob) at any depth
+  if (!core.includes('/')) {
+    let matches: string[];
+    if (!hasGlob) {
+      matches = index.byName.get(core) ?? [];
+    } else {
+      const ig = ignore().add(core);
+      matches = [];
+      for (const [name, entries] of index.byName) {
+        if (ig.ignores(name)) matches.push(...entries);
+      }
+    }
+    if (dirOnly) {
+      matches = matches.filter((m) => m.endsWith('/'));
+    }
+    return topLevel(matches.sort());
+  }
+
+  // Anything else: test every path
+  const ig = ignore().add(body);
+  return topLevel(index.all.filter((entry) => ig.ignores(entry)));
+}
+
+/**
+ * Check a pattern for syntax that silently fails to match what it looks like
+ * @returns A description of the problem, or undefined when the pattern is fine
+ */
+export function checkPatternSyntax(pattern: string): string | undefined {
+  const body = pattern.startsWith('!') ? pattern.slice(1) : pattern;
+
+  if (body.trim() === '') {
+    return 'Empty pattern';
+  }
+  if (pattern !== pattern.trim()) {
+    return 'Leading or trailing whitespace is part of the pattern';
+  }
+  if (pattern.startsWith('#')) {
+    return 'Starts with # and is read as a comment (escape it as \\#)';
+  }
+  if (body.startsWith('./') || body.startsWith('../')) {
+    return 'Relative prefix never matches (write the path from the repo root without ./)';
+  }
+  if (/\\(?![#!*?[\] ])/.test(body)) {
+    return 'Backslash escapes the next character - use / as the path separator';
+  }
+  if (/[^/]\*\*|\*\*[^/]/.test(body)) {
+    return '** only works as a whole path segment (like **/name or dir/**); elsewhere it acts as *';
+  }
+  if ((body.match(/(?<!\\)\[/g)?.length ?? 0) > (body.match(/(?<!\\)\]/g)?.length ?? 0)) {
+    return 'Unclosed [ character class';
+  }
+
+  return undefined;
+}
+
+/**
+ * Normalize a pattern for duplicate detection ('**\/name' and 'name' are the same rule)
+ */
+function normalizePattern(pattern: string): string {
+  const negative = pattern.startsWith('!');
+  let body = negative ? pattern.slice(1) : pattern;
+  if (body.startsWith('**/') && !body.slice(3).replace(/\/$/, '').includes('/')) {
+    body = body.slice(3);
+  }
+  return (negative ? '!' : '') + body;
+}
+
+function extensionGlob(ext: string): string {
+  return `**/*.${ext.replace(/^\*?\./, '')}`;
+}
+
+/**
+ * Collect the rules that apply to a repo, in tier order
+ */
+export function collectRepoRules(
+  repo: RepoConfig,
+  repoRules: RepoIgnoreConfig | undefined,
+  customIgnores: string[] = [],
+  globalPatterns: readonly string[] = getGlobalIgnorePatterns()
+): LintRule[] {
+  const rules: LintRule[] = globalPatterns.map((pattern) => ({
+    tier: 'global' as const,
+    pattern,
+    repoPattern: pattern,
+  }));
+
+  for (const pattern of repoRules?.dropPaths ?? []) {
+    rules.push({ tier: 'repo', pattern, repoPattern: pattern });
+  }
+
+  const config = repo.ignore;
+  if (config) {
+    for (const pattern of config.dropPaths) {
+      rules.push({ tier: 'manifest', pattern, repoPattern: pattern });
+    }
+    for (const ext of config.dropExtensions ?? []) {
+      rules.push({ tier: 'manifest', pattern: ext, repoPattern: extensionGlob(ext) });
+    }
+    for (const keepPath of config.keepPaths) {
+      rules.push({ tier: 'manifest', pattern: `!${keepPath}`, repoPattern: `!${keepPath}` });
+    }
+  }
+
+  const prefix = `${repo.localDir}/`;
+  for (const pattern of customIgnores) {
+    // Anchored at the repo root, as written by buildIgnoreContent
+    const full = pattern.replace(/^\//, '');
+    if (full.startsWith(prefix)) {
+      rules.push({ tier: 'custom', pattern, repoPattern: `/${full.slice(prefix.length)}` });
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Lint the rules of one repo against its path index
+ * Dead global rules are not reported here (they are only dead if unused in every repo).
+ */
+export function lintRepoRules(
+  repoId: string,
+  rules: LintRule[],
+  index: PathIndex
+): { issues: LintIssue[]; globalMatches: Set<string> } {
+  const issues: LintIssue[] = [];
+  const globalMatches = new Set<string>();
+
+  // Duplicates: the same rule more than once (within or across tiers)
+  const seen = new Map<string, LintRule>();
+  for (const rule of rules) {
+    const key = normalizePattern(rule.repoPattern);
+    const first = seen.get(key);
+    if (!first) {
+      seen.set(key, rule);
+      continue;
+    }
+    if (rule.tier === 'global' && first.tier === 'global') continue;
+    issues.push({
+      kind: 'duplicate',
+      severity: 'info',
+      tier: rule.tier,
+      pattern: rule.pattern,
+      repoId,
+      message: `Duplicates ${first.tier} rule ${first.pattern}`,
+      related: { tier: first.tier, pattern: first.pattern },
+    });
+  }
+
+  // Dead rules
+  const matches = rules.map((rule) => matchRule(rule.repoPattern, index));
+  rules.forEach((rule, i) => {
+    if (matches[i].length === 0) {
+      if (rule.tier !== 'global') {
+        issues.push({
+          kind: 'dead',
+          severity: 'warning',
+          tier: rule.tier,
+          pattern: rule.pattern,
+          repoId,
+          message: rule.pattern.startsWith('!') ? 'Re-includes nothing (no matching paths)' : 'Matches no paths',
+        });
+      }
+    } else if (rule.tier === 'global') {
+      globalMatches.add(rule.pattern);
+    }
+  });
+
+  // Shadowed rules: every path a rule matches is already dropped by another (non-duplicate) drop rule
+  const dropsAt = new Map<string, number[]>();
+  rules.forEach((rule, i) => {
+    if (rule.repoPattern.startsWith('!')) return;
+    for (const entry of matches[i]) {
+      const at = dropsAt.get(entry);
+      if (at) {
+        at.push(i);
+      } else {
+        dropsAt.set(entry, [i]);
+      }
+    }
+  });
+
+  rules.forEach((rule, i) => {
+    if (rule.tier === 'global' || rule.repoPattern.startsWith('!') || matches[i].length === 0) return;
+
+    let candidates: Set<number> | undefined;
+    for (const entry of matches[i]) {
+      const covering = new Set<number>();
+      for (const covered of [...ancestors(entry), entry]) {
+        for (const j of dropsAt.get(covered) ?? []) covering.add(j);
+      }
+      candidates = new Set([...(candidates ?? covering)].filter((j) => covering.has(j)));
+      if (candidates.size === 0) break;
+    }
+
+    const key = normalizePattern(rule.repoPattern);
+    const broader = [...(candidates ?? [])].find((j) => j !== i && normalizePattern(rules[j].repoPattern) !== key);
+    if (broader !== undefined) {
+      issues.push({
+        kind: 'shadowed',
+        severity: 'warning',
+        tier: rule.tier,
+        pattern: rule.pattern,
+        repoId,
+        message: `Everything it matches is already dropped by ${rules[broader].tier} rule ${rules[broader].pattern}`,
+        related: { tier: rules[broader].tier, pattern: rules[broader].pattern },
+      });
+    }
+  });
+
+  return { issues, globalMatches };
+}
+
+/**
+ * Lint every enabled repo's ignore rules
+ */
+export async function lintIgnoreRules(manifest: Manifest, options: IgnoreLintOptions = {}): Promise<IgnoreLintSummary> {
+  const issues: LintIssue[] = [];
+  const repos: RepoLintStats[] = [];
+  const repoRules = resolveRepoIgnoreRules(manifest);
+  const customIgnores = getCustomIgnorePatterns(manifest);
+
+  let enabledRepos = getEnabledRepos(manifest);
+  if (options.repoId) {
+    enabledRepos = enabledRepos.filter((r) => r.id === options.repoId);
+    if (enabledRepos.length === 0) {
+      throw new Error(`Repo not found: ${options.repoId}`);
+    }
+  }
+
+  // Syntax (checked once per pattern, wherever it is defined)
+  const syntaxChecked = new Set<string>();
+  const checkSyntax = (tier: RuleTier, pattern: string, repoId?: string) => {
+    const key = `${tier}\0${repoId ?? ''}\0${pattern}`;
+    if (syntaxChecked.has(key)) return;
+    syntaxChecked.add(key);
+    const problem = checkPatternSyntax(pattern);
+    if (problem) {
+      issues.push({ kind: 'invalid', severity: 'error', tier, pattern, repoId, message: problem });
+    }
+  };
+
+  const globalPatterns = getGlobalIgnorePatterns(resolveProfile(manifest.profile));
+  for (const pattern of globalPatterns) {
+    checkSyntax('global', pattern);
+  }
+
+  // Custom ignores must start with an enabled repo's localDir/
+  const allRepos = getEnabledRepos(manifest);
+  for (const pattern of customIgnores) {
+    checkSyntax('custom', pattern);
+    if (!allRepos.some((r) => pattern.startsWith(`${r.localDir}/`))) {
+      issues.push({
+        kind: 'missing-prefix',
+        severity: 'error',
+        tier: 'custom',
+        pattern,
+        message: 'Does not start with a repo localDir/ - per-repo .mgrepignore files drop it, the global file applies it to every repo',
+      });
+    }
+  }
+
+  // Dead global rules are only reported when no linted repo uses them
+  const usedGlobals = new Set<string>();
+  let lintedRepos = 0;
+  const limit = createLimiter(DEFAULT_WALK_CONCURRENCY);
+
+  for (const repo of enabledRepos) {
+    const repoPath = getRepoPath(manifest.defaultRoot, repo.localDir);
+    const rules = collectRepoRules(repo, repoRules.get(repo.id), customIgnores, globalPatterns);
+
+    for (const rule of rules) {
+      if (rule.tier === 'repo' || rule.tier === 'manifest') {
+        checkSyntax(rule.tier, rule.pattern, repo.id);
+      }
+    }
+
+    if (!fs.existsSync(repoPath)) {
+      repos.push({ repoId: repo.id, ruleCount: rules.length, pathCount: 0, skipped: 'Repo not cloned' });
+      continue;
+    }
+
+    const index = await indexRepoPaths(repoPath, limit);
+    const result = lintRepoRules(repo.id, rules, index);
+    issues.push(...result.issues);
+    result.globalMatches.forEach((pattern) => usedGlobals.add(pattern));
+    repos.push({
+      repoId: repo.id,
+      ruleCount: rules.length,
+      pathCount: index.all.length,
+      ...(index.unreadable.length > 0 ? { unreadable: index.unreadable } : {}),
+    });
+    lintedRepos++;
+  }
+
+  if (lintedRepos > 0) {
+    for (const pattern of globalPatterns) {
+      if (!usedGlobals.has(pattern)) {
+        issues.push({
+          kind: 'dead',
+          severity: 'info',
+          tier: 'global',
+          pattern,
+          message: `Matches no paths in any of ${lintedRepos} linted repo(s)`,
+        });
+      }
+    }
+  }
+
+  const counts: Record<LintIssueKind, number> = { dead: 0, shadowed: 0, duplicate: 0, invalid: 0, 'missing-prefix': 0 };
+  for (const issue of issues) {
+    counts[issue.kind]++;
+  }
+
+  return { repos, issues, counts };
+}
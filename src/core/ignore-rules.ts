@@ -2,9 +2,13 @@
  * Global and repo-specific ignore rules for mgrep indexing
  */
 
+import { resolveProfile, stackSlug } from './profiles.js';
+import type { IgnoreConfig, StackProfile } from './types.js';
+
 /**
  * Global ignore patterns applied to all repos
- * Uses gitignore syntax
+ * Uses gitignore syntax. Stack-specific patterns (frameworks, deployment
+ * targets) come from the manifest profile - see STACK_IGNORE_PATTERNS.
  */
 export const GLOBAL_IGNORE_PATTERNS = [
   // ===========================================
@@ -44,26 +48,6 @@ export const GLOBAL_IGNORE_PATTERNS = [
   '.server-tmp/',
   'app-build/',
 
-  // ===========================================
-  // Non-React Framework Source Files
-  // ===========================================
-  '*.svelte',
-  '*.vue',
-  '*.astro',
-
-  // ===========================================
-  // Cloudflare Workers Config (excluded deployment target)
-  // ===========================================
-  'wrangler.jsonc',
-  'wrangler.toml',
-  'worker-configuration.d.ts',
-
-  // ===========================================
-  // Drizzle ORM (excluded - use Convex instead)
-  // ===========================================
-  'drizzle/',
-  'drizzle.config.ts',
-
   // ===========================================
   // Generated Code
   // ===========================================
@@ -228,6 +212,49 @@ export const GLOBAL_IGNORE_PATTERNS = [
   '*.tsbuildinfo',
 ] as const;
 
+/**
+ * Patterns for frameworks and deployment targets a stack profile can drop
+ * Keyed by stackSlug(); names without an entry only feed the suggest prompt
+ */
+export const STACK_IGNORE_PATTERNS: Record<string, string[]> = {
+  vue: ['*.vue'],
+  svelte: ['*.svelte'],
+  astro: ['*.astro'],
+  drizzle: ['drizzle/', 'drizzle.config.ts'],
+  prisma: ['prisma/'],
+  cloudflareworkers: ['wrangler.jsonc', 'wrangler.toml', 'worker-configuration.d.ts'],
+  vercel: ['vercel.json'],
+  deno: ['deno.json', 'deno.jsonc', 'deno.lock'],
+};
+
+/**
+ * Global patterns generated from a stack profile
+ */
+export function buildStackPatterns(profile: StackProfile): string[] {
+  if (!profile.generatePatterns) {
+    return [];
+  }
+
+  const patterns: string[] = [];
+  for (const name of [...profile.dropFrameworks, ...profile.excludedTargets]) {
+    for (const pattern of STACK_IGNORE_PATTERNS[stackSlug(name)] ?? []) {
+      if (!patterns.includes(pattern)) {
+        patterns.push(pattern);
+      }
+    }
+  }
+  return patterns;
+}
+
+/**
+ * GLOBAL_IGNORE_PATTERNS followed by the profile's stack patterns
+ * @param profile - Resolved profile (default: the built-in default profile)
+ */
+export function getGlobalIgnorePatterns(profile: StackProfile = resolveProfile()): string[] {
+  const global: string[] = [...GLOBAL_IGNORE_PATTERNS];
+  return [...global, ...buildStackPatterns(profile).filter((p) => !global.includes(p))];
+}
+
 /**
  * Repo-specific ignore rules
  * These are added on top of global rules for specific repos
@@ -781,22 +808,114 @@ export const REPO_SPECIFIC_IGNORES: RepoIgnoreConfig[] = [
 ];
 
 /**
- * Get ignore rules for a specific repo
+ * Get built-in ignore rules for a specific repo
+ * Use resolveRepoIgnoreRules() to include manifest and sidecar rules
  */
 export function getRepoIgnoreConfig(repoId: string): RepoIgnoreConfig | undefined {
   return REPO_SPECIFIC_IGNORES.find((r) => r.id === repoId);
 }
 
+/**
+ * Convert a manifest extension ('.ts' or 'ts') to a filename glob ('*.ts')
+ */
+function extensionGlob(ext: string): string {
+  return `*.${ext.replace(/^\*?\./, '')}`;
+}
+
+/**
+ * Build the allowlist preamble for a manifest ignore config
+ *
+ * Ignores everything under the prefix, re-includes directories so the walk
+ * can reach kept paths, then re-includes keepPaths (limited to keepExtensions
+ * when set). Must be emitted BEFORE global rules so those still apply.
+ *
+ * @param config - Manifest ignore config for the repo
+ * @param prefix - Path prefix ('' in per-repo files, 'localDir/' in the global file)
+ */
+export function buildAllowlistLines(config: IgnoreConfig | undefined, prefix = ''): string[] {
+  if (!config || config.mode !== 'allowlist') {
+    return [];
+  }
+
+  const lines: string[] = [`${prefix}**`, `!${prefix}**/`];
+  const extGlobs = (config.keepExtensions ?? []).map(extensionGlob);
+
+  if (config.keepPaths.length === 0) {
+    for (const glob of extGlobs) {
+      lines.push(`!${prefix}**/${glob}`);
+    }
+    return lines;
+  }
+
+  for (const keepPath of config.keepPaths) {
+    if (!keepPath.endsWith('/')) {
+      // Single file
+      lines.push(`!${prefix}${keepPath}`);
+    } else if (extGlobs.length > 0) {
+      for (const glob of extGlobs) {
+        lines.push(`!${prefix}${keepPath}**/${glob}`);
+      }
+    } else {
+      lines.push(`!${prefix}${keepPath}**`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Prefix a repo-relative pattern; an anchored `/examples/` becomes `localDir/examples/`
+ */
+export function prefixPattern(prefix: string, pattern: string): string {
+  return prefix ? `${prefix}${pattern.replace(/^\//, '')}` : pattern;
+}
+
+/**
+ * Build drop rules for a manifest ignore config (both modes)
+ * @param config - Manifest ignore config for the repo
+ * @param prefix - Path prefix ('' in per-repo files, 'localDir/' in the global file)
+ */
+export function buildDropLines(config: IgnoreConfig | undefined, prefix = ''): string[] {
+  if (!config) {
+    return [];
+  }
+
+  const lines = config.dropPaths.map((p) => prefixPattern(prefix, p));
+  for (const ext of config.dropExtensions ?? []) {
+    lines.push(`${prefix}**/${extensionGlob(ext)}`);
+  }
+  return lines;
+}
+
+/**
+ * Build keep negations for a denylist-mode manifest ignore config
+ *
+ * Emitted last so keepPaths override earlier global/repo drops. A path cannot
+ * be re-included if one of its parent directories is dropped.
+ */
+export function buildKeepLines(config: IgnoreConfig | undefined, prefix = ''): string[] {
+  if (!config || config.mode !== 'denylist') {
+    return [];
+  }
+  return config.keepPaths.map((p) => `!${prefix}${p}`);
+}
+
 /**
  * Build complete ignore content for a repo
  * @param repoId - The repo identifier
  * @param localDir - The local directory name (for matching custom ignores)
  * @param customIgnores - Custom ignore patterns from manifest (full paths with localDir prefix)
+ * @param ignoreConfig - Per-repo ignore config from manifest
+ * @param repoRules - Resolved repo-specific rules (defaults to built-in rules for repoId)
+ * @param globalPatterns - Global patterns including stack patterns (defaults to the default profile's)
  */
 export function buildIgnoreContent(
   repoId: string,
   localDir?: string,
-  customIgnores?: string[]
+  customIgnores?: string[],
+  ignoreConfig?: IgnoreConfig,
+  repoRules: RepoIgnoreConfig | undefined = getRepoIgnoreConfig(repoId),
+  globalPatterns: readonly string[] = getGlobalIgnorePatterns()
 ): string {
   const lines: string[] = [
     '# ===========================================',
@@ -804,11 +923,20 @@ export function buildIgnoreContent(
     '# Do not edit manually - changes will be overwritten',
     '# ===========================================',
     '',
-    '# Global ignore rules',
   ];
 
+  // Allowlist preamble must precede global rules so they still apply
+  const allowlistLines = buildAllowlistLines(ignoreConfig);
+  if (allowlistLines.length > 0) {
+    lines.push('# Manifest allowlist (only keepPaths are indexed)');
+    lines.push(...allowlistLines);
+    lines.push('');
+  }
+
+  lines.push('# Global ignore rules');
+
   // Add global patterns with **/ prefix for recursive matching
-  for (const pattern of GLOBAL_IGNORE_PATTERNS) {
+  for (const pattern of globalPatterns) {
     if (pattern.startsWith('!')) {
       // Negation patterns: ! must be first character on line
       lines.push(`!**/${pattern.slice(1)}`);
@@ -818,24 +946,36 @@ export function buildIgnoreContent(
   }
 
   // Add repo-specific patterns
-  const repoConfig = getRepoIgnoreConfig(repoId);
-  if (repoConfig && repoConfig.dropPaths.length > 0) {
+  if (repoRules && repoRules.dropPaths.length > 0) {
     lines.push('');
     lines.push('# ===========================================');
-    lines.push(`# Repo-specific: ${repoConfig.notes || repoId}`);
+    lines.push(`# Repo-specific: ${repoRules.notes || repoId}`);
     lines.push('# ===========================================');
 
-    for (const path of repoConfig.dropPaths) {
+    for (const path of repoRules.dropPaths) {
       lines.push(path);
     }
   }
 
+  // Add drop rules from manifest ignore config
+  const dropLines = buildDropLines(ignoreConfig);
+  if (dropLines.length > 0) {
+    lines.push('');
+    lines.push('# ===========================================');
+    lines.push('# Manifest ignore config (drop)');
+    lines.push('# ===========================================');
+    lines.push(...dropLines);
+  }
+
   // Add custom ignores from manifest (filtered to this repo)
   if (customIgnores && customIgnores.length > 0 && localDir) {
     const prefix = `${localDir}/`;
+    // Remove the prefix to make patterns relative to the repo, keeping them anchored
+    // at its root like the full path was (router/src/ must not become any src/)
     const repoCustomIgnores = customIgnores
+      .map((p) => p.replace(/^\//, ''))
       .filter((p) => p.startsWith(prefix))
-      .map((p) => p.slice(prefix.length)); // Remove prefix to make relative to repo
+      .map((p) => `/${p.slice(prefix.length)}`);
 
     if (repoCustomIgnores.length > 0) {
       lines.push('');
@@ -849,6 +989,16 @@ export function buildIgnoreContent(
     }
   }
 
+  // Denylist keep negations go last so they override everything above
+  const keepLines = buildKeepLines(ignoreConfig);
+  if (keepLines.length > 0) {
+    lines.push('');
+    lines.push('# ===========================================');
+    lines.push('# Manifest ignore config (keep)');
+    lines.push('# ===========================================');
+    lines.push(...keepLines);
+  }
+
   lines.push('');
   return lines.join('\n');
 }
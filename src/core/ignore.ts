@@ -4,13 +4,25 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { buildIgnoreContent, getRepoIgnoreConfig, GLOBAL_IGNORE_PATTERNS } from './ignore-rules.js';
-import { getRepoPath, getEnabledRepos } from './manifest.js';
+import {
+  buildIgnoreContent,
+  buildAllowlistLines,
+  buildDropLines,
+  buildKeepLines,
+  getGlobalIgnorePatterns,
+  getRepoIgnoreConfig,
+  prefixPattern,
+  type RepoIgnoreConfig,
+} from './ignore-rules.js';
+import { resolveProfile } from './profiles.js';
+import { resolveRepoIgnoreRules } from './repo-rules.js';
+import { getCustomIgnorePatterns, getRepoPath, getEnabledRepos, getRepoStore } from './manifest.js';
 import type { Manifest, RepoConfig } from './types.js';
 
 export interface IgnoreBuildOptions {
   dryRun?: boolean;
   global?: boolean;  // Use global mode instead of per-repo
+  store?: string;  // Global mode: scope file to repos in this mgrep store
 }
 
 export interface IgnoreBuildResult {
@@ -46,9 +58,11 @@ function countRules(content: string): number {
  */
 export function buildRepoIgnore(
   repo: RepoConfig,
-  customIgnores?: string[]
+  customIgnores?: string[],
+  repoRules: RepoIgnoreConfig | undefined = getRepoIgnoreConfig(repo.id),
+  globalPatterns: readonly string[] = getGlobalIgnorePatterns()
 ): { content: string; ruleCount: number } {
-  const content = buildIgnoreContent(repo.id, repo.localDir, customIgnores);
+  const content = buildIgnoreContent(repo.id, repo.localDir, customIgnores, repo.ignore, repoRules, globalPatterns);
   const ruleCount = countRules(content);
   return { content, ruleCount };
 }
@@ -60,12 +74,14 @@ export function writeRepoIgnore(
   repo: RepoConfig,
   root: string,
   options: IgnoreBuildOptions = {},
-  customIgnores?: string[]
+  customIgnores?: string[],
+  repoRules: RepoIgnoreConfig | undefined = getRepoIgnoreConfig(repo.id),
+  globalPatterns: readonly string[] = getGlobalIgnorePatterns()
 ): IgnoreBuildResult {
   const repoPath = getRepoPath(root, repo.localDir);
   const ignorePath = path.join(repoPath, '.mgrepignore');
 
-  const { content, ruleCount } = buildRepoIgnore(repo, customIgnores);
+  const { content, ruleCount } = buildRepoIgnore(repo, customIgnores, repoRules, globalPatterns);
 
   let written = false;
   if (!options.dryRun) {
@@ -88,30 +104,55 @@ export function writeRepoIgnore(
 
 /**
  * Build global ignore file (all repos in one file)
+ * @param store - Only index repos in this mgrep store; other stores' repos are excluded
  */
-export function buildGlobalIgnore(manifest: Manifest): { content: string; ruleCount: number } {
+export function buildGlobalIgnore(
+  manifest: Manifest,
+  repoRules: Map<string, RepoIgnoreConfig> = resolveRepoIgnoreRules(manifest),
+  store?: string
+): { content: string; ruleCount: number } {
+  const profile = resolveProfile(manifest.profile);
   const lines: string[] = [
     '# ==============================================',
     '# REFERENCE REPOS - UNIFIED .mgrepignore',
     '# ==============================================',
     '# AUTO-GENERATED by: refrepo ignore build --global',
-    '# Only index content relevant to: TanStack Start + Convex + Better Auth + React',
+    `# Only index content relevant to: ${profile.name}`,
     '#',
     '# Structure:',
-    '#   1. Global exclusions (apply to all repos)',
-    '#   2. Per-repo specific exclusions',
+    '#   1. Allowlist repos (manifest ignore.mode: allowlist)',
+    '#   2. Global exclusions (apply to all repos)',
+    '#   3. Per-repo specific exclusions',
+    '#   4. Manifest keep overrides',
+    '#   5. Store scope (repos indexed into other stores)',
     '# ==============================================',
     '',
   ];
 
+  const enabledRepos = getEnabledRepos(manifest).filter(
+    (repo) => !store || getRepoStore(manifest, repo) === store
+  );
+
+  // Allowlist preambles must precede global rules so those still apply
+  for (const repo of enabledRepos) {
+    const allowlistLines = buildAllowlistLines(repo.ignore, `${repo.localDir}/`);
+    if (allowlistLines.length > 0) {
+      lines.push('# ------------------------------------------');
+      lines.push(`# ${repo.name.toUpperCase()}: allowlist (only keepPaths are indexed)`);
+      lines.push('# ------------------------------------------');
+      lines.push(...allowlistLines);
+      lines.push('');
+    }
+  }
+
   // Add global patterns section
   lines.push('# ------------------------------------------');
   lines.push('# GLOBAL EXCLUSIONS (all repos)');
   lines.push('# ------------------------------------------');
   lines.push('');
 
-  // Use patterns from GLOBAL_IGNORE_PATTERNS with **/ prefix for global matching
-  for (const pattern of GLOBAL_IGNORE_PATTERNS) {
+  // Global and stack patterns with **/ prefix for global matching
+  for (const pattern of getGlobalIgnorePatterns(profile)) {
     // Handle negation patterns - ! must come before **/
     if (pattern.startsWith('!')) {
       lines.push(`!**/${pattern.slice(1)}`);
@@ -122,35 +163,61 @@ export function buildGlobalIgnore(manifest: Manifest): { content: string; ruleCo
   lines.push('');
 
   // Add per-repo sections
-  const enabledRepos = getEnabledRepos(manifest);
-
   for (const repo of enabledRepos) {
-    const repoConfig = getRepoIgnoreConfig(repo.id);
+    const repoConfig = repoRules.get(repo.id);
+    const dropLines = [
+      ...(repoConfig?.dropPaths ?? []).map((dropPath) => prefixPattern(`${repo.localDir}/`, dropPath)),
+      ...buildDropLines(repo.ignore, `${repo.localDir}/`),
+    ];
 
-    if (repoConfig && repoConfig.dropPaths.length > 0) {
+    if (dropLines.length > 0) {
       lines.push('# ------------------------------------------');
-      lines.push(`# ${repo.name.toUpperCase()}: ${repoConfig.notes || 'Specific exclusions'}`);
+      lines.push(`# ${repo.name.toUpperCase()}: ${repoConfig?.notes || 'Specific exclusions'}`);
       lines.push('# ------------------------------------------');
-
-      for (const dropPath of repoConfig.dropPaths) {
-        lines.push(`${repo.localDir}/${dropPath}`);
-      }
+      lines.push(...dropLines);
       lines.push('');
     }
   }
 
-  // Add custom ignores from manifest (user-added via suggest --apply)
-  if (manifest.customIgnores && manifest.customIgnores.length > 0) {
+  // Add custom ignores from manifest (user-added via suggest and tune)
+  const customIgnores = getCustomIgnorePatterns(manifest);
+  if (customIgnores.length > 0) {
     lines.push('# ------------------------------------------');
     lines.push('# CUSTOM IGNORES (from refrepo suggest --apply)');
     lines.push('# ------------------------------------------');
 
-    for (const pattern of manifest.customIgnores) {
+    for (const pattern of customIgnores) {
       lines.push(pattern);
     }
     lines.push('');
   }
 
+  // Denylist keep negations go after all drops so they take precedence
+  for (const repo of enabledRepos) {
+    const keepLines = buildKeepLines(repo.ignore, `${repo.localDir}/`);
+    if (keepLines.length > 0) {
+      lines.push('# ------------------------------------------');
+      lines.push(`# ${repo.name.toUpperCase()}: manifest keep overrides`);
+      lines.push('# ------------------------------------------');
+      lines.push(...keepLines);
+      lines.push('');
+    }
+  }
+
+  // Repos indexed into other stores are excluded last so nothing re-includes them
+  const otherStoreRepos = store
+    ? getEnabledRepos(manifest).filter((repo) => getRepoStore(manifest, repo) !== store)
+    : [];
+  if (otherStoreRepos.length > 0) {
+    lines.push('# ------------------------------------------');
+    lines.push(`# STORE SCOPE: ${store} (other stores excluded)`);
+    lines.push('# ------------------------------------------');
+    for (const repo of otherStoreRepos) {
+      lines.push(`${repo.localDir}/`);
+    }
+    lines.push('');
+  }
+
   // Add footer
   lines.push('# ------------------------------------------');
   lines.push('# Non-essential files');
@@ -173,10 +240,11 @@ export function writeIgnoreFiles(
 ): IgnoreBuildSummary {
   const results: IgnoreBuildResult[] = [];
   const root = manifest.defaultRoot;
+  const repoRules = resolveRepoIgnoreRules(manifest);
 
   if (options.global) {
     // Global mode: single file at root
-    const { content, ruleCount } = buildGlobalIgnore(manifest);
+    const { content, ruleCount } = buildGlobalIgnore(manifest, repoRules, options.store);
     const globalPath = path.join(root, '.mgrepignore');
 
     let written = false;
@@ -204,9 +272,10 @@ export function writeIgnoreFiles(
 
   // Per-repo mode (default)
   const enabledRepos = getEnabledRepos(manifest);
+  const globalPatterns = getGlobalIgnorePatterns(resolveProfile(manifest.profile));
 
   for (const repo of enabledRepos) {
-    const result = writeRepoIgnore(repo, root, options, manifest.customIgnores);
+    const result = writeRepoIgnore(repo, root, options, getCustomIgnorePatterns(manifest), repoRules.get(repo.id), globalPatterns);
     results.push(result);
   }
 
@@ -0,0 +1,115 @@
+/**
+ * Preview the upload/delete set of `refrepo index` against the store
+ *
+ * mgrep's dry run lists the exact paths it would upload and delete. Each
+ * path is joined against the plan, the files on disk and the last baseline
+ * so a deletion can be traced to an ignore-rule change (file still on disk,
+ * now excluded) or an upstream removal (file gone from disk).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Baseline } from './baseline.js';
+import type { MgrepDryRunResult } from './verify.js';
+
+/**
+ * Why a file would be uploaded
+ * - added: not in the last baseline (new upstream or newly included by rules)
+ * - modified: in the last baseline, content changed
+ * - unplanned: the plan excludes it (plan and mgrep disagree)
+ */
+export type UploadReason = 'added' | 'modified' | 'unplanned';
+
+/**
+ * Why a file would be deleted from the store
+ * - ignored: still on disk, but the plan now excludes it (ignore rules, size limits)
+ * - removed: gone from disk (removed upstream or by sparse checkout)
+ * - untracked: gone from disk and not in the last baseline (indexed outside refrepo)
+ * - unexpected: the plan includes it (plan and mgrep disagree)
+ */
+export type DeleteCause = 'ignored' | 'removed' | 'untracked' | 'unexpected';
+
+export interface IndexDiff {
+  store: string;
+  uploads: Array<{ path: string; reason: UploadReason }>;
+  deletes: Array<{ path: string; cause: DeleteCause }>;
+  uploadCounts: Record<UploadReason, number>;
+  deleteCounts: Record<DeleteCause, number>;
+  /** Baseline the paths were compared against */
+  baselineDate?: string;
+}
+
+/**
+ * Join a store's dry run against the plan, disk and last baseline
+ * @param planFiles - Root-relative files the plan includes for the store
+ */
+export function diffIndexUpload(
+  store: string,
+  dryRun: Pick<MgrepDryRunResult, 'uploadPaths' | 'deletePaths'>,
+  options: { root: string; planFiles: string[]; baseline: Baseline | null }
+): IndexDiff {
+  const planned = new Set(options.planFiles);
+  const indexed = new Set(options.baseline?.files ?? []);
+  const hasBaseline = options.baseline !== null;
+
+  const uploads = dryRun.uploadPaths.map((file) => ({
+    path: file,
+    reason: (!planned.has(file) ? 'unplanned' : indexed.has(file) ? 'modified' : 'added') as UploadReason,
+  }));
+
+  const deletes = dryRun.deletePaths.map((file) => {
+    let cause: DeleteCause;
+    if (planned.has(file)) {
+      cause = 'unexpected';
+    } else if (fs.existsSync(path.join(options.root, file))) {
+      cause = 'ignored';
+    } else {
+      cause = !hasBaseline || indexed.has(file) ? 'removed' : 'untracked';
+    }
+    return { path: file, cause };
+  });
+
+  const uploadCounts: Record<UploadReason, number> = { added: 0, modified: 0, unplanned: 0 };
+  for (const upload of uploads) uploadCounts[upload.reason]++;
+  const deleteCounts: Record<DeleteCause, number> = { ignored: 0, removed: 0, untracked: 0, unexpected: 0 };
+  for (const del of deletes) deleteCounts[del.cause]++;
+
+  return {
+    store,
+    uploads,
+    deletes,
+    uploadCounts,
+    deleteCounts,
+    ...(options.baseline ? { baselineDate: options.baseline.timestamp } : {}),
+  };
+}
+
+/**
+ * Decide whether a store's deletions exceed --max-deletes
+ * Uses the larger of mgrep's summary count and the listed paths.
+ * @returns The error that blocks indexing, or undefined to proceed
+ */
+export function checkMaxDeletes(
+  store: string,
+  filesDeleted: number,
+  maxDeletes: number,
+  diff?: IndexDiff
+): string | undefined {
+  const deletes = Math.max(filesDeleted, diff?.deletes.length ?? 0);
+  if (deletes <= maxDeletes) {
+    return undefined;
+  }
+
+  const causes = diff ? ` (${formatDiffCounts(diff.deleteCounts)})` : '';
+  return `Index blocked: mgrep would delete ${deletes} files from store ${store}${causes}, more than --max-deletes ${maxDeletes}`;
+}
+
+/**
+ * Format reason counts, e.g. "2 ignored, 1 removed"
+ */
+export function formatDiffCounts(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .filter(([, n]) => n > 0)
+    .map(([label, n]) => `${n} ${label}`)
+    .join(', ');
+}
@@ -9,5 +9,24 @@ export * from './config.js';
 export * from './git.js';
 export * from './manifest.js';
 export * from './ignore-rules.js';
+export * from './profiles.js';
+export * from './suggest-batch.js';
+export * from './suggest-providers.js';
+export * from './suggest-queue.js';
+export * from './pattern-safety.js';
+export * from './repo-rules.js';
 export * from './ignore.js';
+export * from './ignore-lint.js';
+export * from './ignore-diff.js';
+export * from './ignore-layers.js';
 export * from './plan.js';
+export * from './thresholds.js';
+export * from './explain.js';
+export * from './tune.js';
+export * from './mgrep.js';
+export * from './verify.js';
+export * from './index-diff.js';
+export * from './watch.js';
+export * from './walk.js';
+export * from './sparse.js';
+export * from './lockfile.js';
@@ -0,0 +1,124 @@
+/**
+ * Lockfile management - exact commits each repo was indexed at
+ * Stored alongside manifest as refrepo.lock.yaml
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { LockfileSchema } from './schema.js';
+import { resolveManifestPath, getRepoPath, getEnabledRepos } from './manifest.js';
+import { getHeadCommit } from './git.js';
+import { LOCKFILE_NAME } from './constants.js';
+import type { LockedRepo, Lockfile, Manifest, RepoConfig } from './types.js';
+
+/**
+ * Get lockfile path (stored alongside manifest)
+ */
+export function getLockfilePath(): string {
+  return path.join(path.dirname(resolveManifestPath()), LOCKFILE_NAME);
+}
+
+/**
+ * Load and validate the lockfile, if any
+ */
+export function loadLockfile(): Lockfile | null {
+  const lockPath = getLockfilePath();
+
+  if (!fs.existsSync(lockPath)) {
+    return null;
+  }
+
+  const result = LockfileSchema.safeParse(parseYaml(fs.readFileSync(lockPath, 'utf-8')));
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`)
+      .join('; ');
+    throw new Error(`Invalid lockfile ${lockPath}: ${issues}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Save the lockfile (repos sorted by id for stable diffs)
+ */
+export function saveLockfile(lockfile: Lockfile): string {
+  const lockPath = getLockfilePath();
+  const repos = Object.fromEntries(
+    Object.entries(lockfile.repos).sort(([a], [b]) => a.localeCompare(b))
+  );
+
+  const header = '# AUTO-GENERATED by refrepo - commit the file, do not edit manually\n';
+  fs.writeFileSync(
+    lockPath,
+    header + stringifyYaml({ version: lockfile.version, repos }, { indent: 2, lineWidth: 120 }),
+    'utf-8'
+  );
+  return lockPath;
+}
+
+/**
+ * Get the ref a repo follows (pinned ref, else branch)
+ */
+export function getRepoRef(repo: RepoConfig): string {
+  return repo.ref || repo.branch;
+}
+
+/**
+ * Get the lock entry for a repo, rejecting entries that no longer match the manifest
+ */
+export function getLockedCommit(lockfile: Lockfile, repo: RepoConfig): { commit?: string; error?: string } {
+  const entry = lockfile.repos[repo.id];
+  if (!entry) {
+    return { error: 'Not in lockfile - run `refrepo lock update`' };
+  }
+  if (entry.url !== repo.url) {
+    return { error: `Lockfile URL (${entry.url}) does not match manifest - run \`refrepo lock update ${repo.id}\`` };
+  }
+  return { commit: entry.commit };
+}
+
+export interface LockUpdateResult {
+  repoId: string;
+  previous?: string;
+  commit?: string;
+  action: 'locked' | 'unchanged' | 'skipped';
+  reason?: string;
+}
+
+/**
+ * Record the checked-out commit of each repo in the lockfile
+ * Repos that are not cloned are skipped; other lock entries are kept
+ */
+export async function updateLockfile(
+  manifest: Manifest,
+  repos: RepoConfig[] = getEnabledRepos(manifest),
+  root: string = manifest.defaultRoot
+): Promise<{ path: string; results: LockUpdateResult[] }> {
+  const lockfile: Lockfile = loadLockfile() ?? { version: 1, repos: {} };
+  const results: LockUpdateResult[] = [];
+  const lockedAt = new Date().toISOString();
+
+  for (const repo of repos) {
+    const previous = lockfile.repos[repo.id]?.commit;
+    const commit = await getHeadCommit(getRepoPath(root, repo.localDir));
+
+    if (!commit) {
+      results.push({ repoId: repo.id, previous, action: 'skipped', reason: 'Repo not cloned' });
+      continue;
+    }
+
+    const entry: LockedRepo = { url: repo.url, ref: getRepoRef(repo), commit, lockedAt };
+    const existing = lockfile.repos[repo.id];
+    const unchanged = existing && existing.commit === commit && existing.url === repo.url && existing.ref === entry.ref;
+
+    if (!unchanged) {
+      lockfile.repos[repo.id] = entry;
+    }
+    results.push({ repoId: repo.id, previous, commit, action: unchanged ? 'unchanged' : 'locked' });
+  }
+
+  const lockPath = saveLockfile(lockfile);
+  return { path: lockPath, results };
+}
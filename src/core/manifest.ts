@@ -3,11 +3,22 @@
  */
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { isDeepStrictEqual } from 'util';
+import {
+  parse as parseYaml,
+  parseDocument,
+  stringify as stringifyYaml,
+  isMap,
+  isScalar,
+  isSeq,
+  type Document,
+} from 'yaml';
+import { ZodError } from 'zod';
 import { validateManifest, safeValidateManifest } from './schema.js';
-import { DEFAULT_ROOT, DEFAULT_STORE, DEFAULT_MANIFEST_NAME } from './constants.js';
-import type { Manifest, RepoConfig } from './types.js';
+import { CUSTOM_IGNORE_FILES_LIMIT, DEFAULT_ROOT, DEFAULT_STORE, DEFAULT_MANIFEST_NAME } from './constants.js';
+import type { CustomIgnoreEntry, CustomIgnoreSource, Manifest, RepoConfig } from './types.js';
 
 /**
  * Default repository configurations
@@ -280,19 +291,89 @@ export function safeLoadManifest(manifestPath?: string): {
   }
 }
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Apply the difference between two manifest values to an existing YAML node
+ * Unchanged nodes are reused so their comments and ordering survive; sequences
+ * are matched by repo `id` (or scalar value) so entries can be added or removed
+ * Returns the node to store in the parent
+ */
+function patchYamlNode(doc: Document, node: unknown, before: unknown, after: unknown): unknown {
+  if (isDeepStrictEqual(before, after)) {
+    return node;
+  }
+
+  if (isMap(node) && isPlainObject(before) && isPlainObject(after)) {
+    for (const key of Object.keys(before)) {
+      if (after[key] === undefined) {
+        node.delete(key);
+      }
+    }
+    for (const [key, value] of Object.entries(after)) {
+      if (value === undefined || isDeepStrictEqual(before[key], value)) continue;
+      const child = node.get(key, true);
+      node.set(key, child === undefined ? doc.createNode(value) : patchYamlNode(doc, child, before[key], value));
+    }
+    return node;
+  }
+
+  if (isSeq(node) && Array.isArray(before) && Array.isArray(after) && node.items.length === before.length) {
+    const keyOf = (v: unknown) => (isPlainObject(v) && typeof v.id === 'string' ? `id:${v.id}` : JSON.stringify(v));
+    const beforeKeys = before.map(keyOf);
+    const afterKeys = after.map(keyOf);
+
+    if (new Set(beforeKeys).size === beforeKeys.length && new Set(afterKeys).size === afterKeys.length) {
+      node.items = afterKeys.map((key, i) => {
+        const j = beforeKeys.indexOf(key);
+        return (j === -1 ? doc.createNode(after[i]) : patchYamlNode(doc, node.items[j], before[j], after[i])) as typeof node.items[number];
+      });
+      return node;
+    }
+  }
+
+  if (isScalar(node) && (after === null || typeof after !== 'object')) {
+    node.value = after;
+    return node;
+  }
+
+  return doc.createNode(after);
+}
+
 /**
  * Save manifest to file
+ * An existing file is edited in place, preserving comments and key order
  */
 export function saveManifest(manifest: Manifest, manifestPath?: string): string {
   const resolved = resolveManifestPath(manifestPath);
 
+  // Never write a manifest that would fail to load again
+  const checked = safeValidateManifest(manifest);
+  if (!checked.success) {
+    throw new Error(`Refusing to save invalid manifest: ${formatValidationError(checked.error)}`);
+  }
+
   // Ensure directory exists
   const dir = path.dirname(resolved);
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
   }
 
-  const content = stringifyYaml(manifest, {
+  let content: string | undefined;
+  if (fs.existsSync(resolved)) {
+    const doc = parseDocument(fs.readFileSync(resolved, 'utf-8'));
+    const current = doc.errors.length === 0 ? safeValidateManifest(doc.toJS()) : { success: false };
+
+    // Diff against the validated file so schema defaults aren't written out
+    if (current.success && 'data' in current && current.data) {
+      doc.contents = patchYamlNode(doc, doc.contents, current.data, manifest) as typeof doc.contents;
+      content = doc.toString({ indent: 2, lineWidth: 120 });
+    }
+  }
+
+  content ??= stringifyYaml(manifest, {
     indent: 2,
     lineWidth: 120,
   });
@@ -301,6 +382,16 @@ export function saveManifest(manifest: Manifest, manifestPath?: string): string
   return resolved;
 }
 
+/**
+ * One-line summary of a schema or validation error
+ */
+function formatValidationError(error?: Error): string {
+  if (error instanceof ZodError) {
+    return error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ');
+  }
+  return error?.message ?? 'unknown error';
+}
+
 /**
  * Get the full path for a repo within the root
  */
@@ -315,6 +406,37 @@ export function getEnabledRepos(manifest: Manifest): RepoConfig[] {
   return manifest.repos.filter((r) => r.enabled);
 }
 
+/**
+ * Get the effective mgrep store for a repo
+ */
+export function getRepoStore(manifest: Manifest, repo: RepoConfig): string {
+  return repo.mgrep?.store || manifest.defaultStore;
+}
+
+/**
+ * Get enabled repos grouped by effective mgrep store
+ * The default store is always ordered last
+ */
+export function getReposByStore(manifest: Manifest): Map<string, RepoConfig[]> {
+  const grouped = new Map<string, RepoConfig[]>();
+
+  for (const repo of getEnabledRepos(manifest)) {
+    const store = getRepoStore(manifest, repo);
+    if (!grouped.has(store)) {
+      grouped.set(store, []);
+    }
+    grouped.get(store)!.push(repo);
+  }
+
+  const defaultRepos = grouped.get(manifest.defaultStore);
+  if (defaultRepos) {
+    grouped.delete(manifest.defaultStore);
+    grouped.set(manifest.defaultStore, defaultRepos);
+  }
+
+  return grouped;
+}
+
 /**
  * Get repos grouped by category
  */
@@ -332,10 +454,55 @@ export function getReposByCategory(manifest: Manifest): Record<string, RepoConfi
   return grouped;
 }
 
+/**
+ * Pattern of a customIgnores entry (plain string or structured)
+ */
+export function getCustomIgnorePattern(entry: string | CustomIgnoreEntry): string {
+  return typeof entry === 'string' ? entry : entry.pattern;
+}
+
+/**
+ * All customIgnores patterns, in manifest order
+ */
+export function getCustomIgnorePatterns(manifest: Manifest): string[] {
+  return (manifest.customIgnores ?? []).map(getCustomIgnorePattern);
+}
+
+/**
+ * Name of the user running refrepo (for customIgnores provenance)
+ */
+export function getCurrentUser(): string | undefined {
+  try {
+    return os.userInfo().username || undefined;
+  } catch {
+    return process.env.USER || process.env.USERNAME || undefined;
+  }
+}
+
+/**
+ * Build a customIgnores entry with provenance
+ * Only the first CUSTOM_IGNORE_FILES_LIMIT matched files are recorded.
+ */
+export function createCustomIgnoreEntry(
+  pattern: string,
+  provenance: { source: CustomIgnoreSource; addedBy?: string; reason?: string; files?: string[] }
+): CustomIgnoreEntry {
+  const entry: CustomIgnoreEntry = { pattern, source: provenance.source };
+  if (provenance.addedBy) entry.addedBy = provenance.addedBy;
+  if (provenance.reason) entry.reason = provenance.reason;
+  if (provenance.files) {
+    entry.fileCount = provenance.files.length;
+    entry.files = provenance.files.slice(0, CUSTOM_IGNORE_FILES_LIMIT);
+  }
+  return entry;
+}
+
 /**
  * Add custom ignore patterns to manifest
+ * Structured entries without addedAt are stamped with one shared timestamp,
+ * so the whole call can be undone with undoLastCustomIgnores.
  */
-export function addCustomIgnores(patterns: string[], manifestPath?: string): {
+export function addCustomIgnores(entries: Array<string | CustomIgnoreEntry>, manifestPath?: string): {
   success: boolean;
   added: string[];
   error?: string;
@@ -349,12 +516,15 @@ export function addCustomIgnores(patterns: string[], manifestPath?: string): {
     }
 
     // Add only new patterns (avoid duplicates)
-    const existingSet = new Set(manifest.customIgnores);
+    const existingSet = new Set(getCustomIgnorePatterns(manifest));
+    const addedAt = new Date().toISOString();
     const added: string[] = [];
 
-    for (const pattern of patterns) {
+    for (const entry of entries) {
+      const pattern = getCustomIgnorePattern(entry);
       if (!existingSet.has(pattern)) {
-        manifest.customIgnores.push(pattern);
+        manifest.customIgnores.push(typeof entry === 'string' ? entry : { ...entry, addedAt: entry.addedAt ?? addedAt });
+        existingSet.add(pattern);
         added.push(pattern);
       }
     }
@@ -372,3 +542,257 @@ export function addCustomIgnores(patterns: string[], manifestPath?: string): {
     };
   }
 }
+
+/**
+ * Remove custom ignore patterns from manifest
+ * Nothing is removed when any pattern is not in customIgnores.
+ */
+export function removeCustomIgnores(patterns: string[], manifestPath?: string): {
+  success: boolean;
+  removed: Array<string | CustomIgnoreEntry>;
+  error?: string;
+} {
+  try {
+    const manifest = loadManifest(manifestPath);
+    const existing = getCustomIgnorePatterns(manifest);
+    const missing = patterns.filter((p) => !existing.includes(p));
+    if (missing.length > 0) {
+      return { success: false, removed: [], error: `Not in customIgnores: ${missing.join(', ')}` };
+    }
+
+    const remove = new Set(patterns);
+    const removed = (manifest.customIgnores ?? []).filter((e) => remove.has(getCustomIgnorePattern(e)));
+    if (removed.length > 0) {
+      manifest.customIgnores = (manifest.customIgnores ?? []).filter((e) => !remove.has(getCustomIgnorePattern(e)));
+      saveManifest(manifest, manifestPath);
+    }
+
+    return { success: true, removed };
+  } catch (err) {
+    return {
+      success: false,
+      removed: [],
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Remove the most recently added customIgnores entries
+ * Entries sharing the latest addedAt were written by one command and are
+ * removed together. Plain strings carry no timestamp and are never undone.
+ */
+export function undoLastCustomIgnores(manifestPath?: string, options: { dryRun?: boolean } = {}): {
+  success: boolean;
+  removed: CustomIgnoreEntry[];
+  error?: string;
+} {
+  try {
+    const manifest = loadManifest(manifestPath);
+    const stamped = (manifest.customIgnores ?? []).filter(
+      (e): e is CustomIgnoreEntry => typeof e !== 'string' && e.addedAt !== undefined
+    );
+    if (stamped.length === 0) {
+      return { success: false, removed: [], error: 'No customIgnores entries with an addedAt timestamp to undo' };
+    }
+
+    const latest = stamped.map((e) => Date.parse(e.addedAt!)).reduce((a, b) => Math.max(a, b));
+    const removed = stamped.filter((e) => Date.parse(e.addedAt!) === latest);
+    if (!options.dryRun) {
+      manifest.customIgnores = (manifest.customIgnores ?? []).filter((e) => !removed.includes(e as CustomIgnoreEntry));
+      saveManifest(manifest, manifestPath);
+    }
+
+    return { success: true, removed };
+  } catch (err) {
+    return {
+      success: false,
+      removed: [],
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Add drop paths and extensions to a repo's manifest ignore config
+ * Creates a denylist config when the repo has none.
+ */
+export function addRepoIgnoreDrops(
+  repoId: string,
+  drops: { dropPaths?: string[]; dropExtensions?: string[] },
+  manifestPath?: string
+): {
+  success: boolean;
+  added: string[];
+  error?: string;
+} {
+  try {
+    const manifest = loadManifest(manifestPath);
+    const repo = manifest.repos.find((r) => r.id === repoId);
+    if (!repo) {
+      return { success: false, added: [], error: `Unknown repo: ${repoId}` };
+    }
+
+    const config = repo.ignore ?? { mode: 'denylist', keepPaths: [], dropPaths: [] };
+    const added: string[] = [];
+
+    for (const dropPath of drops.dropPaths ?? []) {
+      if (!config.dropPaths.includes(dropPath)) {
+        config.dropPaths.push(dropPath);
+        added.push(dropPath);
+      }
+    }
+    for (const ext of drops.dropExtensions ?? []) {
+      const existing = config.dropExtensions ?? [];
+      if (!existing.includes(ext)) {
+        config.dropExtensions = [...existing, ext];
+        added.push(ext);
+      }
+    }
+
+    if (added.length > 0) {
+      repo.ignore = config;
+      saveManifest(manifest, manifestPath);
+    }
+
+    return { success: true, added };
+  } catch (err) {
+    return {
+      success: false,
+      added: [],
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Infer repo id, display name and local directory from a git URL
+ * Falls back to `<owner>-<repo>` when the repo name is already taken
+ */
+export function inferRepoFromUrl(
+  url: string,
+  takenIds: Set<string> = new Set()
+): { id: string; name: string; localDir: string } {
+  const match = url.replace(/\/+$/, '').replace(/\.git$/, '').match(/([^/:]+)[/:]([^/:]+)$/);
+  if (!match) {
+    throw new Error(`Cannot infer repo name from URL: ${url}`);
+  }
+
+  const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  const [, owner, repoName] = match;
+
+  let id = slug(repoName);
+  if (takenIds.has(id)) {
+    id = `${slug(owner)}-${id}`;
+  }
+
+  const name = repoName
+    .split(/[-_.]+/)
+    .filter((w) => w.length > 0)
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(' ');
+
+  return { id, name, localDir: id };
+}
+
+/**
+ * Add a repo to the manifest
+ */
+export function addRepo(repo: RepoConfig, manifestPath?: string): {
+  success: boolean;
+  manifest?: Manifest;
+  error?: string;
+} {
+  try {
+    const manifest = loadManifest(manifestPath);
+
+    if (manifest.repos.some((r) => r.id === repo.id)) {
+      return { success: false, error: `Repo id already exists: ${repo.id}` };
+    }
+    if (manifest.repos.some((r) => r.localDir === repo.localDir)) {
+      return { success: false, error: `Local directory already used: ${repo.localDir}` };
+    }
+    if (manifest.repos.some((r) => r.url === repo.url)) {
+      return { success: false, error: `URL already in manifest: ${repo.url}` };
+    }
+
+    manifest.repos.push(repo);
+    saveManifest(manifest, manifestPath);
+    return { success: true, manifest };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Remove a repo from the manifest (the local clone is left in place)
+ */
+export function removeRepo(repoId: string, manifestPath?: string): {
+  success: boolean;
+  removed?: RepoConfig;
+  error?: string;
+} {
+  try {
+    const manifest = loadManifest(manifestPath);
+    const removed = manifest.repos.find((r) => r.id === repoId);
+    if (!removed) {
+      return { success: false, error: `Unknown repo: ${repoId}` };
+    }
+
+    // Drop everything keyed by the repo id so the manifest still validates
+    manifest.repos = manifest.repos.filter((r) => r.id !== repoId);
+    if (manifest.thresholds?.repos?.[repoId]) {
+      delete manifest.thresholds.repos[repoId];
+      if (Object.keys(manifest.thresholds.repos).length === 0) {
+        delete manifest.thresholds.repos;
+      }
+    }
+    if (manifest.ignoreRules) {
+      manifest.ignoreRules = manifest.ignoreRules.filter((r) => r.id !== repoId);
+      if (manifest.ignoreRules.length === 0) {
+        delete manifest.ignoreRules;
+      }
+    }
+    saveManifest(manifest, manifestPath);
+    return { success: true, removed };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Enable or disable a repo
+ */
+export function setRepoEnabled(repoId: string, enabled: boolean, manifestPath?: string): {
+  success: boolean;
+  changed: boolean;
+  error?: string;
+} {
+  try {
+    const manifest = loadManifest(manifestPath);
+    const repo = manifest.repos.find((r) => r.id === repoId);
+    if (!repo) {
+      return { success: false, changed: false, error: `Unknown repo: ${repoId}` };
+    }
+
+    if (repo.enabled === enabled) {
+      return { success: true, changed: false };
+    }
+
+    repo.enabled = enabled;
+    saveManifest(manifest, manifestPath);
+    return { success: true, changed: true };
+  } catch (err) {
+    return {
+      success: false,
+      changed: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
@@ -0,0 +1,403 @@
+/**
+ * mgrep integration
+ *
+ * All mgrep invocations go through createMgrepClient. Output is parsed line
+ * by line into typed events (progress, per-file upload/delete, sync summary)
+ * instead of scanning accumulated console text, `search` uses mgrep's JSON
+ * output, and failures are classified into MgrepError kinds (missing binary,
+ * auth, quota, network, timeout) so callers can report them distinctly.
+ */
+
+import * as path from 'path';
+import { spawn, type ChildProcess } from 'child_process';
+import { stripVTControlCharacters } from 'util';
+import { execa } from 'execa';
+import { toPosixPath } from './path.js';
+import { DEFAULT_INDEX_TIMEOUT_SECONDS, ENV_VARS } from './constants.js';
+
+export type MgrepErrorKind = 'missing-binary' | 'auth' | 'quota' | 'network' | 'timeout' | 'failed';
+
+/**
+ * A failed mgrep invocation, classified by cause
+ */
+export class MgrepError extends Error {
+  readonly kind: MgrepErrorKind;
+  readonly exitCode?: number | null;
+
+  constructor(kind: MgrepErrorKind, message: string, exitCode?: number | null) {
+    super(message);
+    this.name = 'MgrepError';
+    this.kind = kind;
+    this.exitCode = exitCode;
+  }
+}
+
+export type MgrepEvent =
+  /** Spinner progress, e.g. "Indexing files (120/2328)" */
+  | { type: 'progress'; line: string; done: number; total: number }
+  /** A file mgrep uploaded or deleted (or would have, in a dry run); path relative to the root */
+  | { type: 'file'; line: string; action: 'upload' | 'delete'; path: string }
+  /** Initial sync (or dry run) summary */
+  | { type: 'synced'; line: string; filesFound: number; filesUploaded: number; filesDeleted: number }
+  | { type: 'output'; line: string };
+
+export interface MgrepSyncResult {
+  filesFound: number;
+  filesUploaded: number;
+  filesDeleted: number;
+  dryRun: boolean;
+  /** Paths uploaded (or to be uploaded), relative to the root, when mgrep lists them */
+  uploadPaths: string[];
+  /** Paths deleted (or to be deleted) from the store, relative to the root */
+  deletePaths: string[];
+}
+
+export interface MgrepWatchHandle {
+  pid?: number;
+  isRunning(): boolean;
+  /** SIGTERM, then SIGKILL after 10s */
+  stop(): Promise<void>;
+}
+
+export interface MgrepClientOptions {
+  /** Index root (mgrep's working directory) */
+  root: string;
+  /** mgrep executable (default: mgrep on PATH) */
+  bin?: string;
+  /** Extra environment for the mgrep process */
+  env?: NodeJS.ProcessEnv;
+}
+
+export interface MgrepClient {
+  /** Installed version, or undefined when mgrep is missing */
+  version(): Promise<string | undefined>;
+  /** Run `mgrep watch` until its initial sync completes (or the dry run finishes) */
+  sync(store: string, options?: { dryRun?: boolean; timeoutMs?: number; onEvent?: (event: MgrepEvent) => void }): Promise<MgrepSyncResult>;
+  /** Start a long-running `mgrep watch`; onExit fires when it exits without stop() */
+  watch(store: string, options?: { onEvent?: (event: MgrepEvent) => void; onExit?: (error: MgrepError) => void }): MgrepWatchHandle;
+  /** Search a store; `stream` prints mgrep's own output instead of returning JSON */
+  search(store: string, query: string, options?: { path?: string; limit?: number; stream?: boolean }): Promise<unknown>;
+}
+
+const AUTH_PATTERN = /unauthori[sz]ed|\b401\b|\b403\b|invalid api key|api key|not logged in|mgrep login|authenticat/i;
+const QUOTA_PATTERN = /quota|rate.?limit|\b429\b|\b402\b|too many requests|limit exceeded|payment required|insufficient credits/i;
+const NETWORK_PATTERN = /ENOTFOUND|ECONNREFUSED|ECONNRESET|ETIMEDOUT|EAI_AGAIN|socket hang up|network|fetch failed|getaddrinfo/i;
+
+/**
+ * Classify failed mgrep output into an MgrepError
+ */
+export function classifyMgrepFailure(output: string, exitCode?: number | null): MgrepError {
+  const lines = stripVTControlCharacters(output).split(/[\r\n]+/).map((l) => l.trim()).filter(Boolean);
+  const detail = lines.slice(-3).join(' | ') || `exit code ${exitCode}`;
+
+  if (AUTH_PATTERN.test(output)) {
+    return new MgrepError('auth', `mgrep authentication failed - check ${ENV_VARS.mgrepApiKey} or run \`mgrep login\` (${detail})`, exitCode);
+  }
+  if (QUOTA_PATTERN.test(output)) {
+    return new MgrepError('quota', `mgrep quota or rate limit reached (${detail})`, exitCode);
+  }
+  if (NETWORK_PATTERN.test(output)) {
+    return new MgrepError('network', `mgrep could not reach the store (${detail})`, exitCode);
+  }
+  return new MgrepError('failed', `mgrep exited with code ${exitCode}: ${detail}`, exitCode);
+}
+
+function missingBinaryError(bin: string): MgrepError {
+  return new MgrepError('missing-binary', `${bin} not found. Install it from https://github.com/mixedbread-ai/mgrep`);
+}
+
+function isInside(filePath: string, root: string): boolean {
+  const relative = path.relative(root, filePath);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function toRootRelative(filePath: string, root: string): string {
+  return toPosixPath(path.isAbsolute(filePath) ? path.relative(root, filePath) : filePath);
+}
+
+/**
+ * Parse one line of `mgrep watch` output
+ * Dry run:  "found 3186 files in total, would have uploaded 943 changed or new files, would have deleted 854 files"
+ *           "Dry run: would have uploaded /abs/path/to/file"
+ * Sync:     "✔ Initial sync complete (2328/2328) • uploaded 5 • deleted 3"
+ *           "✔ Uploaded /abs/path/to/file"
+ *           "Indexing files (120/2328)"
+ * Per-file lines of a real sync only count with an absolute path under the root.
+ */
+export function parseMgrepLine(rawLine: string, root: string): MgrepEvent {
+  const line = stripVTControlCharacters(rawLine).trim();
+  const count = (pattern: RegExp) => {
+    const match = line.match(pattern);
+    return match ? parseInt(match[1], 10) : 0;
+  };
+
+  const found = line.match(/found\s+(\d+)\s+files?\s+in\s+total/i);
+  if (found) {
+    return {
+      type: 'synced',
+      line,
+      filesFound: parseInt(found[1], 10),
+      filesUploaded: count(/would have uploaded\s+(\d+)/i),
+      filesDeleted: count(/would have deleted\s+(\d+)/i),
+    };
+  }
+
+  const complete = line.match(/Initial sync complete\s*\((\d+)\/(\d+)\)/i);
+  if (complete) {
+    return {
+      type: 'synced',
+      line,
+      filesFound: parseInt(complete[2], 10),
+      filesUploaded: count(/•\s*uploaded\s+(\d+)/i),
+      filesDeleted: count(/•\s*deleted\s+(\d+)/i),
+    };
+  }
+
+  const dryRunFile = line.match(/^(?:Dry run:\s*)?would have (uploaded|deleted)\s+(\S.*?)\s*$/i);
+  const syncFile = line.match(/^[✔✓]\s*(uploaded|deleted)\s+(\/\S.*?)\s*$/i);
+  const file = dryRunFile ?? (syncFile && isInside(syncFile[2], root) ? syncFile : null);
+  // "uploaded 5 files" is a count, not a path
+  if (file && !/^\d+(\s|$)/.test(file[2])) {
+    return {
+      type: 'file',
+      line,
+      action: file[1].toLowerCase() === 'uploaded' ? 'upload' : 'delete',
+      path: toRootRelative(file[2], root),
+    };
+  }
+
+  const progress = line.match(/\((\d+)\/(\d+)\)/);
+  if (progress) {
+    return { type: 'progress', line, done: parseInt(progress[1], 10), total: parseInt(progress[2], 10) };
+  }
+
+  return { type: 'output', line };
+}
+
+/**
+ * Split streamed output into lines (spinners redraw with \r)
+ */
+function createLineReader(onLine: (line: string) => void): { push(chunk: Buffer | string): void; flush(): void } {
+  let pending = '';
+  return {
+    push(chunk) {
+      pending += chunk.toString();
+      const parts = pending.split(/\r\n|\r|\n/);
+      pending = parts.pop() ?? '';
+      for (const part of parts) {
+        if (part.trim()) onLine(part);
+      }
+    },
+    flush() {
+      if (pending.trim()) onLine(pending);
+      pending = '';
+    },
+  };
+}
+
+/**
+ * Spawn mgrep and feed parsed events to a handler
+ * Keeps the last non-file, non-progress lines for error classification,
+ * so file paths like docs/authentication.md cannot look like an auth failure.
+ */
+function spawnMgrep(
+  options: MgrepClientOptions,
+  args: string[],
+  onEvent: (event: MgrepEvent) => void
+): { child: ChildProcess; tail: () => string; flush: () => void } {
+  const child = spawn(options.bin ?? 'mgrep', args, {
+    cwd: options.root,
+    env: { ...process.env, ...options.env },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  const recent: string[] = [];
+  const onLine = (line: string) => {
+    const event = parseMgrepLine(line, options.root);
+    if (event.type !== 'file' && event.type !== 'progress') {
+      recent.push(line);
+      if (recent.length > 20) recent.shift();
+    }
+    onEvent(event);
+  };
+  // mgrep's ora spinner writes to stderr, results to stdout
+  const stdout = createLineReader(onLine);
+  const stderr = createLineReader(onLine);
+  child.stdout?.on('data', (chunk: Buffer) => stdout.push(chunk));
+  child.stderr?.on('data', (chunk: Buffer) => stderr.push(chunk));
+
+  const flush = () => {
+    stdout.flush();
+    stderr.flush();
+  };
+  return { child, tail: () => recent.join('\n'), flush };
+}
+
+function stopChild(child: ChildProcess): Promise<void> {
+  if (child.exitCode !== null || child.signalCode !== null) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve) => {
+    const forceKill = setTimeout(() => child.kill('SIGKILL'), 10_000);
+    child.once('close', () => {
+      clearTimeout(forceKill);
+      resolve();
+    });
+    child.kill('SIGTERM');
+  });
+}
+
+/**
+ * Create a client for one index root
+ */
+export function createMgrepClient(options: MgrepClientOptions): MgrepClient {
+  const bin = options.bin ?? 'mgrep';
+
+  return {
+    async version() {
+      const result = await execa(bin, ['--version'], { reject: false, env: options.env, timeout: 10_000 });
+      const version = String(result.stdout || '').trim();
+      return result.exitCode === 0 && version ? version : undefined;
+    },
+
+    sync(store, syncOptions = {}) {
+      const dryRun = syncOptions.dryRun === true;
+      const timeoutMs = syncOptions.timeoutMs ?? DEFAULT_INDEX_TIMEOUT_SECONDS * 1000;
+      const args = ['--store', store, 'watch'];
+      if (dryRun) {
+        args.push('--dry-run');
+      }
+
+      return new Promise((resolve, reject) => {
+        const result: MgrepSyncResult = {
+          filesFound: 0,
+          filesUploaded: 0,
+          filesDeleted: 0,
+          dryRun,
+          uploadPaths: [],
+          deletePaths: [],
+        };
+        let synced = false;
+        let settled = false;
+        const settle = (fn: () => void) => {
+          if (settled) return;
+          settled = true;
+          clearTimeout(timeout);
+          fn();
+        };
+
+        const { child, tail, flush } = spawnMgrep(options, args, (event) => {
+          syncOptions.onEvent?.(event);
+          if (event.type === 'file' && dryRun) {
+            (event.action === 'upload' ? result.uploadPaths : result.deletePaths).push(event.path);
+          } else if (event.type === 'synced' && !synced) {
+            synced = true;
+            result.filesFound = event.filesFound;
+            result.filesUploaded = event.filesUploaded;
+            result.filesDeleted = event.filesDeleted;
+            // A real sync keeps watching after the first pass - stop it
+            if (!dryRun) {
+              void stopChild(child);
+            }
+          }
+        });
+
+        const timeout = setTimeout(() => {
+          settle(() => {
+            void stopChild(child);
+            reject(new MgrepError('timeout', `mgrep timed out after ${timeoutMs / 1000} seconds`));
+          });
+        }, timeoutMs);
+
+        child.on('error', (error: NodeJS.ErrnoException) => {
+          settle(() => reject(error.code === 'ENOENT' ? missingBinaryError(bin) : new MgrepError('failed', `Failed to start mgrep: ${error.message}`)));
+        });
+
+        child.on('close', (code) => {
+          flush();
+          settle(() => {
+            if (!synced && code !== 0) {
+              reject(classifyMgrepFailure(tail(), code));
+              return;
+            }
+            // Without a summary line, count the files mgrep listed
+            if (!synced) {
+              result.filesUploaded = result.uploadPaths.length;
+              result.filesDeleted = result.deletePaths.length;
+            }
+            result.uploadPaths.sort();
+            result.deletePaths.sort();
+            resolve(result);
+          });
+        });
+      });
+    },
+
+    watch(store, watchOptions = {}) {
+      const { child, tail, flush } = spawnMgrep(options, ['--store', store, 'watch'], (event) => watchOptions.onEvent?.(event));
+      let running = true;
+      let stopping = false;
+
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        running = false;
+        if (!stopping) {
+          watchOptions.onExit?.(error.code === 'ENOENT' ? missingBinaryError(bin) : new MgrepError('failed', `Failed to start mgrep: ${error.message}`));
+        }
+      });
+      child.on('close', (code, signal) => {
+        flush();
+        const wasRunning = running;
+        running = false;
+        if (!stopping && wasRunning) {
+          watchOptions.onExit?.(signal ? new MgrepError('failed', `mgrep was killed by ${signal}`) : classifyMgrepFailure(tail(), code));
+        }
+      });
+
+      return {
+        pid: child.pid,
+        isRunning: () => running,
+        stop() {
+          stopping = true;
+          running = false;
+          return stopChild(child);
+        },
+      };
+    },
+
+    async search(store, query, searchOptions = {}) {
+      const args = ['--store', store, 'search', query];
+      if (searchOptions.path) {
+        args.push(searchOptions.path);
+      }
+      args.push('--limit', String(searchOptions.limit ?? 10));
+      if (!searchOptions.stream) {
+        args.push('--json');
+      }
+
+      // Runs in the caller's directory, which mgrep uses as the default search scope
+      const result = await execa(bin, args, {
+        env: options.env,
+        reject: false,
+        stdio: searchOptions.stream ? ['ignore', 'inherit', 'pipe'] : 'pipe',
+      });
+
+      if (result instanceof Error && result.code === 'ENOENT') {
+        throw missingBinaryError(bin);
+      }
+      if (result.exitCode !== 0) {
+        throw classifyMgrepFailure(`${result.stderr || ''}\n${result.stdout || ''}`, result.exitCode);
+      }
+      if (searchOptions.stream) {
+        return undefined;
+      }
+
+      const stdout = String(result.stdout || '');
+      try {
+        return JSON.parse(stdout);
+      } catch {
+        return { raw: stdout };
+      }
+    },
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Safety checks for customIgnores patterns
+ *
+ * Every candidate is evaluated against the current plan before it is
+ * written: it must start with a known repo localDir, must not remove more
+ * than a configurable fraction of any repo, and must not remove a package of
+ * a `source` repo unless the package is for a framework the profile drops.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { resolveProfile, stackSlug } from './profiles.js';
+import { FRAMEWORK_MARKERS } from './suggest-providers.js';
+import { matchPatternFiles } from './suggest-queue.js';
+import { DEFAULT_MAX_PATTERN_REPO_FRACTION } from './constants.js';
+import type { PlanSummary } from './plan.js';
+import type { Manifest, StackProfile } from './types.js';
+
+export interface PatternRepoImpact {
+  repoId: string;
+  localDir: string;
+  fileCount: number;
+  bytes: number;
+  /** Largest of the file and byte share removed from the repo */
+  fraction: number;
+}
+
+export interface PatternCheck {
+  pattern: string;
+  safe: boolean;
+  /** Why the pattern is refused (empty when safe) */
+  problems: string[];
+  /** Planned files the pattern removes */
+  fileCount: number;
+  bytes: number;
+  repos: PatternRepoImpact[];
+  /** Package directories of `source` repos the pattern removes */
+  protectedPackages: string[];
+}
+
+/**
+ * Whether a package directory is named for a dropped framework
+ * (`packages/vue-router/`, `examples/solid/`)
+ */
+function isDroppedFrameworkPackage(packageDir: string, profile: StackProfile): boolean {
+  const kept = new Set(profile.keepFrameworks.map(stackSlug));
+  const dropped = profile.dropFrameworks.map(stackSlug).filter((slug) => !kept.has(slug));
+  const tokens = packageDir
+    .split('/')
+    .slice(1)
+    .flatMap((segment) => segment.toLowerCase().split(/[-_.@]+/));
+  return dropped.some((slug) => (FRAMEWORK_MARKERS[slug]?.tokens ?? [slug]).some((t) => tokens.includes(t)));
+}
+
+/**
+ * Package directories (trailing slash) of `source` repos that are kept
+ */
+function findProtectedPackages(plan: PlanSummary, manifest: Manifest, profile: StackProfile): string[] {
+  const packages: string[] = [];
+  for (const repoPlan of plan.repos) {
+    const repo = manifest.repos.find((r) => r.id === repoPlan.repoId);
+    if (repo?.category !== 'source') continue;
+
+    for (const file of repoPlan.files ?? []) {
+      if (path.posix.basename(file) !== 'package.json') continue;
+      const dir = `${path.posix.dirname(file)}/`;
+      if (!isDroppedFrameworkPackage(dir, profile)) {
+        packages.push(dir);
+      }
+    }
+  }
+  return packages;
+}
+
+function formatPercent(fraction: number): string {
+  return `${Math.round(fraction * 100)}%`;
+}
+
+/**
+ * Evaluate candidate customIgnores patterns against a plan
+ * File sizes are read from disk under the manifest root.
+ */
+export function checkPatterns(patterns: string[], plan: PlanSummary, manifest: Manifest): PatternCheck[] {
+  const maxFraction = manifest.patternSafety?.maxRepoFraction ?? DEFAULT_MAX_PATTERN_REPO_FRACTION;
+  const protectedPackages = manifest.patternSafety?.protectSourcePackages === false
+    ? []
+    : findProtectedPackages(plan, manifest, resolveProfile(manifest.profile));
+  const localDirs = manifest.repos.map((r) => `${r.localDir}/`);
+  const allFiles = plan.allFiles ?? plan.repos.flatMap((r) => r.files ?? []);
+  const sizes = new Map<string, number>();
+
+  const sizeOf = (file: string) => {
+    let size = sizes.get(file);
+    if (size === undefined) {
+      try {
+        size = fs.statSync(path.join(manifest.defaultRoot, file)).size;
+      } catch {
+        size = 0;
+      }
+      sizes.set(file, size);
+    }
+    return size;
+  };
+
+  return patterns.map((pattern) => {
+    const problems: string[] = [];
+    const anchored = pattern.replace(/^\//, '');
+    if (!localDirs.some((dir) => anchored.startsWith(dir))) {
+      problems.push(`does not start with a repo directory (${localDirs.join(', ')})`);
+    }
+
+    const files = matchPatternFiles(pattern, allFiles);
+    const repos: PatternRepoImpact[] = [];
+    for (const repoPlan of plan.repos) {
+      const repoFiles = files.filter((f) => f.startsWith(`${repoPlan.localDir}/`));
+      if (repoFiles.length === 0) continue;
+
+      const bytes = repoFiles.reduce((sum, f) => sum + sizeOf(f), 0);
+      const fraction = Math.max(
+        repoFiles.length / Math.max(repoPlan.includedFileCount, 1),
+        bytes / Math.max(repoPlan.includedTotalBytes, 1)
+      );
+      repos.push({ repoId: repoPlan.repoId, localDir: repoPlan.localDir, fileCount: repoFiles.length, bytes, fraction });
+      if (fraction > maxFraction) {
+        problems.push(`removes ${formatPercent(fraction)} of ${repoPlan.repoId} (limit ${formatPercent(maxFraction)})`);
+      }
+    }
+
+    const removed = new Set(files);
+    const removedPackages = protectedPackages.filter((dir) => removed.has(`${dir}package.json`));
+    for (const dir of removedPackages) {
+      problems.push(`removes source package ${dir}`);
+    }
+
+    return {
+      pattern,
+      safe: problems.length === 0,
+      problems,
+      fileCount: files.length,
+      bytes: repos.reduce((sum, r) => sum + r.bytes, 0),
+      repos,
+      protectedPackages: removedPackages,
+    };
+  });
+}
@@ -5,17 +5,59 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import ignore, { type Ignore } from 'ignore';
-import { buildIgnoreContent } from './ignore-rules.js';
-import { getRepoPath, getEnabledRepos } from './manifest.js';
-import { PLAN_THRESHOLDS, DEFAULT_MAX_FILE_SIZE_BYTES } from './constants.js';
-import { toPosixPath } from './path.js';
-import type { Manifest, PlanResult, WarningLevel } from './types.js';
+import { buildIgnoreContent, getGlobalIgnorePatterns, getRepoIgnoreConfig, type RepoIgnoreConfig } from './ignore-rules.js';
+import { resolveProfile } from './profiles.js';
+import { resolveRepoIgnoreRules } from './repo-rules.js';
+import { buildGlobalIgnore, buildRepoIgnore } from './ignore.js';
+import { createLayer, readIgnoreFile, stripStoreScope, type IgnoreLayer, type IgnoreOverrides } from './ignore-layers.js';
+import {
+  createLimiter,
+  createWalkSession,
+  loadWalkCache,
+  saveWalkCache,
+  walkTree,
+  type Limiter,
+  type WalkSession,
+  type WalkStats,
+} from './walk.js';
+import { getCustomIgnorePatterns, getRepoPath, getEnabledRepos, getRepoStore, getReposByStore } from './manifest.js';
+import { resolveThresholds } from './thresholds.js';
+import {
+  PLAN_THRESHOLDS,
+  DEFAULT_MAX_FILE_SIZE_BYTES,
+  DEFAULT_ROLLUP_DEPTH,
+  DEFAULT_WALK_CONCURRENCY,
+} from './constants.js';
+import type {
+  IgnoreConfig,
+  Manifest,
+  PlanResult,
+  PlanThresholds,
+  RepoConfig,
+  WarningLevel,
+} from './types.js';
 
 export interface PlanOptions {
-  maxFileSizeBytes?: number;
+  maxFileSizeBytes?: number;  // Default max file size (per-repo mgrep.maxFileSizeBytes wins)
   repoId?: string;  // Plan single repo
+  store?: string;  // Plan only repos in this mgrep store
   customIgnores?: string[];  // Custom ignore patterns from manifest
+  ignoreConfig?: IgnoreConfig;  // Per-repo ignore config from manifest (set per repo by computePlan)
+  repoRules?: RepoIgnoreConfig;  // Resolved repo-specific rules (set per repo by computePlan)
+  globalPatterns?: string[];  // Global and stack profile patterns (set by computePlan)
+  thresholds?: PlanThresholds;  // Resolved warning thresholds (set per repo by computePlan)
+  /**
+   * Root-level rules: the .mgrepignore on disk, or the file `refrepo index` will generate
+   * Default: 'disk' (falls back to generated rules for repos without any .mgrepignore)
+   */
+  ignoreSource?: 'disk' | 'generated';
+  rootLayers?: IgnoreLayer[];  // Ignore layers at the index root (set by computePlan)
+  concurrency?: number;  // Max concurrent fs operations across all repos
+  cache?: boolean;  // Reuse unchanged directory listings from the walk cache (default: true)
+  limit?: Limiter;  // Shared concurrency limiter (set by computePlan)
+  walkSession?: WalkSession;  // Walk cache for this run (set by computePlan)
+  ignoreOverrides?: IgnoreOverrides;  // Ignore file contents to evaluate instead of the files on disk
+  rollupDepth?: number;  // Directory levels in the per-directory rollup (default: 2)
 }
 
 export interface FileStat {
@@ -28,12 +70,36 @@ export interface ExtensionCount {
   count: number;
 }
 
+export interface DirectoryRollup {
+  /** Repo-relative directory with a trailing slash, or `(root)` for files at the repo root */
+  path: string;
+  fileCount: number;
+  bytes: number;
+}
+
 export interface RepoPlanResult extends PlanResult {
   repoName: string;
   localDir: string;
   repoPath: string;
+  /** Effective mgrep store (set by computePlan) */
+  store?: string;
+  /** Thresholds the warning level was computed against */
+  thresholds: PlanThresholds;
+  /** Max file size applied during the walk */
+  maxFileSizeBytes: number;
+  /** Included files and bytes per directory, heaviest first */
+  directoryRollup: DirectoryRollup[];
   /** All included file paths (relative to repo root) */
   files?: string[];
+  /** Ignore files (relative to the index root) or `(generated)` rules applied to this repo */
+  ignoreSources?: string[];
+}
+
+export interface StorePlanTotals {
+  store: string;
+  repoCount: number;
+  includedFileCount: number;
+  includedTotalBytes: number;
 }
 
 export interface PlanSummary {
@@ -43,78 +109,18 @@ export interface PlanSummary {
     includedTotalBytes: number;
     repoCount: number;
   };
+  /** Per-store totals (in index order, default store last) */
+  stores: StorePlanTotals[];
   overallWarningLevel: WarningLevel;
+  ignoreSource: 'disk' | 'generated';
+  /** On-disk ignore files missing or out of date with the manifest */
+  ignoreWarnings: string[];
+  /** Directories listed from disk vs reused from the walk cache */
+  walk: WalkStats;
   /** All included file paths (relative to each repo's localDir) for baseline comparison */
   allFiles?: string[];
 }
 
-/**
- * Check if a file/directory is hidden (starts with .)
- * Matches mgrep's isHiddenFile() behavior
- */
-function isHiddenPath(relativePath: string): boolean {
-  const parts = relativePath.split('/');
-  return parts.some(
-    (part) => part.startsWith('.') && part !== '.' && part !== '..'
-  );
-}
-
-/**
- * Walk directory recursively, respecting ignore rules
- */
-function walkDirectory(
-  dir: string,
-  ig: Ignore,
-  baseDir: string,
-  maxFileSize: number,
-  files: FileStat[] = []
-): FileStat[] {
-  if (!fs.existsSync(dir)) {
-    return files;
-  }
-
-  const entries = fs.readdirSync(dir, { withFileTypes: true });
-
-  for (const entry of entries) {
-    const fullPath = path.join(dir, entry.name);
-    // Convert to POSIX-style paths for consistent ignore matching on Windows
-    const relativePath = toPosixPath(path.relative(baseDir, fullPath));
-
-    // Skip hidden files/directories (matches mgrep behavior)
-    if (isHiddenPath(relativePath)) {
-      continue;
-    }
-
-    // Skip if ignored
-    if (ig.ignores(relativePath)) {
-      continue;
-    }
-
-    if (entry.isDirectory()) {
-      // Check if directory is ignored (with trailing slash)
-      if (ig.ignores(relativePath + '/')) {
-        continue;
-      }
-      walkDirectory(fullPath, ig, baseDir, maxFileSize, files);
-    } else if (entry.isFile()) {
-      try {
-        const stats = fs.statSync(fullPath);
-        // Skip files over max size
-        if (stats.size <= maxFileSize) {
-          files.push({
-            path: relativePath,
-            bytes: stats.size,
-          });
-        }
-      } catch {
-        // Skip files we can't stat
-      }
-    }
-  }
-
-  return files;
-}
-
 /**
  * Build extension histogram from file list
  */
@@ -131,20 +137,47 @@ function buildExtensionHistogram(files: FileStat[]): ExtensionCount[] {
     .sort((a, b) => b.count - a.count);
 }
 
+/**
+ * Roll files up into their directory at a fixed depth
+ * Files shallower than the depth count towards their own directory.
+ */
+export function buildDirectoryRollup(files: FileStat[], depth = DEFAULT_ROLLUP_DEPTH): DirectoryRollup[] {
+  const rollup = new Map<string, DirectoryRollup>();
+
+  for (const file of files) {
+    const dirs = file.path.split('/').slice(0, -1).slice(0, depth);
+    const dir = dirs.length > 0 ? `${dirs.join('/')}/` : '(root)';
+
+    let entry = rollup.get(dir);
+    if (!entry) {
+      entry = { path: dir, fileCount: 0, bytes: 0 };
+      rollup.set(dir, entry);
+    }
+    entry.fileCount++;
+    entry.bytes += file.bytes;
+  }
+
+  return [...rollup.values()].sort((a, b) => b.bytes - a.bytes || b.fileCount - a.fileCount || a.path.localeCompare(b.path));
+}
+
 /**
  * Determine warning level based on thresholds
  */
-function getWarningLevel(fileCount: number, totalBytes: number): WarningLevel {
+export function getWarningLevel(
+  fileCount: number,
+  totalBytes: number,
+  thresholds: PlanThresholds
+): WarningLevel {
   if (
-    totalBytes > PLAN_THRESHOLDS.maxTotalBytesError ||
-    fileCount > PLAN_THRESHOLDS.maxFileCountError
+    totalBytes > thresholds.maxTotalBytesError ||
+    fileCount > thresholds.maxFileCountError
   ) {
     return 'red';
   }
 
   if (
-    totalBytes > PLAN_THRESHOLDS.maxTotalBytesWarning ||
-    fileCount > PLAN_THRESHOLDS.maxFileCountWarning
+    totalBytes > thresholds.maxTotalBytesWarning ||
+    fileCount > thresholds.maxFileCountWarning
   ) {
     return 'yellow';
   }
@@ -155,26 +188,30 @@ function getWarningLevel(fileCount: number, totalBytes: number): WarningLevel {
 /**
  * Generate warnings for a plan result
  */
-function generateWarnings(fileCount: number, totalBytes: number): string[] {
+function generateWarnings(
+  fileCount: number,
+  totalBytes: number,
+  thresholds: PlanThresholds
+): string[] {
   const warnings: string[] = [];
 
-  if (totalBytes > PLAN_THRESHOLDS.maxTotalBytesError) {
+  if (totalBytes > thresholds.maxTotalBytesError) {
     warnings.push(
-      `Total bytes (${formatBytes(totalBytes)}) exceeds error threshold (${formatBytes(PLAN_THRESHOLDS.maxTotalBytesError)})`
+      `Total bytes (${formatBytes(totalBytes)}) exceeds error threshold (${formatBytes(thresholds.maxTotalBytesError)})`
     );
-  } else if (totalBytes > PLAN_THRESHOLDS.maxTotalBytesWarning) {
+  } else if (totalBytes > thresholds.maxTotalBytesWarning) {
     warnings.push(
-      `Total bytes (${formatBytes(totalBytes)}) exceeds warning threshold (${formatBytes(PLAN_THRESHOLDS.maxTotalBytesWarning)})`
+      `Total bytes (${formatBytes(totalBytes)}) exceeds warning threshold (${formatBytes(thresholds.maxTotalBytesWarning)})`
     );
   }
 
-  if (fileCount > PLAN_THRESHOLDS.maxFileCountError) {
+  if (fileCount > thresholds.maxFileCountError) {
     warnings.push(
-      `File count (${fileCount.toLocaleString()}) exceeds error threshold (${PLAN_THRESHOLDS.maxFileCountError.toLocaleString()})`
+      `File count (${fileCount.toLocaleString()}) exceeds error threshold (${thresholds.maxFileCountError.toLocaleString()})`
     );
-  } else if (fileCount > PLAN_THRESHOLDS.maxFileCountWarning) {
+  } else if (fileCount > thresholds.maxFileCountWarning) {
     warnings.push(
-      `File count (${fileCount.toLocaleString()}) exceeds warning threshold (${PLAN_THRESHOLDS.maxFileCountWarning.toLocaleString()})`
+      `File count (${fileCount.toLocaleString()}) exceeds warning threshold (${thresholds.maxFileCountWarning.toLocaleString()})`
     );
   }
 
@@ -192,24 +229,57 @@ export function formatBytes(bytes: number): string {
   return `${(bytes / Math.pow(k, i)).toFixed(1)} ${sizes[i]}`;
 }
 
+/**
+ * Generated per-repo rules, used when neither the root nor the repo has a .mgrepignore
+ */
+export function buildFallbackLayer(
+  repoId: string,
+  localDir: string,
+  repoPath: string,
+  options: PlanOptions = {}
+): IgnoreLayer | null {
+  const layers = options.rootLayers ?? [];
+  const hasRootIgnore = layers.some((l) => l.source.endsWith('.mgrepignore') || l.source === '(generated)');
+  if (hasRootIgnore || readIgnoreFile(path.join(repoPath, '.mgrepignore'), options.ignoreOverrides) !== null) {
+    return null;
+  }
+
+  const ignoreContent = buildIgnoreContent(
+    repoId,
+    localDir,
+    options.customIgnores,
+    options.ignoreConfig,
+    options.repoRules ?? getRepoIgnoreConfig(repoId),
+    options.globalPatterns ?? getGlobalIgnorePatterns()
+  );
+  return createLayer(localDir, '(generated)', ignoreContent);
+}
+
 /**
  * Compute plan for a single repo
  */
-export function computeRepoPlan(
+export async function computeRepoPlan(
   repoId: string,
   repoName: string,
   localDir: string,
   repoPath: string,
   options: PlanOptions = {}
-): RepoPlanResult {
+): Promise<RepoPlanResult> {
   const maxFileSize = options.maxFileSizeBytes || DEFAULT_MAX_FILE_SIZE_BYTES;
-
-  // Build ignore rules (include custom ignores from manifest)
-  const ignoreContent = buildIgnoreContent(repoId, localDir, options.customIgnores);
-  const ig = ignore().add(ignoreContent);
+  const layers = [...(options.rootLayers ?? [])];
+  const fallback = buildFallbackLayer(repoId, localDir, repoPath, options);
+  if (fallback) {
+    layers.push(fallback);
+  }
 
   // Walk directory
-  const files = walkDirectory(repoPath, ig, repoPath, maxFileSize);
+  const { files, sources } = await walkTree(repoPath, layers, {
+    prefix: localDir,
+    maxFileSize,
+    limit: options.limit ?? createLimiter(options.concurrency ?? DEFAULT_WALK_CONCURRENCY),
+    cache: options.walkSession,
+    ignoreOverrides: options.ignoreOverrides,
+  });
 
   // Calculate stats
   const includedFileCount = files.length;
@@ -222,10 +292,12 @@ export function computeRepoPlan(
 
   // Extension histogram
   const extensionHistogram = buildExtensionHistogram(files);
+  const directoryRollup = buildDirectoryRollup(files, options.rollupDepth);
 
   // Warning level
-  const warningLevel = getWarningLevel(includedFileCount, includedTotalBytes);
-  const warnings = generateWarnings(includedFileCount, includedTotalBytes);
+  const thresholds = options.thresholds ?? { ...PLAN_THRESHOLDS };
+  const warningLevel = getWarningLevel(includedFileCount, includedTotalBytes, thresholds);
+  const warnings = generateWarnings(includedFileCount, includedTotalBytes, thresholds);
 
   // Extract file paths prefixed with localDir for baseline tracking
   const filePaths = files.map((f) => `${localDir}/${f.path}`);
@@ -241,23 +313,74 @@ export function computeRepoPlan(
     extensionHistogram,
     warningLevel,
     warnings,
+    thresholds,
+    maxFileSizeBytes: maxFileSize,
+    directoryRollup,
     files: filePaths,
+    ignoreSources: [...sources],
   };
 }
 
+/**
+ * Build the ignore layers at the index root
+ * 'generated' uses the global file `refrepo index` writes; 'disk' reads the
+ * existing root .mgrepignore (if any) and reports files that are out of date
+ */
+export function buildRootLayers(
+  manifest: Manifest,
+  repoRules: Map<string, RepoIgnoreConfig>,
+  ignoreSource: 'disk' | 'generated',
+  warnings: string[],
+  overrides?: IgnoreOverrides
+): IgnoreLayer[] {
+  const root = manifest.defaultRoot;
+  const layers: IgnoreLayer[] = [];
+
+  const gitignore = readIgnoreFile(path.join(root, '.gitignore'), overrides);
+  if (gitignore !== null) {
+    layers.push(createLayer('', '.gitignore', gitignore));
+  }
+
+  const generated = buildGlobalIgnore(manifest, repoRules).content;
+  if (ignoreSource === 'generated') {
+    layers.push(createLayer('', '(generated)', generated));
+    return layers;
+  }
+
+  const mgrepignore = readIgnoreFile(path.join(root, '.mgrepignore'), overrides);
+  if (mgrepignore !== null) {
+    const content = stripStoreScope(mgrepignore);
+    if (content !== generated) {
+      warnings.push('.mgrepignore is out of date with the manifest - run `refrepo ignore build --global` (index regenerates it)');
+    }
+    layers.push(createLayer('', '.mgrepignore', content));
+  }
+
+  return layers;
+}
+
 /**
  * Compute plan for all repos in manifest
+ * Repos are walked in parallel, sharing one concurrency limit
  */
-export function computePlan(manifest: Manifest, options: PlanOptions = {}): PlanSummary {
+export async function computePlan(manifest: Manifest, options: PlanOptions = {}): Promise<PlanSummary> {
   const root = manifest.defaultRoot;
   let enabledRepos = getEnabledRepos(manifest);
 
   // Include custom ignores from manifest in options
+  const globalPatterns = getGlobalIgnorePatterns(resolveProfile(manifest.profile));
   const planOptions: PlanOptions = {
     ...options,
-    customIgnores: manifest.customIgnores,
+    customIgnores: getCustomIgnorePatterns(manifest),
+    globalPatterns,
   };
 
+  // Built-in + manifest + sidecar repo-specific rules
+  const repoRules = resolveRepoIgnoreRules(manifest);
+  const ignoreSource = options.ignoreSource ?? 'disk';
+  const ignoreWarnings: string[] = [];
+  const rootLayers = buildRootLayers(manifest, repoRules, ignoreSource, ignoreWarnings, options.ignoreOverrides);
+
   // Filter to single repo if specified
   if (options.repoId) {
     enabledRepos = enabledRepos.filter((r) => r.id === options.repoId);
@@ -266,14 +389,24 @@ export function computePlan(manifest: Manifest, options: PlanOptions = {}): Plan
     }
   }
 
-  const repos: RepoPlanResult[] = [];
+  // Filter to single store if specified
+  if (options.store) {
+    enabledRepos = enabledRepos.filter((r) => getRepoStore(manifest, r) === options.store);
+    if (enabledRepos.length === 0) {
+      throw new Error(`No enabled repos in store: ${options.store}`);
+    }
+  }
+
+  const useCache = options.cache ?? true;
+  const walkSession = createWalkSession(useCache ? loadWalkCache(root) : { version: 0, directories: {} });
+  const limit = createLimiter(options.concurrency ?? DEFAULT_WALK_CONCURRENCY);
 
-  for (const repo of enabledRepos) {
+  const repos = await Promise.all(enabledRepos.map(async (repo): Promise<RepoPlanResult> => {
     const repoPath = getRepoPath(root, repo.localDir);
 
     if (!fs.existsSync(repoPath)) {
       // Skip missing repos
-      repos.push({
+      return {
         repoId: repo.id,
         repoName: repo.name,
         localDir: repo.localDir,
@@ -284,13 +417,38 @@ export function computePlan(manifest: Manifest, options: PlanOptions = {}): Plan
         extensionHistogram: [],
         warningLevel: 'green',
         warnings: ['Repo not cloned'],
-      });
-      continue;
+        store: getRepoStore(manifest, repo),
+        thresholds: resolveThresholds(manifest, repo),
+        maxFileSizeBytes: repo.mgrep?.maxFileSizeBytes ?? options.maxFileSizeBytes ?? DEFAULT_MAX_FILE_SIZE_BYTES,
+        directoryRollup: [],
+      };
     }
 
-    repos.push(
-      computeRepoPlan(repo.id, repo.name, repo.localDir, repoPath, planOptions)
-    );
+    const result = await computeRepoPlan(repo.id, repo.name, repo.localDir, repoPath, {
+      ...planOptions,
+      ignoreConfig: repo.ignore,
+      repoRules: repoRules.get(repo.id),
+      thresholds: resolveThresholds(manifest, repo),
+      maxFileSizeBytes: repo.mgrep?.maxFileSizeBytes ?? options.maxFileSizeBytes,
+      rootLayers,
+      limit,
+      walkSession,
+    });
+
+    // Per-repo .mgrepignore on disk (no root file) may predate manifest changes
+    const repoIgnore = readIgnoreFile(path.join(repoPath, '.mgrepignore'), options.ignoreOverrides);
+    if (ignoreSource === 'disk' && rootLayers.every((l) => l.source !== '.mgrepignore') && repoIgnore !== null) {
+      const expected = buildRepoIgnore(repo, getCustomIgnorePatterns(manifest), repoRules.get(repo.id), globalPatterns).content;
+      if (repoIgnore !== expected) {
+        ignoreWarnings.push(`${repo.localDir}/.mgrepignore is out of date with the manifest - run \`refrepo ignore build\``);
+      }
+    }
+
+    return { ...result, store: getRepoStore(manifest, repo) };
+  }));
+
+  if (useCache) {
+    saveWalkCache(root, walkSession.toCache());
   }
 
   // Calculate totals
@@ -300,6 +458,19 @@ export function computePlan(manifest: Manifest, options: PlanOptions = {}): Plan
     repoCount: repos.length,
   };
 
+  // Per-store totals, in the order stores are indexed
+  const stores: StorePlanTotals[] = [];
+  for (const store of getReposByStore(manifest).keys()) {
+    const storeRepos = repos.filter((r) => r.store === store);
+    if (storeRepos.length === 0) continue;
+    stores.push({
+      store,
+      repoCount: storeRepos.length,
+      includedFileCount: storeRepos.reduce((sum, r) => sum + r.includedFileCount, 0),
+      includedTotalBytes: storeRepos.reduce((sum, r) => sum + r.includedTotalBytes, 0),
+    });
+  }
+
   // Aggregate all files for baseline comparison
   const allFiles: string[] = [];
   for (const repo of repos) {
@@ -318,7 +489,11 @@ export function computePlan(manifest: Manifest, options: PlanOptions = {}): Plan
   return {
     repos,
     totals,
+    stores,
     overallWarningLevel,
+    ignoreSource,
+    ignoreWarnings,
+    walk: walkSession.stats,
     allFiles,
   };
 }
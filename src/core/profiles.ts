@@ -0,0 +1,126 @@
+/**
+ * Tech-stack profiles
+ *
+ * A profile describes the stack the reference repos are indexed for. It is
+ * the context for `refrepo suggest` and, with `generatePatterns`, adds global
+ * ignore patterns for the frameworks and deployment targets it drops.
+ */
+
+import type { StackProfile, StackProfileConfig } from './types.js';
+
+export const DEFAULT_PROFILE_NAME = 'tanstack-convex';
+
+export const BUILTIN_PROFILES: Record<string, StackProfile> = {
+  'tanstack-convex': {
+    name: 'TanStack Start + Convex + Better Auth + React',
+    description: [
+      '- TanStack Start (React meta-framework)',
+      '- TanStack Router, Query, Table, Form',
+      '- Convex (backend/database)',
+      '- Better Auth (authentication)',
+      '- shadcn/ui (React components)',
+      '- Tailwind CSS',
+      '- TypeScript',
+    ].join('\n'),
+    keepFrameworks: ['React', 'TanStack Start', 'Convex', 'Better Auth'],
+    dropFrameworks: ['Vue', 'Svelte', 'Astro', 'Solid', 'Angular', 'Next.js', 'Remix', 'Drizzle'],
+    excludedTargets: ['Cloudflare Workers'],
+    generatePatterns: true,
+  },
+  'nextjs-prisma': {
+    name: 'Next.js + Prisma + React',
+    description: [
+      '- Next.js App Router (React meta-framework)',
+      '- Prisma (ORM) on PostgreSQL',
+      '- Auth.js (authentication)',
+      '- Tailwind CSS',
+      '- TypeScript',
+    ].join('\n'),
+    keepFrameworks: ['React', 'Next.js', 'Prisma'],
+    dropFrameworks: ['Vue', 'Svelte', 'Astro', 'Solid', 'Angular', 'Remix', 'Drizzle'],
+    excludedTargets: ['Cloudflare Workers', 'Deno'],
+    generatePatterns: true,
+  },
+  'vue-nuxt': {
+    name: 'Nuxt + Vue',
+    description: [
+      '- Nuxt (Vue meta-framework)',
+      '- Vue 3 with the Composition API',
+      '- Pinia (state management)',
+      '- Tailwind CSS',
+      '- TypeScript',
+    ].join('\n'),
+    keepFrameworks: ['Vue', 'Nuxt', 'Pinia'],
+    dropFrameworks: ['React', 'Svelte', 'Astro', 'Solid', 'Angular'],
+    excludedTargets: [],
+    generatePatterns: true,
+  },
+  generic: {
+    name: 'TypeScript',
+    description: '- TypeScript libraries and applications',
+    keepFrameworks: [],
+    dropFrameworks: [],
+    excludedTargets: [],
+    generatePatterns: false,
+  },
+};
+
+/**
+ * Normalize a framework or target name for lookups ('Next.js' -> 'nextjs')
+ */
+export function stackSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Resolve a manifest profile against the built-in profiles
+ * Without a manifest profile the default profile applies.
+ */
+export function resolveProfile(config?: StackProfileConfig): StackProfile {
+  if (!config) {
+    return BUILTIN_PROFILES[DEFAULT_PROFILE_NAME];
+  }
+
+  const base = config.extends ? BUILTIN_PROFILES[config.extends] : undefined;
+  if (config.extends && !base) {
+    throw new Error(`Unknown profile: ${config.extends} (built-in: ${Object.keys(BUILTIN_PROFILES).join(', ')})`);
+  }
+
+  return {
+    name: config.name ?? base?.name ?? 'Custom stack',
+    description: config.description ?? base?.description ?? '',
+    keepFrameworks: config.keepFrameworks ?? base?.keepFrameworks ?? [],
+    dropFrameworks: config.dropFrameworks ?? base?.dropFrameworks ?? [],
+    excludedTargets: config.excludedTargets ?? base?.excludedTargets ?? [],
+    generatePatterns: config.generatePatterns ?? base?.generatePatterns ?? false,
+  };
+}
+
+/**
+ * Stack context for the suggest prompt
+ */
+export function buildStackContext(profile: StackProfile): string {
+  const lines = [`Our tech stack (${profile.name}):`];
+  if (profile.description) {
+    lines.push(profile.description.trim());
+  }
+  if (profile.keepFrameworks.length > 0) {
+    lines.push('', `Frameworks we use: ${profile.keepFrameworks.join(', ')}`);
+  }
+
+  lines.push('', "We want to index code that's relevant to this stack. We should IGNORE:");
+  if (profile.dropFrameworks.length > 0) {
+    lines.push(`- Code and examples for frameworks we don't use (${profile.dropFrameworks.join(', ')})`);
+  }
+  if (profile.excludedTargets.length > 0) {
+    lines.push(`- Config for deployment targets we don't use (${profile.excludedTargets.join(', ')})`);
+  }
+  lines.push(
+    '- Test files and fixtures',
+    '- Build artifacts and generated code',
+    "- Documentation that's not about our stack",
+    '- Binary files and media assets'
+  );
+
+  return lines.join('\n');
+}
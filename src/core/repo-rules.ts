@@ -0,0 +1,132 @@
+/**
+ * Repo-specific ignore rule loading
+ *
+ * Merges rules from three sources, lowest precedence first:
+ *   1. Built-in REPO_SPECIFIC_IGNORES (src/core/ignore-rules.ts)
+ *   2. Manifest `ignoreRules` entries
+ *   3. Sidecar files: rules/<repo-id>.yaml next to the manifest
+ *
+ * Each layer either extends (default) or replaces the rules below it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { RuleFileSchema } from './schema.js';
+import { resolveManifestPath } from './manifest.js';
+import { REPO_SPECIFIC_IGNORES, type RepoIgnoreConfig } from './ignore-rules.js';
+import { RULES_DIRNAME } from './constants.js';
+import type { Manifest, RepoIgnoreRules } from './types.js';
+
+/**
+ * Get the sidecar rules directory (stored alongside manifest)
+ */
+export function getRulesDir(): string {
+  return path.join(path.dirname(resolveManifestPath()), RULES_DIRNAME);
+}
+
+/**
+ * Load and validate a single sidecar rule file
+ * The repo id defaults to the file name (without extension)
+ */
+export function loadRuleFile(filePath: string): RepoIgnoreRules {
+  const fileId = path.basename(filePath).replace(/\.ya?ml$/, '');
+  const data = parseYaml(fs.readFileSync(filePath, 'utf-8')) ?? {};
+
+  const result = RuleFileSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`)
+      .join('; ');
+    throw new Error(`Invalid rule file ${filePath}: ${issues}`);
+  }
+
+  const id = result.data.id ?? fileId;
+  if (id !== fileId) {
+    throw new Error(`Invalid rule file ${filePath}: id '${id}' does not match file name '${fileId}'`);
+  }
+
+  return { ...result.data, id };
+}
+
+/**
+ * Load all sidecar rule files from a directory (sorted by file name)
+ */
+export function loadRuleFiles(rulesDir: string = getRulesDir()): RepoIgnoreRules[] {
+  if (!fs.existsSync(rulesDir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(rulesDir)
+    .filter((name) => /\.ya?ml$/.test(name))
+    .sort()
+    .map((name) => loadRuleFile(path.join(rulesDir, name)));
+}
+
+/**
+ * Apply one rules layer on top of the current config for a repo
+ */
+function mergeRules(base: RepoIgnoreConfig | undefined, layer: RepoIgnoreRules): RepoIgnoreConfig {
+  if (!base || layer.merge === 'replace') {
+    return {
+      id: layer.id,
+      notes: layer.notes,
+      dropPaths: [...layer.dropPaths],
+      keepPaths: layer.keepPaths ? [...layer.keepPaths] : undefined,
+    };
+  }
+
+  const keepPaths = [...(base.keepPaths ?? []), ...(layer.keepPaths ?? [])];
+  return {
+    id: base.id,
+    notes: layer.notes ?? base.notes,
+    dropPaths: [...new Set([...base.dropPaths, ...layer.dropPaths])],
+    keepPaths: keepPaths.length > 0 ? [...new Set(keepPaths)] : undefined,
+  };
+}
+
+/**
+ * Resolve effective repo-specific rules for every repo with rules in any layer
+ */
+export function resolveRepoIgnoreRules(
+  manifest: Manifest,
+  rulesDir: string = getRulesDir()
+): Map<string, RepoIgnoreConfig> {
+  const resolved = new Map<string, RepoIgnoreConfig>();
+
+  for (const builtIn of REPO_SPECIFIC_IGNORES) {
+    resolved.set(builtIn.id, builtIn);
+  }
+
+  const layers = [...(manifest.ignoreRules ?? []), ...loadRuleFiles(rulesDir)];
+  for (const layer of layers) {
+    resolved.set(layer.id, mergeRules(resolved.get(layer.id), layer));
+  }
+
+  return resolved;
+}
+
+/**
+ * Serialize repo rules to the sidecar file format
+ */
+export function formatRuleFile(rules: RepoIgnoreRules): string {
+  const header = '# refrepo ignore rules - see `refrepo ignore export`\n';
+  return header + stringifyYaml(rules, { indent: 2, lineWidth: 120 });
+}
+
+/**
+ * Convert built-in REPO_SPECIFIC_IGNORES to sidecar rules
+ * Exported with merge: replace so the file becomes the source of truth
+ */
+export function exportBuiltInRules(repoId?: string): RepoIgnoreRules[] {
+  return REPO_SPECIFIC_IGNORES
+    .filter((r) => !repoId || r.id === repoId)
+    .map((r) => ({
+      id: r.id,
+      ...(r.notes ? { notes: r.notes } : {}),
+      merge: 'replace' as const,
+      dropPaths: [...r.dropPaths],
+      ...(r.keepPaths ? { keepPaths: [...r.keepPaths] } : {}),
+    }));
+}
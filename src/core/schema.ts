@@ -9,6 +9,8 @@ import {
   DEFAULT_BRANCH,
   DEFAULT_MAX_FILE_SIZE_BYTES,
 } from './constants.js';
+import { BUILTIN_PROFILES } from './profiles.js';
+import { checkResolvedThresholds, resolveThresholds } from './thresholds.js';
 
 export const RepoCategorySchema = z.enum(['glue', 'source', 'example']);
 
@@ -19,8 +21,15 @@ export const IgnoreStrategySchema = z.enum(['perRepo', 'global']);
 export const SparseCheckoutConfigSchema = z.object({
   enabled: z.boolean().default(false),
   include: z.array(z.string()).default([]),
+  fromIgnoreRules: z.boolean().default(false),
 });
 
+/** Store names that can become baseline file and history directory names (manifest stores are not restricted) */
+export const StoreNameSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9._-]+$/, 'Store names may only contain letters, digits, ".", "_" and "-"')
+  .refine((name) => name !== '.' && name !== '..', 'Store name cannot be "." or ".."');
+
 export const MgrepConfigSchema = z.object({
   store: z.string().optional(),
   maxFileSizeBytes: z.number().positive().optional(),
@@ -34,11 +43,93 @@ export const IgnoreConfigSchema = z.object({
   dropExtensions: z.array(z.string()).optional(),
 });
 
+export const RuleMergeSchema = z.enum(['extend', 'replace']);
+
+export const RepoIgnoreRulesSchema = z.object({
+  id: z.string().min(1),
+  notes: z.string().optional(),
+  merge: RuleMergeSchema.default('extend'),
+  dropPaths: z.array(z.string()).default([]),
+  keepPaths: z.array(z.string()).optional(),
+});
+
+/** Sidecar rule files may omit id (derived from the file name) */
+export const RuleFileSchema = RepoIgnoreRulesSchema.extend({
+  id: z.string().min(1).optional(),
+});
+
+export const PlanThresholdsSchema = z
+  .object({
+    maxTotalBytesWarning: z.number().positive().optional(),
+    maxTotalBytesError: z.number().positive().optional(),
+    maxFileCountWarning: z.number().int().positive().optional(),
+    maxFileCountError: z.number().int().positive().optional(),
+  })
+  .refine(
+    (t) => !(t.maxTotalBytesWarning && t.maxTotalBytesError) || t.maxTotalBytesWarning <= t.maxTotalBytesError,
+    { message: 'maxTotalBytesWarning must not exceed maxTotalBytesError' }
+  )
+  .refine(
+    (t) => !(t.maxFileCountWarning && t.maxFileCountError) || t.maxFileCountWarning <= t.maxFileCountError,
+    { message: 'maxFileCountWarning must not exceed maxFileCountError' }
+  );
+
+export const ThresholdsConfigSchema = PlanThresholdsSchema.and(
+  z.object({
+    categories: z.partialRecord(RepoCategorySchema, PlanThresholdsSchema).optional(),
+    repos: z.record(z.string(), PlanThresholdsSchema).optional(),
+  })
+);
+
+export const StackProfileSchema = z.object({
+  extends: z
+    .string()
+    .refine((name) => name in BUILTIN_PROFILES, {
+      message: `must be a built-in profile (${Object.keys(BUILTIN_PROFILES).join(', ')})`,
+    })
+    .optional(),
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  keepFrameworks: z.array(z.string()).optional(),
+  dropFrameworks: z.array(z.string()).optional(),
+  excludedTargets: z.array(z.string()).optional(),
+  generatePatterns: z.boolean().optional(),
+});
+
+export const SuggestProviderSchema = z.enum(['claude', 'openai', 'command', 'heuristic']);
+
+export const SuggestConfigSchema = z.object({
+  provider: SuggestProviderSchema.optional(),
+  model: z.string().min(1).optional(),
+  endpoint: z.string().url().optional(),
+  apiKeyEnv: z.string().min(1).optional(),
+  command: z.array(z.string()).min(1).optional(),
+  timeoutSeconds: z.number().positive().optional(),
+  maxPromptTokens: z.number().int().positive().optional(),
+  excerptLines: z.number().int().nonnegative().optional(),
+});
+
+export const CustomIgnoreEntrySchema = z.object({
+  pattern: z.string().min(1),
+  source: z.enum(['model', 'human']),
+  addedBy: z.string().min(1).optional(),
+  reason: z.string().optional(),
+  addedAt: z.iso.datetime().optional(),
+  fileCount: z.number().int().nonnegative().optional(),
+  files: z.array(z.string()).optional(),
+});
+
+export const PatternSafetySchema = z.object({
+  maxRepoFraction: z.number().gt(0).max(1).optional(),
+  protectSourcePackages: z.boolean().optional(),
+});
+
 export const RepoConfigSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1),
   url: z.string().url(),
   branch: z.string().default(DEFAULT_BRANCH),
+  ref: z.string().min(1).optional(),
   category: RepoCategorySchema,
   localDir: z.string().min(1),
   enabled: z.boolean().default(true),
@@ -53,7 +144,38 @@ export const ManifestSchema = z.object({
   defaultRoot: z.string().default(DEFAULT_ROOT),
   defaultStore: z.string().default(DEFAULT_STORE),
   repos: z.array(RepoConfigSchema),
-  customIgnores: z.array(z.string()).optional(),
+  thresholds: ThresholdsConfigSchema.optional(),
+  ignoreRules: z.array(RepoIgnoreRulesSchema).optional(),
+  customIgnores: z.array(z.union([z.string(), CustomIgnoreEntrySchema])).optional(),
+  profile: StackProfileSchema.optional(),
+  suggest: SuggestConfigSchema.optional(),
+  patternSafety: PatternSafetySchema.optional(),
+}).superRefine((manifest, ctx) => {
+  const repoIds = new Set(manifest.repos.map((r) => r.id));
+  for (const id of Object.keys(manifest.thresholds?.repos ?? {})) {
+    if (!repoIds.has(id)) {
+      ctx.addIssue({ code: 'custom', path: ['thresholds', 'repos', id], message: `Unknown repo id: ${id}` });
+    }
+  }
+
+  // Layers are checked one by one above; the merged result can still invert
+  for (const repo of manifest.repos) {
+    for (const message of checkResolvedThresholds(resolveThresholds(manifest, repo))) {
+      ctx.addIssue({ code: 'custom', path: ['thresholds'], message: `Resolved thresholds for ${repo.id}: ${message}` });
+    }
+  }
+});
+
+export const LockedRepoSchema = z.object({
+  url: z.string().url(),
+  ref: z.string().min(1),
+  commit: z.string().regex(/^[0-9a-f]{40}$/, 'must be a full commit SHA'),
+  lockedAt: z.string(),
+});
+
+export const LockfileSchema = z.object({
+  version: z.literal(1),
+  repos: z.record(z.string(), LockedRepoSchema).default({}),
 });
 
 // Type exports derived from schemas
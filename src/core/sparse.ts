@@ -0,0 +1,78 @@
+/**
+ * Sparse-checkout resolution from manifest config and ignore rules
+ */
+
+import type { RepoIgnoreConfig } from './ignore-rules.js';
+import type { SparseSpec, SparseState } from './git.js';
+import type { RepoConfig } from './types.js';
+
+/**
+ * Strip leading/trailing slashes for cone-mode directory names
+ */
+function toConeDir(p: string): string {
+  return p.replace(/^\/+/, '').replace(/\/+$/, '');
+}
+
+/**
+ * Derive sparse patterns from ignore rules
+ *
+ * - allowlist manifest config: cone mode over keepPaths directories
+ *   (kept files contribute their parent directory)
+ * - otherwise: no-cone mode, everything except repo-specific and manifest
+ *   drop paths (same gitignore semantics as .mgrepignore)
+ */
+export function deriveSparseSpec(repo: RepoConfig, repoRules?: RepoIgnoreConfig): SparseSpec {
+  if (repo.ignore?.mode === 'allowlist' && repo.ignore.keepPaths.length > 0) {
+    const dirs = repo.ignore.keepPaths
+      .map((p) => (p.endsWith('/') ? p : p.split('/').slice(0, -1).join('/')))
+      .map(toConeDir)
+      .filter((d) => d.length > 0);
+    return { cone: true, patterns: [...new Set(dirs)].sort() };
+  }
+
+  const dropPaths = [...(repoRules?.dropPaths ?? []), ...(repo.ignore?.dropPaths ?? [])];
+  return {
+    cone: false,
+    patterns: ['/*', ...[...new Set(dropPaths)].map((p) => `!${p}`)],
+  };
+}
+
+/**
+ * Resolve the desired sparse-checkout spec for a repo
+ * Returns null when sparse checkout is disabled (full working tree)
+ */
+export function resolveSparseSpec(repo: RepoConfig, repoRules?: RepoIgnoreConfig): SparseSpec | null {
+  const sparse = repo.sparseCheckout;
+  if (!sparse?.enabled) {
+    return null;
+  }
+
+  if (sparse.include.length > 0) {
+    const dirs = sparse.include.map(toConeDir).filter((d) => d.length > 0);
+    return { cone: true, patterns: [...new Set(dirs)].sort() };
+  }
+
+  if (sparse.fromIgnoreRules) {
+    return deriveSparseSpec(repo, repoRules);
+  }
+
+  // Enabled with nothing included: root files only
+  return { cone: true, patterns: [] };
+}
+
+/**
+ * Check whether a repo's current sparse state matches the desired spec
+ */
+export function sparseStateMatches(state: SparseState, spec: SparseSpec | null): boolean {
+  if (!spec) {
+    return !state.enabled;
+  }
+
+  if (!state.enabled || state.cone !== spec.cone) {
+    return false;
+  }
+
+  // Cone mode order is irrelevant; no-cone order matters (last match wins)
+  const current = spec.cone ? [...state.patterns].sort() : state.patterns;
+  return current.length === spec.patterns.length && current.every((p, i) => p === spec.patterns[i]);
+}
@@ -0,0 +1,373 @@
+/**
+ * Content-aware prompts for `refrepo suggest`
+ *
+ * Each file is described by a bounded excerpt (imports, leading lines and the
+ * package.json of the package that owns it) instead of its path alone. Files
+ * are packed into batches that fit an estimated token budget, one model call
+ * per batch, and the per-batch patterns are merged back into one set.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore from 'ignore';
+import { buildStackContext } from './profiles.js';
+import { DEFAULT_SUGGEST_EXCERPT_LINES, DEFAULT_SUGGEST_MAX_PROMPT_TOKENS } from './constants.js';
+import type { ParsedSuggestion } from './suggest-queue.js';
+import type { StackProfile } from './types.js';
+
+export interface FileExcerpt {
+  /** Root-relative path */
+  path: string;
+  /** Module specifiers imported near the top of the file */
+  imports: string[];
+  /** Leading lines (empty for binary or unreadable files) */
+  head: string;
+  /** Root-relative path of the owning package.json */
+  packagePath?: string;
+}
+
+export interface PackageSummary {
+  /** Root-relative path of the package.json */
+  path: string;
+  name?: string;
+  description?: string;
+  dependencies: string[];
+}
+
+export interface SuggestBatch {
+  /** Root-relative files in this batch */
+  files: string[];
+  prompt: string;
+  /** Estimated prompt tokens */
+  tokens: number;
+}
+
+export interface SuggestBatchOptions {
+  /** Index root (files are read from here) */
+  root: string;
+  profile: StackProfile;
+  maxPromptTokens?: number;
+  /** Leading lines per excerpt; 0 sends paths only */
+  excerptLines?: number;
+}
+
+/** Bytes read from each file for its excerpt */
+const HEAD_BYTES = 8 * 1024;
+/** Characters kept per excerpt line */
+const MAX_LINE_CHARS = 160;
+/** Imports listed per file */
+const MAX_IMPORTS = 20;
+/** Dependencies listed per package */
+const MAX_DEPENDENCIES = 25;
+
+const IMPORT_RE = /(?:\bfrom\s+|\bimport\s*\(?\s*|\brequire\s*\(\s*)['"]([^'"]+)['"]/g;
+
+/**
+ * Rough token count (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * First bytes of a file as text ('' when unreadable)
+ */
+export function readFileHead(filePath: string, bytes = HEAD_BYTES): string {
+  try {
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(bytes);
+      return buffer.toString('utf-8', 0, fs.readSync(fd, buffer, 0, bytes, 0));
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Module specifiers imported in a piece of source
+ */
+export function extractImports(source: string): string[] {
+  return [...source.matchAll(IMPORT_RE)].map((m) => m[1]);
+}
+
+/**
+ * Nearest package.json between a file and its repo directory
+ * @param cache - Lookups by directory, shared across files
+ */
+export function findOwningPackage(root: string, file: string, cache = new Map<string, string | null>()): string | undefined {
+  const segments = file.split('/').slice(0, -1);
+  const visited: string[] = [];
+  let found: string | null = null;
+
+  // Stop at the repo directory (the first segment)
+  for (let depth = segments.length; depth >= 1; depth--) {
+    const dir = segments.slice(0, depth).join('/');
+    const cached = cache.get(dir);
+    if (cached !== undefined) {
+      found = cached;
+      break;
+    }
+    visited.push(dir);
+    if (fs.existsSync(path.join(root, dir, 'package.json'))) {
+      found = `${dir}/package.json`;
+      break;
+    }
+  }
+
+  for (const dir of visited) {
+    cache.set(dir, found);
+  }
+  return found ?? undefined;
+}
+
+/**
+ * Name, description and dependency names of a package.json
+ */
+export function readPackageSummary(root: string, packagePath: string): PackageSummary {
+  try {
+    const pkg = JSON.parse(fs.readFileSync(path.join(root, packagePath), 'utf-8')) as {
+      name?: unknown;
+      description?: unknown;
+      dependencies?: Record<string, unknown>;
+      peerDependencies?: Record<string, unknown>;
+    };
+    const dependencies = [...new Set([...Object.keys(pkg.dependencies ?? {}), ...Object.keys(pkg.peerDependencies ?? {})])];
+    return {
+      path: packagePath,
+      name: typeof pkg.name === 'string' ? pkg.name : undefined,
+      description: typeof pkg.description === 'string' ? pkg.description.slice(0, MAX_LINE_CHARS) : undefined,
+      dependencies: dependencies.slice(0, MAX_DEPENDENCIES),
+    };
+  } catch {
+    return { path: packagePath, dependencies: [] };
+  }
+}
+
+/**
+ * Bounded excerpt of a file: imports and leading lines
+ */
+export function buildFileExcerpt(root: string, file: string, lines = DEFAULT_SUGGEST_EXCERPT_LINES): FileExcerpt {
+  const head = readFileHead(path.join(root, file));
+  if (head.includes('\0')) {
+    return { path: file, imports: [], head: '' };
+  }
+
+  return {
+    path: file,
+    imports: [...new Set(extractImports(head))].slice(0, MAX_IMPORTS),
+    head: head
+      .split('\n')
+      .slice(0, lines)
+      .map((line) => line.slice(0, MAX_LINE_CHARS).trimEnd())
+      .join('\n')
+      .trim(),
+  };
+}
+
+function formatPackage(pkg: PackageSummary): string {
+  const parts = [`- ${pkg.path}`];
+  if (pkg.name) parts.push(`name: ${pkg.name}`);
+  if (pkg.description) parts.push(`description: ${pkg.description}`);
+  if (pkg.dependencies.length > 0) parts.push(`depends on: ${pkg.dependencies.join(', ')}`);
+  return parts.join(' | ');
+}
+
+function formatExcerpt(excerpt: FileExcerpt): string {
+  const lines = [`### ${excerpt.path}`];
+  if (excerpt.packagePath) lines.push(`package: ${excerpt.packagePath}`);
+  if (excerpt.imports.length > 0) lines.push(`imports: ${excerpt.imports.join(', ')}`);
+  if (excerpt.head) lines.push('~~~', excerpt.head, '~~~');
+  return lines.join('\n');
+}
+
+/**
+ * Suggest prompt for one batch
+ * Without excerpts the files are listed by path only.
+ */
+export function buildSuggestPrompt(
+  profile: StackProfile,
+  files: Array<FileExcerpt | string>,
+  packages: PackageSummary[] = []
+): string {
+  const withExcerpts = files.some((f) => typeof f !== 'string');
+  const fileSection = withExcerpts
+    ? files.map((f) => (typeof f === 'string' ? `### ${f}` : formatExcerpt(f))).join('\n\n')
+    : files.map((f) => `  - ${typeof f === 'string' ? f : f.path}`).join('\n');
+  const packageSection = packages.length > 0
+    ? `\nPackages the files belong to:\n${packages.map(formatPackage).join('\n')}\n`
+    : '';
+
+  return `${buildStackContext(profile)}
+
+The following NEW or CHANGED files are in our reference repos${withExcerpts ? ', each with its package, imports and first lines' : ''}:
+${packageSection}
+${fileSection}
+
+Analyze these files and return ONLY the ignore patterns for files that should NOT be indexed, each with a one-line reason.
+
+CRITICAL: Patterns MUST include the repository folder prefix (the first path component like "tanstack-router/", "better-auth-main/", etc.)
+
+Return patterns in this exact format - one pattern per line, starting with "IGNORE:", then " - " and the reason:
+IGNORE: tanstack-router/examples/vue/ - Vue examples, we only use React
+IGNORE: better-auth-main/docs/content/docs/examples/nuxt.mdx - Nuxt integration guide
+
+Rules for patterns:
+- ALWAYS include the repository prefix (first folder in the path)
+- Use the exact file path for specific files
+- Use trailing / for directories to ignore all contents
+- Use * for wildcards when a whole directory should be ignored
+- Patterns must not contain spaces
+
+If ALL files are relevant and should be kept, respond with exactly:
+NONE
+
+Be conservative - only ignore files that are clearly not relevant to our ${profile.name} stack.`;
+}
+
+/**
+ * Split files into prompts that fit the token budget
+ * Each package.json summary is sent once per batch that has files from it.
+ * A file whose excerpt alone exceeds the budget gets a batch of its own.
+ */
+export function buildSuggestBatches(files: string[], options: SuggestBatchOptions): SuggestBatch[] {
+  const budget = options.maxPromptTokens ?? DEFAULT_SUGGEST_MAX_PROMPT_TOKENS;
+  const lines = options.excerptLines ?? DEFAULT_SUGGEST_EXCERPT_LINES;
+  const baseTokens = estimateTokens(buildSuggestPrompt(options.profile, []));
+
+  const packageCache = new Map<string, string | null>();
+  const packageSummaries = new Map<string, PackageSummary>();
+  const batches: SuggestBatch[] = [];
+  let current: FileExcerpt[] = [];
+  let currentPackages: PackageSummary[] = [];
+  let currentTokens = baseTokens;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const prompt = lines > 0
+      ? buildSuggestPrompt(options.profile, current, currentPackages)
+      : buildSuggestPrompt(options.profile, current.map((e) => e.path));
+    batches.push({ files: current.map((e) => e.path), prompt, tokens: estimateTokens(prompt) });
+    current = [];
+    currentPackages = [];
+    currentTokens = baseTokens;
+  };
+
+  for (const file of files) {
+    let excerpt: FileExcerpt = { path: file, imports: [], head: '' };
+    let pkg: PackageSummary | undefined;
+    let cost: number;
+
+    if (lines > 0) {
+      excerpt = buildFileExcerpt(options.root, file, lines);
+      excerpt.packagePath = findOwningPackage(options.root, file, packageCache);
+      if (excerpt.packagePath) {
+        pkg = packageSummaries.get(excerpt.packagePath) ?? readPackageSummary(options.root, excerpt.packagePath);
+        packageSummaries.set(excerpt.packagePath, pkg);
+      }
+      cost = estimateTokens(formatExcerpt(excerpt) + '\n\n');
+    } else {
+      cost = estimateTokens(`  - ${file}\n`);
+    }
+
+    const packageCost = pkg && !currentPackages.includes(pkg) ? estimateTokens(formatPackage(pkg) + '\n') : 0;
+    if (current.length > 0 && currentTokens + cost + packageCost > budget) {
+      flush();
+    }
+
+    current.push(excerpt);
+    if (pkg && !currentPackages.includes(pkg)) {
+      currentPackages.push(pkg);
+      currentTokens += estimateTokens(formatPackage(pkg) + '\n');
+    }
+    currentTokens += cost;
+  }
+  flush();
+
+  return batches;
+}
+
+/**
+ * Plain path patterns (no wildcards or negation) can be collapsed
+ */
+function isPlainPattern(pattern: string): boolean {
+  return !/[*?[\]!]/.test(pattern);
+}
+
+/**
+ * Parent directory of a plain pattern, with a trailing slash
+ */
+function parentDirectory(pattern: string): string {
+  const trimmed = pattern.replace(/\/+$/, '');
+  const slash = trimmed.lastIndexOf('/');
+  return slash === -1 ? '' : trimmed.slice(0, slash + 1);
+}
+
+function joinReasons(reasons: string[]): string {
+  return [...new Set(reasons.filter(Boolean))].join('; ');
+}
+
+/**
+ * Merge per-batch suggestions into one set of patterns
+ *
+ * Duplicates are combined. Plain patterns that share a parent directory are
+ * collapsed into that directory when every file under it is ignored by the
+ * set, repeating upwards so each group lands on the narrowest directory that
+ * holds it. The repo directory itself is never a collapse target, and
+ * patterns inside an ignored directory are dropped.
+ * @param files - Root-relative files the patterns apply to (the planned files)
+ */
+export function mergeSuggestions(suggestions: ParsedSuggestion[], files: string[]): ParsedSuggestion[] {
+  const merged = new Map<string, string[]>();
+  for (const suggestion of suggestions) {
+    merged.set(suggestion.pattern, [...(merged.get(suggestion.pattern) ?? []), suggestion.reason]);
+  }
+
+  const matchers = new Map<string, ReturnType<typeof ignore>>();
+  const isIgnored = (file: string) =>
+    [...merged.keys()].some((pattern) => {
+      let matcher = matchers.get(pattern);
+      if (!matcher) {
+        matcher = ignore();
+        try {
+          matcher.add(pattern);
+        } catch {
+          // Malformed pattern ignores nothing
+        }
+        matchers.set(pattern, matcher);
+      }
+      return matcher.ignores(file);
+    });
+
+  for (let changed = true; changed; ) {
+    changed = false;
+
+    const groups = new Map<string, string[]>();
+    for (const pattern of merged.keys()) {
+      if (!isPlainPattern(pattern)) continue;
+      const parent = parentDirectory(pattern);
+      // Below the repo directory only
+      if (parent.split('/').length < 3) continue;
+      groups.set(parent, [...(groups.get(parent) ?? []), pattern]);
+    }
+
+    for (const [parent, patterns] of groups) {
+      if (patterns.length < 2 || merged.has(parent)) continue;
+      if (!files.filter((f) => f.startsWith(parent)).every(isIgnored)) continue;
+
+      merged.set(parent, patterns.flatMap((p) => merged.get(p) ?? []));
+      for (const pattern of patterns) {
+        merged.delete(pattern);
+      }
+      changed = true;
+    }
+  }
+
+  const directories = [...merged.keys()].filter((p) => isPlainPattern(p) && p.endsWith('/'));
+  return [...merged.entries()]
+    .filter(([pattern]) => !directories.some((dir) => dir !== pattern && pattern.startsWith(dir)))
+    .map(([pattern, reasons]) => ({ pattern, reason: joinReasons(reasons) }))
+    .sort((a, b) => a.pattern.localeCompare(b.pattern));
+}
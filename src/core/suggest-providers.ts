@@ -0,0 +1,252 @@
+/**
+ * Model backends for `refrepo suggest`
+ *
+ * Every provider takes the same prompt and answers in the same text format
+ * (`IGNORE: <pattern> - <reason>` lines, or `NONE`). The heuristic provider ignores the
+ * prompt and classifies files by framework markers in their paths and
+ * imports, so suggest also works offline and deterministically.
+ */
+
+import * as path from 'path';
+import { execa } from 'execa';
+import { stackSlug } from './profiles.js';
+import { extractImports, readFileHead } from './suggest-batch.js';
+import {
+  DEFAULT_OPENAI_API_KEY_ENV,
+  DEFAULT_OPENAI_ENDPOINT,
+  DEFAULT_SUGGEST_TIMEOUT_SECONDS,
+} from './constants.js';
+import type { StackProfile, SuggestConfig, SuggestProviderName } from './types.js';
+
+export interface SuggestRequest {
+  prompt: string;
+  /** Root-relative files the prompt asks about */
+  files: string[];
+  profile: StackProfile;
+  /** Index root (files are read from here) */
+  root: string;
+}
+
+export interface SuggestProvider {
+  name: SuggestProviderName;
+  /** Human-readable backend name */
+  label: string;
+  /** Why the provider cannot run, or null when it can */
+  checkAvailable(): Promise<string | null>;
+  complete(request: SuggestRequest): Promise<string>;
+}
+
+interface FrameworkMarker {
+  /** Path segment tokens (segments are split on - _ . @) */
+  tokens: string[];
+  /** Module specifiers that identify the framework */
+  imports: RegExp;
+}
+
+/**
+ * Framework markers for the heuristic provider, keyed by stackSlug()
+ */
+export const FRAMEWORK_MARKERS: Record<string, FrameworkMarker> = {
+  vue: { tokens: ['vue', 'vuejs', 'nuxt'], imports: /^(vue|nuxt|pinia)(\/|$)|^@(vue|nuxt|nuxtjs)\// },
+  solid: { tokens: ['solid', 'solidjs'], imports: /^(solid-js|solid-start)(\/|$)|^@solidjs\// },
+  svelte: { tokens: ['svelte', 'sveltekit'], imports: /^svelte(\/|$)|^@sveltejs\// },
+  angular: { tokens: ['angular'], imports: /^@angular\// },
+  react: { tokens: ['react'], imports: /^(react|react-dom)(\/|$)/ },
+};
+
+/**
+ * Module specifiers imported near the top of a file
+ */
+function readImports(filePath: string): string[] {
+  return extractImports(readFileHead(filePath));
+}
+
+function segmentTokens(segment: string): string[] {
+  return segment.toLowerCase().split(/[-_.@]+/);
+}
+
+export interface HeuristicMatch {
+  /** Directory (trailing slash) or file to ignore */
+  pattern: string;
+  reason: string;
+  files: string[];
+}
+
+/**
+ * Classify files by markers of the frameworks a profile drops
+ *
+ * A directory whose name marks a dropped framework (`vue-router/`,
+ * `examples/solid/`) is ignored as a whole; other files are ignored when they
+ * import a dropped framework and no kept one. The repo directory itself is
+ * never matched.
+ */
+export function classifyFiles(files: string[], profile: StackProfile, root: string): HeuristicMatch[] {
+  const kept = new Set(profile.keepFrameworks.map(stackSlug));
+  const dropped = profile.dropFrameworks
+    .map(stackSlug)
+    .filter((slug) => FRAMEWORK_MARKERS[slug] && !kept.has(slug));
+  const keptMarkers = [...kept].filter((slug) => FRAMEWORK_MARKERS[slug]);
+  const label = (slug: string) => profile.dropFrameworks.find((name) => stackSlug(name) === slug) ?? slug;
+
+  const matches = new Map<string, HeuristicMatch>();
+  const add = (pattern: string, reason: string, file: string) => {
+    let match = matches.get(pattern);
+    if (!match) {
+      match = { pattern, reason, files: [] };
+      matches.set(pattern, match);
+    }
+    match.files.push(file);
+  };
+
+  for (const file of files) {
+    const segments = file.split('/');
+    let matched = false;
+
+    // Directory names, skipping the repo directory and the file name
+    for (let i = 1; i < segments.length - 1 && !matched; i++) {
+      const tokens = segmentTokens(segments[i]);
+      const slug = dropped.find((s) => FRAMEWORK_MARKERS[s].tokens.some((t) => tokens.includes(t)));
+      if (slug) {
+        add(`${segments.slice(0, i + 1).join('/')}/`, `${label(slug)} code (directory ${segments[i]})`, file);
+        matched = true;
+      }
+    }
+    if (matched) continue;
+
+    const imports = readImports(path.join(root, file));
+    if (imports.some((spec) => keptMarkers.some((s) => FRAMEWORK_MARKERS[s].imports.test(spec)))) {
+      continue;
+    }
+    const slug = dropped.find((s) => imports.some((spec) => FRAMEWORK_MARKERS[s].imports.test(spec)));
+    if (slug) {
+      add(file, `${label(slug)} code (imports ${imports.find((spec) => FRAMEWORK_MARKERS[slug].imports.test(spec))})`, file);
+    }
+  }
+
+  return [...matches.values()].sort((a, b) => a.pattern.localeCompare(b.pattern));
+}
+
+/**
+ * Format heuristic matches in the provider response format
+ */
+export function formatHeuristicResponse(matches: HeuristicMatch[]): string {
+  if (matches.length === 0) {
+    return 'NONE';
+  }
+  return matches
+    .map((m) => `IGNORE: ${m.pattern} - ${m.reason}, ${m.files.length} file(s)`)
+    .join('\n');
+}
+
+function createHeuristicProvider(): SuggestProvider {
+  return {
+    name: 'heuristic',
+    label: 'framework heuristics',
+    checkAvailable: async () => null,
+    complete: async (request) => formatHeuristicResponse(classifyFiles(request.files, request.profile, request.root)),
+  };
+}
+
+function createClaudeProvider(config: SuggestConfig, timeoutMs: number): SuggestProvider {
+  return {
+    name: 'claude',
+    label: 'Claude',
+    checkAvailable: async () => {
+      try {
+        await execa('claude', ['--version']);
+        return null;
+      } catch {
+        return 'Claude Code CLI not found. Install it from https://github.com/anthropics/claude-code';
+      }
+    },
+    complete: async (request) => {
+      // Use stdin for prompt to avoid E2BIG (argument list too long) errors
+      const args = ['-p', '-', ...(config.model ? ['--model', config.model] : [])];
+      const result = await execa('claude', args, { input: request.prompt, reject: false, timeout: timeoutMs });
+      if (result.failed) {
+        throw new Error(`Claude exited with code ${result.exitCode}: ${result.stderr || result.shortMessage}`);
+      }
+      return result.stdout.trim();
+    },
+  };
+}
+
+function createCommandProvider(config: SuggestConfig, timeoutMs: number): SuggestProvider {
+  const [command, ...args] = config.command ?? [];
+  return {
+    name: 'command',
+    label: command ?? 'local command',
+    checkAvailable: async () => (command ? null : 'suggest.command is required for the command provider'),
+    complete: async (request) => {
+      const result = await execa(command, args, { input: request.prompt, reject: false, timeout: timeoutMs });
+      if (result.failed) {
+        throw new Error(`${command} exited with code ${result.exitCode}: ${result.stderr || result.shortMessage}`);
+      }
+      return result.stdout.trim();
+    },
+  };
+}
+
+function createOpenAiProvider(config: SuggestConfig, timeoutMs: number, env: NodeJS.ProcessEnv): SuggestProvider {
+  const endpoint = (config.endpoint ?? DEFAULT_OPENAI_ENDPOINT).replace(/\/+$/, '');
+  const keyEnv = config.apiKeyEnv ?? DEFAULT_OPENAI_API_KEY_ENV;
+  const apiKey = env[keyEnv];
+
+  return {
+    name: 'openai',
+    label: `${config.model ?? 'model'} at ${endpoint}`,
+    checkAvailable: async () => {
+      if (!config.model) {
+        return 'suggest.model is required for the openai provider';
+      }
+      if (!apiKey && !config.endpoint) {
+        return `Set ${keyEnv}, or suggest.endpoint for a local OpenAI-compatible server`;
+      }
+      return null;
+    },
+    complete: async (request) => {
+      const response = await fetch(`${endpoint}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages: [{ role: 'user', content: request.prompt }],
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new Error(`${endpoint} returned HTTP ${response.status}: ${body.slice(0, 200)}`);
+      }
+
+      const data = (await response.json()) as { choices?: Array<{ message?: { content?: unknown } }> };
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error(`${endpoint} returned no completion`);
+      }
+      return content.trim();
+    },
+  };
+}
+
+/**
+ * Create the provider selected in the manifest `suggest` config
+ */
+export function createSuggestProvider(config: SuggestConfig = {}, env: NodeJS.ProcessEnv = process.env): SuggestProvider {
+  const timeoutMs = (config.timeoutSeconds ?? DEFAULT_SUGGEST_TIMEOUT_SECONDS) * 1000;
+
+  switch (config.provider ?? 'claude') {
+    case 'claude':
+      return createClaudeProvider(config, timeoutMs);
+    case 'openai':
+      return createOpenAiProvider(config, timeoutMs, env);
+    case 'command':
+      return createCommandProvider(config, timeoutMs);
+    case 'heuristic':
+      return createHeuristicProvider();
+  }
+}
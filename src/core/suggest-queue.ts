@@ -0,0 +1,182 @@
+/**
+ * Review queue for `refrepo suggest`
+ *
+ * Suggestions are parsed from the provider response and kept in a pending
+ * file next to the manifest until `refrepo suggest review` accepts, edits or
+ * rejects them. Rejected patterns are remembered so later runs drop them.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore from 'ignore';
+import { resolveManifestPath } from './manifest.js';
+import { SUGGESTIONS_FILENAME } from './constants.js';
+import type { SuggestProviderName } from './types.js';
+
+export interface ParsedSuggestion {
+  pattern: string;
+  reason: string;
+}
+
+export interface PendingSuggestion extends ParsedSuggestion {
+  /** Planned files (root-relative) the pattern would remove */
+  files: string[];
+  provider: SuggestProviderName;
+  suggestedAt: string;
+}
+
+export interface RejectedSuggestion {
+  pattern: string;
+  reason: string;
+  rejectedAt: string;
+}
+
+export interface SuggestionQueue {
+  version: 1;
+  pending: PendingSuggestion[];
+  rejected: RejectedSuggestion[];
+}
+
+export interface QueueResult {
+  /** Suggestions added to (or refreshed in) the queue */
+  queued: PendingSuggestion[];
+  /** Patterns skipped because they were rejected before */
+  skippedRejected: string[];
+  /** Patterns skipped because customIgnores already has them */
+  skippedExisting: string[];
+}
+
+/**
+ * Parse `IGNORE: <pattern> - <reason>` lines from a provider response
+ * A reason may also follow on indented lines below the pattern.
+ */
+export function parseSuggestions(response: string): ParsedSuggestion[] {
+  if (response.trim().toUpperCase() === 'NONE') {
+    return [];
+  }
+
+  const suggestions: ParsedSuggestion[] = [];
+  for (const line of response.split('\n')) {
+    const match = line.match(/^IGNORE:\s*(\S+)\s*(?:[-–—#|:]\s*)?(.*)$/i);
+    if (match) {
+      suggestions.push({ pattern: match[1].replace(/^`|`$/g, ''), reason: match[2].trim() });
+    } else if (/^\s+\S/.test(line) && suggestions.length > 0) {
+      const last = suggestions[suggestions.length - 1];
+      last.reason = [last.reason, line.trim()].filter(Boolean).join(' ');
+    }
+  }
+
+  // Last suggestion for a pattern wins
+  const byPattern = new Map(suggestions.map((s) => [s.pattern, s]));
+  return [...byPattern.values()];
+}
+
+/**
+ * Planned files a root-relative ignore pattern would remove
+ */
+export function matchPatternFiles(pattern: string, files: string[]): string[] {
+  let ig: ReturnType<typeof ignore>;
+  try {
+    ig = ignore().add(pattern);
+  } catch {
+    return [];
+  }
+  return files.filter((file) => ig.ignores(file));
+}
+
+/**
+ * Path of the queue file (next to the manifest)
+ */
+export function getSuggestionQueuePath(manifestPath = resolveManifestPath()): string {
+  return path.join(path.dirname(manifestPath), SUGGESTIONS_FILENAME);
+}
+
+/**
+ * Load the queue (empty when no file exists yet)
+ * An unreadable or corrupt file throws instead, so saving cannot overwrite
+ * the rejected patterns it holds.
+ */
+export function loadSuggestionQueue(queuePath = getSuggestionQueuePath()): SuggestionQueue {
+  let content: string;
+  try {
+    content = fs.readFileSync(queuePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { version: 1, pending: [], rejected: [] };
+    }
+    throw error;
+  }
+
+  let data: Partial<SuggestionQueue>;
+  try {
+    data = JSON.parse(content) as Partial<SuggestionQueue>;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Suggestion queue ${queuePath} is not valid JSON (${message}) - fix or delete it`);
+  }
+  return { version: 1, pending: data.pending ?? [], rejected: data.rejected ?? [] };
+}
+
+export function saveSuggestionQueue(queue: SuggestionQueue, queuePath = getSuggestionQueuePath()): void {
+  fs.writeFileSync(queuePath, JSON.stringify(queue, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Add parsed suggestions to the queue
+ * Rejected and existing patterns are skipped; a pattern already pending is refreshed.
+ */
+export function queueSuggestions(
+  queue: SuggestionQueue,
+  suggestions: ParsedSuggestion[],
+  options: { provider: SuggestProviderName; plannedFiles: string[]; customIgnores?: string[]; now?: Date }
+): QueueResult {
+  const rejected = new Set(queue.rejected.map((r) => r.pattern));
+  const existing = new Set(options.customIgnores ?? []);
+  const suggestedAt = (options.now ?? new Date()).toISOString();
+  const result: QueueResult = { queued: [], skippedRejected: [], skippedExisting: [] };
+
+  for (const suggestion of suggestions) {
+    if (rejected.has(suggestion.pattern)) {
+      result.skippedRejected.push(suggestion.pattern);
+      continue;
+    }
+    if (existing.has(suggestion.pattern)) {
+      result.skippedExisting.push(suggestion.pattern);
+      continue;
+    }
+
+    const entry: PendingSuggestion = {
+      ...suggestion,
+      files: matchPatternFiles(suggestion.pattern, options.plannedFiles),
+      provider: options.provider,
+      suggestedAt,
+    };
+    const index = queue.pending.findIndex((p) => p.pattern === suggestion.pattern);
+    if (index === -1) {
+      queue.pending.push(entry);
+    } else {
+      queue.pending[index] = entry;
+    }
+    result.queued.push(entry);
+  }
+
+  return result;
+}
+
+/**
+ * Remove a pending suggestion (after it was accepted or edited)
+ */
+export function removePendingSuggestion(queue: SuggestionQueue, pattern: string): PendingSuggestion | undefined {
+  const index = queue.pending.findIndex((p) => p.pattern === pattern);
+  return index === -1 ? undefined : queue.pending.splice(index, 1)[0];
+}
+
+/**
+ * Reject a pending suggestion so later runs don't propose it again
+ */
+export function rejectSuggestion(queue: SuggestionQueue, pattern: string, now = new Date()): void {
+  const entry = removePendingSuggestion(queue, pattern);
+  if (!queue.rejected.some((r) => r.pattern === pattern)) {
+    queue.rejected.push({ pattern, reason: entry?.reason ?? '', rejectedAt: now.toISOString() });
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Layered plan thresholds (defaults, manifest, category, repo)
+ */
+
+import { PLAN_THRESHOLDS } from './constants.js';
+import type { Manifest, PlanThresholds, RepoConfig } from './types.js';
+
+/**
+ * Resolve plan thresholds for a repo
+ * Precedence: PLAN_THRESHOLDS < manifest top-level < category < repo
+ */
+export function resolveThresholds(
+  manifest: Pick<Manifest, 'thresholds'>,
+  repo: Pick<RepoConfig, 'id' | 'category'>
+): PlanThresholds {
+  const config = manifest.thresholds;
+  const layers = [
+    config,
+    config?.categories?.[repo.category],
+    config?.repos?.[repo.id],
+  ];
+
+  const resolved: PlanThresholds = { ...PLAN_THRESHOLDS };
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const key of Object.keys(PLAN_THRESHOLDS) as Array<keyof PlanThresholds>) {
+      if (layer[key] !== undefined) {
+        resolved[key] = layer[key];
+      }
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Check that a repo's resolved warning thresholds do not exceed its error thresholds
+ * Each layer is valid on its own, but layering can still invert them.
+ * @returns One message per inverted pair
+ */
+export function checkResolvedThresholds(thresholds: PlanThresholds): string[] {
+  const errors: string[] = [];
+  if (thresholds.maxFileCountWarning > thresholds.maxFileCountError) {
+    errors.push(`maxFileCountWarning (${thresholds.maxFileCountWarning}) exceeds maxFileCountError (${thresholds.maxFileCountError})`);
+  }
+  if (thresholds.maxTotalBytesWarning > thresholds.maxTotalBytesError) {
+    errors.push(`maxTotalBytesWarning (${thresholds.maxTotalBytesWarning}) exceeds maxTotalBytesError (${thresholds.maxTotalBytesError})`);
+  }
+  return errors;
+}
@@ -0,0 +1,222 @@
+/**
+ * State for the interactive ignore tuner
+ *
+ * Starts from a repo's planned files, lets directories and extensions be
+ * toggled between drop and keep, and recomputes totals without re-walking.
+ * Dropping `dir/` removes every planned file under it and dropping an
+ * extension removes `**\/*.ext`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getWarningLevel } from './plan.js';
+import type { FileStat, RepoPlanResult } from './plan.js';
+import type { PlanThresholds, WarningLevel } from './types.js';
+
+export interface TuneState {
+  /** Planned files, relative to the repo root */
+  files: FileStat[];
+  /** Dropped directories, repo-relative with a trailing slash */
+  droppedDirs: Set<string>;
+  /** Dropped extensions, with a leading dot */
+  droppedExtensions: Set<string>;
+}
+
+export interface TuneEntry {
+  /** Repo-relative directory path with a trailing slash */
+  path: string;
+  name: string;
+  fileCount: number;
+  bytes: number;
+  dropped: boolean;
+  hasSubdirectories: boolean;
+}
+
+export interface TuneExtension {
+  ext: string;
+  fileCount: number;
+  bytes: number;
+  dropped: boolean;
+}
+
+export interface TuneTotals {
+  fileCount: number;
+  bytes: number;
+  warningLevel: WarningLevel;
+  /** Files removed by the current choices */
+  droppedFileCount: number;
+  droppedBytes: number;
+}
+
+/**
+ * Extension of a file name ('' when it has none)
+ */
+function extensionOf(filePath: string): string {
+  return path.extname(filePath).toLowerCase();
+}
+
+/**
+ * Create tuner state from a repo plan (file sizes are read from disk)
+ */
+export function createTuneState(plan: RepoPlanResult): TuneState {
+  const prefix = `${plan.localDir}/`;
+  const files: FileStat[] = [];
+
+  for (const file of plan.files ?? []) {
+    const relative = file.startsWith(prefix) ? file.slice(prefix.length) : file;
+    try {
+      files.push({ path: relative, bytes: fs.statSync(path.join(plan.repoPath, relative)).size });
+    } catch {
+      // Removed since the plan was computed
+    }
+  }
+
+  return { files, droppedDirs: new Set(), droppedExtensions: new Set() };
+}
+
+function isUnderDroppedDir(state: TuneState, filePath: string): boolean {
+  for (const dir of state.droppedDirs) {
+    if (filePath.startsWith(dir)) return true;
+  }
+  return false;
+}
+
+/**
+ * Whether the current choices drop a file
+ */
+export function isFileDropped(state: TuneState, file: FileStat): boolean {
+  return state.droppedExtensions.has(extensionOf(file.path)) || isUnderDroppedDir(state, file.path);
+}
+
+/**
+ * Totals after the current choices
+ */
+export function summarizeTune(state: TuneState, thresholds: PlanThresholds): TuneTotals {
+  let fileCount = 0;
+  let bytes = 0;
+  let droppedFileCount = 0;
+  let droppedBytes = 0;
+
+  for (const file of state.files) {
+    if (isFileDropped(state, file)) {
+      droppedFileCount++;
+      droppedBytes += file.bytes;
+    } else {
+      fileCount++;
+      bytes += file.bytes;
+    }
+  }
+
+  return {
+    fileCount,
+    bytes,
+    warningLevel: getWarningLevel(fileCount, bytes, thresholds),
+    droppedFileCount,
+    droppedBytes,
+  };
+}
+
+/**
+ * Subdirectories of a directory, largest first
+ * Counts exclude dropped extensions; a dropped directory shows what it removes.
+ * @param dir - Repo-relative directory with a trailing slash ('' for the repo root)
+ */
+export function listDirectory(state: TuneState, dir: string): TuneEntry[] {
+  const entries = new Map<string, TuneEntry>();
+
+  for (const file of state.files) {
+    if (!file.path.startsWith(dir) || state.droppedExtensions.has(extensionOf(file.path))) continue;
+
+    const rest = file.path.slice(dir.length);
+    const slash = rest.indexOf('/');
+    if (slash === -1) continue;
+
+    const name = rest.slice(0, slash);
+    const entryPath = `${dir}${name}/`;
+    // Files removed by a drop deeper than this entry no longer count towards it
+    if ([...state.droppedDirs].some((d) => d.length > entryPath.length && file.path.startsWith(d))) {
+      continue;
+    }
+
+    let entry = entries.get(entryPath);
+    if (!entry) {
+      entry = { path: entryPath, name, fileCount: 0, bytes: 0, dropped: state.droppedDirs.has(entryPath), hasSubdirectories: false };
+      entries.set(entryPath, entry);
+    }
+    entry.fileCount++;
+    entry.bytes += file.bytes;
+    if (rest.indexOf('/', slash + 1) !== -1) {
+      entry.hasSubdirectories = true;
+    }
+  }
+
+  return [...entries.values()].sort((a, b) => b.bytes - a.bytes || a.path.localeCompare(b.path));
+}
+
+/**
+ * Extensions across the repo, largest first
+ * Counts exclude dropped directories.
+ */
+export function listExtensions(state: TuneState): TuneExtension[] {
+  const extensions = new Map<string, TuneExtension>();
+
+  for (const file of state.files) {
+    if (isUnderDroppedDir(state, file.path)) continue;
+
+    const ext = extensionOf(file.path);
+    if (!ext) continue;
+
+    let entry = extensions.get(ext);
+    if (!entry) {
+      entry = { ext, fileCount: 0, bytes: 0, dropped: state.droppedExtensions.has(ext) };
+      extensions.set(ext, entry);
+    }
+    entry.fileCount++;
+    entry.bytes += file.bytes;
+  }
+
+  return [...extensions.values()].sort((a, b) => b.bytes - a.bytes || a.ext.localeCompare(b.ext));
+}
+
+/**
+ * Toggle a directory between drop and keep
+ * Dropping a directory clears drops of its subdirectories (they are covered).
+ */
+export function toggleDirectory(state: TuneState, dir: string): void {
+  if (state.droppedDirs.delete(dir)) {
+    return;
+  }
+  for (const dropped of [...state.droppedDirs]) {
+    if (dropped.startsWith(dir)) state.droppedDirs.delete(dropped);
+  }
+  state.droppedDirs.add(dir);
+}
+
+/**
+ * Toggle an extension between drop and keep
+ */
+export function toggleExtension(state: TuneState, ext: string): void {
+  if (!state.droppedExtensions.delete(ext)) {
+    state.droppedExtensions.add(ext);
+  }
+}
+
+/**
+ * Current choices as ignore patterns
+ * Directory drops are anchored at the repo root (`/examples/`), matching the
+ * preview: an unanchored `examples/` would also drop `src/examples/`.
+ * @param prefix - '' for per-repo `ignore` config, 'localDir/' for customIgnores
+ */
+export function tuneToPatterns(state: TuneState, prefix = ''): { dropPaths: string[]; dropExtensions: string[]; patterns: string[] } {
+  const dirs = [...state.droppedDirs].sort();
+  const dropPaths = dirs.map((dir) => `/${dir}`);
+  const dropExtensions = [...state.droppedExtensions].sort();
+  return {
+    dropPaths,
+    dropExtensions,
+    patterns: [
+      ...(prefix ? dirs.map((dir) => `${prefix}${dir}`) : dropPaths),
+      ...dropExtensions.map((ext) => `${prefix}**/*${ext}`),
+    ],
+  };
+}
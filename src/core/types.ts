@@ -7,10 +7,15 @@ export type IgnoreMode = 'denylist' | 'allowlist';
 export type IgnoreStrategy = 'perRepo' | 'global';
 export type WarningLevel = 'green' | 'yellow' | 'red';
 export type RepoStatus = 'present' | 'missing' | 'disabled';
+export type RuleMerge = 'extend' | 'replace';
+export type SuggestProviderName = 'claude' | 'openai' | 'command' | 'heuristic';
 
 export interface SparseCheckoutConfig {
   enabled: boolean;
+  /** Directories to check out (cone mode); root files are always included */
   include: string[];
+  /** Derive the sparse set from ignore rules when include is empty */
+  fromIgnoreRules?: boolean;
 }
 
 export interface MgrepConfig {
@@ -18,6 +23,15 @@ export interface MgrepConfig {
   maxFileSizeBytes?: number;
 }
 
+/**
+ * Manifest-level ignore rules for a single repo
+ *
+ * Paths are relative to the repo root; directories end with '/'.
+ * - denylist: index everything except dropPaths/dropExtensions;
+ *   keepPaths re-include paths dropped by global rules
+ * - allowlist: index only keepPaths (optionally limited to keepExtensions),
+ *   then apply global rules and dropPaths/dropExtensions on top
+ */
 export interface IgnoreConfig {
   mode: IgnoreMode;
   keepPaths: string[];
@@ -26,11 +40,26 @@ export interface IgnoreConfig {
   dropExtensions?: string[];
 }
 
+/**
+ * Repo-specific drop rules declared outside source
+ * (manifest `ignoreRules` or `rules/<repo-id>.yaml` next to the manifest)
+ */
+export interface RepoIgnoreRules {
+  id: string;
+  notes?: string;
+  /** extend: add to lower-precedence rules; replace: discard them */
+  merge?: RuleMerge;
+  dropPaths: string[];
+  keepPaths?: string[];
+}
+
 export interface RepoConfig {
   id: string;
   name: string;
   url: string;
   branch: string;
+  /** Pin to a tag or commit SHA instead of following the branch tip */
+  ref?: string;
   category: RepoCategory;
   localDir: string;
   enabled: boolean;
@@ -40,13 +69,135 @@ export interface RepoConfig {
   mgrepIgnoreStrategy?: IgnoreStrategy;
 }
 
+export interface PlanThresholds {
+  maxTotalBytesWarning: number;
+  maxTotalBytesError: number;
+  maxFileCountWarning: number;
+  maxFileCountError: number;
+}
+
+/**
+ * Plan threshold overrides
+ * Precedence: built-in PLAN_THRESHOLDS < top-level < categories < repos
+ */
+export interface ThresholdsConfig extends Partial<PlanThresholds> {
+  categories?: Partial<Record<RepoCategory, Partial<PlanThresholds>>>;
+  /** Keyed by repo id */
+  repos?: Record<string, Partial<PlanThresholds>>;
+}
+
+/**
+ * Tech-stack profile as written in the manifest
+ * Unset fields come from the built-in profile named by `extends`
+ */
+export interface StackProfileConfig {
+  /** Built-in profile to start from */
+  extends?: string;
+  name?: string;
+  /** Stack description for the suggest prompt */
+  description?: string;
+  keepFrameworks?: string[];
+  dropFrameworks?: string[];
+  /** Deployment targets whose config files are not indexed */
+  excludedTargets?: string[];
+  /** Add global ignore patterns for dropped frameworks and excluded targets */
+  generatePatterns?: boolean;
+}
+
+/**
+ * Resolved tech-stack profile
+ */
+export interface StackProfile {
+  name: string;
+  description: string;
+  keepFrameworks: string[];
+  dropFrameworks: string[];
+  excludedTargets: string[];
+  generatePatterns: boolean;
+}
+
+/**
+ * Backend for `refrepo suggest` (manifest `suggest`)
+ */
+export interface SuggestConfig {
+  /** Default: claude */
+  provider?: SuggestProviderName;
+  /** Model name (required for openai, passed as --model to claude) */
+  model?: string;
+  /** OpenAI-compatible base URL (default: https://api.openai.com/v1) */
+  endpoint?: string;
+  /** Env var holding the API key for the endpoint (default: OPENAI_API_KEY) */
+  apiKeyEnv?: string;
+  /** Local command for the command provider; the prompt is written to stdin */
+  command?: string[];
+  /** Kill the model call after N seconds (default: 300) */
+  timeoutSeconds?: number;
+  /** Estimated tokens per model call; larger change sets are split into batches (default: 12000) */
+  maxPromptTokens?: number;
+  /** Leading lines of each file sent as its excerpt (default: 12, 0 sends paths only) */
+  excerptLines?: number;
+}
+
+export type CustomIgnoreSource = 'model' | 'human';
+
+/**
+ * customIgnores entry with provenance (plain pattern strings are also accepted)
+ */
+export interface CustomIgnoreEntry {
+  pattern: string;
+  /** Whether a model suggested the pattern or a human wrote it */
+  source: CustomIgnoreSource;
+  /** Suggest provider (claude, heuristic, ...) or user name */
+  addedBy?: string;
+  reason?: string;
+  /** ISO timestamp; entries written together share it */
+  addedAt?: string;
+  /** Planned files the pattern matched when it was added */
+  fileCount?: number;
+  /** The first of those files */
+  files?: string[];
+}
+
+/**
+ * Checks customIgnores patterns must pass before they are written
+ */
+export interface PatternSafetyConfig {
+  /** Refuse patterns removing more than this fraction of a repo's files or bytes (default: 0.25) */
+  maxRepoFraction?: number;
+  /** Refuse patterns removing a package of a `source` repo that is not for a dropped framework (default: true) */
+  protectSourcePackages?: boolean;
+}
+
 export interface Manifest {
   version: number;
   defaultRoot: string;
   defaultStore: string;
   repos: RepoConfig[];
-  /** User-added ignore patterns (from refrepo suggest --apply) */
-  customIgnores?: string[];
+  /** Plan warning/error thresholds (global, per category, per repo) */
+  thresholds?: ThresholdsConfig;
+  /** Repo-specific drop rules (override/extend built-in REPO_SPECIFIC_IGNORES) */
+  ignoreRules?: RepoIgnoreRules[];
+  /** User-added ignore patterns (from refrepo suggest and tune), plain or with provenance */
+  customIgnores?: Array<string | CustomIgnoreEntry>;
+  /** Tech stack the repos are indexed for (default: the tanstack-convex profile) */
+  profile?: StackProfileConfig;
+  /** Model backend for refrepo suggest */
+  suggest?: SuggestConfig;
+  /** Safety checks for new customIgnores patterns */
+  patternSafety?: PatternSafetyConfig;
+}
+
+export interface LockedRepo {
+  url: string;
+  /** Manifest ref (tag/SHA) or branch the commit was resolved from */
+  ref: string;
+  commit: string;
+  lockedAt: string;
+}
+
+export interface Lockfile {
+  version: number;
+  repos: Record<string, LockedRepo>;
 }
 
 export interface RepoStatusInfo {
@@ -0,0 +1,67 @@
+/**
+ * Cross-check plan results against `mgrep watch --dry-run`
+ */
+
+import { parseMgrepLine } from './mgrep.js';
+
+export interface MgrepDryRunResult {
+  filesFound: number;
+  /** Paths mgrep would upload (new or changed), relative to the index root */
+  uploadPaths: string[];
+  /** Paths mgrep would delete from the store, relative to the index root */
+  deletePaths: string[];
+}
+
+export interface PlanVerification {
+  store: string;
+  planFileCount: number;
+  mgrepFileCount: number;
+  /** Files mgrep would upload that the plan excludes */
+  mgrepOnly: string[];
+  /** Files the plan includes that mgrep would delete from the store */
+  planOnly: string[];
+  agrees: boolean;
+}
+
+/**
+ * Parse `mgrep watch --dry-run` output
+ * Summary:  "found 3186 files in total, would have uploaded 943 changed or new files, ..."
+ * Per file: "Dry run: would have uploaded /abs/path/to/file"
+ */
+export function parseMgrepDryRun(output: string, root: string): MgrepDryRunResult {
+  const result: MgrepDryRunResult = { filesFound: 0, uploadPaths: [], deletePaths: [] };
+
+  for (const line of output.split('\n')) {
+    const event = parseMgrepLine(line, root);
+    if (event.type === 'synced') {
+      result.filesFound = event.filesFound;
+    } else if (event.type === 'file') {
+      (event.action === 'upload' ? result.uploadPaths : result.deletePaths).push(event.path);
+    }
+  }
+
+  result.uploadPaths.sort();
+  result.deletePaths.sort();
+  return result;
+}
+
+/**
+ * Compare a store's planned files to mgrep's dry run
+ * mgrep only lists changed paths, so path checks cover uploads and deletions;
+ * the total count covers unchanged files
+ */
+export function comparePlanToMgrep(store: string, planFiles: string[], dryRun: MgrepDryRunResult): PlanVerification {
+  const planned = new Set(planFiles);
+
+  const mgrepOnly = dryRun.uploadPaths.filter((f) => !planned.has(f));
+  const planOnly = dryRun.deletePaths.filter((f) => planned.has(f));
+
+  return {
+    store,
+    planFileCount: planFiles.length,
+    mgrepFileCount: dryRun.filesFound,
+    mgrepOnly,
+    planOnly,
+    agrees: dryRun.filesFound === planFiles.length && mgrepOnly.length === 0 && planOnly.length === 0,
+  };
+}
@@ -0,0 +1,317 @@
+/**
+ * Async file walker for plan computation
+ *
+ * Directories are read with bounded concurrency (shared across repos),
+ * ignored directories are pruned before descent, and directory listings
+ * can be reused from a snapshot cache when the directory's mtime is unchanged.
+ * Adding, removing or renaming an entry (including `git pull` rewriting a
+ * file) updates the parent directory's mtime; editing a file in place does
+ * not, so use `plan --no-cache` after in-place edits.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  IGNORE_FILENAMES,
+  hasOverriddenIgnoreFile,
+  matchLayers,
+  readDirectoryLayer,
+  type IgnoreLayer,
+  type IgnoreOverrides,
+} from './ignore-layers.js';
+import { WALK_CACHE_NAME } from './constants.js';
+import type { FileStat } from './plan.js';
+
+/** Bump when the snapshot format changes; older caches are discarded */
+const WALK_CACHE_VERSION = 1;
+
+/**
+ * Directories modified this close to the walk are not cached, since a later
+ * change within the same mtime tick would go unnoticed
+ */
+const RACY_WINDOW_MS = 2_000;
+
+export interface DirectorySnapshot {
+  mtimeMs: number;
+  /** Visible subdirectory names */
+  dirs: string[];
+  /** Visible files as [name, bytes] */
+  files: Array<[string, number]>;
+  /** Whether the directory contains a .gitignore or .mgrepignore */
+  hasIgnoreFiles: boolean;
+}
+
+export interface WalkCache {
+  version: number;
+  /** Snapshots keyed by absolute directory path */
+  directories: Record<string, DirectorySnapshot>;
+}
+
+export interface WalkStats {
+  directoriesRead: number;
+  directoriesCached: number;
+}
+
+/**
+ * Run async tasks with at most `concurrency` in flight
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export function createLimiter(concurrency: number): Limiter {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const next = () => {
+    active--;
+    queue.shift()?.();
+  };
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= Math.max(1, concurrency)) {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    }
+    active++;
+    try {
+      return await task();
+    } finally {
+      next();
+    }
+  };
+}
+
+export interface WalkOptions {
+  /** Path of the walked directory relative to the index root (ignore layers are relative to the root) */
+  prefix: string;
+  maxFileSize: number;
+  limit: Limiter;
+  /** Snapshot cache to read from and record into */
+  cache?: WalkSession;
+  /** Ignore file contents to use instead of the files on disk */
+  ignoreOverrides?: IgnoreOverrides;
+}
+
+export interface WalkResult {
+  files: FileStat[];
+  /** Sources of every layer that was in effect during the walk */
+  sources: Set<string>;
+}
+
+/**
+ * A walk cache being read and updated during one plan run
+ */
+export interface WalkSession {
+  stats: WalkStats;
+  /** Snapshot for a directory whose mtime is unchanged */
+  lookup(dir: string, mtimeMs: number): DirectorySnapshot | undefined;
+  record(dir: string, snapshot: DirectorySnapshot): void;
+  /** Mark a tree as walked so its stale snapshots are dropped */
+  addRoot(dir: string): void;
+  /** Snapshots from this run, plus previous snapshots outside the walked trees */
+  toCache(): WalkCache;
+}
+
+export function createWalkSession(previous: WalkCache): WalkSession {
+  const visited = new Map<string, DirectorySnapshot>();
+  const walkedRoots: string[] = [];
+  const startedAt = Date.now();
+
+  return {
+    stats: { directoriesRead: 0, directoriesCached: 0 },
+
+    lookup(dir, mtimeMs) {
+      const snapshot = previous.directories[dir];
+      return snapshot && snapshot.mtimeMs === mtimeMs ? snapshot : undefined;
+    },
+
+    record(dir, snapshot) {
+      if (startedAt - snapshot.mtimeMs >= RACY_WINDOW_MS) {
+        visited.set(dir, snapshot);
+      }
+    },
+
+    addRoot(dir) {
+      walkedRoots.push(dir);
+    },
+
+    toCache() {
+      const directories: Record<string, DirectorySnapshot> = {};
+
+      for (const [dir, snapshot] of Object.entries(previous.directories)) {
+        const walked = walkedRoots.some((root) => dir === root || dir.startsWith(root + path.sep));
+        if (!walked) {
+          directories[dir] = snapshot;
+        }
+      }
+      for (const [dir, snapshot] of visited) {
+        directories[dir] = snapshot;
+      }
+
+      return { version: WALK_CACHE_VERSION, directories };
+    },
+  };
+}
+
+/**
+ * Get the walk cache path for an index root
+ */
+export function getWalkCachePath(root: string): string {
+  return path.join(root, WALK_CACHE_NAME);
+}
+
+/**
+ * Load the walk cache (empty if missing, unreadable or from another version)
+ */
+export function loadWalkCache(root: string): WalkCache {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(getWalkCachePath(root), 'utf-8')) as WalkCache;
+    if (parsed.version === WALK_CACHE_VERSION && parsed.directories && typeof parsed.directories === 'object') {
+      return parsed;
+    }
+  } catch {
+    // Missing or corrupt cache - start fresh
+  }
+  return { version: WALK_CACHE_VERSION, directories: {} };
+}
+
+/**
+ * Save the walk cache (best effort - a read-only root just means no cache)
+ */
+export function saveWalkCache(root: string, cache: WalkCache): void {
+  try {
+    fs.writeFileSync(getWalkCachePath(root), JSON.stringify(cache));
+  } catch {
+    // Ignore write failures
+  }
+}
+
+/**
+ * Check if a file/directory name is hidden (starts with .)
+ * Matches mgrep's isHiddenFile() behavior
+ */
+function isHiddenName(name: string): boolean {
+  return name.startsWith('.') && name !== '.' && name !== '..';
+}
+
+/**
+ * List a directory, from the cache when its mtime is unchanged
+ */
+async function readSnapshot(dir: string, options: WalkOptions): Promise<DirectorySnapshot | null> {
+  const { limit, cache } = options;
+
+  type Listing = { snapshot: DirectorySnapshot } | { mtimeMs: number; entries: fs.Dirent[] };
+  const listed = await limit(async (): Promise<Listing | null> => {
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.stat(dir);
+    } catch {
+      return null;
+    }
+
+    const cached = cache?.lookup(dir, stats.mtimeMs);
+    if (cached) {
+      cache!.stats.directoriesCached++;
+      cache!.record(dir, cached);
+      return { snapshot: cached };
+    }
+
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    return { mtimeMs: stats.mtimeMs, entries };
+  });
+
+  if (!listed) {
+    return null;
+  }
+  if ('snapshot' in listed) {
+    return listed.snapshot;
+  }
+
+  const snapshot: DirectorySnapshot = { mtimeMs: listed.mtimeMs, dirs: [], files: [], hasIgnoreFiles: false };
+  const fileNames: string[] = [];
+
+  for (const entry of listed.entries) {
+    if (isHiddenName(entry.name)) {
+      if (entry.isFile() && (IGNORE_FILENAMES as readonly string[]).includes(entry.name)) {
+        snapshot.hasIgnoreFiles = true;
+      }
+      continue;
+    }
+    if (entry.isDirectory()) {
+      snapshot.dirs.push(entry.name);
+    } else if (entry.isFile()) {
+      fileNames.push(entry.name);
+    }
+  }
+
+  const sizes = await Promise.all(
+    fileNames.map((name) =>
+      limit(async () => {
+        try {
+          return (await fs.promises.stat(path.join(dir, name))).size;
+        } catch {
+          return null;  // Skip files we can't stat
+        }
+      })
+    )
+  );
+  fileNames.forEach((name, i) => {
+    const size = sizes[i];
+    if (size !== null) {
+      snapshot.files.push([name, size]);
+    }
+  });
+
+  if (cache) {
+    cache.stats.directoriesRead++;
+    cache.record(dir, snapshot);
+  }
+  return snapshot;
+}
+
+/**
+ * Walk a directory tree, respecting layered ignore rules
+ * Each directory's .gitignore/.mgrepignore adds a layer for its subtree.
+ * Files are returned sorted by path so results don't depend on timing.
+ */
+export async function walkTree(baseDir: string, layers: IgnoreLayer[], options: WalkOptions): Promise<WalkResult> {
+  const result: WalkResult = { files: [], sources: new Set(layers.map((l) => l.source)) };
+  options.cache?.addRoot(baseDir);
+
+  const walk = async (dir: string, relativeDir: string, dirLayers: IgnoreLayer[]): Promise<void> => {
+    const snapshot = await readSnapshot(dir, options);
+    if (!snapshot) {
+      return;
+    }
+
+    const dirBase = [options.prefix, relativeDir].filter((p) => p.length > 0).join('/');
+    if (snapshot.hasIgnoreFiles || hasOverriddenIgnoreFile(dir, options.ignoreOverrides)) {
+      const dirLayer = readDirectoryLayer(dir, dirBase, options.ignoreOverrides);
+      if (dirLayer) {
+        dirLayers = [...dirLayers, dirLayer];
+        result.sources.add(dirLayer.source);
+      }
+    }
+
+    const childPath = (name: string) => (relativeDir ? `${relativeDir}/${name}` : name);
+    const rootPath = (relative: string) => (options.prefix ? `${options.prefix}/${relative}` : relative);
+
+    for (const [name, bytes] of snapshot.files) {
+      const relativePath = childPath(name);
+      if (bytes <= options.maxFileSize && !matchLayers(rootPath(relativePath), false, dirLayers).ignored) {
+        result.files.push({ path: relativePath, bytes });
+      }
+    }
+
+    // Directories are matched with a trailing slash so `dir/` rules apply
+    // and allowlist `!**/` re-includes let the walk reach kept paths
+    await Promise.all(
+      snapshot.dirs
+        .map(childPath)
+        .filter((relativePath) => !matchLayers(rootPath(relativePath), true, dirLayers).ignored)
+        .map((relativePath) => walk(path.join(baseDir, relativePath), relativePath, dirLayers))
+    );
+  };
+
+  await walk(baseDir, '', layers);
+  result.files.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  return result;
+}
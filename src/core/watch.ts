@@ -0,0 +1,230 @@
+/**
+ * Watch mode: keep one mgrep store fresh
+ *
+ * Each cycle fetches the store's repos, pulls the ones whose upstream moved,
+ * recomputes the plan and applies the same gates as `refrepo index`. mgrep
+ * keeps watching between cycles; it is stopped while repos are pulled and
+ * only restarted when the plan is not red. State is written to a status
+ * file and a log next to the manifest so a daemon on a shared box can be
+ * inspected with `refrepo watch status`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getReposByStore, getRepoPath, resolveManifestPath } from './manifest.js';
+import { getUpstreamBehind, isDetachedHead, pullRepo } from './git.js';
+import { buildGlobalIgnore, writeIgnoreFiles } from './ignore.js';
+import { computePlan, type PlanSummary } from './plan.js';
+import { WATCH_LOG_FILENAME, WATCH_STATUS_FILENAME } from './constants.js';
+import type { Manifest, WarningLevel } from './types.js';
+
+/**
+ * The long-running mgrep process a watch cycle controls
+ */
+export interface WatchMgrep {
+  isRunning(): boolean;
+  start(): void;
+  stop(): Promise<void>;
+}
+
+export interface WatchRepoResult {
+  repoId: string;
+  /** `locked`: detached HEAD (e.g. from `sync --locked`), not pulled */
+  action: 'unchanged' | 'pulled' | 'pinned' | 'locked' | 'skipped' | 'failed';
+  /** Upstream commits pulled */
+  behind?: number;
+  error?: string;
+}
+
+export interface WatchCycleResult {
+  startedAt: string;
+  finishedAt: string;
+  repos: WatchRepoResult[];
+  /** Ids of repos pulled this cycle */
+  pulled: string[];
+  /** Generated .mgrepignore differs from the file on disk */
+  ignoreChanged: boolean;
+  /** `unchanged` when nothing moved and mgrep kept running */
+  gate: 'unchanged' | 'passed' | 'warned' | 'blocked';
+  warningLevel?: WarningLevel;
+  fileCount?: number;
+  totalBytes?: number;
+  mgrep: 'running' | 'started' | 'restarted' | 'stopped';
+}
+
+export interface WatchStatus {
+  pid: number;
+  store: string;
+  intervalSeconds: number;
+  startedAt: string;
+  updatedAt: string;
+  state: 'cycling' | 'watching' | 'blocked' | 'stopped';
+  cycles: number;
+  nextCycleAt?: string;
+  /** mgrep finished its initial sync after the last (re)start */
+  lastSyncAt?: string;
+  lastCycle?: WatchCycleResult;
+  lastError?: string;
+}
+
+/**
+ * Get the watch status file path (stored alongside manifest)
+ */
+export function getWatchStatusPath(manifestPath = resolveManifestPath()): string {
+  return path.join(path.dirname(manifestPath), WATCH_STATUS_FILENAME);
+}
+
+/**
+ * Get the watch log path (stored alongside manifest)
+ */
+export function getWatchLogPath(manifestPath = resolveManifestPath()): string {
+  return path.join(path.dirname(manifestPath), WATCH_LOG_FILENAME);
+}
+
+/**
+ * Load the watch status, if a watch has ever run
+ */
+export function loadWatchStatus(statusPath = getWatchStatusPath()): WatchStatus | null {
+  if (!fs.existsSync(statusPath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(statusPath, 'utf-8')) as WatchStatus;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save the watch status
+ */
+export function saveWatchStatus(status: WatchStatus, statusPath = getWatchStatusPath()): void {
+  fs.writeFileSync(statusPath, JSON.stringify(status, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Append a timestamped line to the watch log
+ */
+export function appendWatchLog(message: string, logPath = getWatchLogPath(), now = new Date()): void {
+  fs.appendFileSync(logPath, `${now.toISOString()} ${message}\n`, 'utf-8');
+}
+
+/**
+ * Whether the process recorded in a status is still watching
+ */
+export function isWatchRunning(status: WatchStatus | null): boolean {
+  if (!status || status.state === 'stopped') {
+    return false;
+  }
+
+  try {
+    process.kill(status.pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Run one watch cycle for a store
+ * Returns the plan when it was recomputed (mgrep was restarted or blocked).
+ */
+export async function runWatchCycle(
+  manifest: Manifest,
+  options: { store: string; mgrep: WatchMgrep; log?: (message: string) => void }
+): Promise<{ result: WatchCycleResult; plan?: PlanSummary }> {
+  const { store, mgrep } = options;
+  const log = options.log ?? (() => {});
+  const startedAt = new Date().toISOString();
+  const root = manifest.defaultRoot;
+  const repos = getReposByStore(manifest).get(store) ?? [];
+
+  // Step 1: Find repos whose upstream moved
+  const results: WatchRepoResult[] = [];
+  for (const repo of repos) {
+    const repoPath = getRepoPath(root, repo.localDir);
+    if (!fs.existsSync(repoPath)) {
+      results.push({ repoId: repo.id, action: 'skipped', error: 'Not cloned - run `refrepo sync`' });
+    } else if (repo.ref) {
+      results.push({ repoId: repo.id, action: 'pinned' });
+    } else if (await isDetachedHead(repoPath)) {
+      // No upstream to compare against - leave the checked-out commit alone
+      results.push({ repoId: repo.id, action: 'locked', error: `Detached HEAD - run \`refrepo sync\` to follow ${repo.branch}` });
+    } else {
+      const upstream = await getUpstreamBehind(repoPath);
+      if (!upstream.success) {
+        log(`${repo.id}: fetch failed: ${upstream.error}`);
+        results.push({ repoId: repo.id, action: 'failed', error: upstream.error });
+      } else {
+        results.push({ repoId: repo.id, action: 'unchanged', behind: upstream.behind });
+      }
+    }
+  }
+
+  const moved = results.filter((r) => r.action === 'unchanged' && (r.behind ?? 0) > 0);
+  const globalPath = path.join(root, '.mgrepignore');
+  const current = fs.existsSync(globalPath) ? fs.readFileSync(globalPath, 'utf-8') : null;
+  const ignoreChanged = buildGlobalIgnore(manifest, undefined, store).content !== current;
+  const wasRunning = mgrep.isRunning();
+
+  const finish = (result: Omit<WatchCycleResult, 'startedAt' | 'finishedAt' | 'repos' | 'pulled' | 'ignoreChanged'>) => ({
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    repos: results,
+    pulled: results.filter((r) => r.action === 'pulled').map((r) => r.repoId),
+    ignoreChanged,
+    ...result,
+  });
+
+  if (moved.length === 0 && !ignoreChanged && wasRunning) {
+    return { result: finish({ gate: 'unchanged', mgrep: 'running' }) };
+  }
+
+  // Step 2: Stop mgrep so pulled files are not uploaded before the gate
+  if (wasRunning) {
+    log('Stopping mgrep watch');
+    await mgrep.stop();
+  }
+
+  for (const repoResult of moved) {
+    const repo = repos.find((r) => r.id === repoResult.repoId)!;
+    log(`${repo.id}: pulling ${repoResult.behind} upstream commit(s)`);
+    const pulled = await pullRepo(getRepoPath(root, repo.localDir), { ffOnly: true });
+    if (pulled.success) {
+      repoResult.action = 'pulled';
+    } else {
+      log(`${repo.id}: pull failed: ${pulled.error}`);
+      repoResult.action = 'failed';
+      repoResult.error = pulled.error;
+    }
+  }
+
+  // Step 3: Recompute the plan with the rules about to be written
+  const plan = await computePlan(manifest, { store, ignoreSource: 'generated' });
+  const gateResult = {
+    warningLevel: plan.overallWarningLevel,
+    fileCount: plan.totals.includedFileCount,
+    totalBytes: plan.totals.includedTotalBytes,
+  };
+
+  if (plan.overallWarningLevel === 'red') {
+    log(`Plan exceeds error thresholds (${gateResult.fileCount} files) - mgrep stays stopped`);
+    return { result: finish({ gate: 'blocked', ...gateResult, mgrep: 'stopped' }), plan };
+  }
+
+  // Step 4: Regenerate .mgrepignore and let mgrep pick up the changes
+  writeIgnoreFiles(manifest, { global: true, store });
+  log(`${wasRunning ? 'Restarting' : 'Starting'} mgrep watch (${gateResult.fileCount} files, plan ${plan.overallWarningLevel})`);
+  mgrep.start();
+
+  return {
+    result: finish({
+      gate: plan.overallWarningLevel === 'yellow' ? 'warned' : 'passed',
+      ...gateResult,
+      mgrep: wasRunning ? 'restarted' : 'started',
+    }),
+    plan,
+  };
+}
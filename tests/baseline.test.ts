@@ -2,8 +2,24 @@
  * Tests for baseline module
  */
 
-import { describe, it, expect } from 'vitest';
-import { compareToBaseline, type Baseline } from '../src/core/baseline.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  compareToBaseline,
+  loadBaseline,
+  saveBaseline,
+  loadMergedBaseline,
+  snapshotFiles,
+  listBaselineHistory,
+  loadBaselineSnapshot,
+  pruneBaselineHistory,
+  restoreBaseline,
+  filterBaseline,
+  type Baseline,
+  type BaselineFileEntry,
+} from '../src/core/baseline.js';
 
 describe('compareToBaseline', () => {
   const createBaseline = (files: string[]): Baseline => ({
@@ -131,3 +147,247 @@ describe('compareToBaseline', () => {
     expect(diff.newFiles.every((f) => f.startsWith('new-file-'))).toBe(true);
   });
 });
+
+describe('compareToBaseline with content hashes', () => {
+  const entry = (hash: string, size = 10): BaselineFileEntry => ({ size, mtimeMs: 0, hash });
+
+  const createBaseline = (entries: Record<string, BaselineFileEntry>): Baseline => ({
+    timestamp: new Date().toISOString(),
+    fileCount: Object.keys(entries).length,
+    files: Object.keys(entries).sort(),
+    entries,
+  });
+
+  it('detects modified files', () => {
+    const baseline = createBaseline({ 'a.ts': entry('1'), 'b.ts': entry('2') });
+    const diff = compareToBaseline(['a.ts', 'b.ts'], baseline, { 'a.ts': entry('1'), 'b.ts': entry('3') });
+
+    expect(diff.modifiedFiles).toEqual(['b.ts']);
+    expect(diff.newFiles).toEqual([]);
+  });
+
+  it('pairs removed and new files with identical content as renames', () => {
+    const baseline = createBaseline({ 'old.ts': entry('1'), 'gone.ts': entry('2') });
+    const diff = compareToBaseline(['new.ts', 'added.ts'], baseline, { 'new.ts': entry('1'), 'added.ts': entry('9') });
+
+    expect(diff.renamedFiles).toEqual([{ from: 'old.ts', to: 'new.ts' }]);
+    expect(diff.newFiles).toEqual(['added.ts']);
+    expect(diff.removedFiles).toEqual(['gone.ts']);
+  });
+
+  it('does not treat empty files as renames', () => {
+    const baseline = createBaseline({ 'old.ts': entry('e', 0) });
+    const diff = compareToBaseline(['new.ts'], baseline, { 'new.ts': entry('e', 0) });
+
+    expect(diff.renamedFiles).toEqual([]);
+    expect(diff.newFiles).toEqual(['new.ts']);
+  });
+
+  it('reports no modified files for path-only baselines', () => {
+    const baseline: Baseline = { timestamp: '', fileCount: 1, files: ['a.ts'] };
+    const diff = compareToBaseline(['a.ts'], baseline, { 'a.ts': entry('1') });
+    expect(diff.modifiedFiles).toEqual([]);
+  });
+});
+
+describe('snapshotFiles', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-snapshot-'));
+    fs.mkdirSync(path.join(dir, 'repo'));
+    fs.writeFileSync(path.join(dir, 'repo', 'a.ts'), 'export const a = 1;');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records size, mtime and hash and skips missing files', () => {
+    const entries = snapshotFiles(dir, ['repo/a.ts', 'repo/missing.ts']);
+
+    expect(Object.keys(entries)).toEqual(['repo/a.ts']);
+    expect(entries['repo/a.ts'].size).toBe(19);
+    expect(entries['repo/a.ts'].hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('reuses hashes when size and mtime are unchanged', () => {
+    const file = 'repo/a.ts';
+    const first = snapshotFiles(dir, [file]);
+    const previous: Baseline = {
+      timestamp: '',
+      fileCount: 1,
+      files: [file],
+      entries: { [file]: { ...first[file], hash: 'cached' } },
+    };
+
+    expect(snapshotFiles(dir, [file], previous)[file].hash).toBe('cached');
+  });
+});
+
+describe('per-store baselines', () => {
+  let dir: string;
+  let previousManifestEnv: string | undefined;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-baseline-'));
+    previousManifestEnv = process.env.REFREPO_MANIFEST;
+    process.env.REFREPO_MANIFEST = path.join(dir, 'refrepo.manifest.yaml');
+  });
+
+  afterEach(() => {
+    if (previousManifestEnv === undefined) {
+      delete process.env.REFREPO_MANIFEST;
+    } else {
+      process.env.REFREPO_MANIFEST = previousManifestEnv;
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the legacy file name for the default store', () => {
+    saveBaseline(['a/x.ts']);
+    expect(fs.existsSync(path.join(dir, '.refrepo-baseline.json'))).toBe(true);
+    expect(loadBaseline()!.files).toEqual(['a/x.ts']);
+  });
+
+  it('stores non-default stores separately', () => {
+    saveBaseline(['a/x.ts']);
+    saveBaseline(['b/y.ts'], 'examples');
+
+    expect(loadBaseline('examples')!.files).toEqual(['b/y.ts']);
+    expect(loadBaseline('examples')!.store).toBe('examples');
+    expect(loadBaseline()!.files).toEqual(['a/x.ts']);
+  });
+
+  it('merges baselines across stores', () => {
+    saveBaseline(['b/y.ts'], 'examples');
+    saveBaseline(['a/x.ts']);
+
+    const merged = loadMergedBaseline([undefined, 'examples', 'missing']);
+    expect(merged!.files).toEqual(['a/x.ts', 'b/y.ts']);
+    expect(merged!.fileCount).toBe(2);
+  });
+
+  it('merges entries and commits across stores', () => {
+    const e = { size: 1, mtimeMs: 0, hash: 'h' };
+    saveBaseline(['b/y.ts'], 'examples', { entries: { 'b/y.ts': e }, commits: { b: 'c2' } });
+    saveBaseline(['a/x.ts'], undefined, { entries: { 'a/x.ts': e }, commits: { a: 'c1' } });
+
+    const merged = loadMergedBaseline([undefined, 'examples']);
+    expect(Object.keys(merged!.entries!).sort()).toEqual(['a/x.ts', 'b/y.ts']);
+    expect(merged!.commits).toEqual({ a: 'c1', b: 'c2' });
+  });
+
+  it('drops entries when a store has a path-only baseline', () => {
+    saveBaseline(['b/y.ts'], 'examples');
+    saveBaseline(['a/x.ts'], undefined, { entries: { 'a/x.ts': { size: 1, mtimeMs: 0, hash: 'h' } } });
+    expect(loadMergedBaseline([undefined, 'examples'])!.entries).toBeUndefined();
+  });
+
+  it('returns null when no store has a baseline', () => {
+    expect(loadMergedBaseline([undefined, 'examples'])).toBeNull();
+  });
+});
+
+describe('baseline history', () => {
+  let dir: string;
+  let previousManifestEnv: string | undefined;
+
+  const saveAt = (iso: string, files: string[], store?: string) => {
+    vi.setSystemTime(new Date(iso));
+    saveBaseline(files, store);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-history-'));
+    previousManifestEnv = process.env.REFREPO_MANIFEST;
+    process.env.REFREPO_MANIFEST = path.join(dir, 'refrepo.manifest.yaml');
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    saveAt('2026-01-01T10:00:00.000Z', ['a/x.ts']);
+    saveAt('2026-01-15T10:00:00.000Z', ['a/x.ts', 'a/y.ts']);
+    saveAt('2026-01-20T10:00:00.000Z', ['b/z.ts'], 'examples');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    if (previousManifestEnv === undefined) {
+      delete process.env.REFREPO_MANIFEST;
+    } else {
+      process.env.REFREPO_MANIFEST = previousManifestEnv;
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps one snapshot per index run, per store, newest first', () => {
+    expect(listBaselineHistory().map((e) => e.id)).toEqual([
+      '2026-01-15T10-00-00-000Z',
+      '2026-01-01T10-00-00-000Z',
+    ]);
+    expect(listBaselineHistory('examples').map((e) => e.fileCount)).toEqual([1]);
+    expect(listBaselineHistory('missing')).toEqual([]);
+  });
+
+  it('resolves ids, prefixes, latest and ~N', () => {
+    expect(loadBaselineSnapshot('latest').fileCount).toBe(2);
+    expect(loadBaselineSnapshot('~1').fileCount).toBe(1);
+    expect(loadBaselineSnapshot('2026-01-01').id).toBe('2026-01-01T10-00-00-000Z');
+    expect(loadBaselineSnapshot('2026-01-01T10:00:00.000Z').fileCount).toBe(1);
+  });
+
+  it('rejects unknown and ambiguous refs', () => {
+    expect(() => loadBaselineSnapshot('2025')).toThrow(/not found/);
+    expect(() => loadBaselineSnapshot('2026-01')).toThrow(/Ambiguous/);
+    expect(() => loadBaselineSnapshot('~5')).toThrow(/Only 2 baseline/);
+  });
+
+  it('restores a previous snapshot as the current baseline', () => {
+    restoreBaseline('~1');
+    expect(loadBaseline()!.files).toEqual(['a/x.ts']);
+    expect(loadBaseline('examples')!.files).toEqual(['b/z.ts']);
+  });
+
+  it('keeps a store named default apart from the default store', () => {
+    saveAt('2026-01-25T10:00:00.000Z', ['c/w.ts'], 'default');
+    expect(listBaselineHistory().map((e) => e.fileCount)).toEqual([2, 1]);
+    expect(listBaselineHistory('default').map((e) => e.fileCount)).toEqual([1]);
+  });
+
+  it('rejects store names that would leave the history directory', () => {
+    expect(() => listBaselineHistory('../..')).toThrow(/Invalid store name/);
+    expect(() => loadBaseline('a/b')).toThrow(/Invalid store name/);
+    expect(() => restoreBaseline('latest', '..')).toThrow(/Invalid store name/);
+  });
+
+  it('prunes old snapshots but keeps the current baseline', () => {
+    saveAt('2026-01-30T10:00:00.000Z', ['a/x.ts', 'a/y.ts', 'a/z.ts']);
+    restoreBaseline('~2');
+
+    expect(pruneBaselineHistory(1, undefined, { dryRun: true }).map((e) => e.id)).toEqual(['2026-01-15T10-00-00-000Z']);
+    expect(listBaselineHistory()).toHaveLength(3);
+
+    pruneBaselineHistory(1);
+    expect(listBaselineHistory().map((e) => e.id)).toEqual(['2026-01-30T10-00-00-000Z', '2026-01-01T10-00-00-000Z']);
+  });
+
+  it('caps history at the retention limit on save', () => {
+    for (let day = 1; day <= 31; day++) {
+      saveAt(`2026-03-${String(day).padStart(2, '0')}T10:00:00.000Z`, ['a/x.ts'], 'examples');
+    }
+    const history = listBaselineHistory('examples');
+    expect(history).toHaveLength(30);
+    expect(history[0].id).toBe('2026-03-31T10-00-00-000Z');
+  });
+
+  it('filters a baseline to one repo', () => {
+    const baseline: Baseline = {
+      timestamp: '',
+      fileCount: 3,
+      files: ['a/x.ts', 'ab/y.ts', 'b/z.ts'],
+      commits: { a: 'c1', b: 'c2' },
+    };
+    const filtered = filterBaseline(baseline, { id: 'a', localDir: 'a' });
+    expect(filtered.files).toEqual(['a/x.ts']);
+    expect(filtered.commits).toEqual({ a: 'c1' });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for explain module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { explainPath, resolveExplainPath } from '../src/core/explain.js';
+import type { Manifest, RepoConfig } from '../src/core/types.js';
+
+describe('explainPath', () => {
+  let root: string;
+
+  const writeFile = (rel: string, content = 'x') => {
+    const full = path.join(root, rel);
+    fs.mkdirSync(path.dirname(full), { recursive: true });
+    fs.writeFileSync(full, content);
+  };
+
+  const manifest = (overrides: Partial<RepoConfig> = {}, customIgnores?: string[]): Manifest => ({
+    version: 1,
+    defaultRoot: root,
+    defaultStore: 'test',
+    customIgnores,
+    repos: [
+      {
+        id: 'app-repo',
+        name: 'App',
+        url: 'https://github.com/org/app.git',
+        branch: 'main',
+        category: 'source',
+        localDir: 'app-repo',
+        enabled: true,
+        ...overrides,
+      },
+    ],
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-explain-'));
+    writeFile('app-repo/src/index.ts');
+    writeFile('app-repo/dist/bundle.js');
+    writeFile('app-repo/pnpm-lock.yaml');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reports included files with no matching rule', () => {
+    const result = explainPath(manifest(), 'app-repo/src/index.ts');
+    expect(result).toMatchObject({ included: true, origin: 'none', exists: true, bytes: 1 });
+    expect(result.rule).toBeUndefined();
+  });
+
+  it('names the global rule and its generated line', () => {
+    const result = explainPath(manifest(), 'app-repo/pnpm-lock.yaml');
+    expect(result.included).toBe(false);
+    expect(result.origin).toBe('global');
+    expect(result.rule).toMatchObject({ pattern: '**/pnpm-lock.yaml', file: '(generated)', section: 'Global ignore rules' });
+  });
+
+  it('reports the excluded ancestor directory', () => {
+    const result = explainPath(manifest(), 'app-repo/dist/bundle.js');
+    expect(result.included).toBe(false);
+    expect(result.excludedDirectory).toBe('app-repo/dist');
+    expect(result.rule?.pattern).toBe('**/dist/');
+  });
+
+  it('attributes manifest drop paths and custom ignores', () => {
+    const config = manifest({ ignore: { mode: 'denylist', keepPaths: [], dropPaths: ['src/'] } });
+    expect(explainPath(config, 'app-repo/src/index.ts').rule?.origin).toBe('manifest');
+
+    const custom = explainPath(manifest({}, ['app-repo/src/index.ts']), 'app-repo/src/index.ts');
+    expect(custom.origin).toBe('custom');
+  });
+
+  it('reports the negation that re-included a path', () => {
+    writeFile('app-repo/.gitignore', '*.ts\n!index.ts\n');
+    const result = explainPath(manifest(), 'app-repo/src/index.ts');
+    expect(result.included).toBe(true);
+    expect(result.rule).toMatchObject({ pattern: '!index.ts', file: 'app-repo/.gitignore', line: 2, origin: 'gitignore' });
+    expect(result.overriddenRule).toMatchObject({ pattern: '*.ts', line: 1 });
+  });
+
+  it('reports hidden paths and the size limit', () => {
+    writeFile('app-repo/.github/workflow.yml');
+    expect(explainPath(manifest(), 'app-repo/.github/workflow.yml')).toMatchObject({
+      included: false,
+      origin: 'hidden',
+      hiddenSegment: '.github',
+    });
+
+    writeFile('app-repo/src/big.ts', 'x'.repeat(2_000));
+    const big = explainPath(manifest({ mgrep: { maxFileSizeBytes: 1_000 } }), 'app-repo/src/big.ts');
+    expect(big).toMatchObject({ included: false, origin: 'size', bytes: 2_000 });
+  });
+
+  it('rejects paths outside enabled repos', () => {
+    expect(() => explainPath(manifest(), 'other/file.ts')).toThrow('not inside an enabled repo');
+  });
+});
+
+describe('resolveExplainPath', () => {
+  it('makes absolute paths root-relative', () => {
+    expect(resolveExplainPath('/repos/app/src/a.ts', '/repos')).toBe('app/src/a.ts');
+  });
+
+  it('treats other paths as root-relative', () => {
+    expect(resolveExplainPath('./app/src/', '/repos', '/elsewhere')).toBe('app/src');
+  });
+});
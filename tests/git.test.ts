@@ -0,0 +1,63 @@
+/**
+ * Tests for git helpers (against real local repositories)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { checkoutRef, getHeadCommit, isDetachedHead } from '../src/core/git.js';
+
+describe('checkoutRef', () => {
+  let dir: string;
+  let upstream: string;
+  let clone: string;
+  let first: string;
+
+  const git = (cwd: string, ...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd, stdio: 'pipe' })
+      .toString()
+      .trim();
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-git-'));
+    upstream = path.join(dir, 'upstream');
+    clone = path.join(dir, 'clone');
+    fs.mkdirSync(upstream);
+    git(upstream, 'init', '-q', '-b', 'main');
+    git(upstream, 'commit', '-q', '--allow-empty', '-m', 'first');
+    first = git(upstream, 'rev-parse', 'HEAD');
+    git(upstream, 'commit', '-q', '--allow-empty', '-m', 'second');
+    git(upstream, 'tag', 'v1.0.0');
+    git(dir, 'clone', '-q', upstream, 'clone');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('checks out a short SHA that is in the clone', async () => {
+    const result = await checkoutRef(clone, first.slice(0, 7));
+    expect(result).toEqual({ success: true, updated: true, commit: first });
+    expect(await isDetachedHead(clone)).toBe(true);
+
+    expect(await checkoutRef(clone, first.slice(0, 10))).toEqual({ success: true, updated: false, commit: first });
+  });
+
+  it('explains that unknown short SHAs must be pinned in full', async () => {
+    const result = await checkoutRef(clone, 'abcdef1');
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/full 40-character SHA/);
+  });
+
+  it('fetches tags and full SHAs from origin', async () => {
+    git(upstream, 'commit', '-q', '--allow-empty', '-m', 'third');
+    git(upstream, 'tag', 'v2.0.0');
+    const third = git(upstream, 'rev-parse', 'HEAD');
+
+    expect(await checkoutRef(clone, 'v2.0.0')).toMatchObject({ success: true, commit: third });
+    expect(await checkoutRef(clone, 'v1.0.0')).toMatchObject({ success: true, updated: true });
+    expect(await getHeadCommit(clone)).not.toBe(third);
+  });
+});
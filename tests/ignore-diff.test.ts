@@ -0,0 +1,96 @@
+/**
+ * Tests for ignore diff preview
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { diffIgnoreFiles, unifiedDiff } from '../src/core/ignore-diff.js';
+import { writeIgnoreFiles } from '../src/core/ignore.js';
+import type { Manifest } from '../src/core/types.js';
+
+describe('unifiedDiff', () => {
+  const labels = { old: 'a/.mgrepignore', new: 'b/.mgrepignore' };
+
+  it('returns an empty string for equal text', () => {
+    expect(unifiedDiff('a\nb\n', 'a\nb\n', labels)).toBe('');
+  });
+
+  it('produces hunks with context', () => {
+    const oldText = ['1', '2', '3', '4', '5', '6', '7', '8', '9'].join('\n') + '\n';
+    const newText = ['1', '2', '3', '4', 'five', '6', '7', '8', '9'].join('\n') + '\n';
+    expect(unifiedDiff(oldText, newText, labels)).toBe(
+      ['--- a/.mgrepignore', '+++ b/.mgrepignore', '@@ -2,7 +2,7 @@', ' 2', ' 3', ' 4', '-5', '+five', ' 6', ' 7', ' 8', ''].join('\n')
+    );
+  });
+
+  it('diffs a new file against nothing', () => {
+    expect(unifiedDiff('', 'dist/\n', { old: '/dev/null', new: 'b/x' })).toBe(
+      '--- /dev/null\n+++ b/x\n@@ -0,0 +1,1 @@\n+dist/\n'
+    );
+  });
+});
+
+describe('diffIgnoreFiles', () => {
+  let root: string;
+
+  const writeFile = (rel: string, content = 'x') => {
+    const full = path.join(root, rel);
+    fs.mkdirSync(path.dirname(full), { recursive: true });
+    fs.writeFileSync(full, content);
+  };
+
+  const manifest = (): Manifest => ({
+    version: 1,
+    defaultRoot: root,
+    defaultStore: 'test',
+    repos: [
+      {
+        id: 'app-repo',
+        name: 'App',
+        url: 'https://github.com/org/app.git',
+        branch: 'main',
+        category: 'source',
+        localDir: 'app-repo',
+        enabled: true,
+        ignore: { mode: 'denylist', keepPaths: [], dropPaths: ['examples/'] },
+      },
+    ],
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-ignore-diff-'));
+    writeFile('app-repo/src/index.ts');
+    writeFile('app-repo/docs/guide.md', 'guide');
+    writeFile('app-repo/examples/demo.ts', 'demo!');
+    writeFile('app-repo/.mgrepignore', 'docs/\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reports the content diff and the file-set delta without writing', async () => {
+    const summary = await diffIgnoreFiles(manifest());
+
+    expect(summary.mode).toBe('perRepo');
+    expect(summary.files).toHaveLength(1);
+    expect(summary.files[0].status).toBe('changed');
+    expect(summary.files[0].diff).toContain('-docs/');
+    expect(summary.files[0].diff).toContain('+examples/');
+
+    expect(summary.included).toEqual([{ path: 'app-repo/docs/guide.md', bytes: 5 }]);
+    expect(summary.excluded).toEqual([{ path: 'app-repo/examples/demo.ts', bytes: 5 }]);
+    expect(fs.readFileSync(path.join(root, 'app-repo/.mgrepignore'), 'utf-8')).toBe('docs/\n');
+  });
+
+  it('reports no changes once the generated file is written', async () => {
+    writeIgnoreFiles(manifest());
+
+    const summary = await diffIgnoreFiles(manifest());
+    expect(summary.files[0]).toMatchObject({ status: 'unchanged', diff: '' });
+    expect(summary.included).toEqual([]);
+    expect(summary.excluded).toEqual([]);
+  });
+});
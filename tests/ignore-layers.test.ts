@@ -0,0 +1,57 @@
+/**
+ * Tests for layered ignore evaluation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createLayer, matchLayers, stripStoreScope } from '../src/core/ignore-layers.js';
+
+describe('matchLayers', () => {
+  const root = createLayer('', '.mgrepignore', '*.log\nbuild/\n');
+  const nested = createLayer('repo/src', 'repo/src/.gitignore', '!debug.log\ntmp/\n');
+
+  it('returns no layer when nothing matches', () => {
+    expect(matchLayers('repo/src/index.ts', false, [root, nested])).toEqual({ ignored: false });
+  });
+
+  it('applies root patterns anywhere', () => {
+    const match = matchLayers('repo/app.log', false, [root, nested]);
+    expect(match.ignored).toBe(true);
+    expect(match.layer?.source).toBe('.mgrepignore');
+  });
+
+  it('matches directory-only patterns for directories', () => {
+    expect(matchLayers('repo/build', true, [root]).ignored).toBe(true);
+    expect(matchLayers('repo/build', false, [root]).ignored).toBe(false);
+  });
+
+  it('resolves nested patterns relative to their base', () => {
+    expect(matchLayers('repo/src/tmp', true, [root, nested]).ignored).toBe(true);
+    expect(matchLayers('repo/tmp', true, [root, nested]).ignored).toBe(false);
+  });
+
+  it('lets the deepest matching layer decide', () => {
+    const match = matchLayers('repo/src/debug.log', false, [root, nested]);
+    expect(match.ignored).toBe(false);
+    expect(match.layer?.source).toBe('repo/src/.gitignore');
+  });
+});
+
+describe('stripStoreScope', () => {
+  it('removes the store scope section', () => {
+    const content = [
+      '# header',
+      '',
+      '# ----',
+      '# STORE SCOPE: docs',
+      '# ----',
+      '/other-repo/',
+      '',
+      '*.log',
+    ].join('\n');
+    expect(stripStoreScope(content)).toBe('# header\n\n*.log');
+  });
+
+  it('leaves content without a store scope unchanged', () => {
+    expect(stripStoreScope('*.log\n')).toBe('*.log\n');
+  });
+});
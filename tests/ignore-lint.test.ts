@@ -0,0 +1,169 @@
+/**
+ * Tests for ignore rule lint
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  checkPatternSyntax,
+  indexRepoPaths,
+  lintIgnoreRules,
+  matchRule,
+  type PathIndex,
+} from '../src/core/ignore-lint.js';
+import type { Manifest, RepoConfig } from '../src/core/types.js';
+
+describe('matchRule', () => {
+  let root: string;
+  let index: PathIndex;
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-lint-match-'));
+    for (const rel of ['docs/guide.md', 'packages/ui/docs/api.md', 'src/a.test.ts', 'src/a.ts', '.github/ci.yml']) {
+      fs.mkdirSync(path.join(root, path.dirname(rel)), { recursive: true });
+      fs.writeFileSync(path.join(root, rel), 'x');
+    }
+    index = await indexRepoPaths(root);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('skips hidden paths when indexing', () => {
+    expect(index.all.some((p) => p.startsWith('.github'))).toBe(false);
+  });
+
+  it('lists git-ignored directories without entering them', async () => {
+    fs.writeFileSync(path.join(root, '.gitignore'), 'node_modules/\n');
+    fs.mkdirSync(path.join(root, 'node_modules', 'pkg'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'node_modules', 'pkg', 'index.js'), 'x');
+
+    const ignored = await indexRepoPaths(root);
+    expect(ignored.entries.has('node_modules/')).toBe(true);
+    expect(ignored.all.some((p) => p.startsWith('node_modules/pkg'))).toBe(false);
+  });
+
+  it.skipIf(process.getuid?.() === 0)('records unreadable directories instead of failing', async () => {
+    const locked = path.join(root, 'packages', 'ui');
+    fs.chmodSync(locked, 0o000);
+    try {
+      const partial = await indexRepoPaths(root);
+      expect(partial.unreadable).toEqual(['packages/ui/']);
+      expect(partial.entries.has('src/a.ts')).toBe(true);
+    } finally {
+      fs.chmodSync(locked, 0o755);
+    }
+  });
+
+  it('matches anchored literal paths exactly', () => {
+    expect(matchRule('packages/ui/', index)).toEqual(['packages/ui/']);
+    expect(matchRule('packages/vue/', index)).toEqual([]);
+  });
+
+  it('matches unanchored names at any depth', () => {
+    expect(matchRule('docs/', index)).toEqual(['docs/', 'packages/ui/docs/']);
+    expect(matchRule('**/*.test.ts', index)).toEqual(['src/a.test.ts']);
+  });
+
+  it('matches anchored globs by scanning paths', () => {
+    expect(matchRule('packages/*/docs/', index)).toEqual(['packages/ui/docs/']);
+  });
+});
+
+describe('checkPatternSyntax', () => {
+  it('accepts ordinary patterns', () => {
+    for (const pattern of ['dist/', '**/*.map', '!docs/keep.md', 'packages/*/test/', 'a/**/b', '\\#file']) {
+      expect(checkPatternSyntax(pattern)).toBeUndefined();
+    }
+  });
+
+  it('flags patterns that silently fail', () => {
+    expect(checkPatternSyntax('docs/ ')).toMatch(/whitespace/);
+    expect(checkPatternSyntax('./docs/')).toMatch(/Relative prefix/);
+    expect(checkPatternSyntax('docs\\api')).toMatch(/Backslash/);
+    expect(checkPatternSyntax('src/**.ts')).toMatch(/\*\*/);
+    expect(checkPatternSyntax('[abc')).toMatch(/Unclosed/);
+    expect(checkPatternSyntax('!')).toBe('Empty pattern');
+  });
+});
+
+describe('lintIgnoreRules', () => {
+  let root: string;
+
+  const writeFile = (rel: string) => {
+    const full = path.join(root, rel);
+    fs.mkdirSync(path.dirname(full), { recursive: true });
+    fs.writeFileSync(full, 'x');
+  };
+
+  const manifest = (ignore: RepoConfig['ignore'], customIgnores?: string[]): Manifest => ({
+    version: 1,
+    defaultRoot: root,
+    defaultStore: 'test',
+    customIgnores,
+    repos: [
+      {
+        id: 'lint-repo',
+        name: 'Lint',
+        url: 'https://github.com/org/lint.git',
+        branch: 'main',
+        category: 'source',
+        localDir: 'lint-repo',
+        enabled: true,
+        ignore,
+      },
+    ],
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-lint-'));
+    writeFile('lint-repo/src/index.ts');
+    writeFile('lint-repo/examples/vue/app.ts');
+    writeFile('lint-repo/examples/react/app.tsx');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const issuesFor = (summary: Awaited<ReturnType<typeof lintIgnoreRules>>, kind: string) =>
+    summary.issues.filter((i) => i.kind === kind).map((i) => i.pattern);
+
+  it('reports dead and shadowed manifest rules', async () => {
+    const summary = await lintIgnoreRules(
+      manifest({ mode: 'denylist', keepPaths: [], dropPaths: ['examples/', 'examples/vue/', 'packages/old/'] })
+    );
+    expect(issuesFor(summary, 'dead')).toContain('packages/old/');
+    expect(issuesFor(summary, 'shadowed')).toEqual(['examples/vue/']);
+    expect(summary.repos[0]).toMatchObject({ repoId: 'lint-repo', pathCount: 7 });
+  });
+
+  it('reports duplicates across tiers', async () => {
+    const summary = await lintIgnoreRules(manifest({ mode: 'denylist', keepPaths: [], dropPaths: ['dist/'] }));
+    const duplicate = summary.issues.find((i) => i.kind === 'duplicate');
+    expect(duplicate).toMatchObject({ tier: 'manifest', pattern: 'dist/', related: { tier: 'global', pattern: 'dist/' } });
+  });
+
+  it('reports custom ignores without a localDir prefix', async () => {
+    const summary = await lintIgnoreRules(manifest(undefined, ['examples/vue/', 'lint-repo/examples/vue/']));
+    expect(issuesFor(summary, 'missing-prefix')).toEqual(['examples/vue/']);
+    expect(issuesFor(summary, 'dead')).not.toContain('lint-repo/examples/vue/');
+  });
+
+  it('reports unused global rules only at info severity', async () => {
+    const summary = await lintIgnoreRules(manifest(undefined));
+    const globals = summary.issues.filter((i) => i.tier === 'global');
+    expect(globals.length).toBeGreaterThan(0);
+    expect(globals.every((i) => i.severity === 'info' && i.kind === 'dead')).toBe(true);
+  });
+
+  it('skips repos that are not cloned', async () => {
+    fs.rmSync(path.join(root, 'lint-repo'), { recursive: true });
+    const summary = await lintIgnoreRules(manifest(undefined));
+    expect(summary.repos[0].skipped).toBe('Repo not cloned');
+    expect(summary.counts.dead).toBe(0);
+  });
+});
@@ -3,12 +3,16 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import ignore from 'ignore';
 import {
   GLOBAL_IGNORE_PATTERNS,
   getRepoIgnoreConfig,
   buildIgnoreContent,
+  buildAllowlistLines,
   REPO_SPECIFIC_IGNORES,
 } from '../src/core/ignore-rules.js';
+import { buildGlobalIgnore } from '../src/core/ignore.js';
+import type { Manifest } from '../src/core/types.js';
 
 describe('GLOBAL_IGNORE_PATTERNS', () => {
   it('includes node_modules', () => {
@@ -110,4 +114,129 @@ describe('buildIgnoreContent', () => {
     expect(content).toContain('node_modules/');
     expect(content).not.toContain('packages/solid-router/');
   });
+
+  it('keeps custom ignores anchored at the repo root', () => {
+    const content = buildIgnoreContent('my-repo', 'my-repo', ['my-repo/src/', '/my-repo/docs/api.md', 'other/src/']);
+    const ig = ignore().add(content);
+    expect(content).toContain('\n/src/\n/docs/api.md\n');
+    expect(ig.ignores('src/index.ts')).toBe(true);
+    expect(ig.ignores('packages/core/src/index.ts')).toBe(false);
+    expect(ig.ignores('docs/api.md')).toBe(true);
+  });
+});
+
+describe('buildIgnoreContent with manifest ignore config', () => {
+  it('adds drop paths and extensions in denylist mode', () => {
+    const content = buildIgnoreContent('my-repo', 'my-repo', [], {
+      mode: 'denylist',
+      keepPaths: [],
+      dropPaths: ['examples/'],
+      dropExtensions: ['.mdx'],
+    });
+    expect(content).toContain('\nexamples/\n');
+    expect(content).toContain('\n**/*.mdx\n');
+  });
+
+  it('emits keep negations after all drops in denylist mode', () => {
+    const content = buildIgnoreContent('my-repo', 'my-repo', [], {
+      mode: 'denylist',
+      keepPaths: ['scripts/'],
+      dropPaths: [],
+    });
+    const lines = content.trim().split('\n');
+    expect(lines[lines.length - 1]).toBe('!scripts/');
+  });
+
+  it('emits allowlist preamble before global rules', () => {
+    const content = buildIgnoreContent('my-repo', 'my-repo', [], {
+      mode: 'allowlist',
+      keepPaths: ['src/'],
+      dropPaths: [],
+    });
+    expect(content.indexOf('!src/**')).toBeLessThan(content.indexOf('**/node_modules/'));
+  });
+});
+
+describe('buildAllowlistLines', () => {
+  it('returns nothing in denylist mode', () => {
+    expect(buildAllowlistLines({ mode: 'denylist', keepPaths: ['src/'], dropPaths: [] })).toEqual([]);
+  });
+
+  it('limits kept directories to keepExtensions', () => {
+    const lines = buildAllowlistLines(
+      { mode: 'allowlist', keepPaths: ['src/', 'README.md'], dropPaths: [], keepExtensions: ['.ts', 'tsx'] },
+      'repo/'
+    );
+    expect(lines).toEqual([
+      'repo/**',
+      '!repo/**/',
+      '!repo/src/**/*.ts',
+      '!repo/src/**/*.tsx',
+      '!repo/README.md',
+    ]);
+  });
+});
+
+describe('buildGlobalIgnore', () => {
+  const manifest: Manifest = {
+    version: 1,
+    defaultRoot: '/tmp/repos',
+    defaultStore: 'test',
+    repos: [
+      {
+        id: 'shadcn-ui',
+        name: 'shadcn/ui',
+        url: 'https://github.com/shadcn-ui/ui.git',
+        branch: 'main',
+        category: 'source',
+        localDir: 'shadcn-ui',
+        enabled: true,
+        ignore: { mode: 'allowlist', keepPaths: ['apps/v4/registry/'], dropPaths: ['apps/v4/registry/bases/', '/apps/www/'] },
+      },
+    ],
+  };
+
+  it('prefixes manifest rules with localDir', () => {
+    const { content } = buildGlobalIgnore(manifest);
+    expect(content).toContain('\nshadcn-ui/**\n');
+    expect(content).toContain('\n!shadcn-ui/apps/v4/registry/**\n');
+    expect(content).toContain('\nshadcn-ui/apps/v4/registry/bases/\n');
+    expect(content).toContain('\nshadcn-ui/apps/www/\n');
+  });
+
+  it('places allowlist before global exclusions', () => {
+    const { content } = buildGlobalIgnore(manifest);
+    expect(content.indexOf('!shadcn-ui/**/')).toBeLessThan(content.indexOf('**/node_modules/'));
+  });
+});
+
+describe('buildGlobalIgnore with store scope', () => {
+  const repo = (id: string, store?: string) => ({
+    id,
+    name: id,
+    url: `https://github.com/org/${id}.git`,
+    branch: 'main',
+    category: 'source' as const,
+    localDir: id,
+    enabled: true,
+    ...(store ? { mgrep: { store } } : {}),
+  });
+
+  const manifest: Manifest = {
+    version: 1,
+    defaultRoot: '/tmp/repos',
+    defaultStore: 'framework',
+    repos: [repo('tanstack-router'), repo('tanstack-ai-demo', 'examples')],
+  };
+
+  it('excludes repos from other stores', () => {
+    const { content } = buildGlobalIgnore(manifest, new Map(), 'framework');
+    expect(content).toContain('\ntanstack-ai-demo/\n');
+    expect(content).not.toContain('\ntanstack-router/\n');
+  });
+
+  it('includes all repos without a store', () => {
+    const { content } = buildGlobalIgnore(manifest, new Map());
+    expect(content).not.toContain('STORE SCOPE');
+  });
 });
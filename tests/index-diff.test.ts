@@ -0,0 +1,96 @@
+/**
+ * Tests for the index dry-run diff against plan and baseline
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { checkMaxDeletes, diffIndexUpload } from '../src/core/index-diff.js';
+import type { Baseline } from '../src/core/baseline.js';
+
+describe('diffIndexUpload', () => {
+  let root: string;
+
+  const baseline: Baseline = {
+    timestamp: '2026-10-18T09:00:00.000Z',
+    fileCount: 4,
+    files: ['app/src/a.ts', 'app/src/gone.ts', 'app/docs/guide.md', 'app/src/keep.ts'],
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-index-diff-'));
+    for (const file of ['app/src/a.ts', 'app/src/new.ts', 'app/docs/guide.md', 'app/src/keep.ts', 'app/dist/out.js']) {
+      fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+      fs.writeFileSync(path.join(root, file), 'x');
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('attributes uploads and deletes to their cause', () => {
+    const diff = diffIndexUpload(
+      'test',
+      {
+        uploadPaths: ['app/src/a.ts', 'app/src/new.ts', 'app/dist/out.js'],
+        deletePaths: ['app/docs/guide.md', 'app/src/gone.ts', 'app/src/stray.ts', 'app/src/keep.ts'],
+      },
+      { root, planFiles: ['app/src/a.ts', 'app/src/new.ts', 'app/src/keep.ts'], baseline }
+    );
+
+    expect(diff.uploads).toEqual([
+      { path: 'app/src/a.ts', reason: 'modified' },
+      { path: 'app/src/new.ts', reason: 'added' },
+      { path: 'app/dist/out.js', reason: 'unplanned' },
+    ]);
+    expect(diff.deletes).toEqual([
+      { path: 'app/docs/guide.md', cause: 'ignored' },
+      { path: 'app/src/gone.ts', cause: 'removed' },
+      { path: 'app/src/stray.ts', cause: 'untracked' },
+      { path: 'app/src/keep.ts', cause: 'unexpected' },
+    ]);
+    expect(diff.uploadCounts).toEqual({ added: 1, modified: 1, unplanned: 1 });
+    expect(diff.deleteCounts).toEqual({ ignored: 1, removed: 1, untracked: 1, unexpected: 1 });
+    expect(diff.baselineDate).toBe(baseline.timestamp);
+  });
+
+  it('treats every missing file as removed without a baseline', () => {
+    const diff = diffIndexUpload(
+      'test',
+      { uploadPaths: ['app/src/a.ts'], deletePaths: ['app/src/stray.ts'] },
+      { root, planFiles: ['app/src/a.ts'], baseline: null }
+    );
+
+    expect(diff.uploads).toEqual([{ path: 'app/src/a.ts', reason: 'added' }]);
+    expect(diff.deletes).toEqual([{ path: 'app/src/stray.ts', cause: 'removed' }]);
+    expect(diff.baselineDate).toBeUndefined();
+  });
+});
+
+describe('checkMaxDeletes', () => {
+  const diff = diffIndexUpload(
+    'test',
+    { uploadPaths: [], deletePaths: ['app/a.ts', 'app/b.ts', 'app/c.ts'] },
+    { root: os.tmpdir(), planFiles: [], baseline: null }
+  );
+
+  it('passes deletions up to the limit', () => {
+    expect(checkMaxDeletes('test', 3, 3, diff)).toBeUndefined();
+    expect(checkMaxDeletes('test', 0, 0)).toBeUndefined();
+  });
+
+  it('blocks more deletions than the limit, with their causes', () => {
+    expect(checkMaxDeletes('test', 3, 2, diff)).toBe(
+      'Index blocked: mgrep would delete 3 files from store test (3 removed), more than --max-deletes 2'
+    );
+  });
+
+  it('counts mgrep summary deletes when paths are missing', () => {
+    expect(checkMaxDeletes('test', 500, 50)).toBe(
+      'Index blocked: mgrep would delete 500 files from store test, more than --max-deletes 50'
+    );
+    expect(checkMaxDeletes('test', 0, 2, diff)).toMatch(/delete 3 files/);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for lockfile module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  loadLockfile,
+  saveLockfile,
+  getLockedCommit,
+  updateLockfile,
+} from '../src/core/lockfile.js';
+import type { Manifest, RepoConfig } from '../src/core/types.js';
+
+const COMMIT_A = 'a'.repeat(40);
+
+const repo: RepoConfig = {
+  id: 'test-repo',
+  name: 'Test',
+  url: 'https://github.com/user/repo.git',
+  branch: 'main',
+  category: 'source',
+  localDir: 'test-repo',
+  enabled: true,
+};
+
+describe('lockfile', () => {
+  let dir: string;
+  let previousManifestEnv: string | undefined;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-lock-'));
+    previousManifestEnv = process.env.REFREPO_MANIFEST;
+    process.env.REFREPO_MANIFEST = path.join(dir, 'refrepo.manifest.yaml');
+  });
+
+  afterEach(() => {
+    if (previousManifestEnv === undefined) {
+      delete process.env.REFREPO_MANIFEST;
+    } else {
+      process.env.REFREPO_MANIFEST = previousManifestEnv;
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns null when no lockfile exists', () => {
+    expect(loadLockfile()).toBeNull();
+  });
+
+  it('round-trips next to the manifest', () => {
+    const lockPath = saveLockfile({
+      version: 1,
+      repos: { [repo.id]: { url: repo.url, ref: 'main', commit: COMMIT_A, lockedAt: '2026-01-01T00:00:00.000Z' } },
+    });
+
+    expect(lockPath).toBe(path.join(dir, 'refrepo.lock.yaml'));
+    expect(loadLockfile()!.repos[repo.id].commit).toBe(COMMIT_A);
+  });
+
+  it('rejects abbreviated commits', () => {
+    fs.writeFileSync(
+      path.join(dir, 'refrepo.lock.yaml'),
+      `version: 1\nrepos:\n  test-repo:\n    url: ${repo.url}\n    ref: main\n    commit: abc123\n    lockedAt: now\n`
+    );
+    expect(() => loadLockfile()).toThrow(/Invalid lockfile/);
+  });
+
+  describe('getLockedCommit', () => {
+    const lockfile = {
+      version: 1,
+      repos: { [repo.id]: { url: repo.url, ref: 'main', commit: COMMIT_A, lockedAt: 'now' } },
+    };
+
+    it('returns the locked commit', () => {
+      expect(getLockedCommit(lockfile, repo)).toEqual({ commit: COMMIT_A });
+    });
+
+    it('fails for repos missing from the lockfile', () => {
+      expect(getLockedCommit(lockfile, { ...repo, id: 'other' }).error).toMatch(/Not in lockfile/);
+    });
+
+    it('fails when the manifest URL changed', () => {
+      expect(getLockedCommit(lockfile, { ...repo, url: 'https://github.com/fork/repo.git' }).error).toMatch(
+        /does not match manifest/
+      );
+    });
+  });
+
+  describe('updateLockfile', () => {
+    const manifest = (): Manifest => ({
+      version: 1,
+      defaultRoot: path.join(dir, 'repos'),
+      defaultStore: 'test',
+      repos: [repo, { ...repo, id: 'missing', localDir: 'missing' }],
+    });
+
+    beforeEach(() => {
+      const repoPath = path.join(dir, 'repos', repo.localDir);
+      fs.mkdirSync(repoPath, { recursive: true });
+      const git = (...args: string[]) =>
+        execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+          cwd: repoPath,
+          stdio: 'pipe',
+        });
+      git('init', '-q');
+      git('commit', '-q', '--allow-empty', '-m', 'init');
+    });
+
+    it('records HEAD commits and skips repos that are not cloned', async () => {
+      const { results } = await updateLockfile(manifest());
+
+      expect(results.find((r) => r.repoId === 'missing')!.action).toBe('skipped');
+      const locked = results.find((r) => r.repoId === repo.id)!;
+      expect(locked.action).toBe('locked');
+      expect(loadLockfile()!.repos[repo.id]).toMatchObject({ url: repo.url, ref: 'main', commit: locked.commit });
+    });
+
+    it('reports unchanged commits on repeat updates', async () => {
+      await updateLockfile(manifest());
+      const { results } = await updateLockfile(manifest());
+      expect(results.find((r) => r.repoId === repo.id)!.action).toBe('unchanged');
+    });
+
+    it('records the pinned ref', async () => {
+      const m = manifest();
+      m.repos[0] = { ...repo, ref: 'v1.0.0' };
+      await updateLockfile(m);
+      expect(loadLockfile()!.repos[repo.id].ref).toBe('v1.0.0');
+    });
+  });
+});
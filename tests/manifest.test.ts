@@ -2,14 +2,32 @@
  * Tests for manifest module
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import {
   getDefaultManifest,
   getDefaultRepos,
   getEnabledRepos,
   getReposByCategory,
   getRepoPath,
+  getRepoStore,
+  getReposByStore,
+  loadManifest,
+  saveManifest,
+  inferRepoFromUrl,
+  addRepo,
+  removeRepo,
+  setRepoEnabled,
+  addRepoIgnoreDrops,
+  addCustomIgnores,
+  createCustomIgnoreEntry,
+  getCustomIgnorePatterns,
+  removeCustomIgnores,
+  undoLastCustomIgnores,
 } from '../src/core/manifest.js';
+import type { RepoConfig } from '../src/core/types.js';
 
 describe('getDefaultRepos', () => {
   it('returns expected number of repos', () => {
@@ -101,3 +119,229 @@ describe('getRepoPath', () => {
     expect(result).toBe('/home/user/Reference Repos/my-repo');
   });
 });
+
+describe('getRepoStore', () => {
+  it('defaults to manifest defaultStore', () => {
+    const manifest = getDefaultManifest();
+    expect(getRepoStore(manifest, manifest.repos[0])).toBe('wok-ops-platform');
+  });
+
+  it('uses per-repo mgrep store when set', () => {
+    const manifest = getDefaultManifest();
+    const repo = { ...manifest.repos[0], mgrep: { store: 'examples' } };
+    expect(getRepoStore(manifest, repo)).toBe('examples');
+  });
+});
+
+describe('getReposByStore', () => {
+  it('groups enabled repos by store with default store last', () => {
+    const manifest = getDefaultManifest();
+    manifest.repos = manifest.repos.map((r) =>
+      r.category === 'example' ? { ...r, mgrep: { store: 'examples' } } : r
+    );
+
+    const grouped = getReposByStore(manifest);
+    expect([...grouped.keys()]).toEqual(['examples', 'wok-ops-platform']);
+    expect(grouped.get('examples')!.length).toBe(4);
+    expect(grouped.get('wok-ops-platform')!.length).toBe(10);
+  });
+});
+
+describe('inferRepoFromUrl', () => {
+  it('infers id, name and localDir from https URLs', () => {
+    expect(inferRepoFromUrl('https://github.com/TanStack/router.git')).toEqual({
+      id: 'router',
+      name: 'Router',
+      localDir: 'router',
+    });
+  });
+
+  it('handles ssh URLs and separators', () => {
+    expect(inferRepoFromUrl('git@github.com:get-convex/convex_helpers.git').name).toBe('Convex Helpers');
+    expect(inferRepoFromUrl('git@github.com:get-convex/convex_helpers.git').id).toBe('convex-helpers');
+  });
+
+  it('prefixes owner when the id is taken', () => {
+    expect(inferRepoFromUrl('https://github.com/TanStack/router/', new Set(['router'])).id).toBe('tanstack-router');
+  });
+});
+
+describe('manifest editing', () => {
+  let dir: string;
+  let manifestPath: string;
+
+  const newRepo: RepoConfig = {
+    id: 'new-repo',
+    name: 'New Repo',
+    url: 'https://github.com/org/new-repo.git',
+    branch: 'trunk',
+    category: 'glue',
+    localDir: 'new-repo',
+    enabled: true,
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-manifest-'));
+    manifestPath = path.join(dir, 'refrepo.manifest.yaml');
+    fs.writeFileSync(
+      manifestPath,
+      [
+        '# Reference repos',
+        'version: 1',
+        'defaultStore: test # cloud store',
+        'repos:',
+        '  # Core library',
+        '  - id: a',
+        '    name: A',
+        '    url: https://github.com/org/a.git',
+        '    category: source',
+        '    localDir: a',
+        'customIgnores:',
+        '  - a/docs/ # not needed',
+        '',
+      ].join('\n')
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('preserves comments and omits schema defaults on save', () => {
+    const manifest = loadManifest(manifestPath);
+    manifest.customIgnores!.push('a/e2e/');
+    saveManifest(manifest, manifestPath);
+
+    const content = fs.readFileSync(manifestPath, 'utf-8');
+    expect(content).toContain('# Reference repos');
+    expect(content).toContain('# Core library');
+    expect(content).toContain('a/docs/ # not needed');
+    expect(content).toContain('- a/e2e/');
+    expect(content).not.toContain('enabled:');
+    expect(content).not.toContain('defaultRoot:');
+  });
+
+  it('appends new repos after existing ones', () => {
+    expect(addRepo(newRepo, manifestPath).success).toBe(true);
+
+    const manifest = loadManifest(manifestPath);
+    expect(manifest.repos.map((r) => r.id)).toEqual(['a', 'new-repo']);
+    expect(manifest.repos[1].branch).toBe('trunk');
+    expect(fs.readFileSync(manifestPath, 'utf-8')).toContain('# Core library');
+  });
+
+  it('rejects duplicate ids, local dirs and URLs', () => {
+    expect(addRepo({ ...newRepo, id: 'a' }, manifestPath).error).toMatch(/id already exists/);
+    expect(addRepo({ ...newRepo, localDir: 'a' }, manifestPath).error).toMatch(/Local directory/);
+    expect(addRepo({ ...newRepo, url: 'https://github.com/org/a.git' }, manifestPath).error).toMatch(/URL already/);
+  });
+
+  it('toggles enabled without touching other keys', () => {
+    expect(setRepoEnabled('a', false, manifestPath)).toEqual({ success: true, changed: true });
+    expect(setRepoEnabled('a', false, manifestPath)).toEqual({ success: true, changed: false });
+
+    const content = fs.readFileSync(manifestPath, 'utf-8');
+    expect(content).toContain('enabled: false');
+    expect(content).not.toContain('branch:');
+  });
+
+  it('merges drops into the repo ignore config', () => {
+    expect(addRepoIgnoreDrops('a', { dropPaths: ['examples/'], dropExtensions: ['.svg'] }, manifestPath)).toEqual({
+      success: true,
+      added: ['examples/', '.svg'],
+    });
+    expect(addRepoIgnoreDrops('a', { dropPaths: ['examples/', 'docs/'] }, manifestPath).added).toEqual(['docs/']);
+
+    const repo = loadManifest(manifestPath).repos[0];
+    expect(repo.ignore).toEqual({
+      mode: 'denylist',
+      keepPaths: [],
+      dropPaths: ['examples/', 'docs/'],
+      dropExtensions: ['.svg'],
+    });
+    expect(addRepoIgnoreDrops('missing', { dropPaths: ['x/'] }, manifestPath).error).toMatch(/Unknown repo/);
+  });
+
+  it('removes repos by id', () => {
+    addRepo(newRepo, manifestPath);
+    expect(removeRepo('a', manifestPath).removed!.id).toBe('a');
+    expect(loadManifest(manifestPath).repos.map((r) => r.id)).toEqual(['new-repo']);
+    expect(removeRepo('missing', manifestPath).error).toMatch(/Unknown repo/);
+  });
+
+  it('drops threshold and rule overrides of removed repos', () => {
+    addRepo(newRepo, manifestPath);
+    const manifest = loadManifest(manifestPath);
+    manifest.thresholds = { repos: { a: { maxFileCountError: 10000 }, 'new-repo': { maxFileCountError: 20000 } } };
+    manifest.ignoreRules = [{ id: 'a', merge: 'extend', dropPaths: ['docs/'] }];
+    saveManifest(manifest, manifestPath);
+
+    expect(removeRepo('a', manifestPath).success).toBe(true);
+    const saved = loadManifest(manifestPath);
+    expect(saved.thresholds).toEqual({ repos: { 'new-repo': { maxFileCountError: 20000 } } });
+    expect(saved.ignoreRules).toBeUndefined();
+  });
+
+  it('refuses to save a manifest that would not load', () => {
+    const manifest = loadManifest(manifestPath);
+    manifest.thresholds = { repos: { missing: { maxFileCountError: 10000 } } };
+
+    expect(() => saveManifest(manifest, manifestPath)).toThrow(/thresholds\.repos\.missing: Unknown repo id/);
+    expect(loadManifest(manifestPath).thresholds).toBeUndefined();
+  });
+
+  it('adds structured customIgnores with one timestamp per call', () => {
+    const files = Array.from({ length: 25 }, (_, i) => `a/examples/vue/${i}.ts`);
+    const entry = createCustomIgnoreEntry('a/examples/vue/', { source: 'model', addedBy: 'heuristic', reason: 'Vue', files });
+    expect(entry.fileCount).toBe(25);
+    expect(entry.files).toHaveLength(20);
+
+    expect(addCustomIgnores([entry, createCustomIgnoreEntry('a/e2e/', { source: 'human' }), 'a/docs/'], manifestPath).added).toEqual([
+      'a/examples/vue/',
+      'a/e2e/',
+    ]);
+
+    const manifest = loadManifest(manifestPath);
+    expect(getCustomIgnorePatterns(manifest)).toEqual(['a/docs/', 'a/examples/vue/', 'a/e2e/']);
+    const [, vue, e2e] = manifest.customIgnores as Array<{ addedAt?: string; source?: string }>;
+    expect(vue.source).toBe('model');
+    expect(vue.addedAt).toBeDefined();
+    expect(e2e.addedAt).toBe(vue.addedAt);
+    expect(fs.readFileSync(manifestPath, 'utf-8')).toContain('a/docs/ # not needed');
+  });
+
+  it('removes customIgnores by pattern', () => {
+    addCustomIgnores([createCustomIgnoreEntry('a/e2e/', { source: 'human' })], manifestPath);
+
+    expect(removeCustomIgnores(['a/e2e/', 'a/missing/'], manifestPath).error).toMatch(/Not in customIgnores: a\/missing\//);
+    expect(getCustomIgnorePatterns(loadManifest(manifestPath))).toEqual(['a/docs/', 'a/e2e/']);
+
+    expect(removeCustomIgnores(['a/docs/', 'a/e2e/'], manifestPath).removed).toEqual([
+      'a/docs/',
+      expect.objectContaining({ pattern: 'a/e2e/', source: 'human' }),
+    ]);
+    expect(getCustomIgnorePatterns(loadManifest(manifestPath))).toEqual([]);
+  });
+
+  it('undoes the most recent customIgnores write', () => {
+    expect(undoLastCustomIgnores(manifestPath).error).toMatch(/No customIgnores entries/);
+
+    addCustomIgnores([{ pattern: 'a/e2e/', source: 'human', addedAt: '2026-01-01T00:00:00.000Z' }], manifestPath);
+    addCustomIgnores(
+      [
+        { pattern: 'a/examples/', source: 'model', addedAt: '2026-02-01T00:00:00.000Z' },
+        { pattern: 'a/bench/', source: 'model', addedAt: '2026-02-01T00:00:00.000Z' },
+      ],
+      manifestPath
+    );
+
+    const preview = undoLastCustomIgnores(manifestPath, { dryRun: true });
+    expect(preview.removed.map((e) => e.pattern)).toEqual(['a/examples/', 'a/bench/']);
+    expect(getCustomIgnorePatterns(loadManifest(manifestPath))).toHaveLength(4);
+
+    expect(undoLastCustomIgnores(manifestPath).success).toBe(true);
+    expect(getCustomIgnorePatterns(loadManifest(manifestPath))).toEqual(['a/docs/', 'a/e2e/']);
+    expect(undoLastCustomIgnores(manifestPath).removed.map((e) => e.pattern)).toEqual(['a/e2e/']);
+    expect(undoLastCustomIgnores(manifestPath).success).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for the mgrep client (against a fake mgrep script)
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  classifyMgrepFailure,
+  createMgrepClient,
+  MgrepError,
+  parseMgrepLine,
+  type MgrepEvent,
+} from '../src/core/mgrep.js';
+
+// Behaves like mgrep according to FAKE_MGREP_MODE
+const FAKE_MGREP = `
+const args = process.argv.slice(2);
+const mode = process.env.FAKE_MGREP_MODE;
+const root = process.cwd();
+const fail = (message, code = 1) => { process.stderr.write(message + '\\n'); process.exit(code); };
+
+if (args[0] === '--version') { console.log('0.9.1'); process.exit(0); }
+if (mode === 'auth') fail('Error: Unauthorized (401) - run mgrep login');
+if (mode === 'quota') fail('Error: 429 Too Many Requests');
+if (mode === 'network') fail('FetchError: request failed, reason: getaddrinfo ENOTFOUND api.mixedbread.com');
+if (mode === 'broken') fail('Error: something else');
+if (mode === 'broken-after-files') {
+  process.stderr.write('✔ Uploaded ' + root + '/app/docs/authentication.md\\n');
+  process.stderr.write('- Indexing files (1/4)\\r');
+  fail('Error: something else');
+}
+
+if (args.includes('search')) {
+  if (args.includes('--json')) console.log(JSON.stringify({ args, results: [{ path: 'app/a.ts', score: 0.9 }] }));
+  else console.log('app/a.ts:1 match');
+  process.exit(0);
+}
+
+if (args.includes('--dry-run')) {
+  console.log('Dry run: would have uploaded ' + root + '/app/src/a.ts');
+  console.log('Dry run: would have uploaded app/src/b.ts');
+  console.log('Dry run: would have deleted ' + root + '/app/old.ts');
+  console.log('Dry run: found 4 files in total, would have uploaded 2 changed or new files, would have deleted 1 files');
+  process.exit(0);
+}
+
+if (mode === 'hang') setInterval(() => {}, 1000);
+else {
+  process.stderr.write('- Indexing files (1/4)\\r');
+  process.stderr.write('- Indexing files (4/4)\\r');
+  setTimeout(() => {
+    process.stderr.write('\\u001b[32m✔\\u001b[39m Initial sync complete (4/4) • uploaded 2 • deleted 1\\n');
+    if (mode === 'crash') setTimeout(() => fail('Error: watcher crashed', 3), 50);
+    else setInterval(() => {}, 1000);
+  }, 50);
+}
+`;
+
+describe('parseMgrepLine', () => {
+  it('parses summaries, files and progress', () => {
+    expect(parseMgrepLine('✔ Initial sync complete (2328/2328) • uploaded 5 • deleted 3', '/r')).toMatchObject({
+      type: 'synced',
+      filesFound: 2328,
+      filesUploaded: 5,
+      filesDeleted: 3,
+    });
+    expect(parseMgrepLine('found 10 files in total, would have uploaded 4 changed or new files, would have deleted 2 files', '/r')).toMatchObject({
+      type: 'synced',
+      filesFound: 10,
+      filesUploaded: 4,
+      filesDeleted: 2,
+    });
+    expect(parseMgrepLine('Dry run: would have deleted /r/app/x.ts', '/r')).toMatchObject({ type: 'file', action: 'delete', path: 'app/x.ts' });
+    expect(parseMgrepLine('- Indexing files (12/40)', '/r')).toMatchObject({ type: 'progress', done: 12, total: 40 });
+    expect(parseMgrepLine('uploaded 5 files', '/r').type).toBe('output');
+  });
+
+  it('only treats mgrep per-file lines as file events', () => {
+    expect(parseMgrepLine('✔ Uploaded /r/app/x.ts', '/r')).toMatchObject({ type: 'file', action: 'upload', path: 'app/x.ts' });
+    expect(parseMgrepLine('Deleted stale cache entries', '/r').type).toBe('output');
+    expect(parseMgrepLine('Uploaded telemetry report', '/r').type).toBe('output');
+    expect(parseMgrepLine('✔ Deleted /tmp/mgrep-lock', '/r').type).toBe('output');
+  });
+});
+
+describe('classifyMgrepFailure', () => {
+  it('classifies auth, quota, network and other failures', () => {
+    expect(classifyMgrepFailure('Error: invalid API key', 1).kind).toBe('auth');
+    expect(classifyMgrepFailure('rate limit exceeded', 1).kind).toBe('quota');
+    expect(classifyMgrepFailure('connect ECONNREFUSED 127.0.0.1:443', 1).kind).toBe('network');
+    const other = classifyMgrepFailure('boom\n', 2);
+    expect(other).toBeInstanceOf(MgrepError);
+    expect(other).toMatchObject({ kind: 'failed', exitCode: 2, message: 'mgrep exited with code 2: boom' });
+  });
+});
+
+describe('createMgrepClient', () => {
+  let dir: string;
+  let bin: string;
+
+  const client = (mode?: string) => createMgrepClient({ root: dir, bin, env: { FAKE_MGREP_MODE: mode } });
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-mgrep-'));
+    bin = path.join(dir, 'mgrep');
+    fs.writeFileSync(bin, `#!${process.execPath}\n${FAKE_MGREP}`, { mode: 0o755 });
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports the version, or undefined when mgrep is missing', async () => {
+    expect(await client().version()).toBe('0.9.1');
+    expect(await createMgrepClient({ root: dir, bin: path.join(dir, 'missing') }).version()).toBeUndefined();
+  });
+
+  it('stops after the initial sync and emits typed events', async () => {
+    const events: MgrepEvent[] = [];
+    const result = await client().sync('store', { timeoutMs: 5_000, onEvent: (e) => events.push(e) });
+
+    expect(result).toEqual({ filesFound: 4, filesUploaded: 2, filesDeleted: 1, dryRun: false, uploadPaths: [], deletePaths: [] });
+    expect(events.map((e) => e.type)).toEqual(['progress', 'progress', 'synced']);
+    expect(events[2].line).toBe('✔ Initial sync complete (4/4) • uploaded 2 • deleted 1');
+  });
+
+  it('lists dry-run paths relative to the root', async () => {
+    expect(await client().sync('store', { dryRun: true, timeoutMs: 5_000 })).toEqual({
+      filesFound: 4,
+      filesUploaded: 2,
+      filesDeleted: 1,
+      dryRun: true,
+      uploadPaths: ['app/src/a.ts', 'app/src/b.ts'],
+      deletePaths: ['app/old.ts'],
+    });
+  });
+
+  it('classifies failures', async () => {
+    await expect(client('auth').sync('store')).rejects.toMatchObject({ kind: 'auth' });
+    await expect(client('quota').sync('store')).rejects.toMatchObject({ kind: 'quota' });
+    await expect(client('network').sync('store')).rejects.toMatchObject({ kind: 'network' });
+    await expect(client('broken').sync('store')).rejects.toMatchObject({ kind: 'failed', exitCode: 1 });
+    await expect(client('broken-after-files').sync('store')).rejects.toMatchObject({
+      kind: 'failed',
+      message: 'mgrep exited with code 1: Error: something else',
+    });
+    await expect(createMgrepClient({ root: dir, bin: path.join(dir, 'missing') }).sync('store')).rejects.toMatchObject({
+      kind: 'missing-binary',
+    });
+  });
+
+  it('times out and stops a hanging mgrep', async () => {
+    await expect(client('hang').sync('store', { timeoutMs: 300 })).rejects.toMatchObject({
+      kind: 'timeout',
+      message: 'mgrep timed out after 0.3 seconds',
+    });
+  });
+
+  it('keeps watching until stopped', async () => {
+    const exits: MgrepError[] = [];
+    let onSynced: () => void = () => {};
+    const synced = new Promise<void>((resolve) => (onSynced = resolve));
+    const handle = client().watch('store', {
+      onEvent: (e) => {
+        if (e.type === 'synced') onSynced();
+      },
+      onExit: (error) => exits.push(error),
+    });
+
+    await synced;
+    expect(handle.isRunning()).toBe(true);
+    await handle.stop();
+    expect(handle.isRunning()).toBe(false);
+    expect(exits).toEqual([]);
+  });
+
+  it('reports a watch that exits on its own', async () => {
+    const error = await new Promise<MgrepError>((resolve) => {
+      client('crash').watch('store', { onExit: resolve });
+    });
+    expect(error).toMatchObject({ kind: 'failed', exitCode: 3 });
+  });
+
+  it('searches with JSON output', async () => {
+    const data = (await client().search('store', 'router loader', { path: '/repos/app', limit: 5 })) as { args: string[] };
+    expect(data.args).toEqual(['--store', 'store', 'search', 'router loader', '/repos/app', '--limit', '5', '--json']);
+    await expect(client('auth').search('store', 'x')).rejects.toMatchObject({ kind: 'auth' });
+    await expect(createMgrepClient({ root: dir, bin: path.join(dir, 'missing') }).search('store', 'x')).rejects.toMatchObject({
+      kind: 'missing-binary',
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for customIgnores pattern safety checks
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { checkPatterns } from '../src/core/pattern-safety.js';
+import type { PlanSummary, RepoPlanResult } from '../src/core/plan.js';
+import type { Manifest, RepoCategory } from '../src/core/types.js';
+
+const FILES: Record<string, string[]> = {
+  router: [
+    'package.json',
+    'packages/react-router/package.json',
+    'packages/react-router/src/index.ts',
+    'packages/react-router/src/link.ts',
+    'packages/vue-router/package.json',
+    'packages/vue-router/src/index.ts',
+    'examples/react/basic/main.tsx',
+    'examples/vue/basic/main.ts',
+    'docs/guide.md',
+    'docs/api.md',
+    'README.md',
+    'src/index.ts',
+  ],
+  demo: ['package.json', 'src/app.ts'],
+};
+
+describe('checkPatterns', () => {
+  let root: string;
+  let manifest: Manifest;
+  let plan: PlanSummary;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-safety-'));
+    for (const [localDir, files] of Object.entries(FILES)) {
+      for (const file of files) {
+        const full = path.join(root, localDir, file);
+        fs.mkdirSync(path.dirname(full), { recursive: true });
+        fs.writeFileSync(full, 'x'.repeat(100));
+      }
+    }
+
+    const category = (id: string): RepoCategory => (id === 'router' ? 'source' : 'example');
+    manifest = {
+      version: 1,
+      defaultRoot: root,
+      defaultStore: 'test',
+      repos: Object.keys(FILES).map((id) => ({
+        id,
+        name: id,
+        url: `https://github.com/o/${id}.git`,
+        category: category(id),
+        localDir: id,
+        enabled: true,
+      })),
+    };
+
+    const repos = Object.entries(FILES).map(
+      ([id, files]) =>
+        ({
+          repoId: id,
+          localDir: id,
+          includedFileCount: files.length,
+          includedTotalBytes: files.length * 100,
+          files: files.map((f) => `${id}/${f}`),
+        }) as RepoPlanResult
+    );
+    plan = { repos, allFiles: repos.flatMap((r) => r.files ?? []) } as PlanSummary;
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should report the blast radius of a safe pattern', () => {
+    const [check] = checkPatterns(['router/examples/vue/'], plan, manifest);
+    expect(check).toMatchObject({ pattern: 'router/examples/vue/', safe: true, problems: [], fileCount: 1, bytes: 100 });
+    expect(check.repos).toEqual([{ repoId: 'router', localDir: 'router', fileCount: 1, bytes: 100, fraction: 1 / 12 }]);
+  });
+
+  it('should refuse patterns without a known repo directory', () => {
+    const [star, unknown] = checkPatterns(['*.md', 'other/docs/'], plan, manifest);
+    expect(star.safe).toBe(false);
+    expect(star.problems[0]).toContain('does not start with a repo directory');
+    expect(star.fileCount).toBe(3);
+    expect(unknown.problems[0]).toContain('does not start with a repo directory');
+  });
+
+  it('should accept anchored patterns', () => {
+    expect(checkPatterns(['/router/docs/api.md'], plan, manifest)[0].safe).toBe(true);
+  });
+
+  it('should refuse patterns removing too much of a repo', () => {
+    const [check] = checkPatterns(['router/'], plan, manifest);
+    expect(check.safe).toBe(false);
+    expect(check.problems).toContain('removes 100% of router (limit 25%)');
+  });
+
+  it('should use the configured fraction', () => {
+    expect(checkPatterns(['router/docs/'], plan, manifest)[0].safe).toBe(true);
+    manifest.patternSafety = { maxRepoFraction: 0.1 };
+    expect(checkPatterns(['router/docs/'], plan, manifest)[0].problems).toEqual(['removes 17% of router (limit 10%)']);
+  });
+
+  it('should refuse patterns removing kept packages of source repos', () => {
+    const [core, vue] = checkPatterns(['router/packages/react-router/', 'router/packages/vue-router/'], plan, manifest);
+    expect(core.problems).toEqual(['removes source package router/packages/react-router/']);
+    expect(core.protectedPackages).toEqual(['router/packages/react-router/']);
+    expect(vue.safe).toBe(true);
+  });
+
+  it('should not protect packages of other categories or when disabled', () => {
+    manifest.patternSafety = { maxRepoFraction: 1 };
+    expect(checkPatterns(['demo/package.json'], plan, manifest)[0].safe).toBe(true);
+
+    manifest.patternSafety = { protectSourcePackages: false };
+    expect(checkPatterns(['router/packages/react-router/'], plan, manifest)[0].safe).toBe(true);
+  });
+});
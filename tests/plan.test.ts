@@ -2,8 +2,13 @@
  * Tests for plan module
  */
 
-import { describe, it, expect } from 'vitest';
-import { formatBytes } from '../src/core/plan.js';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { formatBytes, buildDirectoryRollup, computeRepoPlan, computePlan } from '../src/core/plan.js';
+import { resolveThresholds } from '../src/core/thresholds.js';
+import type { Manifest, RepoConfig } from '../src/core/types.js';
 import { PLAN_THRESHOLDS } from '../src/core/constants.js';
 
 describe('formatBytes', () => {
@@ -30,6 +35,36 @@ describe('formatBytes', () => {
   });
 });
 
+describe('buildDirectoryRollup', () => {
+  const files = [
+    { path: 'README.md', bytes: 5 },
+    { path: 'src/index.ts', bytes: 10 },
+    { path: 'examples/react/basic/app.tsx', bytes: 30 },
+    { path: 'examples/react/kitchen/app.tsx', bytes: 40 },
+    { path: 'examples/vue/app.ts', bytes: 20 },
+  ];
+
+  it('rolls files up to the given depth, heaviest first', () => {
+    expect(buildDirectoryRollup(files, 2)).toEqual([
+      { path: 'examples/react/', fileCount: 2, bytes: 70 },
+      { path: 'examples/vue/', fileCount: 1, bytes: 20 },
+      { path: 'src/', fileCount: 1, bytes: 10 },
+      { path: '(root)', fileCount: 1, bytes: 5 },
+    ]);
+  });
+
+  it('supports shallower and deeper rollups', () => {
+    expect(buildDirectoryRollup(files, 1).map((d) => d.path)).toEqual(['examples/', 'src/', '(root)']);
+    expect(buildDirectoryRollup(files, 3).map((d) => d.path)).toEqual([
+      'examples/react/kitchen/',
+      'examples/react/basic/',
+      'examples/vue/',
+      'src/',
+      '(root)',
+    ]);
+  });
+});
+
 describe('PLAN_THRESHOLDS', () => {
   it('has warning thresholds', () => {
     expect(PLAN_THRESHOLDS.maxTotalBytesWarning).toBe(15 * 1024 * 1024);
@@ -50,3 +85,219 @@ describe('PLAN_THRESHOLDS', () => {
     );
   });
 });
+
+describe('computeRepoPlan with manifest ignore config', () => {
+  let repoPath: string;
+
+  const writeFile = (rel: string, content = 'x') => {
+    const full = path.join(repoPath, rel);
+    fs.mkdirSync(path.dirname(full), { recursive: true });
+    fs.writeFileSync(full, content);
+  };
+
+  const planFiles = async (options: Parameters<typeof computeRepoPlan>[4]) =>
+    (await computeRepoPlan('test-repo', 'Test', 'test-repo', repoPath, options)).files;
+
+  beforeEach(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-plan-'));
+    writeFile('README.md');
+    writeFile('src/index.ts');
+    writeFile('src/index.test.ts');
+    writeFile('src/styles.css');
+    writeFile('examples/app/main.ts');
+    writeFile('packages/ui/button.tsx');
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('applies denylist drop paths and extensions', async () => {
+    expect(
+      await planFiles({ ignoreConfig: { mode: 'denylist', keepPaths: [], dropPaths: ['examples/'], dropExtensions: ['css'] } })
+    ).toEqual(['test-repo/README.md', 'test-repo/packages/ui/button.tsx', 'test-repo/src/index.ts']);
+  });
+
+  it('includes a directory rollup at the requested depth', async () => {
+    const result = await computeRepoPlan('test-repo', 'Test', 'test-repo', repoPath, { rollupDepth: 1 });
+    expect(result.directoryRollup.map((d) => [d.path, d.fileCount])).toEqual([
+      ['src/', 2],
+      ['(root)', 1],
+      ['examples/', 1],
+      ['packages/', 1],
+    ]);
+  });
+
+  it('indexes only keepPaths in allowlist mode', async () => {
+    expect(
+      await planFiles({ ignoreConfig: { mode: 'allowlist', keepPaths: ['src/', 'packages/ui/'], dropPaths: [] } })
+    ).toEqual(['test-repo/packages/ui/button.tsx', 'test-repo/src/index.ts', 'test-repo/src/styles.css']);
+  });
+
+  it('limits allowlist to keepExtensions', async () => {
+    expect(
+      await planFiles({ ignoreConfig: { mode: 'allowlist', keepPaths: ['src/'], dropPaths: [], keepExtensions: ['.ts'] } })
+    ).toEqual(['test-repo/src/index.ts']);
+  });
+});
+
+describe('resolveThresholds', () => {
+  const repo: RepoConfig = {
+    id: 'glue-repo',
+    name: 'Glue',
+    url: 'https://github.com/org/glue.git',
+    branch: 'main',
+    category: 'glue',
+    localDir: 'glue-repo',
+    enabled: true,
+  };
+
+  const manifest = (thresholds?: Manifest['thresholds']): Manifest => ({
+    version: 1,
+    defaultRoot: '/tmp/repos',
+    defaultStore: 'test',
+    repos: [repo],
+    thresholds,
+  });
+
+  it('defaults to PLAN_THRESHOLDS', () => {
+    expect(resolveThresholds(manifest(), repo)).toEqual(PLAN_THRESHOLDS);
+  });
+
+  it('applies global, category and repo overrides in order', () => {
+    const resolved = resolveThresholds(
+      manifest({
+        maxFileCountWarning: 2_000,
+        maxTotalBytesWarning: 10 * 1024 * 1024,
+        categories: { glue: { maxFileCountWarning: 300, maxFileCountError: 1_000 } },
+        repos: { 'glue-repo': { maxFileCountError: 800 } },
+      }),
+      repo
+    );
+
+    expect(resolved).toEqual({
+      maxTotalBytesWarning: 10 * 1024 * 1024,
+      maxTotalBytesError: PLAN_THRESHOLDS.maxTotalBytesError,
+      maxFileCountWarning: 300,
+      maxFileCountError: 800,
+    });
+  });
+});
+
+describe('computePlan with per-repo settings', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-plan-root-'));
+    fs.mkdirSync(path.join(root, 'glue-repo', 'src'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'glue-repo', 'src', 'a.ts'), 'a'.repeat(100));
+    fs.writeFileSync(path.join(root, 'glue-repo', 'src', 'b.ts'), 'b'.repeat(5_000));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const manifest = (overrides: Partial<RepoConfig>, thresholds?: Manifest['thresholds']): Manifest => ({
+    version: 1,
+    defaultRoot: root,
+    defaultStore: 'test',
+    thresholds,
+    repos: [
+      {
+        id: 'glue-repo',
+        name: 'Glue',
+        url: 'https://github.com/org/glue.git',
+        branch: 'main',
+        category: 'glue',
+        localDir: 'glue-repo',
+        enabled: true,
+        ...overrides,
+      },
+    ],
+  });
+
+  it('applies per-repo maxFileSizeBytes during the walk', async () => {
+    const plan = await computePlan(manifest({ mgrep: { maxFileSizeBytes: 1_000 } }));
+    expect(plan.repos[0].files).toEqual(['glue-repo/src/a.ts']);
+    expect(plan.repos[0].maxFileSizeBytes).toBe(1_000);
+  });
+
+  it('uses category thresholds for the warning level', async () => {
+    const plan = await computePlan(manifest({}, { categories: { glue: { maxFileCountWarning: 1 } } }));
+    expect(plan.repos[0].warningLevel).toBe('yellow');
+    expect(plan.overallWarningLevel).toBe('yellow');
+  });
+});
+
+describe('computePlan with on-disk ignore files', () => {
+  let root: string;
+
+  const writeFile = (rel: string, content = 'x') => {
+    const full = path.join(root, rel);
+    fs.mkdirSync(path.dirname(full), { recursive: true });
+    fs.writeFileSync(full, content);
+  };
+
+  const manifest = (): Manifest => ({
+    version: 1,
+    defaultRoot: root,
+    defaultStore: 'test',
+    repos: [
+      {
+        id: 'app-repo',
+        name: 'App',
+        url: 'https://github.com/org/app.git',
+        branch: 'main',
+        category: 'source',
+        localDir: 'app-repo',
+        enabled: true,
+      },
+    ],
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-plan-layers-'));
+    writeFile('app-repo/src/index.ts');
+    writeFile('app-repo/src/generated/api.ts');
+    writeFile('app-repo/src/generated/keep.ts');
+    writeFile('app-repo/docs/guide.md');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('applies nested .gitignore files relative to their directory', async () => {
+    writeFile('app-repo/src/.gitignore', 'generated/\n');
+    const plan = await computePlan(manifest());
+    expect(plan.repos[0].files).toEqual(['app-repo/docs/guide.md', 'app-repo/src/index.ts']);
+    expect(plan.repos[0].ignoreSources).toContain('app-repo/src/.gitignore');
+  });
+
+  it('lets a deeper negation re-include a file', async () => {
+    writeFile('app-repo/.gitignore', 'src/generated/*\n');
+    writeFile('app-repo/src/generated/.mgrepignore', '!keep.ts\n');
+    const plan = await computePlan(manifest());
+    expect(plan.repos[0].files).toEqual([
+      'app-repo/docs/guide.md',
+      'app-repo/src/generated/keep.ts',
+      'app-repo/src/index.ts',
+    ]);
+  });
+
+  it('uses the root .mgrepignore on disk and warns when it is stale', async () => {
+    writeFile('.mgrepignore', 'docs/\n');
+    const plan = await computePlan(manifest());
+    expect(plan.repos[0].files).not.toContain('app-repo/docs/guide.md');
+    expect(plan.ignoreSource).toBe('disk');
+    expect(plan.ignoreWarnings).toHaveLength(1);
+  });
+
+  it('ignores the on-disk file when evaluating generated rules', async () => {
+    writeFile('.mgrepignore', 'docs/\n');
+    const plan = await computePlan(manifest(), { ignoreSource: 'generated' });
+    expect(plan.repos[0].files).toContain('app-repo/docs/guide.md');
+    expect(plan.ignoreWarnings).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for stack profiles
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BUILTIN_PROFILES, buildStackContext, resolveProfile, stackSlug } from '../src/core/profiles.js';
+import { buildStackPatterns, getGlobalIgnorePatterns, GLOBAL_IGNORE_PATTERNS } from '../src/core/ignore-rules.js';
+import { buildGlobalIgnore } from '../src/core/ignore.js';
+import type { Manifest } from '../src/core/types.js';
+
+describe('resolveProfile', () => {
+  it('defaults to the tanstack-convex profile', () => {
+    expect(resolveProfile()).toBe(BUILTIN_PROFILES['tanstack-convex']);
+  });
+
+  it('overrides fields of the extended profile', () => {
+    const profile = resolveProfile({ extends: 'nextjs-prisma', dropFrameworks: ['Vue'] });
+    expect(profile.name).toBe(BUILTIN_PROFILES['nextjs-prisma'].name);
+    expect(profile.dropFrameworks).toEqual(['Vue']);
+    expect(profile.generatePatterns).toBe(true);
+  });
+
+  it('does not generate patterns for custom profiles unless asked', () => {
+    expect(resolveProfile({ name: 'Solid', dropFrameworks: ['React'] })).toMatchObject({
+      name: 'Solid',
+      description: '',
+      generatePatterns: false,
+    });
+  });
+
+  it('rejects unknown built-in profiles', () => {
+    expect(() => resolveProfile({ extends: 'rails' })).toThrow(/Unknown profile: rails/);
+  });
+});
+
+describe('stackSlug', () => {
+  it('normalizes names', () => {
+    expect(stackSlug('Next.js')).toBe('nextjs');
+    expect(stackSlug('Cloudflare Workers')).toBe('cloudflareworkers');
+  });
+});
+
+describe('buildStackPatterns', () => {
+  it('reproduces the default stack exclusions', () => {
+    expect(buildStackPatterns(resolveProfile())).toEqual([
+      '*.vue',
+      '*.svelte',
+      '*.astro',
+      'drizzle/',
+      'drizzle.config.ts',
+      'wrangler.jsonc',
+      'wrangler.toml',
+      'worker-configuration.d.ts',
+    ]);
+  });
+
+  it('keeps framework files the profile uses', () => {
+    const patterns = buildStackPatterns(resolveProfile({ extends: 'vue-nuxt' }));
+    expect(patterns).toContain('*.svelte');
+    expect(patterns).not.toContain('*.vue');
+  });
+
+  it('skips names without known patterns and disabled generation', () => {
+    expect(buildStackPatterns(resolveProfile({ dropFrameworks: ['Solid'], generatePatterns: true }))).toEqual([]);
+    expect(buildStackPatterns(resolveProfile({ dropFrameworks: ['Vue'] }))).toEqual([]);
+  });
+});
+
+describe('getGlobalIgnorePatterns', () => {
+  it('appends stack patterns to the global patterns', () => {
+    const patterns = getGlobalIgnorePatterns(resolveProfile({ extends: 'nextjs-prisma' }));
+    expect(patterns.slice(0, GLOBAL_IGNORE_PATTERNS.length)).toEqual([...GLOBAL_IGNORE_PATTERNS]);
+    expect(patterns).toContain('deno.json');
+    expect(patterns).not.toContain('prisma/');
+  });
+});
+
+describe('buildStackContext', () => {
+  it('describes the stack and what to ignore', () => {
+    const context = buildStackContext(resolveProfile({ extends: 'vue-nuxt', excludedTargets: ['Vercel'] }));
+    expect(context).toContain('Our tech stack (Nuxt + Vue):');
+    expect(context).toContain('- Pinia (state management)');
+    expect(context).toContain("frameworks we don't use (React, Svelte, Astro, Solid, Angular)");
+    expect(context).toContain("deployment targets we don't use (Vercel)");
+  });
+});
+
+describe('buildGlobalIgnore with a profile', () => {
+  const manifest = (profile?: Manifest['profile']): Manifest => ({
+    version: 1,
+    defaultRoot: '/tmp/repos',
+    defaultStore: 'test',
+    repos: [],
+    profile,
+  });
+
+  it('uses the profile name and patterns', () => {
+    const { content } = buildGlobalIgnore(manifest({ extends: 'vue-nuxt' }));
+    expect(content).toContain('# Only index content relevant to: Nuxt + Vue');
+    expect(content).toContain('\n**/*.svelte\n');
+    expect(content).not.toContain('**/*.vue');
+  });
+
+  it('keeps the default exclusions without a profile', () => {
+    const { content } = buildGlobalIgnore(manifest());
+    expect(content).toContain('TanStack Start + Convex + Better Auth + React');
+    expect(content).toContain('\n**/*.vue\n');
+    expect(content).toContain('\n**/wrangler.toml\n');
+  });
+});
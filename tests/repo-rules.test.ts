@@ -0,0 +1,122 @@
+/**
+ * Tests for repo-specific rule loading
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  loadRuleFile,
+  loadRuleFiles,
+  resolveRepoIgnoreRules,
+  exportBuiltInRules,
+  formatRuleFile,
+} from '../src/core/repo-rules.js';
+import { getRepoIgnoreConfig } from '../src/core/ignore-rules.js';
+import type { Manifest } from '../src/core/types.js';
+
+describe('repo rules', () => {
+  let rulesDir: string;
+
+  const manifest = (ignoreRules?: Manifest['ignoreRules']): Manifest => ({
+    version: 1,
+    defaultRoot: '/tmp/repos',
+    defaultStore: 'test',
+    repos: [],
+    ignoreRules,
+  });
+
+  beforeEach(() => {
+    rulesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-rules-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rulesDir, { recursive: true, force: true });
+  });
+
+  describe('loadRuleFile', () => {
+    it('derives id from file name', () => {
+      const file = path.join(rulesDir, 'my-repo.yaml');
+      fs.writeFileSync(file, 'dropPaths:\n  - docs/\n');
+
+      const rules = loadRuleFile(file);
+      expect(rules.id).toBe('my-repo');
+      expect(rules.merge).toBe('extend');
+      expect(rules.dropPaths).toEqual(['docs/']);
+    });
+
+    it('rejects id that does not match file name', () => {
+      const file = path.join(rulesDir, 'my-repo.yaml');
+      fs.writeFileSync(file, 'id: other\ndropPaths: []\n');
+      expect(() => loadRuleFile(file)).toThrow(/does not match file name/);
+    });
+
+    it('rejects invalid schema', () => {
+      const file = path.join(rulesDir, 'my-repo.yaml');
+      fs.writeFileSync(file, 'dropPaths: docs/\n');
+      expect(() => loadRuleFile(file)).toThrow(/Invalid rule file/);
+    });
+  });
+
+  it('returns no rules when directory is missing', () => {
+    expect(loadRuleFiles(path.join(rulesDir, 'missing'))).toEqual([]);
+  });
+
+  describe('resolveRepoIgnoreRules', () => {
+    it('includes built-in rules', () => {
+      const resolved = resolveRepoIgnoreRules(manifest(), rulesDir);
+      expect(resolved.get('tanstack-router')).toEqual(getRepoIgnoreConfig('tanstack-router'));
+    });
+
+    it('extends built-in rules from manifest', () => {
+      const resolved = resolveRepoIgnoreRules(
+        manifest([{ id: 'turborepo-shadcn-ui', dropPaths: ['apps/web/'] }]),
+        rulesDir
+      );
+      expect(resolved.get('turborepo-shadcn-ui')!.dropPaths).toEqual(['apps/docs/', 'apps/web/']);
+    });
+
+    it('lets sidecar files replace manifest and built-in rules', () => {
+      fs.writeFileSync(
+        path.join(rulesDir, 'turborepo-shadcn-ui.yaml'),
+        'merge: replace\ndropPaths:\n  - packages/\n'
+      );
+      const resolved = resolveRepoIgnoreRules(
+        manifest([{ id: 'turborepo-shadcn-ui', dropPaths: ['apps/web/'] }]),
+        rulesDir
+      );
+      expect(resolved.get('turborepo-shadcn-ui')!.dropPaths).toEqual(['packages/']);
+    });
+
+    it('adds rules for repos without built-ins', () => {
+      fs.writeFileSync(path.join(rulesDir, 'new-repo.yml'), 'notes: New\ndropPaths:\n  - e2e/\n');
+      const resolved = resolveRepoIgnoreRules(manifest(), rulesDir);
+      expect(resolved.get('new-repo')).toEqual({
+        id: 'new-repo',
+        notes: 'New',
+        dropPaths: ['e2e/'],
+        keepPaths: undefined,
+      });
+    });
+  });
+
+  describe('exportBuiltInRules', () => {
+    it('exports all built-ins with merge: replace', () => {
+      const rules = exportBuiltInRules();
+      expect(rules.length).toBeGreaterThan(0);
+      expect(rules.every((r) => r.merge === 'replace')).toBe(true);
+    });
+
+    it('round-trips through the sidecar format', () => {
+      const [rule] = exportBuiltInRules('tanstack-router');
+      const file = path.join(rulesDir, 'tanstack-router.yaml');
+      fs.writeFileSync(file, formatRuleFile(rule));
+
+      const resolved = resolveRepoIgnoreRules(manifest(), rulesDir);
+      expect(resolved.get('tanstack-router')!.dropPaths).toEqual(
+        getRepoIgnoreConfig('tanstack-router')!.dropPaths
+      );
+    });
+  });
+});
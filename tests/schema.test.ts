@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { validateManifest, safeValidateManifest, ManifestSchema } from '../src/core/schema.js';
+import { validateManifest, safeValidateManifest, ManifestSchema, StoreNameSchema } from '../src/core/schema.js';
 
 describe('ManifestSchema', () => {
   it('validates a minimal valid manifest', () => {
@@ -107,4 +107,125 @@ describe('ManifestSchema', () => {
     expect(result.data?.repos[0].branch).toBe('main');
     expect(result.data?.repos[0].enabled).toBe(true);
   });
+
+  it('accepts pinned ref and rejects empty ref', () => {
+    const repo = {
+      id: 'test',
+      name: 'Test',
+      url: 'https://github.com/user/repo.git',
+      category: 'source',
+      localDir: 'test',
+    };
+
+    const pinned = safeValidateManifest({ version: 1, repos: [{ ...repo, ref: 'v1.2.0' }] });
+    expect(pinned.success).toBe(true);
+    expect(pinned.data?.repos[0].ref).toBe('v1.2.0');
+
+    expect(safeValidateManifest({ version: 1, repos: [{ ...repo, ref: '' }] }).success).toBe(false);
+  });
+
+  it('validates thresholds block', () => {
+    const result = safeValidateManifest({
+      version: 1,
+      repos: [
+        {
+          id: 'tanstack-router',
+          name: 'TanStack Router',
+          url: 'https://github.com/TanStack/router.git',
+          category: 'source',
+          localDir: 'tanstack-router',
+        },
+      ],
+      thresholds: {
+        maxFileCountWarning: 3_000,
+        categories: { glue: { maxFileCountWarning: 300 } },
+        repos: { 'tanstack-router': { maxFileCountError: 20_000 } },
+      },
+    });
+    expect(result.success).toBe(true);
+    expect(result.data?.thresholds?.categories?.glue?.maxFileCountWarning).toBe(300);
+  });
+
+  it('rejects warning thresholds above error thresholds', () => {
+    const result = safeValidateManifest({
+      version: 1,
+      repos: [],
+      thresholds: { repos: { x: { maxFileCountWarning: 500, maxFileCountError: 100 } } },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects unknown threshold categories', () => {
+    const result = safeValidateManifest({
+      version: 1,
+      repos: [],
+      thresholds: { categories: { docs: { maxFileCountWarning: 300 } } },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('accepts a profile extending a built-in profile', () => {
+    const result = safeValidateManifest({
+      version: 1,
+      repos: [],
+      profile: { extends: 'vue-nuxt', excludedTargets: ['Vercel'], generatePatterns: true },
+    });
+    expect(result.success).toBe(true);
+    expect(result.data?.profile?.extends).toBe('vue-nuxt');
+  });
+
+  it('rejects unknown built-in profiles', () => {
+    const result = safeValidateManifest({ version: 1, repos: [], profile: { extends: 'rails' } });
+    expect(result.success).toBe(false);
+  });
+
+  it('accepts plain and structured customIgnores', () => {
+    const result = safeValidateManifest({
+      version: 1,
+      repos: [],
+      customIgnores: [
+        'a/docs/',
+        { pattern: 'a/examples/vue/', source: 'model', reason: 'Vue', addedAt: '2026-03-01T10:00:00.000Z', fileCount: 3 },
+      ],
+    });
+    expect(result.success).toBe(true);
+    expect(result.data?.customIgnores?.[1]).toMatchObject({ pattern: 'a/examples/vue/', source: 'model' });
+  });
+
+  it('rejects customIgnores entries with unknown sources or bad timestamps', () => {
+    expect(safeValidateManifest({ version: 1, repos: [], customIgnores: [{ pattern: 'a/', source: 'bot' }] }).success).toBe(false);
+    expect(
+      safeValidateManifest({ version: 1, repos: [], customIgnores: [{ pattern: 'a/', source: 'human', addedAt: 'yesterday' }] }).success
+    ).toBe(false);
+  });
+
+  it('accepts any store name in the manifest', () => {
+    expect(safeValidateManifest({ version: 1, repos: [], defaultStore: 'team/docs' }).success).toBe(true);
+  });
+
+  it('only allows safe file names as baseline store names', () => {
+    expect(StoreNameSchema.safeParse('docs.v2_main-1').success).toBe(true);
+    expect(StoreNameSchema.safeParse('..').success).toBe(false);
+    expect(StoreNameSchema.safeParse('a/b').success).toBe(false);
+  });
+
+  it('rejects threshold overrides for unknown repos', () => {
+    const result = safeValidateManifest({
+      version: 1,
+      repos: [{ id: 'app', name: 'App', url: 'https://github.com/org/app.git', category: 'source', localDir: 'app' }],
+      thresholds: { repos: { ap: { maxFileCountWarning: 5000 } } },
+    });
+    expect(result.success).toBe(false);
+    expect(String(result.error)).toMatch(/Unknown repo id: ap/);
+  });
+
+  it('rejects layers that resolve to a warning above the error threshold', () => {
+    const result = safeValidateManifest({
+      version: 1,
+      repos: [{ id: 'app', name: 'App', url: 'https://github.com/org/app.git', category: 'glue', localDir: 'app' }],
+      thresholds: { maxFileCountError: 3000, categories: { glue: { maxFileCountWarning: 4000 } } },
+    });
+    expect(result.success).toBe(false);
+    expect(String(result.error)).toMatch(/Resolved thresholds for app: maxFileCountWarning \(4000\) exceeds maxFileCountError \(3000\)/);
+  });
 });
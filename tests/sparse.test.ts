@@ -0,0 +1,90 @@
+/**
+ * Tests for sparse-checkout resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveSparseSpec, deriveSparseSpec, sparseStateMatches } from '../src/core/sparse.js';
+import type { RepoConfig } from '../src/core/types.js';
+
+const baseRepo: RepoConfig = {
+  id: 'test-repo',
+  name: 'Test',
+  url: 'https://github.com/user/repo.git',
+  branch: 'main',
+  category: 'source',
+  localDir: 'test-repo',
+  enabled: true,
+};
+
+describe('resolveSparseSpec', () => {
+  it('returns null when sparse checkout is not enabled', () => {
+    expect(resolveSparseSpec(baseRepo)).toBeNull();
+    expect(resolveSparseSpec({ ...baseRepo, sparseCheckout: { enabled: false, include: ['src'] } })).toBeNull();
+  });
+
+  it('uses include list in cone mode', () => {
+    const spec = resolveSparseSpec({
+      ...baseRepo,
+      sparseCheckout: { enabled: true, include: ['packages/react-router/', 'docs', '/docs/'] },
+    });
+    expect(spec).toEqual({ cone: true, patterns: ['docs', 'packages/react-router'] });
+  });
+
+  it('falls back to root files only when include is empty', () => {
+    expect(resolveSparseSpec({ ...baseRepo, sparseCheckout: { enabled: true, include: [] } })).toEqual({
+      cone: true,
+      patterns: [],
+    });
+  });
+
+  it('derives from ignore rules when requested', () => {
+    const spec = resolveSparseSpec(
+      { ...baseRepo, sparseCheckout: { enabled: true, include: [], fromIgnoreRules: true } },
+      { id: 'test-repo', dropPaths: ['examples/vue/', 'e2e/'] }
+    );
+    expect(spec).toEqual({ cone: false, patterns: ['/*', '!examples/vue/', '!e2e/'] });
+  });
+});
+
+describe('deriveSparseSpec', () => {
+  it('uses keepPaths directories for allowlist repos', () => {
+    const spec = deriveSparseSpec({
+      ...baseRepo,
+      ignore: { mode: 'allowlist', keepPaths: ['apps/v4/registry/ui/', 'lib/utils.ts', 'README.md'], dropPaths: [] },
+    });
+    expect(spec).toEqual({ cone: true, patterns: ['apps/v4/registry/ui', 'lib'] });
+  });
+
+  it('combines repo rules and manifest drop paths', () => {
+    const spec = deriveSparseSpec(
+      { ...baseRepo, ignore: { mode: 'denylist', keepPaths: [], dropPaths: ['docs/', 'e2e/'] } },
+      { id: 'test-repo', dropPaths: ['e2e/'] }
+    );
+    expect(spec.patterns).toEqual(['/*', '!e2e/', '!docs/']);
+  });
+});
+
+describe('sparseStateMatches', () => {
+  it('matches disabled state to null spec', () => {
+    expect(sparseStateMatches({ enabled: false, cone: false, patterns: [] }, null)).toBe(true);
+    expect(sparseStateMatches({ enabled: true, cone: true, patterns: [] }, null)).toBe(false);
+  });
+
+  it('ignores order in cone mode', () => {
+    expect(
+      sparseStateMatches({ enabled: true, cone: true, patterns: ['b', 'a'] }, { cone: true, patterns: ['a', 'b'] })
+    ).toBe(true);
+  });
+
+  it('detects include list changes', () => {
+    expect(
+      sparseStateMatches({ enabled: true, cone: true, patterns: ['a'] }, { cone: true, patterns: ['a', 'b'] })
+    ).toBe(false);
+  });
+
+  it('detects mode changes', () => {
+    expect(
+      sparseStateMatches({ enabled: true, cone: true, patterns: ['/*'] }, { cone: false, patterns: ['/*'] })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Tests for content-aware suggest batches
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  buildFileExcerpt,
+  buildSuggestBatches,
+  buildSuggestPrompt,
+  estimateTokens,
+  findOwningPackage,
+  mergeSuggestions,
+  readPackageSummary,
+} from '../src/core/suggest-batch.js';
+import { resolveProfile } from '../src/core/profiles.js';
+
+describe('excerpts', () => {
+  let root: string;
+
+  const writeFile = (rel: string, content = '') => {
+    const full = path.join(root, rel);
+    fs.mkdirSync(path.dirname(full), { recursive: true });
+    fs.writeFileSync(full, content);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-batch-'));
+    writeFile(
+      'router/packages/vue-router/package.json',
+      JSON.stringify({ name: '@tanstack/vue-router', description: 'Vue router', dependencies: { vue: '^3' }, peerDependencies: { vue: '^3' } })
+    );
+    writeFile('router/packages/vue-router/src/index.ts', "import { ref } from 'vue';\nimport x from './x';\n\nexport const a = ref(1);\n");
+    writeFile('router/src/plain.ts', 'export const b = 2;\n');
+    writeFile('router/assets/logo.png', Buffer.from([0x89, 0x50, 0x00, 0x47]).toString('binary'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should excerpt imports and leading lines', () => {
+    const excerpt = buildFileExcerpt(root, 'router/packages/vue-router/src/index.ts', 2);
+    expect(excerpt.imports).toEqual(['vue', './x']);
+    expect(excerpt.head).toBe("import { ref } from 'vue';\nimport x from './x';");
+  });
+
+  it('should leave binary files without an excerpt', () => {
+    expect(buildFileExcerpt(root, 'router/assets/logo.png')).toEqual({ path: 'router/assets/logo.png', imports: [], head: '' });
+  });
+
+  it('should find the nearest package.json below the repo directory', () => {
+    const cache = new Map<string, string | null>();
+    expect(findOwningPackage(root, 'router/packages/vue-router/src/index.ts', cache)).toBe(
+      'router/packages/vue-router/package.json'
+    );
+    expect(findOwningPackage(root, 'router/src/plain.ts', cache)).toBeUndefined();
+    expect(cache.get('router/packages/vue-router/src')).toBe('router/packages/vue-router/package.json');
+  });
+
+  it('should summarize a package.json', () => {
+    expect(readPackageSummary(root, 'router/packages/vue-router/package.json')).toEqual({
+      path: 'router/packages/vue-router/package.json',
+      name: '@tanstack/vue-router',
+      description: 'Vue router',
+      dependencies: ['vue'],
+    });
+  });
+
+  it('should put excerpts and packages in the prompt', () => {
+    const [batch] = buildSuggestBatches(['router/packages/vue-router/src/index.ts', 'router/src/plain.ts'], {
+      root,
+      profile: resolveProfile(),
+    });
+
+    expect(batch.files).toEqual(['router/packages/vue-router/src/index.ts', 'router/src/plain.ts']);
+    expect(batch.prompt).toContain('- router/packages/vue-router/package.json | name: @tanstack/vue-router');
+    expect(batch.prompt).toContain('### router/packages/vue-router/src/index.ts\npackage: router/packages/vue-router/package.json\nimports: vue, ./x');
+    expect(batch.prompt).toContain('export const b = 2;');
+  });
+
+  it('should list paths only when excerpts are off', () => {
+    const [batch] = buildSuggestBatches(['router/src/plain.ts'], { root, profile: resolveProfile(), excerptLines: 0 });
+    expect(batch.prompt).toContain('  - router/src/plain.ts');
+    expect(batch.prompt).not.toContain('export const b');
+  });
+
+  it('should split files across batches within the token budget', () => {
+    const files = Array.from({ length: 20 }, (_, i) => `router/src/file${i}.ts`);
+    for (const file of files) {
+      writeFile(file, `import { thing } from 'lib-${file}';\n${'x'.repeat(400)}\n`);
+    }
+    const profile = resolveProfile();
+    const baseTokens = estimateTokens(buildSuggestPrompt(profile, []));
+
+    const batches = buildSuggestBatches(files, { root, profile, maxPromptTokens: baseTokens + 400 });
+
+    expect(batches.length).toBeGreaterThan(1);
+    expect(batches.flatMap((b) => b.files)).toEqual(files);
+    for (const batch of batches) {
+      expect(batch.tokens).toBeLessThanOrEqual(baseTokens + 400 + 10);
+    }
+  });
+
+  it('should give an oversized file a batch of its own', () => {
+    writeFile('router/src/big.ts', 'y'.repeat(150).concat('\n').repeat(12));
+    const batches = buildSuggestBatches(['router/src/plain.ts', 'router/src/big.ts'], {
+      root,
+      profile: resolveProfile(),
+      maxPromptTokens: 10,
+    });
+    expect(batches.map((b) => b.files)).toEqual([['router/src/plain.ts'], ['router/src/big.ts']]);
+  });
+});
+
+describe('mergeSuggestions', () => {
+  const files = [
+    'router/examples/vue/basic/a.ts',
+    'router/examples/vue/basic/b.ts',
+    'router/examples/vue/kitchen/c.ts',
+    'router/examples/react/d.ts',
+    'router/src/e.ts',
+    'router/src/f.ts',
+  ];
+
+  it('should combine duplicate patterns from different batches', () => {
+    expect(
+      mergeSuggestions(
+        [
+          { pattern: 'router/src/e.ts', reason: 'Vue adapter' },
+          { pattern: 'router/src/e.ts', reason: 'Vue adapter' },
+          { pattern: 'router/src/e.ts', reason: 'imports vue' },
+        ],
+        files
+      )
+    ).toEqual([{ pattern: 'router/src/e.ts', reason: 'Vue adapter; imports vue' }]);
+  });
+
+  it('should collapse patterns to the narrowest fully ignored directory', () => {
+    expect(
+      mergeSuggestions(
+        [
+          { pattern: 'router/examples/vue/basic/a.ts', reason: 'Vue example' },
+          { pattern: 'router/examples/vue/basic/b.ts', reason: 'Vue example' },
+          { pattern: 'router/examples/vue/kitchen/', reason: 'Vue kitchen sink' },
+        ],
+        files
+      )
+    ).toEqual([{ pattern: 'router/examples/vue/', reason: 'Vue kitchen sink; Vue example' }]);
+  });
+
+  it('should not collapse when the directory has kept files', () => {
+    const suggestions = [
+      { pattern: 'router/examples/vue/', reason: 'Vue' },
+      { pattern: 'router/examples/solid/', reason: 'Solid' },
+    ];
+    expect(mergeSuggestions(suggestions, files).map((s) => s.pattern)).toEqual([
+      'router/examples/solid/',
+      'router/examples/vue/',
+    ]);
+  });
+
+  it('should never collapse into the repo directory', () => {
+    const suggestions = [
+      { pattern: 'router/examples/', reason: 'Examples' },
+      { pattern: 'router/src/', reason: 'Source' },
+    ];
+    expect(mergeSuggestions(suggestions, files.filter((f) => !f.startsWith('router/examples/react/'))).map((s) => s.pattern)).toEqual([
+      'router/examples/',
+      'router/src/',
+    ]);
+  });
+
+  it('should drop patterns inside an ignored directory and keep wildcards', () => {
+    expect(
+      mergeSuggestions(
+        [
+          { pattern: 'router/examples/vue/', reason: 'Vue' },
+          { pattern: 'router/examples/vue/basic/a.ts', reason: 'Vue' },
+          { pattern: 'router/**/*.vue', reason: 'SFCs' },
+        ],
+        files
+      ).map((s) => s.pattern)
+    ).toEqual(['router/**/*.vue', 'router/examples/vue/']);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for suggest providers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { classifyFiles, createSuggestProvider, formatHeuristicResponse } from '../src/core/suggest-providers.js';
+import { resolveProfile } from '../src/core/profiles.js';
+
+describe('classifyFiles', () => {
+  let root: string;
+
+  const writeFile = (rel: string, content = '') => {
+    const full = path.join(root, rel);
+    fs.mkdirSync(path.dirname(full), { recursive: true });
+    fs.writeFileSync(full, content);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-suggest-'));
+    writeFile('router/packages/vue-router/src/index.ts');
+    writeFile('router/packages/vue-router/src/link.ts');
+    writeFile('router/examples/solid/basic/main.tsx');
+    writeFile('router/src/adapter.ts', "import { ref } from 'vue';\n");
+    writeFile('router/src/mixed.ts', "import { ref } from 'vue';\nimport { useState } from 'react';\n");
+    writeFile('router/src/index.ts', "import { useState } from 'react';\n");
+    writeFile('vue-app/src/main.ts');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const files = () => [
+    'router/packages/vue-router/src/index.ts',
+    'router/packages/vue-router/src/link.ts',
+    'router/examples/solid/basic/main.tsx',
+    'router/src/adapter.ts',
+    'router/src/mixed.ts',
+    'router/src/index.ts',
+    'vue-app/src/main.ts',
+  ];
+
+  it('ignores directories named after dropped frameworks and files importing them', () => {
+    const matches = classifyFiles(files(), resolveProfile(), root);
+    expect(matches.map((m) => [m.pattern, m.files.length])).toEqual([
+      ['router/examples/solid/', 1],
+      ['router/packages/vue-router/', 2],
+      ['router/src/adapter.ts', 1],
+    ]);
+    expect(matches[1].reason).toBe('Vue code (directory vue-router)');
+    expect(matches[2].reason).toBe('Vue code (imports vue)');
+  });
+
+  it('follows the profile', () => {
+    const matches = classifyFiles(files(), resolveProfile({ extends: 'vue-nuxt' }), root);
+    expect(matches.map((m) => m.pattern)).toEqual(['router/examples/solid/', 'router/src/index.ts']);
+  });
+
+  it('formats matches as IGNORE lines with indented reasons', () => {
+    expect(formatHeuristicResponse([])).toBe('NONE');
+    expect(
+      formatHeuristicResponse([{ pattern: 'a/vue/', reason: 'Vue code (directory vue)', files: ['a/vue/x.ts'] }])
+    ).toBe('IGNORE: a/vue/ - Vue code (directory vue), 1 file(s)');
+  });
+
+  it('runs as a provider without a model', async () => {
+    const provider = createSuggestProvider({ provider: 'heuristic' });
+    expect(await provider.checkAvailable()).toBeNull();
+    const response = await provider.complete({ prompt: '', files: files(), profile: resolveProfile(), root });
+    expect(response).toContain('IGNORE: router/packages/vue-router/');
+  });
+});
+
+describe('createSuggestProvider', () => {
+  const request = { prompt: 'IGNORE: a/docs/', files: [], profile: resolveProfile(), root: os.tmpdir() };
+
+  it('pipes the prompt to a local command', async () => {
+    const provider = createSuggestProvider({
+      provider: 'command',
+      command: [process.execPath, '-e', 'process.stdin.pipe(process.stdout)'],
+    });
+    expect(await provider.checkAvailable()).toBeNull();
+    expect(await provider.complete(request)).toBe('IGNORE: a/docs/');
+  });
+
+  it('reports failing commands', async () => {
+    const provider = createSuggestProvider({ provider: 'command', command: [process.execPath, '-e', 'process.exit(3)'] });
+    await expect(provider.complete(request)).rejects.toThrow(/exited with code 3/);
+  });
+
+  it('requires a command and a model', async () => {
+    expect(await createSuggestProvider({ provider: 'command' }).checkAvailable()).toMatch(/suggest.command/);
+    expect(await createSuggestProvider({ provider: 'openai' }, {}).checkAvailable()).toMatch(/suggest.model/);
+    expect(await createSuggestProvider({ provider: 'openai', model: 'm' }, {}).checkAvailable()).toMatch(/OPENAI_API_KEY/);
+  });
+
+  it('calls OpenAI-compatible endpoints', async () => {
+    let received: { model?: string; messages?: Array<{ content: string }> } = {};
+    let auth: string | undefined;
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received = JSON.parse(body);
+        auth = req.headers.authorization;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ choices: [{ message: { content: ' NONE ' } }] }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const provider = createSuggestProvider(
+        { provider: 'openai', model: 'local', endpoint: `http://127.0.0.1:${port}/v1/`, apiKeyEnv: 'TEST_KEY' },
+        { TEST_KEY: 'secret' }
+      );
+      expect(await provider.checkAvailable()).toBeNull();
+      expect(await provider.complete(request)).toBe('NONE');
+      expect(received.model).toBe('local');
+      expect(received.messages?.[0].content).toBe('IGNORE: a/docs/');
+      expect(auth).toBe('Bearer secret');
+    } finally {
+      server.close();
+    }
+  });
+});
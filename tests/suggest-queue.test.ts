@@ -0,0 +1,159 @@
+/**
+ * Tests for the suggest review queue
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  getSuggestionQueuePath,
+  loadSuggestionQueue,
+  matchPatternFiles,
+  parseSuggestions,
+  queueSuggestions,
+  rejectSuggestion,
+  removePendingSuggestion,
+  saveSuggestionQueue,
+  type SuggestionQueue,
+} from '../src/core/suggest-queue.js';
+
+const emptyQueue = (): SuggestionQueue => ({ version: 1, pending: [], rejected: [] });
+
+describe('parseSuggestions', () => {
+  it('should parse patterns with inline reasons', () => {
+    expect(
+      parseSuggestions('IGNORE: router/examples/vue/ - Vue examples\nIGNORE: docs/nuxt.mdx — Nuxt guide')
+    ).toEqual([
+      { pattern: 'router/examples/vue/', reason: 'Vue examples' },
+      { pattern: 'docs/nuxt.mdx', reason: 'Nuxt guide' },
+    ]);
+  });
+
+  it('should take reasons from indented follow-up lines', () => {
+    expect(parseSuggestions('Some preamble\nIGNORE: a/vue/\n  Vue code\n  (3 files)\nIGNORE: `a/b.ts`')).toEqual([
+      { pattern: 'a/vue/', reason: 'Vue code (3 files)' },
+      { pattern: 'a/b.ts', reason: '' },
+    ]);
+  });
+
+  it('should return nothing for NONE', () => {
+    expect(parseSuggestions('NONE')).toEqual([]);
+  });
+});
+
+describe('matchPatternFiles', () => {
+  it('should match root-relative files', () => {
+    const files = ['router/examples/vue/a.ts', 'router/examples/react/a.ts', 'router/src/vue.ts'];
+    expect(matchPatternFiles('router/examples/vue/', files)).toEqual(['router/examples/vue/a.ts']);
+    expect(matchPatternFiles('router/**/*vue*', files)).toEqual(['router/examples/vue/a.ts', 'router/src/vue.ts']);
+  });
+});
+
+describe('queueSuggestions', () => {
+  const plannedFiles = ['a/vue/x.ts', 'a/vue/y.ts', 'a/src/z.ts'];
+  const now = new Date('2026-01-01T00:00:00Z');
+
+  it('should queue suggestions with matched files', () => {
+    const queue = emptyQueue();
+    const result = queueSuggestions(queue, [{ pattern: 'a/vue/', reason: 'Vue' }], { provider: 'heuristic', plannedFiles, now });
+
+    expect(result.queued).toHaveLength(1);
+    expect(queue.pending).toEqual([
+      { pattern: 'a/vue/', reason: 'Vue', files: ['a/vue/x.ts', 'a/vue/y.ts'], provider: 'heuristic', suggestedAt: now.toISOString() },
+    ]);
+  });
+
+  it('should skip rejected and existing patterns', () => {
+    const queue = emptyQueue();
+    queue.rejected.push({ pattern: 'a/vue/', reason: '', rejectedAt: now.toISOString() });
+
+    const result = queueSuggestions(
+      queue,
+      [{ pattern: 'a/vue/', reason: 'Vue' }, { pattern: 'a/src/', reason: 'Source' }],
+      { provider: 'claude', plannedFiles, customIgnores: ['a/src/'] }
+    );
+
+    expect(result.skippedRejected).toEqual(['a/vue/']);
+    expect(result.skippedExisting).toEqual(['a/src/']);
+    expect(queue.pending).toEqual([]);
+  });
+
+  it('should refresh a pattern that is already pending', () => {
+    const queue = emptyQueue();
+    queueSuggestions(queue, [{ pattern: 'a/vue/', reason: 'old' }], { provider: 'claude', plannedFiles });
+    queueSuggestions(queue, [{ pattern: 'a/vue/', reason: 'new' }], { provider: 'claude', plannedFiles });
+
+    expect(queue.pending.map((p) => p.reason)).toEqual(['new']);
+  });
+});
+
+describe('rejectSuggestion', () => {
+  it('should move a pending suggestion to rejected once', () => {
+    const queue = emptyQueue();
+    queueSuggestions(queue, [{ pattern: 'a/vue/', reason: 'Vue' }], { provider: 'claude', plannedFiles: [] });
+
+    rejectSuggestion(queue, 'a/vue/');
+    rejectSuggestion(queue, 'a/vue/');
+
+    expect(queue.pending).toEqual([]);
+    expect(queue.rejected.map((r) => [r.pattern, r.reason])).toEqual([['a/vue/', 'Vue']]);
+  });
+
+  it('should leave rejections out of later runs', () => {
+    const queue = emptyQueue();
+    queueSuggestions(queue, [{ pattern: 'a/vue/', reason: 'Vue' }], { provider: 'claude', plannedFiles: [] });
+    rejectSuggestion(queue, 'a/vue/');
+
+    const result = queueSuggestions(queue, [{ pattern: 'a/vue/', reason: 'Vue' }], { provider: 'claude', plannedFiles: [] });
+    expect(result.queued).toEqual([]);
+  });
+});
+
+describe('removePendingSuggestion', () => {
+  it('should return the removed suggestion', () => {
+    const queue = emptyQueue();
+    queueSuggestions(queue, [{ pattern: 'a/vue/', reason: 'Vue' }], { provider: 'claude', plannedFiles: [] });
+
+    expect(removePendingSuggestion(queue, 'a/vue/')?.reason).toBe('Vue');
+    expect(removePendingSuggestion(queue, 'a/vue/')).toBeUndefined();
+  });
+});
+
+describe('queue file', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-queue-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should live next to the manifest', () => {
+    expect(getSuggestionQueuePath(path.join(dir, 'refrepo.manifest.yaml'))).toBe(
+      path.join(dir, '.refrepo-suggestions.json')
+    );
+  });
+
+  it('should round-trip and default to an empty queue', () => {
+    const queuePath = path.join(dir, '.refrepo-suggestions.json');
+    expect(loadSuggestionQueue(queuePath)).toEqual(emptyQueue());
+
+    const queue = emptyQueue();
+    queueSuggestions(queue, [{ pattern: 'a/vue/', reason: 'Vue' }], { provider: 'claude', plannedFiles: [] });
+    rejectSuggestion(queue, 'a/vue/');
+    saveSuggestionQueue(queue, queuePath);
+
+    expect(loadSuggestionQueue(queuePath)).toEqual(queue);
+  });
+
+  it('should refuse a corrupt queue instead of starting over', () => {
+    const queuePath = path.join(dir, '.refrepo-suggestions.json');
+    fs.writeFileSync(queuePath, '{"pending": [');
+
+    expect(() => loadSuggestionQueue(queuePath)).toThrow(/is not valid JSON .* fix or delete it/);
+    expect(() => loadSuggestionQueue(dir)).toThrow(/EISDIR/);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for tune module
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isFileDropped,
+  listDirectory,
+  listExtensions,
+  summarizeTune,
+  toggleDirectory,
+  toggleExtension,
+  tuneToPatterns,
+  type TuneState,
+} from '../src/core/tune.js';
+import { PLAN_THRESHOLDS } from '../src/core/constants.js';
+
+function createState(): TuneState {
+  return {
+    files: [
+      { path: 'README.md', bytes: 10 },
+      { path: 'src/index.ts', bytes: 100 },
+      { path: 'src/logo.svg', bytes: 50 },
+      { path: 'examples/vue/app.ts', bytes: 300 },
+      { path: 'examples/vue/app.svg', bytes: 20 },
+      { path: 'examples/react/app.tsx', bytes: 200 },
+    ],
+    droppedDirs: new Set(),
+    droppedExtensions: new Set(),
+  };
+}
+
+describe('listDirectory', () => {
+  it('lists subdirectories largest first', () => {
+    const entries = listDirectory(createState(), '');
+    expect(entries.map((e) => [e.path, e.fileCount, e.bytes, e.hasSubdirectories])).toEqual([
+      ['examples/', 3, 520, true],
+      ['src/', 2, 150, false],
+    ]);
+  });
+
+  it('lists nested directories', () => {
+    expect(listDirectory(createState(), 'examples/').map((e) => e.name)).toEqual(['vue', 'react']);
+  });
+
+  it('excludes dropped extensions and deeper drops from counts', () => {
+    const state = createState();
+    toggleExtension(state, '.svg');
+    toggleDirectory(state, 'examples/vue/');
+
+    const [examples] = listDirectory(state, '');
+    expect(examples).toMatchObject({ path: 'examples/', fileCount: 1, bytes: 200, dropped: false });
+    expect(listDirectory(state, 'examples/')[0]).toMatchObject({ name: 'vue', fileCount: 1, dropped: true });
+  });
+});
+
+describe('toggles', () => {
+  it('drops and keeps directories and extensions', () => {
+    const state = createState();
+    toggleDirectory(state, 'examples/');
+    toggleExtension(state, '.svg');
+
+    expect(summarizeTune(state, PLAN_THRESHOLDS)).toMatchObject({
+      fileCount: 2,
+      bytes: 110,
+      droppedFileCount: 4,
+      droppedBytes: 570,
+      warningLevel: 'green',
+    });
+    expect(isFileDropped(state, { path: 'src/logo.svg', bytes: 50 })).toBe(true);
+
+    toggleDirectory(state, 'examples/');
+    toggleExtension(state, '.svg');
+    expect(summarizeTune(state, PLAN_THRESHOLDS).droppedFileCount).toBe(0);
+  });
+
+  it('clears subdirectory drops covered by a parent drop', () => {
+    const state = createState();
+    toggleDirectory(state, 'examples/vue/');
+    toggleDirectory(state, 'examples/');
+    expect([...state.droppedDirs]).toEqual(['examples/']);
+  });
+
+  it('reports the warning level for the remaining files', () => {
+    const state = createState();
+    const thresholds = { ...PLAN_THRESHOLDS, maxFileCountWarning: 3 };
+    expect(summarizeTune(state, thresholds).warningLevel).toBe('yellow');
+
+    toggleDirectory(state, 'examples/');
+    expect(summarizeTune(state, thresholds).warningLevel).toBe('green');
+  });
+});
+
+describe('listExtensions', () => {
+  it('counts extensions outside dropped directories', () => {
+    const state = createState();
+    toggleDirectory(state, 'examples/');
+    expect(listExtensions(state).map((e) => [e.ext, e.fileCount])).toEqual([
+      ['.ts', 1],
+      ['.svg', 1],
+      ['.md', 1],
+    ]);
+  });
+});
+
+describe('tuneToPatterns', () => {
+  it('builds repo-relative and prefixed patterns', () => {
+    const state = createState();
+    toggleDirectory(state, 'examples/vue/');
+    toggleExtension(state, '.svg');
+
+    expect(tuneToPatterns(state)).toEqual({
+      dropPaths: ['/examples/vue/'],
+      dropExtensions: ['.svg'],
+      patterns: ['/examples/vue/', '**/*.svg'],
+    });
+    expect(tuneToPatterns(state, 'app/').patterns).toEqual(['app/examples/vue/', 'app/**/*.svg']);
+  });
+});
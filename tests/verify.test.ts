@@ -0,0 +1,39 @@
+/**
+ * Tests for mgrep dry-run verification
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseMgrepDryRun, comparePlanToMgrep } from '../src/core/verify.js';
+
+const output = [
+  'Dry run: would have uploaded /repos/app/src/index.ts',
+  'Dry run: would have uploaded app/README.md',
+  'Dry run: would have deleted /repos/app/old.ts',
+  'Dry run: found 3 files in total, would have uploaded 2 changed or new files, would have deleted 1 files',
+].join('\n');
+
+describe('parseMgrepDryRun', () => {
+  it('reads the total and per-file paths relative to the root', () => {
+    expect(parseMgrepDryRun(output, '/repos')).toEqual({
+      filesFound: 3,
+      uploadPaths: ['app/README.md', 'app/src/index.ts'],
+      deletePaths: ['app/old.ts'],
+    });
+  });
+});
+
+describe('comparePlanToMgrep', () => {
+  const dryRun = parseMgrepDryRun(output, '/repos');
+
+  it('agrees when counts and paths line up', () => {
+    const result = comparePlanToMgrep('docs', ['app/README.md', 'app/src/index.ts', 'app/lib.ts'], dryRun);
+    expect(result.agrees).toBe(true);
+  });
+
+  it('reports files only mgrep would upload and planned files it would delete', () => {
+    const result = comparePlanToMgrep('docs', ['app/src/index.ts', 'app/old.ts', 'app/lib.ts'], dryRun);
+    expect(result.agrees).toBe(false);
+    expect(result.mgrepOnly).toEqual(['app/README.md']);
+    expect(result.planOnly).toEqual(['app/old.ts']);
+  });
+});
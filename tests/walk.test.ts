@@ -0,0 +1,123 @@
+/**
+ * Tests for the async plan walker and its snapshot cache
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createLayer } from '../src/core/ignore-layers.js';
+import {
+  createLimiter,
+  createWalkSession,
+  loadWalkCache,
+  saveWalkCache,
+  walkTree,
+  type WalkCache,
+} from '../src/core/walk.js';
+
+describe('createLimiter', () => {
+  it('runs at most the given number of tasks at once', async () => {
+    const limit = createLimiter(2);
+    let active = 0;
+    let peak = 0;
+
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5].map((n) =>
+        limit(async () => {
+          active++;
+          peak = Math.max(peak, active);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          active--;
+          return n * 2;
+        })
+      )
+    );
+
+    expect(results).toEqual([2, 4, 6, 8, 10]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe('walkTree', () => {
+  let root: string;
+  const emptyCache: WalkCache = { version: 1, directories: {} };
+
+  const writeFile = (rel: string, content = 'x') => {
+    const full = path.join(root, rel);
+    fs.mkdirSync(path.dirname(full), { recursive: true });
+    fs.writeFileSync(full, content);
+  };
+
+  /** Age every directory so snapshots fall outside the racy window */
+  const ageDirectories = (dir = root) => {
+    const past = new Date(Date.now() - 60_000);
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.isDirectory()) ageDirectories(path.join(dir, entry.name));
+    }
+    fs.utimesSync(dir, past, past);
+  };
+
+  const walk = (cache = emptyCache, layers = [createLayer('', '(generated)', 'dist/\n')]) => {
+    const session = createWalkSession(cache);
+    return walkTree(path.join(root, 'repo'), layers, {
+      prefix: 'repo',
+      maxFileSize: 1_000,
+      limit: createLimiter(4),
+      cache: session,
+    }).then((result) => ({ ...result, session }));
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-walk-'));
+    writeFile('repo/README.md');
+    writeFile('repo/src/index.ts');
+    writeFile('repo/src/big.ts', 'x'.repeat(2_000));
+    writeFile('repo/dist/bundle.js');
+    writeFile('repo/.git/HEAD');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('returns sorted files and prunes ignored and hidden directories', async () => {
+    const { files, session } = await walk();
+    expect(files).toEqual([
+      { path: 'README.md', bytes: 1 },
+      { path: 'src/index.ts', bytes: 1 },
+    ]);
+    expect(session.stats).toEqual({ directoriesRead: 2, directoriesCached: 0 });
+  });
+
+  it('reuses unchanged directories from the cache', async () => {
+    ageDirectories();
+    const first = await walk();
+    const second = await walk(first.session.toCache());
+
+    expect(second.files).toEqual(first.files);
+    expect(second.session.stats).toEqual({ directoriesRead: 0, directoriesCached: 2 });
+  });
+
+  it('re-reads directories whose mtime changed', async () => {
+    ageDirectories();
+    const first = await walk();
+    writeFile('repo/src/added.ts');
+
+    const second = await walk(first.session.toCache());
+    expect(second.files.map((f) => f.path)).toContain('src/added.ts');
+    expect(second.session.stats).toEqual({ directoriesRead: 1, directoriesCached: 1 });
+  });
+
+  it('does not cache directories modified during the racy window', async () => {
+    const first = await walk();
+    expect(first.session.toCache().directories).toEqual({});
+  });
+
+  it('round-trips the cache through the index root', async () => {
+    ageDirectories();
+    const { session } = await walk();
+    saveWalkCache(root, session.toCache());
+    expect(Object.keys(loadWalkCache(root).directories)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Tests for watch mode cycles and status files
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  appendWatchLog,
+  isWatchRunning,
+  loadWatchStatus,
+  runWatchCycle,
+  saveWatchStatus,
+  type WatchMgrep,
+  type WatchStatus,
+} from '../src/core/watch.js';
+import type { Manifest } from '../src/core/types.js';
+
+function createFakeMgrep(): WatchMgrep & { calls: string[] } {
+  let running = false;
+  const calls: string[] = [];
+  return {
+    calls,
+    isRunning: () => running,
+    start: () => {
+      calls.push('start');
+      running = true;
+    },
+    stop: async () => {
+      calls.push('stop');
+      running = false;
+    },
+  };
+}
+
+describe('watch status', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-watch-status-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const status = (overrides: Partial<WatchStatus> = {}): WatchStatus => ({
+    pid: process.pid,
+    store: 'test',
+    intervalSeconds: 60,
+    startedAt: '2026-10-19T10:00:00.000Z',
+    updatedAt: '2026-10-19T10:00:00.000Z',
+    state: 'watching',
+    cycles: 1,
+    ...overrides,
+  });
+
+  it('round-trips the status file', () => {
+    const statusPath = path.join(dir, '.refrepo-watch.json');
+    expect(loadWatchStatus(statusPath)).toBeNull();
+    saveWatchStatus(status(), statusPath);
+    expect(loadWatchStatus(statusPath)).toEqual(status());
+  });
+
+  it('treats stopped watches and dead processes as not running', () => {
+    expect(isWatchRunning(null)).toBe(false);
+    expect(isWatchRunning(status())).toBe(true);
+    expect(isWatchRunning(status({ state: 'stopped' }))).toBe(false);
+
+    const exited = execFileSync(process.execPath, ['-e', 'process.stdout.write(String(process.pid))']).toString();
+    expect(isWatchRunning(status({ pid: parseInt(exited, 10) }))).toBe(false);
+  });
+
+  it('appends timestamped log lines', () => {
+    const logPath = path.join(dir, '.refrepo-watch.log');
+    appendWatchLog('first', logPath, new Date('2026-10-19T10:00:00.000Z'));
+    appendWatchLog('second', logPath, new Date('2026-10-19T10:15:00.000Z'));
+    expect(fs.readFileSync(logPath, 'utf-8')).toBe(
+      '2026-10-19T10:00:00.000Z first\n2026-10-19T10:15:00.000Z second\n'
+    );
+  });
+});
+
+describe('runWatchCycle', () => {
+  let dir: string;
+  let upstream: string;
+  let root: string;
+
+  const git = (cwd: string, ...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd, stdio: 'pipe' });
+
+  const commitUpstream = (file: string, content = 'export const x = 1;\n') => {
+    fs.mkdirSync(path.dirname(path.join(upstream, file)), { recursive: true });
+    fs.writeFileSync(path.join(upstream, file), content);
+    git(upstream, 'add', '.');
+    git(upstream, 'commit', '-q', '-m', `add ${file}`);
+  };
+
+  const manifest = (thresholds?: Manifest['thresholds']): Manifest => ({
+    version: 1,
+    defaultRoot: root,
+    defaultStore: 'test',
+    thresholds,
+    repos: [
+      {
+        id: 'app',
+        name: 'App',
+        url: 'https://github.com/org/app.git',
+        branch: 'main',
+        category: 'source',
+        localDir: 'app',
+        enabled: true,
+      },
+    ],
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'refrepo-watch-'));
+    upstream = path.join(dir, 'upstream');
+    root = path.join(dir, 'repos');
+    fs.mkdirSync(upstream);
+    fs.mkdirSync(root);
+    git(upstream, 'init', '-q', '-b', 'main');
+    commitUpstream('src/index.ts');
+    git(root, 'clone', '-q', upstream, 'app');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes .mgrepignore and starts mgrep on the first cycle', async () => {
+    const mgrep = createFakeMgrep();
+    const { result, plan } = await runWatchCycle(manifest(), { store: 'test', mgrep });
+
+    expect(result).toMatchObject({ gate: 'passed', warningLevel: 'green', mgrep: 'started', pulled: [], ignoreChanged: true });
+    expect(result.repos).toEqual([{ repoId: 'app', action: 'unchanged', behind: 0 }]);
+    expect(plan?.allFiles).toContain('app/src/index.ts');
+    expect(fs.existsSync(path.join(root, '.mgrepignore'))).toBe(true);
+    expect(mgrep.calls).toEqual(['start']);
+  });
+
+  it('leaves mgrep running when nothing changed', async () => {
+    const mgrep = createFakeMgrep();
+    await runWatchCycle(manifest(), { store: 'test', mgrep });
+    const { result, plan } = await runWatchCycle(manifest(), { store: 'test', mgrep });
+
+    expect(result).toMatchObject({ gate: 'unchanged', mgrep: 'running', ignoreChanged: false });
+    expect(plan).toBeUndefined();
+    expect(mgrep.calls).toEqual(['start']);
+  });
+
+  it('stops mgrep, pulls and restarts when upstream moved', async () => {
+    const mgrep = createFakeMgrep();
+    await runWatchCycle(manifest(), { store: 'test', mgrep });
+    commitUpstream('src/new.ts');
+
+    const { result, plan } = await runWatchCycle(manifest(), { store: 'test', mgrep });
+
+    expect(result).toMatchObject({ gate: 'passed', mgrep: 'restarted', pulled: ['app'] });
+    expect(result.repos[0]).toMatchObject({ action: 'pulled', behind: 1 });
+    expect(plan?.allFiles).toContain('app/src/new.ts');
+    expect(mgrep.calls).toEqual(['start', 'stop', 'start']);
+  });
+
+  it('keeps mgrep stopped while the plan is red', async () => {
+    const mgrep = createFakeMgrep();
+    await runWatchCycle(manifest(), { store: 'test', mgrep });
+    commitUpstream('src/new.ts');
+
+    const red = manifest({ maxFileCountWarning: 1, maxFileCountError: 1 });
+    const blocked = await runWatchCycle(red, { store: 'test', mgrep });
+    expect(blocked.result).toMatchObject({ gate: 'blocked', warningLevel: 'red', mgrep: 'stopped', pulled: ['app'] });
+    expect(mgrep.calls).toEqual(['start', 'stop']);
+
+    // Retried every cycle until the plan passes again
+    const resumed = await runWatchCycle(manifest(), { store: 'test', mgrep });
+    expect(resumed.result).toMatchObject({ gate: 'passed', mgrep: 'started', pulled: [] });
+  });
+
+  it('leaves repos on a detached HEAD alone', async () => {
+    git(path.join(root, 'app'), 'checkout', '-q', '--detach');
+    commitUpstream('src/new.ts');
+    const mgrep = createFakeMgrep();
+
+    const { result } = await runWatchCycle(manifest(), { store: 'test', mgrep });
+    expect(result).toMatchObject({ gate: 'passed', mgrep: 'started', pulled: [] });
+    expect(result.repos).toEqual([
+      { repoId: 'app', action: 'locked', error: 'Detached HEAD - run `refrepo sync` to follow main' },
+    ]);
+    expect(fs.existsSync(path.join(root, 'app', 'src', 'new.ts'))).toBe(false);
+  });
+
+  it('skips pinned and missing repos', async () => {
+    const m = manifest();
+    m.repos[0].ref = 'v1.0.0';
+    m.repos.push({ ...m.repos[0], id: 'gone', localDir: 'gone', ref: undefined });
+
+    const { result } = await runWatchCycle(m, { store: 'test', mgrep: createFakeMgrep() });
+    expect(result.repos).toEqual([
+      { repoId: 'app', action: 'pinned' },
+      { repoId: 'gone', action: 'skipped', error: 'Not cloned - run `refrepo sync`' },
+    ]);
+  });
+});